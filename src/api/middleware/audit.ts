@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { runWithAuditContext } from "../../utils/audit-context.js";
+import { AuditSource } from "../../models/audit-event.model.js";
+import { isApiAuthEnabled } from "../../services/api-key.service.js";
+
+/**
+ * Attribute the changes a request makes to its user: the user of its API key, or when
+ * API keys are disabled the X-User-Id header or the userId / reviewerId of the request body.
+ * With API keys enabled, requests without a key stay anonymous rather than trusting the user they name.
+ */
+export const auditContext: RequestHandler = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const claimed = isApiAuthEnabled() ? undefined : req.header("x-user-id") || req.body?.userId || req.body?.reviewerId;
+  const actor = req.auth?.userId || claimed || "anonymous";
+
+  runWithAuditContext(
+    {
+      actor: String(actor),
+      source: AuditSource.Rest,
+      request: `${req.method} ${req.originalUrl.split("?")[0]}`
+    },
+    () => next()
+  );
+};
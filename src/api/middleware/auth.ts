@@ -0,0 +1,203 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { ApiKeyService, isApiAuthEnabled } from "../../services/api-key.service.js";
+import { BrandReference, BrandScopeService } from "../../services/brand-scope.service.js";
+import { AuthContext, Permission, ROLE_PERMISSIONS } from "../../models/api-key.model.js";
+import { Content } from "../../models/content.model.js";
+import { Plan } from "../../models/plan.model.js";
+import { BadRequestError, ForbiddenError, UnauthorizedError } from "../../utils/errors.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Identity of the API key the request was made with
+      auth?: AuthContext;
+    }
+  }
+}
+
+const apiKeyService = new ApiKeyService();
+const brandScopeService = new BrandScopeService();
+
+/**
+ * Resolve the `Authorization: Bearer <key>` header to the user and role of the key
+ */
+export const authenticate: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!isApiAuthEnabled()) {
+    next();
+    return;
+  }
+
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.header("authorization") || "");
+  if (!match) {
+    next(new UnauthorizedError("An API key is required: send it as 'Authorization: Bearer <key>'"));
+    return;
+  }
+
+  try {
+    const auth = await apiKeyService.authenticate(match[1]);
+    if (!auth) {
+      next(new UnauthorizedError("Invalid, expired or revoked API key"));
+      return;
+    }
+
+    req.auth = auth;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Require the role of the request's API key to grant a permission
+ */
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!isApiAuthEnabled()) {
+      next();
+      return;
+    }
+
+    if (!req.auth || !ROLE_PERMISSIONS[req.auth.role].includes(permission)) {
+      next(new ForbiddenError(`This API key does not have the ${permission} permission`, {
+        role: req.auth?.role,
+        permission
+      }));
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Require an API key that isn't limited to specific brands, for resources
+ * shared by all brands
+ */
+export const requireAllBrands: RequestHandler = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.auth?.brandIds) {
+    next(new ForbiddenError("This API key is limited to specific brands"));
+    return;
+  }
+  next();
+};
+
+/**
+ * User a request acts as: the user of its API key, or without authentication the
+ * user the request names. Naming a user other than the API key's is rejected.
+ * @param claimed user ID given in the request, e.g. its userId or reviewerId
+ */
+export function actingUser(req: Request, claimed: string | undefined): string {
+  if (req.auth) {
+    if (claimed && claimed !== req.auth.userId) {
+      throw new ForbiddenError(`This API key acts as user ${req.auth.userId}, not ${claimed}`);
+    }
+    return req.auth.userId;
+  }
+  if (!claimed) {
+    throw new BadRequestError("A user ID is required when API keys are disabled");
+  }
+  return claimed;
+}
+
+/**
+ * Whether the request's API key may access a brand
+ */
+export function hasBrandAccess(req: Request, brandId: string | undefined): boolean {
+  if (!req.auth?.brandIds) return true;
+  return !!brandId && req.auth.brandIds.includes(brandId);
+}
+
+/**
+ * Route parameter handler checking that the entity named by the parameter
+ * belongs to a brand the request's API key may access
+ * @param resolveBrandId resolves the parameter value to a brand ID
+ */
+export function brandAccess(resolveBrandId: (value: string) => Promise<string | undefined>) {
+  return async (req: Request, res: Response, next: NextFunction, value: string): Promise<void> => {
+    if (!req.auth?.brandIds) {
+      next();
+      return;
+    }
+
+    try {
+      if (!hasBrandAccess(req, await resolveBrandId(value))) {
+        next(new ForbiddenError("This API key does not have access to this brand"));
+        return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Brand resolvers for route parameters naming brands, campaigns, plans and content
+export const brandOfBrand = async (brandId: string) => brandId;
+export const brandOfCampaign = (campaignId: string) => brandScopeService.getCampaignBrandId(campaignId);
+export const brandOfPlan = (planId: string) => brandScopeService.getPlanBrandId(planId);
+export const brandOfContent = (contentId: string) => brandScopeService.getContentBrandId(contentId);
+
+/**
+ * Check that the parent an entity is created under (the brandId, campaignId,
+ * masterPlanId or microPlanId of the body, or their names) belongs to a brand
+ * the request's API key may access
+ */
+export const requireBrandReference: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.auth?.brandIds) {
+    next();
+    return;
+  }
+
+  try {
+    const brandId = await brandScopeService.resolveReference((req.body || {}) as BrandReference);
+    if (!hasBrandAccess(req, brandId)) {
+      next(new ForbiddenError("This API key does not have access to this brand"));
+      return;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Keep the items of a list the request's API key may access
+ */
+export function filterByBrand<T>(req: Request, items: T[], brandIdOf: (item: T) => string | undefined): T[] {
+  if (!req.auth?.brandIds) return items;
+  return items.filter(item => hasBrandAccess(req, brandIdOf(item)));
+}
+
+/**
+ * Keep the items of a list the request's API key may access, resolving the brand of each item
+ */
+export async function filterByResolvedBrand<T>(
+  req: Request,
+  items: T[],
+  resolveBrandId: (item: T) => Promise<string | undefined>
+): Promise<T[]> {
+  if (!req.auth?.brandIds) return items;
+  const allowed = await Promise.all(items.map(async item => hasBrandAccess(req, await resolveBrandId(item))));
+  return items.filter((_, index) => allowed[index]);
+}
+
+export async function filterPlansByBrand<T extends Plan>(req: Request, plans: T[]): Promise<T[]> {
+  if (!req.auth?.brandIds) return plans;
+  return await brandScopeService.filterPlans(plans, req.auth.brandIds);
+}
+
+export async function filterContentByBrand(req: Request, content: Content[]): Promise<Content[]> {
+  if (!req.auth?.brandIds) return content;
+  return await brandScopeService.filterContent(content, req.auth.brandIds);
+}
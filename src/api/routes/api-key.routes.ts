@@ -0,0 +1,194 @@
+import { Router, RequestHandler } from "express";
+import { body, param } from "express-validator";
+import { ApiKeyService } from "../../services/api-key.service.js";
+import { validateRequest } from "../middleware/validate.js";
+import { sanitizeBody } from "../middleware/transform.js";
+import { requireAllBrands, requirePermission } from "../middleware/auth.js";
+import { ApiKeyCreationSchema, ApiKeyRole, Permission } from "../../models/api-key.model.js";
+
+const router = Router();
+const apiKeyService = new ApiKeyService();
+
+// Managing API keys takes an admin key that isn't limited to specific brands
+router.use(requirePermission(Permission.Admin), requireAllBrands);
+
+/**
+ * @swagger
+ * /api/v1/api-keys:
+ *   get:
+ *     summary: List all API keys
+ *     tags: [API Keys]
+ *     responses:
+ *       200:
+ *         description: List of API keys (without the keys themselves)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ */
+const getAllApiKeysHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const apiKeys = await apiKeyService.listKeys();
+    void res.json(apiKeys);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/api-keys/{id}:
+ *   get:
+ *     summary: Get an API key by ID
+ *     tags: [API Keys]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key details (without the key itself)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKey'
+ *       404:
+ *         description: API key not found
+ */
+const getApiKeyByIdHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const apiKey = await apiKeyService.getKey(req.params.id as string);
+    if (!apiKey) {
+      void res.status(404).json({ message: "API key not found" });
+      return;
+    }
+    void res.json(apiKey);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/api-keys:
+ *   post:
+ *     summary: Issue an API key
+ *     description: The key is only returned in this response; the CMS stores a hash of it.
+ *     tags: [API Keys]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - userId
+ *               - role
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: What the key is used for
+ *               userId:
+ *                 type: string
+ *                 description: User the key acts for
+ *               role:
+ *                 type: string
+ *                 enum: [viewer, editor, approver, admin]
+ *               brandIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Brands the key is limited to (all brands if omitted)
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the key stops working (never if omitted)
+ *     responses:
+ *       201:
+ *         description: API key issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 key:
+ *                   type: string
+ *                   description: The API key, to send as 'Authorization: Bearer <key>'
+ *                 apiKey:
+ *                   $ref: '#/components/schemas/ApiKey'
+ *       400:
+ *         description: Invalid input
+ */
+const issueApiKeyHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const parsed = ApiKeyCreationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      void res.status(400).json({ errors: parsed.error.errors });
+      return;
+    }
+
+    const issued = await apiKeyService.issueKey(parsed.data, req.auth?.userId);
+    void res.status(201).json(issued);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     description: Requests made with the key are rejected from then on. The key stays listed with its revocation date.
+ *     tags: [API Keys]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKey'
+ *       404:
+ *         description: API key not found
+ */
+const revokeApiKeyHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const apiKey = await apiKeyService.revokeKey(req.params.id as string);
+    void res.json(apiKey);
+  } catch (error) {
+    next(error);
+  }
+};
+
+router.get("/", getAllApiKeysHandler);
+router.get("/:id", param("id").isString(), validateRequest, getApiKeyByIdHandler);
+router.post(
+  "/",
+  [
+    sanitizeBody(["name", "userId", "role", "brandIds", "expiresAt"]),
+    body("name").isString().notEmpty(),
+    body("userId").isString().notEmpty(),
+    body("role").isIn(Object.values(ApiKeyRole)),
+    body("brandIds").optional().isArray({ min: 1 }),
+    body("brandIds.*").optional().isString(),
+    body("expiresAt").optional().isISO8601()
+  ],
+  validateRequest,
+  issueApiKeyHandler
+);
+router.delete("/:id", param("id").isString(), validateRequest, revokeApiKeyHandler);
+
+export const apiKeyRoutes = router;
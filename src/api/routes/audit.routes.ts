@@ -0,0 +1,103 @@
+import { Router, RequestHandler } from "express";
+import { query } from "express-validator";
+import { AuditService } from "../../services/audit.service.js";
+import { validateRequest } from "../middleware/validate.js";
+import { AuditSource } from "../../models/audit-event.model.js";
+import { requireAllBrands, requirePermission } from "../middleware/auth.js";
+import { Permission } from "../../models/api-key.model.js";
+
+const router = Router();
+const auditService = new AuditService();
+
+/**
+ * @swagger
+ * /api/v1/audit-events:
+ *   get:
+ *     summary: Query the audit log
+ *     description: Every create, update and delete of brands, campaigns, plans, content, media and credentials, with who made it, where from, and the changed fields. Newest first.
+ *     tags: [Audit]
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *         description: Collection of the changed entity (e.g. contents, brands, campaigns, plans)
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *         description: ID of the changed entity
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: User who made the change
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [rest, mcp, system]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return changes made at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return changes made at or before this time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1000
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Matching audit events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditEvent'
+ */
+const getAuditEventsHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const events = await auditService.getEvents({
+      entityType: req.query.entityType as string | undefined,
+      entityId: req.query.entityId as string | undefined,
+      actor: req.query.actor as string | undefined,
+      source: req.query.source as AuditSource | undefined,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+    });
+    void res.json(events);
+  } catch (error) {
+    next(error);
+  }
+};
+
+router.get(
+  "/",
+  requirePermission(Permission.Admin),
+  requireAllBrands,
+  [
+    query("entityType").optional().isString(),
+    query("entityId").optional().isString(),
+    query("actor").optional().isString(),
+    query("source").optional().isIn(Object.values(AuditSource)),
+    query("from").optional().isISO8601(),
+    query("to").optional().isISO8601(),
+    query("limit").optional().isInt({ min: 1, max: 1000 }),
+  ],
+  validateRequest,
+  getAuditEventsHandler
+);
+
+export const auditRoutes = router;
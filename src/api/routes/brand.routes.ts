@@ -1,12 +1,22 @@
 import { Router, RequestHandler } from "express";
-import { body, param } from "express-validator";
+import { body, param, query } from "express-validator";
 import { BrandService } from "../../services/brand.service.js";
 import { validateRequest } from "../middleware/validate.js";
 import { sanitizeBody, transformCasing } from "../middleware/transform.js";
-import { BrandUpdateSchema } from "../../models/brand.model.js";
+import { BrandUpdateSchema, SchedulingRulesSchema } from "../../models/brand.model.js";
+import { CredentialService } from "../../services/credential.service.js";
+import { TwitterConnectSchema } from "../../models/credential.model.js";
+import { brandAccess, brandOfBrand, filterByBrand, requireAllBrands, requirePermission } from "../middleware/auth.js";
+import { Permission } from "../../models/api-key.model.js";
+import { DeletableEntity, DeleteMode } from "../../models/integrity.model.js";
+import { DeletionService } from "../../services/deletion.service.js";
+import { SchedulingRulesService } from "../../services/scheduling-rules.service.js";
 
 const router = Router();
 const brandService = new BrandService();
+const credentialService = new CredentialService();
+const deletionService = new DeletionService();
+const schedulingRulesService = new SchedulingRulesService();
 
 /**
  * @swagger
@@ -29,7 +39,7 @@ const brandService = new BrandService();
 const getAllBrandsHandler: RequestHandler = async (req, res, next) => {
   try {
     const brands = await brandService.getAllBrands();
-    void res.json(brands);
+    void res.json(filterByBrand(req, brands, brand => brand._id));
   } catch (error) {
     next(error);
   }
@@ -124,6 +134,8 @@ const getBrandByIdHandler: RequestHandler = async (req, res, next) => {
  *                       secondaryColor:
  *                         type: string
  *                         description: Secondary brand color
+ *               schedulingRules:
+ *                 $ref: '#/components/schemas/SchedulingRules'
  *     responses:
  *       201:
  *         description: Brand created successfully
@@ -138,6 +150,15 @@ const getBrandByIdHandler: RequestHandler = async (req, res, next) => {
  */
 const createBrandHandler: RequestHandler = async (req, res, next) => {
   try {
+    if (req.body.schedulingRules) {
+      const parsed = SchedulingRulesSchema.safeParse(req.body.schedulingRules);
+      if (!parsed.success) {
+        void res.status(400).json({ errors: parsed.error.errors });
+        return;
+      }
+      req.body.schedulingRules = parsed.data;
+    }
+
     const brand = await brandService.createBrand(req.body);
     void res.status(201).json(brand);
   } catch (error) {
@@ -200,6 +221,8 @@ const createBrandHandler: RequestHandler = async (req, res, next) => {
  *                       secondaryColor:
  *                         type: string
  *                         description: Secondary brand color
+ *               schedulingRules:
+ *                 $ref: '#/components/schemas/SchedulingRules'
  *     responses:
  *       200:
  *         description: Brand updated successfully
@@ -230,10 +253,342 @@ const updateBrandHandler: RequestHandler = async (req, res, next) => {
   }
 };
 
-router.get("/", getAllBrandsHandler);
-router.get("/:id", param("id").isString(), validateRequest, getBrandByIdHandler);
+/**
+ * @swagger
+ * /api/v1/brands/{id}/channels/twitter:
+ *   get:
+ *     summary: Get the Twitter account connected to a brand
+ *     tags: [Brands]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Brand ID
+ *     responses:
+ *       200:
+ *         description: Connected account (secrets are never returned)
+ *       404:
+ *         description: No Twitter account connected
+ *       500:
+ *         description: Internal server error
+ */
+const getTwitterAccountHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const account = await credentialService.getTwitterAccount(req.params.id as string);
+    if (!account) {
+      void res.status(404).json({ message: "No Twitter account connected" });
+      return;
+    }
+    void res.json(account);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/brands/{id}/channels/twitter:
+ *   put:
+ *     summary: Connect a Twitter account to a brand
+ *     description: Stores the account credentials encrypted, replacing any previously connected account. Either password or cookies must be provided.
+ *     tags: [Brands]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Brand ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - username
+ *             properties:
+ *               username:
+ *                 type: string
+ *                 description: Twitter username
+ *               password:
+ *                 type: string
+ *                 description: Account password
+ *               email:
+ *                 type: string
+ *                 description: Account email
+ *               twoFactorSecret:
+ *                 type: string
+ *                 description: TOTP secret for two-factor authentication
+ *               cookies:
+ *                 type: array
+ *                 description: Session cookies (e.g., auth_token, ct0)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *                     value:
+ *                       type: string
+ *                     domain:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Account connected
+ *       400:
+ *         description: Invalid input data
+ *       404:
+ *         description: Brand not found
+ *       500:
+ *         description: Internal server error
+ */
+const connectTwitterAccountHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const parsed = TwitterConnectSchema.safeParse(req.body);
+    if (!parsed.success) {
+      void res.status(400).json({ errors: parsed.error.errors });
+      return;
+    }
+
+    const account = await credentialService.connectTwitterAccount(req.params.id as string, parsed.data);
+    void res.json(account);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/brands/{id}/channels/twitter:
+ *   delete:
+ *     summary: Disconnect the Twitter account of a brand
+ *     tags: [Brands]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Brand ID
+ *     responses:
+ *       204:
+ *         description: Account disconnected
+ *       404:
+ *         description: No Twitter account connected
+ *       500:
+ *         description: Internal server error
+ */
+const disconnectTwitterAccountHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const deleted = await credentialService.disconnectTwitterAccount(req.params.id as string);
+    if (!deleted) {
+      void res.status(404).json({ message: "No Twitter account connected" });
+      return;
+    }
+    void res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/brands/{id}/channels/twitter/verify:
+ *   post:
+ *     summary: Verify the Twitter account of a brand
+ *     description: Logs in with the stored credentials and records the connection status.
+ *     tags: [Brands]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Brand ID
+ *     responses:
+ *       200:
+ *         description: Verification result (status is connected or error)
+ *       404:
+ *         description: No Twitter account connected
+ *       500:
+ *         description: Internal server error
+ */
+const verifyTwitterAccountHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const account = await credentialService.verifyTwitterAccount(req.params.id as string);
+    void res.json(account);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/brands/{id}:
+ *   delete:
+ *     summary: Delete a brand
+ *     description: Moves the brand with its campaigns, plans and content to the trash, or deletes it permanently in block and cascade mode. In cascade mode its campaigns, plans and content are permanently deleted with it, along with the content's media and history and the brand's channel credentials.
+ *     tags: [Brands]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Brand ID
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [block, cascade, soft]
+ *           default: soft
+ *         description: soft moves the brand and everything that belongs to it to the trash, block deletes it permanently but refuses while campaigns or content exist, cascade permanently deletes them too
+ *     responses:
+ *       200:
+ *         description: Deletion result with the number of documents removed
+ *       404:
+ *         description: Brand not found
+ *       409:
+ *         description: The brand still has campaigns or content (block mode)
+ *       500:
+ *         description: Internal server error
+ */
+const deleteBrandHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const result = await brandService.deleteBrand(req.params.id as string, req.query.mode as DeleteMode | undefined);
+    void res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/brands/trash:
+ *   get:
+ *     summary: List deleted brands
+ *     description: Brands in the trash, most recently deleted first, with when they will be purged.
+ *     tags: [Brands]
+ *     responses:
+ *       200:
+ *         description: Brands in the trash
+ *       500:
+ *         description: Internal server error
+ */
+const getBrandTrashHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const items = await deletionService.listTrash(DeletableEntity.Brand);
+    void res.json(filterByBrand(req, items, item => item.entityId));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/brands/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted brand
+ *     description: Restores the brand from the trash with the campaigns, plans and content deleted together with it.
+ *     tags: [Brands]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Brand ID
+ *     responses:
+ *       200:
+ *         description: Restore result with the number of documents restored
+ *       400:
+ *         description: The brand is not deleted
+ *       404:
+ *         description: Brand not found
+ *       500:
+ *         description: Internal server error
+ */
+const restoreBrandHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const result = await deletionService.restore(DeletableEntity.Brand, req.params.id as string);
+    void res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/brands/{id}/schedule-conflicts:
+ *   get:
+ *     summary: Report scheduled content breaking the brand's scheduling rules
+ *     description: Checks the content scheduled in a date range against the brand's scheduling rules (minimum gap, posts per day, blackout windows and allowed hours). Posts conflicting with earlier ones are reported with the next slot meeting the rules.
+ *     tags: [Brands]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Brand ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range (defaults to now)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range (defaults to 30 days after the start, at most 90 days after it)
+ *     responses:
+ *       200:
+ *         description: Conflict report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleConflictReport'
+ *       400:
+ *         description: Invalid date range
+ *       404:
+ *         description: Brand not found
+ *       500:
+ *         description: Internal server error
+ */
+const getScheduleConflictsHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const report = await schedulingRulesService.getConflictReport(
+      req.params.id as string,
+      req.query.from ? new Date(req.query.from as string) : undefined,
+      req.query.to ? new Date(req.query.to as string) : undefined
+    );
+    void res.json(report);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// API keys limited to specific brands only reach those brands
+router.param("id", brandAccess(brandOfBrand));
+
+router.get("/", requirePermission(Permission.Read), getAllBrandsHandler);
+router.get("/trash", requirePermission(Permission.Read), getBrandTrashHandler);
+router.get("/:id", requirePermission(Permission.Read), param("id").isString(), validateRequest, getBrandByIdHandler);
+router.get(
+  "/:id/schedule-conflicts",
+  requirePermission(Permission.Read),
+  [param("id").isString(), query("from").optional().isISO8601(), query("to").optional().isISO8601()],
+  validateRequest,
+  getScheduleConflictsHandler
+);
 router.post(
   "/",
+  requirePermission(Permission.Admin),
+  requireAllBrands,
   [
     // Apply middleware to transform snake_case to camelCase 
     transformCasing({
@@ -255,7 +610,8 @@ router.post(
       "guidelines.narratives", "guidelines.narratives.elevatorPitch",
       "guidelines.narratives.shortNarrative", "guidelines.narratives.fullNarrative",
       "guidelines.keyMessages", "guidelines.keyMessages[].audienceSegment",
-      "guidelines.keyMessages[].message"
+      "guidelines.keyMessages[].message",
+      "schedulingRules"
     ]),
     body("name").isString().notEmpty(),
     body("description").isString().notEmpty(),
@@ -272,13 +628,15 @@ router.post(
     body("guidelines.narratives.fullNarrative").optional().isString(),
     body("guidelines.keyMessages").optional().isArray(),
     body("guidelines.keyMessages.*.audienceSegment").optional().isString(),
-    body("guidelines.keyMessages.*.message").optional().isString()
+    body("guidelines.keyMessages.*.message").optional().isString(),
+    body("schedulingRules").optional().isObject()
   ],
   validateRequest,
   createBrandHandler
 );
 router.put(
   "/:id",
+  requirePermission(Permission.Write),
   [
     transformCasing({
       "guidelines.avoided_terms": "guidelines.avoidedTerms",
@@ -298,7 +656,8 @@ router.put(
       "guidelines.narratives", "guidelines.narratives.elevatorPitch",
       "guidelines.narratives.shortNarrative", "guidelines.narratives.fullNarrative",
       "guidelines.keyMessages", "guidelines.keyMessages[].audienceSegment",
-      "guidelines.keyMessages[].message"
+      "guidelines.keyMessages[].message",
+      "schedulingRules"
     ]),
     param("id").isString(),
     body("name").optional().isString(),
@@ -316,10 +675,43 @@ router.put(
     body("guidelines.narratives.fullNarrative").optional().isString(),
     body("guidelines.keyMessages").optional().isArray(),
     body("guidelines.keyMessages.*.audienceSegment").optional().isString(),
-    body("guidelines.keyMessages.*.message").optional().isString()
+    body("guidelines.keyMessages.*.message").optional().isString(),
+    body("schedulingRules").optional().isObject()
   ],
   validateRequest,
   updateBrandHandler
 );
 
+router.get("/:id/channels/twitter", requirePermission(Permission.Read), param("id").isString(), validateRequest, getTwitterAccountHandler);
+router.put(
+  "/:id/channels/twitter",
+  requirePermission(Permission.Admin),
+  [
+    transformCasing({
+      "two_factor_secret": "twoFactorSecret"
+    }),
+    sanitizeBody(["username", "password", "email", "twoFactorSecret", "cookies"]),
+    param("id").isString(),
+    body("username").isString().notEmpty(),
+    body("password").optional().isString(),
+    body("email").optional().isEmail(),
+    body("twoFactorSecret").optional().isString(),
+    body("cookies").optional().isArray(),
+    body("cookies.*.key").optional().isString(),
+    body("cookies.*.value").optional().isString()
+  ],
+  validateRequest,
+  connectTwitterAccountHandler
+);
+router.delete(
+  "/:id",
+  requirePermission(Permission.Admin),
+  [param("id").isString(), query("mode").optional().isIn(Object.values(DeleteMode))],
+  validateRequest,
+  deleteBrandHandler
+);
+router.post("/:id/restore", requirePermission(Permission.Admin), param("id").isString(), validateRequest, restoreBrandHandler);
+router.delete("/:id/channels/twitter", requirePermission(Permission.Admin), param("id").isString(), validateRequest, disconnectTwitterAccountHandler);
+router.post("/:id/channels/twitter/verify", requirePermission(Permission.Admin), param("id").isString(), validateRequest, verifyTwitterAccountHandler);
+
 export const brandRoutes = router;
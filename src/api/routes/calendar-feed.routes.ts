@@ -0,0 +1,224 @@
+import { Router, RequestHandler, Request } from "express";
+import { body, param, query } from "express-validator";
+import { CalendarFeedService } from "../../services/calendar-feed.service.js";
+import { validateRequest } from "../middleware/validate.js";
+import { sanitizeBody } from "../middleware/transform.js";
+import { brandAccess, brandOfCampaign, filterByResolvedBrand, requireBrandReference, requirePermission } from "../middleware/auth.js";
+import { CalendarFeedCreationSchema } from "../../models/calendar-feed.model.js";
+import { Permission } from "../../models/api-key.model.js";
+
+const router = Router();
+const feedRouter = Router();
+const calendarFeedService = new CalendarFeedService();
+
+const brandOfFeed = async (feedId: string) => {
+  const feed = await calendarFeedService.getFeed(feedId);
+  if (!feed) return undefined;
+  return feed.brandId || await brandOfCampaign(feed.campaignId!);
+};
+
+// Feed URLs point at PUBLIC_BASE_URL, or at the server the request was made to
+const baseUrlOf = (req: Request) => process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get("host")}`;
+
+// API keys limited to specific brands only reach the feeds of those brands
+router.param("id", brandAccess(brandOfFeed));
+
+/**
+ * @swagger
+ * /api/v1/calendar-feeds:
+ *   get:
+ *     summary: List calendar feeds
+ *     tags: [Calendar Feeds]
+ *     parameters:
+ *       - in: query
+ *         name: brandId
+ *         schema:
+ *           type: string
+ *         description: Only list the feeds of a brand
+ *       - in: query
+ *         name: campaignId
+ *         schema:
+ *           type: string
+ *         description: Only list the feeds of a campaign
+ *     responses:
+ *       200:
+ *         description: List of calendar feeds (without their tokens)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/CalendarFeed'
+ */
+const getAllFeedsHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const feeds = await calendarFeedService.listFeeds({
+      brandId: req.query.brandId as string | undefined,
+      campaignId: req.query.campaignId as string | undefined
+    });
+    void res.json(await filterByResolvedBrand(req, feeds, async feed => feed.brandId || await brandOfCampaign(feed.campaignId!)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/calendar-feeds:
+ *   post:
+ *     summary: Create a calendar feed
+ *     description: Creates a subscribable iCalendar feed of the scheduled content, campaign milestones and plan timeline events of a brand or campaign. The feed URL contains a secret token that is only returned now; anyone with the URL can read the feed until it is revoked.
+ *     tags: [Calendar Feeds]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Calendar name shown by calendar clients
+ *               brandId:
+ *                 type: string
+ *                 description: Brand whose calendar the feed shows (either brandId or campaignId required)
+ *               campaignId:
+ *                 type: string
+ *                 description: Campaign whose calendar the feed shows (either brandId or campaignId required)
+ *     responses:
+ *       201:
+ *         description: Calendar feed created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                   description: The feed token
+ *                 url:
+ *                   type: string
+ *                   description: URL to subscribe to in a calendar client
+ *                 feed:
+ *                   $ref: '#/components/schemas/CalendarFeed'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Brand or campaign not found
+ */
+const createFeedHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const parsed = CalendarFeedCreationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      void res.status(400).json({ errors: parsed.error.errors });
+      return;
+    }
+
+    const issued = await calendarFeedService.createFeed(parsed.data, req.auth?.userId, baseUrlOf(req));
+    void res.status(201).json(issued);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/calendar-feeds/{id}:
+ *   delete:
+ *     summary: Revoke a calendar feed
+ *     description: Fetching the feed fails from then on. The feed stays listed with its revocation date.
+ *     tags: [Calendar Feeds]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Calendar feed ID
+ *     responses:
+ *       200:
+ *         description: Calendar feed revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CalendarFeed'
+ *       404:
+ *         description: Calendar feed not found
+ */
+const revokeFeedHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const feed = await calendarFeedService.revokeFeed(req.params.id as string);
+    void res.json(feed);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /feeds/calendar/{token}.ics:
+ *   get:
+ *     summary: Fetch a calendar feed
+ *     description: iCalendar document with the scheduled and published content, campaign milestones and plan timeline events of the last 30 and next 180 days. Needs no API key; the token authorizes the request.
+ *     tags: [Calendar Feeds]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Feed token
+ *     responses:
+ *       200:
+ *         description: iCalendar document
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown or revoked feed
+ */
+const getFeedHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const document = await calendarFeedService.renderFeed(req.params.token as string);
+    res.set("Content-Type", "text/calendar; charset=utf-8");
+    res.set("Cache-Control", "private, max-age=300");
+    void res.send(document);
+  } catch (error) {
+    next(error);
+  }
+};
+
+router.get(
+  "/",
+  requirePermission(Permission.Read),
+  [
+    query("brandId").optional().isString(),
+    query("campaignId").optional().isString()
+  ],
+  validateRequest,
+  getAllFeedsHandler
+);
+router.post(
+  "/",
+  requirePermission(Permission.Write),
+  [
+    sanitizeBody(["name", "brandId", "campaignId"]),
+    body("name").isString().notEmpty(),
+    body("brandId").optional().isString(),
+    body("campaignId").optional().isString()
+  ],
+  validateRequest,
+  requireBrandReference,
+  createFeedHandler
+);
+router.delete("/:id", requirePermission(Permission.Write), param("id").isString(), validateRequest, revokeFeedHandler);
+
+feedRouter.get("/:token.ics", param("token").isString(), validateRequest, getFeedHandler);
+
+export const calendarFeedRoutes = router;
+// Served without an API key
+export const calendarFeedDownloadRoutes = feedRouter;
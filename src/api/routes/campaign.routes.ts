@@ -1,12 +1,22 @@
 import { Router, RequestHandler } from "express";
-import { body, param } from "express-validator";
+import { body, param, query } from "express-validator";
 import { CampaignService } from "../../services/campaign.service.js";
 import { validateRequest } from "../middleware/validate.js";
 import { Campaign, CampaignStatus, CampaignCreationParams, CampaignUpdateParams, CampaignCreationSchema, CampaignCreationSchemaParser, CampaignUpdateSchema } from "../../models/campaign.model.js";
 import { sanitizeBody, transformDates } from "../middleware/transform.js";
+import { PerformanceService } from "../../services/performance.service.js";
+import { ReportService } from "../../services/report.service.js";
+import { CadenceInterval } from "../../models/report.model.js";
+import { brandAccess, brandOfCampaign, filterByBrand, filterByResolvedBrand, requireBrandReference, requirePermission } from "../middleware/auth.js";
+import { Permission } from "../../models/api-key.model.js";
+import { DeletableEntity, DeleteMode } from "../../models/integrity.model.js";
+import { DeletionService } from "../../services/deletion.service.js";
 
 const router = Router();
 const campaignService = new CampaignService();
+const performanceService = new PerformanceService();
+const reportService = new ReportService();
+const deletionService = new DeletionService();
 
 /**
  * @swagger
@@ -27,7 +37,7 @@ const campaignService = new CampaignService();
 const getAllCampaignsHandler: RequestHandler = async (req, res, next) => {
   try {
     const campaigns = await campaignService.getAllCampaigns();
-    void res.json(campaigns);
+    void res.json(filterByBrand(req, campaigns, campaign => campaign.brandId));
   } catch (error) {
     next(error);
   }
@@ -344,11 +354,213 @@ const updateCampaignHandler: RequestHandler = async (req, res, next) => {
   }
 };
 
+/**
+ * @swagger
+ * /api/v1/campaigns/{id}/performance:
+ *   get:
+ *     summary: Get campaign KPI progress rolled up from content engagement
+ *     description: >
+ *       Aggregates the latest engagement metrics of published content up the micro plan,
+ *       master plan and campaign hierarchy, and reports each KPI's actual value, percent
+ *       of target and pace against the elapsed date range. Measured micro plan
+ *       performance metric actuals are stored on the micro plans by the metrics
+ *       collector, not by this request.
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign performance report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CampaignPerformance'
+ *       404:
+ *         description: Campaign not found
+ */
+const getCampaignPerformanceHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const performance = await performanceService.getCampaignPerformance(req.params.id as string);
+    void res.json(performance);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/campaigns/{id}/report:
+ *   get:
+ *     summary: Get the analytics report of a campaign
+ *     description: >
+ *       Content counts by state, publish cadence over time, milestone completion,
+ *       content mix compared with the planned contentMix ratios, channel distribution
+ *       compared with the master plan contentStrategy.distribution, and the
+ *       top-performing published content.
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *         description: Period of the publish cadence buckets (default week)
+ *       - in: query
+ *         name: top
+ *         schema:
+ *           type: integer
+ *         description: Number of top-performing content items to include (default 5)
+ *     responses:
+ *       200:
+ *         description: Campaign report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CampaignReport'
+ *       400:
+ *         description: The campaign and its content span too many periods of the interval
+ *       404:
+ *         description: Campaign not found
+ */
+const getCampaignReportHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const report = await reportService.getCampaignReport(req.params.id as string, {
+      interval: req.query.interval as CadenceInterval | undefined,
+      topCount: req.query.top ? parseInt(req.query.top as string, 10) : undefined
+    });
+    void res.json(report);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/campaigns/{id}:
+ *   delete:
+ *     summary: Delete a campaign with all its versions
+ *     description: Moves every version of the campaign with its plans and content to the trash, or deletes them permanently in block and cascade mode. In cascade mode its plans and their content are permanently deleted with it.
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Campaign ID
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [block, cascade, soft]
+ *           default: soft
+ *         description: soft moves the campaign and everything that belongs to it to the trash, block deletes it permanently but refuses while plans exist, cascade permanently deletes them too
+ *     responses:
+ *       200:
+ *         description: Deletion result with the number of documents removed
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The campaign still has plans (block mode)
+ *       500:
+ *         description: Internal server error
+ */
+const deleteCampaignHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const result = await campaignService.deleteCampaign(req.params.id as string, req.query.mode as DeleteMode | undefined);
+    void res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
 
-router.get("/", getAllCampaignsHandler);
-router.get("/:id", param("id").isString(), validateRequest, getCampaignByIdHandler);
+/**
+ * @swagger
+ * /api/v1/campaigns/trash:
+ *   get:
+ *     summary: List deleted campaigns
+ *     description: Campaigns in the trash, most recently deleted first, with when they will be purged.
+ *     tags: [Campaigns]
+ *     responses:
+ *       200:
+ *         description: Campaigns in the trash
+ *       500:
+ *         description: Internal server error
+ */
+const getCampaignTrashHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const items = await deletionService.listTrash(DeletableEntity.Campaign);
+    void res.json(await filterByResolvedBrand(req, items, item => brandOfCampaign(item.entityId)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/campaigns/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted campaign
+ *     description: Restores the campaign from the trash with all its versions and the plans and content deleted together with it.
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Campaign ID
+ *     responses:
+ *       200:
+ *         description: Restore result with the number of documents restored
+ *       400:
+ *         description: The campaign is not deleted
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The brand it belongs to is in the trash or no longer exists
+ *       500:
+ *         description: Internal server error
+ */
+const restoreCampaignHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const result = await deletionService.restore(DeletableEntity.Campaign, req.params.id as string);
+    void res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// API keys limited to specific brands only reach the campaigns of those brands
+router.param("id", brandAccess(brandOfCampaign));
+
+router.get("/", requirePermission(Permission.Read), getAllCampaignsHandler);
+router.get("/trash", requirePermission(Permission.Read), getCampaignTrashHandler);
+router.get("/:id", requirePermission(Permission.Read), param("id").isString(), validateRequest, getCampaignByIdHandler);
+router.get("/:id/performance", requirePermission(Permission.Read), param("id").isString(), validateRequest, getCampaignPerformanceHandler);
+router.get(
+  "/:id/report",
+  requirePermission(Permission.Read),
+  [
+    param("id").isString(),
+    query("interval").optional().isIn(Object.values(CadenceInterval)),
+    query("top").optional().isInt({ min: 0, max: 50 })
+  ],
+  validateRequest,
+  getCampaignReportHandler
+);
 router.post(
   "/",
+  requirePermission(Permission.Write),
   [
     // Transform dates before validation
     transformDates(["startDate", "endDate", "majorMilestones[].date"]),
@@ -397,10 +609,12 @@ router.post(
     body("majorMilestones.*.status").optional().isIn(["pending", "completed"])
   ],
   validateRequest,
+  requireBrandReference,
   createCampaignHandler
 );
 router.put(
   "/:id",
+  requirePermission(Permission.Write),
   [
     transformDates(["startDate", "endDate", "majorMilestones[].date"]),
     sanitizeBody([
@@ -450,5 +664,13 @@ router.put(
   validateRequest,
   updateCampaignHandler
 );
+router.delete(
+  "/:id",
+  requirePermission(Permission.Approve),
+  [param("id").isString(), query("mode").optional().isIn(Object.values(DeleteMode))],
+  validateRequest,
+  deleteCampaignHandler
+);
+router.post("/:id/restore", requirePermission(Permission.Approve), param("id").isString(), validateRequest, restoreCampaignHandler);
 
 export const campaignRoutes = router;
@@ -1,13 +1,39 @@
-import { Router, Request, Response, NextFunction } from "express";
+import express, { Router, Request, Response, NextFunction } from "express";
 import { body, param, query } from "express-validator";
 import { ContentService } from "../../services/content.service.js";
 import { validateRequest } from "../middleware/validate.js";
-import { ContentState, Content, ContentCreationSchemaParser, ContentUpdateSchema } from "../../models/content.model.js";
+import { ContentState, Content, ContentCreationSchemaParser, ContentUpdateSchema, CONTENT_STATE_TRANSITIONS } from "../../models/content.model.js";
 import { sanitizeBody } from "../middleware/transform.js";
 import { transformDates } from "../middleware/transform.js";
+import { MediaService, getMaxUploadBytes } from "../../services/media.service.js";
+import { MediaUploadSchema, SUPPORTED_MEDIA_TYPES } from "../../models/media.model.js";
+import { PublishingService } from "../../services/publishing.service.js";
+import { MetricsService } from "../../services/metrics.service.js";
+import { ContentReviewService } from "../../services/content-review.service.js";
+import { actingUser, brandAccess, brandOfBrand, brandOfCampaign, brandOfContent, brandOfPlan, filterByResolvedBrand, filterContentByBrand, requireBrandReference, requirePermission } from "../middleware/auth.js";
+import { Permission } from "../../models/api-key.model.js";
+import { DeletableEntity, DeleteMode } from "../../models/integrity.model.js";
+import { DeletionService } from "../../services/deletion.service.js";
+import { DiffService } from "../../services/diff.service.js";
+import { VersionedEntity } from "../../models/diff.model.js";
+import { CalendarService } from "../../services/calendar.service.js";
+import { CalendarEntryType, CalendarGrouping } from "../../models/calendar.model.js";
 
 const router = Router();
 const contentService = new ContentService();
+const mediaService = new MediaService();
+const publishingService = new PublishingService();
+const metricsService = new MetricsService();
+const reviewService = new ContentReviewService(contentService);
+const deletionService = new DeletionService();
+const diffService = new DiffService();
+const calendarService = new CalendarService();
+
+// API keys limited to specific brands only reach the content of those brands
+router.param("id", brandAccess(brandOfContent));
+router.param("masterPlanId", brandAccess(brandOfPlan));
+router.param("campaignId", brandAccess(brandOfCampaign));
+router.param("brandId", brandAccess(brandOfBrand));
 
 /**
  * @swagger
@@ -30,7 +56,7 @@ const contentService = new ContentService();
  *         name: state
  *         schema:
  *           type: string
- *           enum: [draft, ready, published]
+ *           enum: [draft, ready, published, failed]
  *         description: Filter content by state
  *       - in: query
  *         name: masterPlanId
@@ -56,6 +82,7 @@ const contentService = new ContentService();
  */
 router.get(
   "/",
+  requirePermission(Permission.Read),
   [
     query("microPlanId").optional().isString(),
     query("brandId").optional().isString(),
@@ -88,7 +115,7 @@ router.get(
         content = content.filter((item: Content) => item.state === state);
       }
 
-      res.json(content);
+      res.json(await filterContentByBrand(req, content));
     } catch (error) {
       next(error);
     }
@@ -106,7 +133,7 @@ router.get(
  *         name: state
  *         schema:
  *           type: string
- *           enum: [draft, ready, published]
+ *           enum: [draft, ready, published, failed]
  *         description: Filter by content state (optional)
  *     responses:
  *       200:
@@ -120,6 +147,7 @@ router.get(
  */
 router.get(
   "/scheduled",
+  requirePermission(Permission.Read),
   [
     query("state").optional().isIn(Object.values(ContentState)),
   ],
@@ -135,7 +163,159 @@ router.get(
       }
 
       const scheduledContent = await contentService.getScheduledContent(states);
-      res.json(scheduledContent);
+      res.json(await filterContentByBrand(req, scheduledContent));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/calendar:
+ *   get:
+ *     summary: Get the content calendar of a date range
+ *     description: Scheduled and published content, master plan timeline events and campaign milestones between two dates (inclusive), grouped by UTC day or ISO week. A calendar covers at most 366 days.
+ *     tags: [Content]
+ *     parameters:
+ *       - in: query
+ *         name: start
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the date range
+ *       - in: query
+ *         name: end
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the date range
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [day, week]
+ *         description: Group entries by day (default) or week
+ *       - in: query
+ *         name: brandId
+ *         schema:
+ *           type: string
+ *         description: Only show the entries of a brand
+ *       - in: query
+ *         name: campaignId
+ *         schema:
+ *           type: string
+ *         description: Only show the entries of a campaign
+ *       - in: query
+ *         name: platform
+ *         schema:
+ *           type: string
+ *         description: Only show content for a platform
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *           enum: [draft, in_review, ready, published, failed]
+ *         description: Only show content in a state
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [content, timeline_event, milestone]
+ *         description: Only show one kind of entry
+ *     responses:
+ *       200:
+ *         description: Calendar periods with their entries
+ *       400:
+ *         description: Invalid date range
+ *       404:
+ *         description: Campaign not found
+ */
+router.get(
+  "/calendar",
+  requirePermission(Permission.Read),
+  [
+    query("start").isISO8601(),
+    query("end").isISO8601(),
+    query("groupBy").optional().isIn(Object.values(CalendarGrouping)),
+    query("brandId").optional().isString(),
+    query("campaignId").optional().isString(),
+    query("platform").optional().isString(),
+    query("state").optional().isIn(Object.values(ContentState)),
+    query("type").optional().isIn(Object.values(CalendarEntryType)),
+  ],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const calendar = await calendarService.getCalendar({
+        start: new Date(req.query.start as string),
+        end: new Date(req.query.end as string),
+        groupBy: req.query.groupBy as CalendarGrouping | undefined,
+        brandId: req.query.brandId as string | undefined,
+        campaignId: req.query.campaignId as string | undefined,
+        platform: req.query.platform as string | undefined,
+        states: req.query.state ? [req.query.state as ContentState] : undefined,
+        types: req.query.type ? [req.query.type as CalendarEntryType] : undefined,
+        brandIds: req.auth?.brandIds
+      });
+      res.json(calendar);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/failed:
+ *   get:
+ *     summary: Get content that failed to publish after exhausting its retries
+ *     tags: [Content]
+ *     responses:
+ *       200:
+ *         description: List of failed content
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Content'
+ */
+router.get(
+  "/failed",
+  requirePermission(Permission.Read),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const failedContent = await publishingService.getFailedContent();
+      res.json(await filterContentByBrand(req, failedContent));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/trash:
+ *   get:
+ *     summary: List deleted content
+ *     description: Content in the trash, most recently deleted first, with when it will be purged.
+ *     tags: [Content]
+ *     responses:
+ *       200:
+ *         description: Content in the trash
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/trash",
+  requirePermission(Permission.Read),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const items = await deletionService.listTrash(DeletableEntity.Content);
+      res.json(await filterByResolvedBrand(req, items, item => brandOfContent(item.entityId)));
     } catch (error) {
       next(error);
     }
@@ -169,6 +349,7 @@ router.get(
  */
 router.get(
   "/:id",
+  requirePermission(Permission.Read),
   param("id").isString(),
   validateRequest,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -227,6 +408,9 @@ router.get(
  *               platform:
  *                 type: string
  *                 description: Platform for the content
+ *               category:
+ *                 type: string
+ *                 description: Campaign content mix category the content counts towards (e.g. Educational)
  *               mediaRequirements:
  *                 type: object
  *                 properties:
@@ -259,12 +443,13 @@ router.get(
  */
 router.post(
   "/",
+  requirePermission(Permission.Write),
   [
     transformDates(["scheduledFor"]),
     sanitizeBody([
       "microPlanId", "brandId", "title", "content",
       "scheduledFor", "userId", "comments",
-      "format", "platform", "mediaRequirements",
+      "format", "platform", "category", "mediaRequirements",
       "targetAudience", "keywords",
       "mediaRequirements.type", "mediaRequirements.description"
     ]),
@@ -276,6 +461,7 @@ router.post(
     body("userId").optional().isString(),
     body("format").optional().isString(),
     body("platform").optional().isString(),
+    body("category").optional().isString(),
     body("mediaRequirements").optional().isObject(),
     body("mediaRequirements.type").optional().isString(),
     body("mediaRequirements.description").optional().isString(),
@@ -292,6 +478,7 @@ router.post(
     })
   ],
   validateRequest,
+  requireBrandReference,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       // Create properly typed content creation data
@@ -334,7 +521,7 @@ router.post(
  *               scheduledFor:
  *                 type: string
  *                 format: date-time
- *                 description: Scheduled publication date
+ *                 description: Scheduled publication date. For Ready content it must meet the brand's scheduling rules
  *               userId:
  *                 type: string
  *                 description: ID of the user updating the content
@@ -349,11 +536,14 @@ router.post(
  *         description: Invalid input data
  *       404:
  *         description: Content not found
+ *       409:
+ *         description: The new schedule breaks the brand's scheduling rules (details list the violations and the next available slot)
  *       500:
  *         description: Internal server error
  */
 router.put(
   "/:id",
+  requirePermission(Permission.Write),
   [
     param("id").isString(),
     transformDates(["scheduledFor"]),
@@ -369,7 +559,7 @@ router.put(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       // Create a sanitized update object
-      const updates = ContentUpdateSchema.parse(req.body);
+      const updates = ContentUpdateSchema.parse({ ...req.body, content_id: req.params.id });
 
       const content = await contentService.updateContent(updates);
 
@@ -380,6 +570,145 @@ router.put(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/content/{id}:
+ *   delete:
+ *     summary: Delete content with all its versions
+ *     description: Moves the content to the trash, or deletes it permanently with its media in block and cascade mode. Deleting published content doesn't remove the published post.
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content ID
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [block, cascade, soft]
+ *           default: soft
+ *         description: soft moves the content to the trash; block and cascade delete it permanently
+ *     responses:
+ *       200:
+ *         description: Deletion result with the number of documents removed
+ *       404:
+ *         description: Content not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete(
+  "/:id",
+  requirePermission(Permission.Approve),
+  [param("id").isString(), query("mode").optional().isIn(Object.values(DeleteMode))],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await contentService.deleteContent(req.params.id as string, req.query.mode as DeleteMode | undefined);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/restore:
+ *   post:
+ *     summary: Restore deleted content
+ *     description: Restores the content from the trash with all its versions.
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content ID
+ *     responses:
+ *       200:
+ *         description: Restore result with the number of documents restored
+ *       400:
+ *         description: The content is not deleted
+ *       404:
+ *         description: Content not found
+ *       409:
+ *         description: The brand, campaign or plan it belongs to is in the trash or no longer exists
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:id/restore",
+  requirePermission(Permission.Approve),
+  param("id").isString(),
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await deletionService.restore(DeletableEntity.Content, req.params.id as string);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/versions/{a}/diff/{b}:
+ *   get:
+ *     summary: Diff two versions of content
+ *     description: Lists the fields added, removed and changed from version a to version b. Arrays of objects are compared item by item, and the body of the content word by word (textDiff).
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the content, or of any of its versions
+ *       - in: path
+ *         name: a
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Version to compare from
+ *       - in: path
+ *         name: b
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Version to compare to
+ *     responses:
+ *       200:
+ *         description: Structured diff with a summary of the number of added, removed and changed fields
+ *       404:
+ *         description: Content or version not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:id/versions/:a/diff/:b",
+  requirePermission(Permission.Read),
+  [param("id").isString(), param("a").isInt({ min: 1 }), param("b").isInt({ min: 1 })],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const diff = await diffService.compareVersions(
+        VersionedEntity.Content,
+        req.params.id as string,
+        Number(req.params.a),
+        Number(req.params.b)
+      );
+      res.json(diff);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/v1/content/{id}/state:
@@ -405,7 +734,7 @@ router.put(
  *             properties:
  *               targetState:
  *                 type: string
- *                 enum: [draft, ready, published]
+ *                 enum: [draft, ready, published, failed]
  *                 description: Target state to transition to
  *               userId:
  *                 type: string
@@ -429,6 +758,7 @@ router.put(
  */
 router.post(
   "/:id/state",
+  requirePermission(Permission.Approve),
   [
     param("id").isString(),
     sanitizeBody(["targetState", "userId", "comments"]),
@@ -450,18 +780,11 @@ router.post(
       const currentState = currentContent.state;
       const targetState = req.body.targetState as ContentState;
 
-      // Define valid transitions (this should ideally be moved to a shared location)
-      const validTransitions: Record<ContentState, ContentState[]> = {
-        [ContentState.Draft]: [ContentState.Ready],
-        [ContentState.Ready]: [ContentState.Draft, ContentState.Published],
-        [ContentState.Published]: [] // Terminal state
-      };
-
       // Check if transition is valid
-      if (!validTransitions[currentState].includes(targetState)) {
+      if (!CONTENT_STATE_TRANSITIONS[currentState].includes(targetState)) {
         res.status(400).json({
           message: `Invalid state transition from ${currentState} to ${targetState}`,
-          validTransitions: validTransitions[currentState]
+          validTransitions: CONTENT_STATE_TRANSITIONS[currentState]
         });
         return;
       }
@@ -513,6 +836,9 @@ router.post(
  *               userId:
  *                 type: string
  *                 description: ID of the user scheduling the content
+ *               autoShift:
+ *                 type: boolean
+ *                 description: Move the content to the next slot meeting the brand's scheduling rules instead of rejecting the time
  *     responses:
  *       200:
  *         description: Content scheduled successfully
@@ -524,17 +850,21 @@ router.post(
  *         description: Invalid input data or content not in Ready state
  *       404:
  *         description: Content not found
+ *       409:
+ *         description: The time breaks the brand's scheduling rules (details list the violations and the next available slot)
  *       500:
  *         description: Internal server error
  */
 router.post(
   "/:id/schedule",
+  requirePermission(Permission.Approve),
   [
     param("id").isString(),
     transformDates(["publishAt"]),
-    sanitizeBody(["publishAt", "userId"]),
+    sanitizeBody(["publishAt", "userId", "autoShift"]),
     body("publishAt").isISO8601(),
     body("userId").isString().notEmpty(),
+    body("autoShift").optional().isBoolean().toBoolean(),
   ],
   validateRequest,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -542,7 +872,8 @@ router.post(
       const content = await contentService.scheduleContent(
         req.params.id,
         new Date(req.body.publishAt),
-        req.body.userId
+        req.body.userId,
+        { autoShift: req.body.autoShift }
       );
       if (!content) {
         res.status(404).json({ message: "Content not found" });
@@ -555,37 +886,49 @@ router.post(
   }
 );
 
-
 /**
  * @swagger
- * /api/v1/content/master-plan/{masterPlanId}:
+ * /api/v1/content/{id}/publish-attempts:
  *   get:
- *     summary: Get content by master plan ID
+ *     summary: Get the publish attempt history of content
  *     tags: [Content]
  *     parameters:
  *       - in: path
- *         name: masterPlanId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *         description: Content ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Maximum number of attempts to return (default 100)
  *     responses:
  *       200:
- *         description: List of content for the master plan
+ *         description: Publish attempts of all versions of the content, newest first
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
- *                 $ref: '#/components/schemas/Content'
+ *                 $ref: '#/components/schemas/PublishAttempt'
+ *       404:
+ *         description: Content not found
  */
 router.get(
-  "/master-plan/:masterPlanId",
-  param("masterPlanId").isString(),
+  "/:id/publish-attempts",
+  requirePermission(Permission.Read),
+  [
+    param("id").isString(),
+    query("limit").optional().isInt({ min: 1, max: 1000 }),
+  ],
   validateRequest,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const content = await contentService.getContentByMasterPlanId(req.params.masterPlanId);
-      res.json(content);
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const attempts = await publishingService.getPublishAttempts(req.params.id as string, limit);
+      res.json(attempts);
     } catch (error) {
       next(error);
     }
@@ -594,34 +937,56 @@ router.get(
 
 /**
  * @swagger
- * /api/v1/content/campaign/{campaignId}:
+ * /api/v1/content/{id}/metrics:
  *   get:
- *     summary: Get content by campaign ID
+ *     summary: Get the engagement metric history of published content
  *     tags: [Content]
  *     parameters:
  *       - in: path
- *         name: campaignId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *         description: Content ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return snapshots captured at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return snapshots captured at or before this time
  *     responses:
  *       200:
- *         description: List of content for the campaign
+ *         description: Latest snapshot and snapshot history, oldest first
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Content'
+ *               $ref: '#/components/schemas/ContentMetricsHistory'
+ *       404:
+ *         description: Content not found
  */
 router.get(
-  "/campaign/:campaignId",
-  param("campaignId").isString(),
+  "/:id/metrics",
+  requirePermission(Permission.Read),
+  [
+    param("id").isString(),
+    query("from").optional().isISO8601(),
+    query("to").optional().isISO8601(),
+  ],
   validateRequest,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const content = await contentService.getContentByCampaignId(req.params.campaignId);
-      res.json(content);
+      const history = await metricsService.getMetricHistory(
+        req.params.id as string,
+        req.query.from ? new Date(req.query.from as string) : undefined,
+        req.query.to ? new Date(req.query.to as string) : undefined
+      );
+      res.json(history);
     } catch (error) {
       next(error);
     }
@@ -630,28 +995,442 @@ router.get(
 
 /**
  * @swagger
- * /api/v1/content/brand/{brandId}:
- *   get:
- *     summary: Get content by brand ID
+ * /api/v1/content/{id}/metrics/collect:
+ *   post:
+ *     summary: Fetch and store the current engagement metrics of published content
  *     tags: [Content]
  *     parameters:
  *       - in: path
- *         name: brandId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *         description: Content ID
  *     responses:
- *       200:
- *         description: List of content for the brand
+ *       201:
+ *         description: Metrics snapshot stored
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Content'
+ *               $ref: '#/components/schemas/ContentMetricsSnapshot'
+ *       400:
+ *         description: Content has not been published
+ *       404:
+ *         description: Content not found
  */
-router.get(
-  "/brand/:brandId",
+router.post(
+  "/:id/metrics/collect",
+  requirePermission(Permission.Write),
+  param("id").isString(),
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const content = await contentService.getContent(req.params.id as string);
+      if (!content) {
+        res.status(404).json({ message: "Content not found" });
+        return;
+      }
+
+      const snapshot = await metricsService.collectMetrics(content);
+      res.status(201).json(snapshot);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/validate:
+ *   post:
+ *     summary: Validate content against its brand guidelines
+ *     description: Checks avoided and required terms, vocabulary usage, platform length limits, hashtag and mention rules, link policy, tone and channel constraints. Error issues block marking the content ready; the content is not changed.
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content ID
+ *     responses:
+ *       200:
+ *         description: Validation report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ContentValidationReport'
+ *       404:
+ *         description: Content not found
+ */
+router.post(
+  "/:id/validate",
+  requirePermission(Permission.Read),
+  param("id").isString(),
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const report = await contentService.validateContent(req.params.id as string);
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/requeue:
+ *   post:
+ *     summary: Requeue failed content for publishing
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 description: ID of the user requeueing the content
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When to publish, meeting the brand's scheduling rules (defaults to the first slot meeting them)
+ *     responses:
+ *       200:
+ *         description: Content moved back to Ready with a fresh retry count
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Content'
+ *       400:
+ *         description: Invalid input data or content not in Failed state
+ *       404:
+ *         description: Content not found
+ *       409:
+ *         description: The publish time breaks the brand's scheduling rules (details list the violations and the next available slot)
+ */
+router.post(
+  "/:id/requeue",
+  requirePermission(Permission.Approve),
+  [
+    param("id").isString(),
+    transformDates(["publishAt"]),
+    sanitizeBody(["publishAt", "userId"]),
+    body("publishAt").optional().isISO8601(),
+    body("userId").isString().notEmpty(),
+  ],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const content = await publishingService.requeueContent(
+        req.params.id as string,
+        req.body.userId,
+        req.body.publishAt ? new Date(req.body.publishAt) : undefined
+      );
+      res.json(content);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/review:
+ *   get:
+ *     summary: Get the review status of content
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content ID
+ *       - in: query
+ *         name: history
+ *         schema:
+ *           type: boolean
+ *         description: Include the decisions of all review rounds
+ *     responses:
+ *       200:
+ *         description: Review status, with the full decision history if requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ContentReviewStatus'
+ *       404:
+ *         description: Content not found
+ */
+router.get(
+  "/:id/review",
+  requirePermission(Permission.Read),
+  [param("id").isString(), query("history").optional().isBoolean()],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const status = await contentService.getReviewStatus(req.params.id as string);
+      if (req.query.history === "true") {
+        const history = await reviewService.getReviewHistory(req.params.id as string);
+        res.json({ ...status, history });
+        return;
+      }
+      res.json(status);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/review/submit:
+ *   post:
+ *     summary: Submit draft content for review
+ *     description: Moves the content to in_review. It becomes ready once it has the approvals the brand requires and, if the brand's sign-off rules match it, a sign-off.
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 description: ID of the user submitting the content. Defaults to the user of the API key, and must match it when given; required when API keys are disabled
+ *               reviewers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Some of the brand's reviewers to assign instead of all of them (anyone when the brand has none)
+ *               requireSignOff:
+ *                 type: boolean
+ *                 description: Require a sign-off even if the brand's sign-off rules don't match
+ *               comments:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Content in review and its review status
+ *       400:
+ *         description: Content is not a draft, fails the brand guidelines, has too few reviewers, or was assigned reviewers who aren't the brand's
+ *       403:
+ *         description: userId is not the user of the API key
+ *       404:
+ *         description: Content not found
+ */
+router.post(
+  "/:id/review/submit",
+  requirePermission(Permission.Write),
+  [
+    param("id").isString(),
+    body("userId").optional().isString().notEmpty(),
+    body("reviewers").optional().isArray(),
+    body("reviewers.*").isString(),
+    body("requireSignOff").optional().isBoolean(),
+    body("comments").optional().isString(),
+  ],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const outcome = await reviewService.submitForReview(req.params.id as string, actingUser(req, req.body.userId), {
+        reviewers: req.body.reviewers,
+        requireSignOff: req.body.requireSignOff,
+        comments: req.body.comments
+      });
+      res.json(outcome);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/review/decision:
+ *   post:
+ *     summary: Approve or reject content in review
+ *     description: Approvals count towards the required approvals and sign-off; the content becomes ready when the review is complete. Rejection sends it back to draft.
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *             properties:
+ *               reviewerId:
+ *                 type: string
+ *                 description: ID of the reviewer. Defaults to the user of the API key, and must match it when given; required when API keys are disabled
+ *               decision:
+ *                 type: string
+ *                 enum: [approve, reject]
+ *               reason:
+ *                 type: string
+ *                 description: Why the content is rejected (required when rejecting)
+ *               comments:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Content and its review status after the decision
+ *       400:
+ *         description: Content is not in review or no rejection reason given
+ *       403:
+ *         description: User may not review this content, or reviewerId is not the user of the API key
+ *       409:
+ *         description: Reviewer already decided in this review round
+ */
+router.post(
+  "/:id/review/decision",
+  requirePermission(Permission.Approve),
+  [
+    param("id").isString(),
+    body("reviewerId").optional().isString().notEmpty(),
+    body("decision").isIn(["approve", "reject"]),
+    body("reason").if(body("decision").equals("reject")).isString().notEmpty(),
+    body("comments").optional().isString(),
+  ],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const reviewerId = actingUser(req, req.body.reviewerId);
+      const outcome = req.body.decision === "approve"
+        ? await reviewService.approve(req.params.id as string, reviewerId, req.body.comments)
+        : await reviewService.reject(req.params.id as string, reviewerId, req.body.reason, req.body.comments);
+      res.json(outcome);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/master-plan/{masterPlanId}:
+ *   get:
+ *     summary: Get content by master plan ID
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: masterPlanId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of content for the master plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Content'
+ */
+router.get(
+  "/master-plan/:masterPlanId",
+  requirePermission(Permission.Read),
+  param("masterPlanId").isString(),
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const content = await contentService.getContentByMasterPlanId(req.params.masterPlanId);
+      res.json(content);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/campaign/{campaignId}:
+ *   get:
+ *     summary: Get content by campaign ID
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of content for the campaign
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Content'
+ */
+router.get(
+  "/campaign/:campaignId",
+  requirePermission(Permission.Read),
+  param("campaignId").isString(),
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const content = await contentService.getContentByCampaignId(req.params.campaignId);
+      res.json(content);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/brand/{brandId}:
+ *   get:
+ *     summary: Get content by brand ID
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: brandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of content for the brand
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Content'
+ */
+router.get(
+  "/brand/:brandId",
+  requirePermission(Permission.Read),
   param("brandId").isString(),
   validateRequest,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -664,4 +1443,292 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/content/{id}/media:
+ *   get:
+ *     summary: List the media assets of a content item
+ *     description: Returns the uploaded assets and whether the content's media requirement is fulfilled. Assets are shared by all versions of the content.
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Media assets and requirement status
+ *       404:
+ *         description: Content not found
+ */
+router.get(
+  "/:id/media",
+  requirePermission(Permission.Read),
+  param("id").isString(),
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const content = await contentService.getContent(req.params.id as string);
+      if (!content) {
+        res.status(404).json({ message: "Content not found" });
+        return;
+      }
+      const status = await mediaService.getRequirementStatus(content);
+      res.json({ contentId: content._id, ...status });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/media:
+ *   post:
+ *     summary: Upload a media asset for a content item
+ *     description: |
+ *       Send the file as the raw request body with its MIME type as Content-Type (e.g. image/png),
+ *       passing fileName, description and altText as query parameters. Alternatively send JSON with
+ *       base64 `data` and `mimeType`, or a `url` to download the file from.
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: fileName
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: description
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: altText
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         image/*:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         video/*:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fileName:
+ *                 type: string
+ *               mimeType:
+ *                 type: string
+ *               data:
+ *                 type: string
+ *                 description: Base64-encoded file data
+ *               url:
+ *                 type: string
+ *                 description: URL to download the file from
+ *               description:
+ *                 type: string
+ *               altText:
+ *                 type: string
+ *               userId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Media asset uploaded
+ *       400:
+ *         description: Invalid or unsupported file
+ *       404:
+ *         description: Content not found
+ */
+router.post(
+  "/:id/media",
+  requirePermission(Permission.Write),
+  [
+    express.raw({ type: Object.keys(SUPPORTED_MEDIA_TYPES), limit: getMaxUploadBytes() }),
+    param("id").isString(),
+    query("fileName").optional().isString(),
+    query("description").optional().isString(),
+    query("altText").optional().isString(),
+    query("userId").optional().isString(),
+  ],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const contentId = req.params.id as string;
+
+      // Raw file upload
+      if (Buffer.isBuffer(req.body)) {
+        const asset = await mediaService.uploadMediaFile(
+          contentId,
+          {
+            data: req.body,
+            mimeType: req.headers["content-type"] as string,
+            fileName: (req.query.fileName as string) || "media"
+          },
+          {
+            description: req.query.description as string | undefined,
+            altText: req.query.altText as string | undefined,
+            userId: req.query.userId as string | undefined
+          }
+        );
+        res.status(201).json(asset);
+        return;
+      }
+
+      // JSON upload (base64 data or URL)
+      const parsed = MediaUploadSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        res.status(400).json({ errors: parsed.error.errors });
+        return;
+      }
+      const asset = await mediaService.uploadMedia(contentId, parsed.data);
+      res.status(201).json(asset);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/media/{mediaId}:
+ *   get:
+ *     summary: Get a media asset of a content item
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: mediaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Media asset details
+ *       404:
+ *         description: Content or media asset not found
+ */
+router.get(
+  "/:id/media/:mediaId",
+  requirePermission(Permission.Read),
+  [param("id").isString(), param("mediaId").isMongoId()],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const asset = await mediaService.getMedia(req.params.id as string, req.params.mediaId as string);
+      if (!asset) {
+        res.status(404).json({ message: "Media asset not found" });
+        return;
+      }
+      res.json(asset);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/media/{mediaId}/file:
+ *   get:
+ *     summary: Download the file of a media asset
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: mediaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The media file
+ *       404:
+ *         description: Content or media asset not found
+ */
+router.get(
+  "/:id/media/:mediaId/file",
+  requirePermission(Permission.Read),
+  [param("id").isString(), param("mediaId").isMongoId()],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const asset = await mediaService.getMedia(req.params.id as string, req.params.mediaId as string);
+      if (!asset) {
+        res.status(404).json({ message: "Media asset not found" });
+        return;
+      }
+      const data = await mediaService.readMedia(asset);
+      res.setHeader("Content-Type", asset.mimeType);
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(asset.fileName)}"`);
+      res.send(data);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/content/{id}/media/{mediaId}:
+ *   delete:
+ *     summary: Delete a media asset of a content item
+ *     tags: [Content]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: mediaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Media asset deleted
+ *       404:
+ *         description: Content or media asset not found
+ */
+router.delete(
+  "/:id/media/:mediaId",
+  requirePermission(Permission.Write),
+  [param("id").isString(), param("mediaId").isMongoId()],
+  validateRequest,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const deleted = await mediaService.deleteMedia(req.params.id as string, req.params.mediaId as string);
+      if (!deleted) {
+        res.status(404).json({ message: "Media asset not found" });
+        return;
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export const contentRoutes = router;
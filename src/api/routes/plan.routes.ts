@@ -7,10 +7,18 @@ import { PlanRepository } from "../../repositories/plan.repository.js";
 import { transformDates } from "../middleware/transform.js";
 import { transformCasing } from "../middleware/transform.js";
 import { sanitizeBody } from "../middleware/transform.js";
+import { brandAccess, brandOfCampaign, brandOfPlan, filterByResolvedBrand, filterPlansByBrand, requireBrandReference, requirePermission } from "../middleware/auth.js";
+import { Permission } from "../../models/api-key.model.js";
+import { DeletableEntity, DeleteMode } from "../../models/integrity.model.js";
+import { DeletionService } from "../../services/deletion.service.js";
+import { DiffService } from "../../services/diff.service.js";
+import { VersionedEntity } from "../../models/diff.model.js";
 
 const router = Router();
 const planService = new PlanService();
 const planRepository = new PlanRepository();
+const deletionService = new DeletionService();
+const diffService = new DiffService();
 
 /**
  * @swagger
@@ -71,7 +79,7 @@ const getAllPlansHandler: RequestHandler = async (req, res, next) => {
       plans = plans.filter((plan: Plan) => plan.type === type);
     }
 
-    void res.json(plans);
+    void res.json(await filterPlansByBrand(req, plans));
   } catch (error) {
     next(error);
   }
@@ -337,6 +345,9 @@ const createPlanHandler: RequestHandler = async (req, res, next) => {
  *               isActive:
  *                 type: boolean
  *                 description: Whether the plan is active
+ *               create_new_version:
+ *                 type: boolean
+ *                 description: Save the update as a new version of the plan instead of updating it in place
  *               userId:
  *                 type: string
  *                 description: ID of the user updating the plan
@@ -439,9 +450,9 @@ const updatePlanHandler: RequestHandler = async (req, res, next) => {
 
     // Type-specific fields
     if (existingPlan.type === PlanType.Master) {
-      updates = MasterPlanUpdateSchemaParser.parse(req.body);
+      updates = MasterPlanUpdateSchemaParser.parse({ ...req.body, plan_id: req.params.id });
     } else if (existingPlan.type === PlanType.Micro) {
-      updates = MicroPlanUpdateSchemaParser.parse(req.body);
+      updates = MicroPlanUpdateSchemaParser.parse({ ...req.body, plan_id: req.params.id });
     }
 
     if (!updates) {
@@ -639,18 +650,313 @@ const getAllPlansByCampaignIdHandler: RequestHandler = async (req, res, next) =>
   }
 };
 
-router.get("/", [
+/**
+ * @swagger
+ * /api/v1/plans/{id}:
+ *   delete:
+ *     summary: Delete a plan with all its versions
+ *     description: Moves a master or micro plan with its micro plans and content to the trash, or deletes it permanently in block and cascade mode. In cascade mode the micro plans of a master plan and the content of its micro plans are permanently deleted with it.
+ *     tags: [Plans]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan ID
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [block, cascade, soft]
+ *           default: soft
+ *         description: soft moves the plan and everything that belongs to it to the trash, block deletes it permanently but refuses while micro plans or content exist, cascade permanently deletes them too
+ *     responses:
+ *       200:
+ *         description: Deletion result with the number of documents removed
+ *       404:
+ *         description: Plan not found
+ *       409:
+ *         description: The plan still has micro plans or content (block mode)
+ *       500:
+ *         description: Internal server error
+ */
+const deletePlanHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const result = await planService.deletePlan(req.params.id as string, req.query.mode as DeleteMode | undefined);
+    void res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/plans/trash:
+ *   get:
+ *     summary: List deleted plans
+ *     description: Plans in the trash, most recently deleted first, with when they will be purged.
+ *     tags: [Plans]
+ *     responses:
+ *       200:
+ *         description: Plans in the trash
+ *       500:
+ *         description: Internal server error
+ */
+const getPlanTrashHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const items = await deletionService.listTrash(DeletableEntity.Plan);
+    void res.json(await filterByResolvedBrand(req, items, item => brandOfPlan(item.entityId)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/plans/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted plan
+ *     description: Restores the plan from the trash with the micro plans and content deleted together with it.
+ *     tags: [Plans]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan ID
+ *     responses:
+ *       200:
+ *         description: Restore result with the number of documents restored
+ *       400:
+ *         description: The plan is not deleted
+ *       404:
+ *         description: Plan not found
+ *       409:
+ *         description: The campaign or master plan it belongs to is in the trash or no longer exists
+ *       500:
+ *         description: Internal server error
+ */
+const restorePlanHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const result = await deletionService.restore(DeletableEntity.Plan, req.params.id as string);
+    void res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/plans/{id}/versions:
+ *   get:
+ *     summary: Get all versions of a plan
+ *     description: Every version of the plan, including inactive ones. New versions are created by updating the plan with create_new_version.
+ *     tags: [Plans]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the plan, or of any of its versions
+ *     responses:
+ *       200:
+ *         description: Versions of the plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Plan'
+ *       404:
+ *         description: Plan not found
+ *       500:
+ *         description: Internal server error
+ */
+const getPlanVersionsHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const versions = await planService.getAllPlanVersions(req.params.id as string);
+    if (versions.length === 0) {
+      void res.status(404).json({ message: "Plan not found" });
+      return;
+    }
+    void res.json(versions);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/plans/{id}/versions/compare:
+ *   get:
+ *     summary: Compare two versions of a plan
+ *     description: Lists the fields added, removed and changed between two versions of the plan. Goals and timeline events are compared item by item.
+ *     tags: [Plans]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the plan, or of any of its versions
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Version to compare from
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Version to compare to
+ *     responses:
+ *       200:
+ *         description: Structured diff with a summary of the number of added, removed and changed fields
+ *       404:
+ *         description: Plan or version not found
+ *       500:
+ *         description: Internal server error
+ */
+const comparePlanVersionsHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const diff = await diffService.compareVersions(
+      VersionedEntity.Plan,
+      req.params.id as string,
+      Number(req.query.from),
+      Number(req.query.to)
+    );
+    void res.json(diff);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/plans/{id}/versions/{version}:
+ *   get:
+ *     summary: Get a specific version of a plan
+ *     tags: [Plans]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the plan, or of any of its versions
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Version number
+ *     responses:
+ *       200:
+ *         description: Plan version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Plan'
+ *       404:
+ *         description: Plan or version not found
+ *       500:
+ *         description: Internal server error
+ */
+const getPlanVersionHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const plan = await planService.getPlanVersion(req.params.id as string, Number(req.params.version));
+    if (!plan) {
+      void res.status(404).json({ message: "Plan version not found" });
+      return;
+    }
+    void res.json(plan);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/plans/{id}/versions/{version}/activate:
+ *   post:
+ *     summary: Activate a version of a plan
+ *     description: Makes the version the active one, e.g. to revert an update. Micro plans and content move to the activated version; the other versions are kept.
+ *     tags: [Plans]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the plan, or of any of its versions
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Version number to activate
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 description: ID of the user activating the version
+ *     responses:
+ *       200:
+ *         description: Activated plan version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Plan'
+ *       404:
+ *         description: Plan or version not found
+ *       500:
+ *         description: Internal server error
+ */
+const activatePlanVersionHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const version = await planService.getPlanVersion(req.params.id as string, Number(req.params.version));
+    if (!version) {
+      void res.status(404).json({ message: "Plan version not found" });
+      return;
+    }
+    const plan = await planService.activatePlanVersion(version._id!, req.body.userId);
+    void res.json(plan);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// API keys limited to specific brands only reach the plans of those brands
+router.param("id", brandAccess(brandOfPlan));
+router.param("masterPlanId", brandAccess(brandOfPlan));
+router.param("campaignId", brandAccess(brandOfCampaign));
+
+router.get("/", requirePermission(Permission.Read), [
   query("brandId").optional().isString(),
   query("type").optional().isIn(Object.values(PlanType)),
   query("campaignId").optional().isString(),
   query("masterPlanId").optional().isString(),
 ], validateRequest, getAllPlansHandler);
 
-router.get("/:id", [
+router.get("/trash", requirePermission(Permission.Read), getPlanTrashHandler);
+
+router.get("/:id", requirePermission(Permission.Read), [
   param("id").isString(),
 ], validateRequest, getPlanByIdHandler);
 
-router.post("/", [
+router.post("/", requirePermission(Permission.Write), [
   transformDates([
     "dateRange.start", "dateRange.end",
     "timeline[].date"
@@ -709,16 +1015,16 @@ router.post("/", [
   body("performanceMetrics.*.metricName").optional().isString(),
   body("performanceMetrics.*.target").optional().isNumeric(),
   body("performanceMetrics.*.actual").optional().isNumeric()
-], validateRequest, createPlanHandler);
+], validateRequest, requireBrandReference, createPlanHandler);
 
-router.put("/:id", [
+router.put("/:id", requirePermission(Permission.Write), [
   transformDates([
     "dateRange.start", "dateRange.end",
     "timeline[].date"
   ]),
   sanitizeBody([
     "title", "dateRange", "dateRange.start", "dateRange.end",
-    "goals", "targetAudience", "channels", "state", "isActive", "userId", "comments",
+    "goals", "targetAudience", "channels", "state", "isActive", "create_new_version", "userId", "comments",
     "planGoals", "planGoals[].campaignGoalId", "planGoals[].description",
     "planGoals[].metrics", "planGoals[].metrics[].name", "planGoals[].metrics[].target",
     "contentStrategy", "contentStrategy.approach", "contentStrategy.keyThemes", "contentStrategy.distribution",
@@ -738,6 +1044,7 @@ router.put("/:id", [
   body("channels.*").optional().isString(),
   body("state").optional().isIn(Object.values(PlanState)),
   body("isActive").optional().isBoolean(),
+  body("create_new_version").optional().isBoolean(),
   body("userId").optional().isString(),
   body("comments").optional().isString(),
   // Optional fields for master plans
@@ -769,7 +1076,7 @@ router.put("/:id", [
   body("performanceMetrics.*.actual").optional().isNumeric()
 ], validateRequest, updatePlanHandler);
 
-router.put("/:id/state", [
+router.put("/:id/state", requirePermission(Permission.Approve), [
   param("id").isString(),
   transformDates(["dateRange.start", "dateRange.end"]),
   transformCasing({
@@ -785,15 +1092,45 @@ router.put("/:id/state", [
   body("comments").optional().isString(),
 ], validateRequest, updatePlanStateHandler);
 
-router.get("/master/:masterPlanId/micro", [
+router.delete("/:id", requirePermission(Permission.Approve), [
+  param("id").isString(),
+  query("mode").optional().isIn(Object.values(DeleteMode))
+], validateRequest, deletePlanHandler);
+
+router.post("/:id/restore", requirePermission(Permission.Approve), [
+  param("id").isString(),
+], validateRequest, restorePlanHandler);
+
+router.get("/:id/versions", requirePermission(Permission.Read), [
+  param("id").isString(),
+], validateRequest, getPlanVersionsHandler);
+
+router.get("/:id/versions/compare", requirePermission(Permission.Read), [
+  param("id").isString(),
+  query("from").isInt({ min: 1 }),
+  query("to").isInt({ min: 1 })
+], validateRequest, comparePlanVersionsHandler);
+
+router.get("/:id/versions/:version", requirePermission(Permission.Read), [
+  param("id").isString(),
+  param("version").isInt({ min: 1 })
+], validateRequest, getPlanVersionHandler);
+
+router.post("/:id/versions/:version/activate", requirePermission(Permission.Write), [
+  param("id").isString(),
+  param("version").isInt({ min: 1 }),
+  body("userId").isString()
+], validateRequest, activatePlanVersionHandler);
+
+router.get("/master/:masterPlanId/micro", requirePermission(Permission.Read), [
   param("masterPlanId").isString(),
 ], validateRequest, getMicroPlansByMasterIdHandler);
 
-router.get("/campaign/:campaignId/master", [
+router.get("/campaign/:campaignId/master", requirePermission(Permission.Read), [
   param("campaignId").isString(),
 ], validateRequest, getMasterPlansByCampaignIdHandler);
 
-router.get("/campaign/:campaignId/all", [
+router.get("/campaign/:campaignId/all", requirePermission(Permission.Read), [
   param("campaignId").isString(),
 ], validateRequest, getAllPlansByCampaignIdHandler);
 
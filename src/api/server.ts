@@ -9,6 +9,13 @@ import { errorHandler } from "../utils/errors.js";
 import { setupSwagger } from "./swagger.js";
 import bodyParser from "body-parser";
 import { formatResponseDates } from "../utils/api.utils.js";
+import { getMaxJsonUploadBytes } from "../services/media.service.js";
+import { auditContext } from "./middleware/audit.js";
+import { auditRoutes } from "./routes/audit.routes.js";
+import { apiKeyRoutes } from "./routes/api-key.routes.js";
+import { calendarFeedDownloadRoutes, calendarFeedRoutes } from "./routes/calendar-feed.routes.js";
+import { authenticate } from "./middleware/auth.js";
+import { createMcpRouter, isMcpHttpEnabled } from "../mcp/http.js";
 const { json } = bodyParser;
 
 export async function setupApiServer() {
@@ -16,8 +23,8 @@ export async function setupApiServer() {
 
   // Middleware
   app.use(helmet());
-  app.use(cors());
-  app.use(json());
+  // MCP clients read the session ID of Streamable HTTP responses
+  app.use(cors({ exposedHeaders: ["Mcp-Session-Id"] }));
 
   // Add middleware for consistent date formatting in responses
   app.use(formatResponseDates);
@@ -30,11 +37,34 @@ export async function setupApiServer() {
   // Swagger documentation
   setupSwagger(app);
 
+  // Calendar feeds are fetched by calendar clients, authorized by the token in their URL
+  app.use("/feeds/calendar", calendarFeedDownloadRoutes);
+
+  // Every other endpoint requires an API key
+  app.use("/api/v1", authenticate);
+
+  // Bodies are only read once the API key is checked. Media uploads may carry base64-encoded
+  // files, so they get a larger JSON limit than other requests; the default parser skips bodies
+  // already parsed. The MCP routes parse their own messages.
+  app.post("/api/v1/content/:id/media", json({ limit: getMaxJsonUploadBytes() }));
+  app.use("/api/v1", json());
+
+  // Attribute changes to the requesting user in the audit log
+  app.use(auditContext);
+
   // Routes
   app.use("/api/v1/campaigns", campaignRoutes);
   app.use("/api/v1/plans", planRoutes);
   app.use("/api/v1/content", contentRoutes);
   app.use("/api/v1/brands", brandRoutes);
+  app.use("/api/v1/audit-events", auditRoutes);
+  app.use("/api/v1/api-keys", apiKeyRoutes);
+  app.use("/api/v1/calendar-feeds", calendarFeedRoutes);
+
+  // MCP over Streamable HTTP and SSE, for agents sharing this server
+  if (isMcpHttpEnabled()) {
+    app.use("/mcp", createMcpRouter());
+  }
 
   // Error handling
   app.use(errorHandler);
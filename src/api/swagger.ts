@@ -16,7 +16,19 @@ const options = {
         description: "Development server",
       },
     ],
+    security: [
+      {
+        bearerAuth: [],
+      },
+    ],
     components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: "API key issued through /api-keys, or the ADMIN_API_KEY of the server",
+        },
+      },
       schemas: {
         Campaign: {
           type: "object",
@@ -182,9 +194,13 @@ const options = {
               type: "string",
               description: "Content body",
             },
+            category: {
+              type: "string",
+              description: "Campaign content mix category the content counts towards",
+            },
             state: {
               type: "string",
-              enum: ["draft", "ready", "published"],
+              enum: ["draft", "in_review", "ready", "published", "failed"],
               description: "Current state of the content",
             },
             scheduledFor: {
@@ -218,6 +234,692 @@ const options = {
           },
           required: ["planId", "brandId", "title", "content", "userId"],
         },
+        PublishAttempt: {
+          type: "object",
+          properties: {
+            _id: {
+              type: "string",
+              description: "Unique identifier of the attempt",
+            },
+            contentId: {
+              type: "string",
+              description: "ID of the content version that was published",
+            },
+            rootContentId: {
+              type: "string",
+              description: "ID of the root content",
+            },
+            channel: {
+              type: "string",
+              description: "Channel the content was published to",
+            },
+            status: {
+              type: "string",
+              enum: ["success", "failure"],
+              description: "Outcome of the attempt",
+            },
+            trigger: {
+              type: "string",
+              enum: ["scheduler", "manual"],
+              description: "What started the attempt",
+            },
+            attemptNumber: {
+              type: "integer",
+              description: "Attempt number since the content was last (re)queued",
+            },
+            attemptedAt: {
+              type: "string",
+              format: "date-time",
+              description: "When the attempt started",
+            },
+            durationMs: {
+              type: "integer",
+              description: "How long the attempt took",
+            },
+            error: {
+              type: "object",
+              description: "Error of a failed attempt",
+              properties: {
+                message: {
+                  type: "string",
+                },
+                code: {
+                  type: "string",
+                },
+                retryable: {
+                  type: "boolean",
+                },
+              },
+            },
+            response: {
+              type: "object",
+              description: "Channel response (post ID, URL, platform data)",
+            },
+          },
+        },
+        ReviewDecision: {
+          type: "object",
+          properties: {
+            contentId: {
+              type: "string",
+              description: "ID of the content version that was reviewed",
+            },
+            rootContentId: {
+              type: "string",
+              description: "ID of the root content",
+            },
+            round: {
+              type: "integer",
+              description: "Review round",
+            },
+            action: {
+              type: "string",
+              enum: ["submitted", "approved", "rejected"],
+            },
+            userId: {
+              type: "string",
+              description: "Submitter or reviewer",
+            },
+            role: {
+              type: "string",
+              enum: ["reviewer", "sign_off"],
+            },
+            comments: {
+              type: "string",
+            },
+            reason: {
+              type: "string",
+              description: "Reason of a rejection",
+            },
+            decidedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        ContentReviewStatus: {
+          type: "object",
+          properties: {
+            contentId: {
+              type: "string",
+            },
+            state: {
+              type: "string",
+              enum: ["draft", "in_review", "ready", "published", "failed"],
+            },
+            round: {
+              type: "integer",
+              description: "Current (or last) review round, 0 if never submitted",
+            },
+            reviewRequired: {
+              type: "boolean",
+              description: "Whether the content must be reviewed before it is ready",
+            },
+            requiredApprovals: {
+              type: "integer",
+            },
+            reviewers: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+            },
+            approvedBy: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+            },
+            pendingReviewers: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+            },
+            signOffRequired: {
+              type: "boolean",
+            },
+            signOffReviewers: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+            },
+            signedOffBy: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+            },
+            complete: {
+              type: "boolean",
+              description: "Whether the review has all required approvals and sign-offs",
+            },
+            missing: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Approvals and sign-offs still needed",
+            },
+            decisions: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ReviewDecision",
+              },
+              description: "Decisions of the current review round",
+            },
+          },
+        },
+        ApiKey: {
+          type: "object",
+          properties: {
+            _id: {
+              type: "string",
+              description: "API key ID",
+            },
+            name: {
+              type: "string",
+              description: "What the key is used for",
+            },
+            userId: {
+              type: "string",
+              description: "User the key acts for",
+            },
+            role: {
+              type: "string",
+              enum: ["viewer", "editor", "approver", "admin"],
+              description: "viewer reads; editor also creates and edits; approver also approves, schedules and requeues; admin also manages brands, channel accounts, API keys and the audit log",
+            },
+            brandIds: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Brands the key is limited to (all brands if missing)",
+            },
+            keyPrefix: {
+              type: "string",
+              description: "First characters of the key",
+            },
+            createdBy: {
+              type: "string",
+              description: "User who issued the key",
+            },
+            expiresAt: {
+              type: "string",
+              format: "date-time",
+            },
+            revokedAt: {
+              type: "string",
+              format: "date-time",
+            },
+            lastUsedAt: {
+              type: "string",
+              format: "date-time",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        CalendarFeed: {
+          type: "object",
+          properties: {
+            _id: {
+              type: "string",
+              description: "Calendar feed ID",
+            },
+            name: {
+              type: "string",
+              description: "Calendar name shown by calendar clients",
+            },
+            brandId: {
+              type: "string",
+              description: "Brand whose calendar the feed shows",
+            },
+            campaignId: {
+              type: "string",
+              description: "Campaign whose calendar the feed shows",
+            },
+            tokenPrefix: {
+              type: "string",
+              description: "First characters of the feed token",
+            },
+            createdBy: {
+              type: "string",
+              description: "User who created the feed",
+            },
+            revokedAt: {
+              type: "string",
+              format: "date-time",
+            },
+            lastAccessedAt: {
+              type: "string",
+              format: "date-time",
+              description: "When a calendar client last fetched the feed",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        AuditEvent: {
+          type: "object",
+          properties: {
+            _id: {
+              type: "string",
+              description: "Audit event ID",
+            },
+            action: {
+              type: "string",
+              enum: ["create", "update", "delete"],
+            },
+            entityType: {
+              type: "string",
+              description: "Collection of the changed entity",
+            },
+            entityId: {
+              type: "string",
+              description: "ID of the changed entity",
+            },
+            actor: {
+              type: "string",
+              description: "User who made the change (X-User-Id header for REST requests)",
+            },
+            source: {
+              type: "string",
+              enum: ["rest", "mcp", "system"],
+            },
+            tool: {
+              type: "string",
+              description: "MCP tool that made the change",
+            },
+            request: {
+              type: "string",
+              description: "REST request that made the change",
+            },
+            changes: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  field: {
+                    type: "string",
+                    description: "Dot-separated path of the changed field",
+                  },
+                  from: {
+                    description: "Previous value",
+                  },
+                  to: {
+                    description: "New value",
+                  },
+                },
+              },
+            },
+            timestamp: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        ContentValidationReport: {
+          type: "object",
+          properties: {
+            contentId: {
+              type: "string",
+              description: "ID of the validated content",
+            },
+            brandId: {
+              type: "string",
+              description: "ID of the brand whose guidelines were applied",
+            },
+            platform: {
+              type: "string",
+              description: "Platform the content was checked for",
+            },
+            valid: {
+              type: "boolean",
+              description: "Whether the content has no error-severity issues and can be marked ready",
+            },
+            errorCount: {
+              type: "integer",
+            },
+            warningCount: {
+              type: "integer",
+            },
+            issues: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  rule: {
+                    type: "string",
+                    enum: ["avoided_terms", "required_terms", "vocabulary", "length", "hashtags", "mentions", "links", "tone", "channel"],
+                  },
+                  severity: {
+                    type: "string",
+                    enum: ["error", "warning"],
+                  },
+                  message: {
+                    type: "string",
+                  },
+                  matches: {
+                    type: "array",
+                    items: {
+                      type: "string",
+                    },
+                    description: "Terms, hashtags, mentions or links that triggered the issue",
+                  },
+                },
+              },
+            },
+            validatedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        ContentMetricsSnapshot: {
+          type: "object",
+          properties: {
+            _id: {
+              type: "string",
+              description: "Unique identifier of the snapshot",
+            },
+            contentId: {
+              type: "string",
+              description: "ID of the root content",
+            },
+            contentVersionId: {
+              type: "string",
+              description: "ID of the content version that was published",
+            },
+            channel: {
+              type: "string",
+              description: "Channel the content was published to",
+            },
+            postId: {
+              type: "string",
+              description: "ID of the post on the channel",
+            },
+            capturedAt: {
+              type: "string",
+              format: "date-time",
+              description: "When the metrics were fetched",
+            },
+            metrics: {
+              type: "object",
+              additionalProperties: {
+                type: "number",
+              },
+              description: "Engagement metrics reported by the channel (likes, shares, replies, views, ...)",
+            },
+            engagement: {
+              type: "number",
+              description: "Total interactions: likes + shares + replies",
+            },
+          },
+        },
+        ContentMetricsHistory: {
+          type: "object",
+          properties: {
+            contentId: {
+              type: "string",
+              description: "ID of the root content",
+            },
+            latest: {
+              $ref: "#/components/schemas/ContentMetricsSnapshot",
+            },
+            history: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ContentMetricsSnapshot",
+              },
+            },
+          },
+        },
+        KpiProgress: {
+          type: "object",
+          properties: {
+            metric: {
+              type: "string",
+              description: "KPI metric name",
+            },
+            field: {
+              type: "string",
+              nullable: true,
+              enum: ["posts", "likes", "shares", "replies", "views", "engagement", "engagementRate"],
+              description: "Content measurement the metric maps to (null if it can't be measured)",
+            },
+            target: {
+              type: "number",
+            },
+            actual: {
+              type: "number",
+              nullable: true,
+            },
+            percentOfTarget: {
+              type: "number",
+              nullable: true,
+            },
+            expectedPercent: {
+              type: "number",
+              description: "Percent of target expected by now, based on the elapsed date range",
+            },
+            projected: {
+              type: "number",
+              nullable: true,
+              description: "Projected value at the end of the date range at the current pace",
+            },
+            pace: {
+              type: "string",
+              enum: ["achieved", "ahead", "on_track", "behind", "missed", "not_started", "unmeasured"],
+            },
+            goal: {
+              type: "string",
+              description: "Goal the KPI belongs to",
+            },
+          },
+        },
+        CampaignPerformance: {
+          type: "object",
+          properties: {
+            campaignId: {
+              type: "string",
+            },
+            name: {
+              type: "string",
+            },
+            start: {
+              type: "string",
+              format: "date-time",
+            },
+            end: {
+              type: "string",
+              format: "date-time",
+            },
+            elapsedPercent: {
+              type: "number",
+              description: "Share of the campaign date range that has passed (0-100)",
+            },
+            contentCount: {
+              type: "integer",
+            },
+            totals: {
+              type: "object",
+              additionalProperties: {
+                type: "number",
+              },
+              description: "Measurements summed over the campaign's content",
+            },
+            kpis: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/KpiProgress",
+              },
+            },
+            masterPlans: {
+              type: "array",
+              description: "Master plan rollups, each with its micro plan rollups",
+              items: {
+                type: "object",
+              },
+            },
+            generatedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        ShareComparison: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Content mix category or channel",
+            },
+            count: {
+              type: "integer",
+            },
+            actualPercent: {
+              type: "number",
+            },
+            plannedPercent: {
+              type: "number",
+              nullable: true,
+              description: "Planned share (null if not part of the plan)",
+            },
+          },
+        },
+        CampaignReport: {
+          type: "object",
+          properties: {
+            campaignId: {
+              type: "string",
+            },
+            name: {
+              type: "string",
+            },
+            start: {
+              type: "string",
+              format: "date-time",
+            },
+            end: {
+              type: "string",
+              format: "date-time",
+            },
+            contentCount: {
+              type: "integer",
+            },
+            contentByState: {
+              type: "object",
+              additionalProperties: {
+                type: "integer",
+              },
+              description: "Number of content items per state",
+            },
+            cadence: {
+              type: "object",
+              properties: {
+                interval: {
+                  type: "string",
+                  enum: ["day", "week", "month"],
+                },
+                buckets: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      periodStart: {
+                        type: "string",
+                        format: "date-time",
+                      },
+                      published: {
+                        type: "integer",
+                      },
+                      scheduled: {
+                        type: "integer",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            milestones: {
+              type: "object",
+              description: "Completion of campaign milestones and master plan timeline events",
+              properties: {
+                total: {
+                  type: "integer",
+                },
+                completed: {
+                  type: "integer",
+                },
+                overdue: {
+                  type: "integer",
+                },
+                completionPercent: {
+                  type: "number",
+                },
+                milestones: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                  },
+                },
+              },
+            },
+            contentMix: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ShareComparison",
+              },
+            },
+            channelDistribution: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ShareComparison",
+              },
+            },
+            topContent: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  contentId: {
+                    type: "string",
+                  },
+                  title: {
+                    type: "string",
+                  },
+                  platform: {
+                    type: "string",
+                  },
+                  publishedUrl: {
+                    type: "string",
+                  },
+                  publishedAt: {
+                    type: "string",
+                    format: "date-time",
+                  },
+                  engagement: {
+                    type: "number",
+                  },
+                  metrics: {
+                    type: "object",
+                  },
+                },
+              },
+            },
+            generatedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
         Brand: {
           type: "object",
           properties: {
@@ -277,6 +979,9 @@ const options = {
                 },
               },
             },
+            schedulingRules: {
+              $ref: "#/components/schemas/SchedulingRules",
+            },
             createdAt: {
               type: "string",
               format: "date-time",
@@ -290,6 +995,147 @@ const options = {
           },
           required: ["name", "description"],
         },
+        SchedulingRules: {
+          type: "object",
+          description: "Posting cadence rules enforced when content of the brand is scheduled",
+          properties: {
+            timezone: {
+              type: "string",
+              description: "IANA time zone of the allowed hours and posting days (default UTC)",
+              example: "Europe/Lisbon",
+            },
+            minGapMinutes: {
+              type: "integer",
+              description: "Minimum number of minutes between two posts on the same platform",
+            },
+            maxPostsPerDay: {
+              type: "object",
+              additionalProperties: {
+                type: "integer",
+              },
+              description: "Maximum posts per day per platform; \"*\" applies to platforms not listed",
+              example: { twitter: 5, "*": 2 },
+            },
+            blackoutWindows: {
+              type: "array",
+              description: "Periods during which nothing may be posted",
+              items: {
+                type: "object",
+                properties: {
+                  start: {
+                    type: "string",
+                    format: "date-time",
+                  },
+                  end: {
+                    type: "string",
+                    format: "date-time",
+                    description: "Must be after start",
+                  },
+                  reason: {
+                    type: "string",
+                  },
+                },
+              },
+            },
+            allowedHours: {
+              type: "object",
+              description: "Hours of the day, in the brand's time zone, posts may be published in",
+              properties: {
+                start: {
+                  type: "string",
+                  description: "From (HH:MM)",
+                  example: "09:00",
+                },
+                end: {
+                  type: "string",
+                  description: "Until (HH:MM, exclusive)",
+                  example: "18:00",
+                },
+                weekdays: {
+                  type: "array",
+                  items: {
+                    type: "integer",
+                  },
+                  description: "Days posts may be published on, 0 (Sunday) to 6 (Saturday)",
+                },
+              },
+            },
+          },
+        },
+        ScheduleConflictReport: {
+          type: "object",
+          properties: {
+            brandId: {
+              type: "string",
+            },
+            timezone: {
+              type: "string",
+            },
+            from: {
+              type: "string",
+              format: "date-time",
+            },
+            to: {
+              type: "string",
+              format: "date-time",
+            },
+            postCount: {
+              type: "integer",
+              description: "Number of posts scheduled in the range",
+            },
+            conflicts: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  contentId: {
+                    type: "string",
+                  },
+                  title: {
+                    type: "string",
+                  },
+                  platform: {
+                    type: "string",
+                  },
+                  scheduledFor: {
+                    type: "string",
+                    format: "date-time",
+                  },
+                  violations: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        rule: {
+                          type: "string",
+                          enum: ["min_gap", "max_posts_per_day", "blackout", "allowed_hours"],
+                        },
+                        message: {
+                          type: "string",
+                        },
+                        conflictingContentIds: {
+                          type: "array",
+                          items: {
+                            type: "string",
+                          },
+                        },
+                      },
+                    },
+                  },
+                  suggestedSlot: {
+                    type: "string",
+                    format: "date-time",
+                    description: "Next slot meeting the rules",
+                  },
+                },
+              },
+            },
+            checkedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
         CampaignUpdate: {
           type: "object",
           properties: {
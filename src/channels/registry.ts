@@ -0,0 +1,102 @@
+import { ChannelPublisher } from "./types.js";
+import { TwitterService } from "../services/twitter.service.js";
+
+/**
+ * Registry of publishing channels, keyed by normalized platform name
+ */
+export class ChannelRegistry {
+    private channels: Map<string, ChannelPublisher> = new Map();
+    private aliases: Map<string, string> = new Map();
+
+    /**
+     * Normalize a platform name for lookups (e.g. " Twitter " -> "twitter")
+     */
+    static normalize(platform: string): string {
+        return platform.trim().toLowerCase();
+    }
+
+    /**
+     * Register a channel adapter under its name and aliases
+     */
+    register(channel: ChannelPublisher): void {
+        const name = ChannelRegistry.normalize(channel.name);
+        if (this.channels.has(name)) {
+            throw new Error(`Channel "${name}" is already registered`);
+        }
+
+        this.channels.set(name, channel);
+        for (const alias of channel.aliases || []) {
+            this.aliases.set(ChannelRegistry.normalize(alias), name);
+        }
+    }
+
+    /**
+     * Remove a channel adapter and its aliases
+     */
+    unregister(name: string): void {
+        const normalized = ChannelRegistry.normalize(name);
+        this.channels.delete(normalized);
+        for (const [alias, target] of this.aliases.entries()) {
+            if (target === normalized) {
+                this.aliases.delete(alias);
+            }
+        }
+    }
+
+    /**
+     * Get a channel adapter by platform name or alias
+     */
+    get(platform: string): ChannelPublisher | undefined {
+        const normalized = ChannelRegistry.normalize(platform);
+        const name = this.aliases.get(normalized) || normalized;
+        return this.channels.get(name);
+    }
+
+    /**
+     * Check whether a platform name resolves to a registered channel
+     */
+    has(platform: string): boolean {
+        return this.get(platform) !== undefined;
+    }
+
+    /**
+     * Resolve the channel for a content platform, falling back to the default channel
+     * when the content has no platform set
+     * @throws Error if no channel is registered for the platform
+     */
+    resolve(platform?: string): ChannelPublisher {
+        const target = platform && platform.trim() ? platform : getDefaultChannelName();
+        const channel = this.get(target);
+        if (!channel) {
+            throw new Error(`No publishing channel registered for platform "${target}". Available channels: ${this.list().join(", ") || "none"}`);
+        }
+        return channel;
+    }
+
+    /**
+     * List the names of all registered channels
+     */
+    list(): string[] {
+        return Array.from(this.channels.keys());
+    }
+}
+
+/**
+ * Channel used for content that has no platform set
+ */
+export function getDefaultChannelName(): string {
+    return ChannelRegistry.normalize(process.env.DEFAULT_CHANNEL || "twitter");
+}
+
+let registry: ChannelRegistry | null = null;
+
+/**
+ * Get the shared channel registry, registering the built-in channels on first use
+ */
+export function getChannelRegistry(): ChannelRegistry {
+    if (!registry) {
+        registry = new ChannelRegistry();
+        registry.register(new TwitterService());
+    }
+    return registry;
+}
@@ -1,17 +1,30 @@
 import { Scraper } from "agent-twitter-client";
 import { validateTwitterConfig } from "./config.js";
-
+import { TwitterCookie, TwitterCredentials } from "../../models/credential.model.js";
+import { CredentialService } from "../../services/credential.service.js";
+
+/**
+ * Session used for brands without stored credentials, logged in with the
+ * TWITTER_* environment variables
+ */
+export const DEFAULT_TWITTER_SESSION = "default";
+
+interface TwitterSession {
+    scraper: Scraper;
+    isInitialized: boolean;
+    initializing: Promise<void> | null;
+    cachedCookies: any;
+}
 
 export class AuthenticationManager {
     private static instance: AuthenticationManager;
-    private scraper: Scraper;
-    private cookieArray: any[];
-    private cachedCookies: any;
-    private isInitialized = false;
+    private sessions: Map<string, TwitterSession> = new Map();
+    // Brands without stored credentials, mapped to the default session
+    private sharedSessionBrands: Set<string> = new Set();
+    private credentialService: CredentialService;
 
     private constructor() {
-        this.scraper = new Scraper();
-        this.cookieArray = [];
+        this.credentialService = new CredentialService();
     }
 
     public static getInstance(): AuthenticationManager {
@@ -21,19 +34,93 @@ export class AuthenticationManager {
         return AuthenticationManager.instance;
     }
 
-    async initialize() {
-        if (this.isInitialized) {
-            return;
+    /**
+     * Get a logged in scraper for a brand.
+     * Brands without stored credentials share the default session.
+     */
+    public async getScraper(brandId: string = DEFAULT_TWITTER_SESSION): Promise<Scraper> {
+        const { sessionId, session } = await this.getSession(brandId);
+        await this.initialize(sessionId, session);
+        return session.scraper;
+    }
+
+    /**
+     * Drop the session of a brand so the next request logs in again
+     * with its current credentials
+     */
+    public async resetSession(brandId: string): Promise<void> {
+        this.sharedSessionBrands.delete(brandId);
+
+        const session = this.sessions.get(brandId);
+        if (!session) return;
+
+        this.sessions.delete(brandId);
+        if (session.isInitialized) {
+            try {
+                await session.scraper.logout();
+            } catch (error) {
+                console.error(`[TwitterClient] Failed to log out session for brand ${brandId}:`, error);
+            }
         }
+    }
 
-        const config = await validateTwitterConfig();
-        const username = config.TWITTER_USERNAME;
-        const password = config.TWITTER_PASSWORD;
-        const email = config.TWITTER_EMAIL;
-        let retries = config.TWITTER_RETRY_LIMIT;
-        const twitter2faSecret = config.TWITTER_2FA_SECRET;
+    /**
+     * Username of the account a brand's requests are made as: its stored account,
+     * or the env-configured account for brands without one
+     */
+    public async getUsername(brandId: string = DEFAULT_TWITTER_SESSION): Promise<string | undefined> {
+        const { sessionId } = await this.getSession(brandId);
+        if (sessionId !== DEFAULT_TWITTER_SESSION) {
+            const account = await this.credentialService.getTwitterAccount(sessionId);
+            if (account) return account.username;
+        }
+        return process.env.TWITTER_USERNAME;
+    }
+
+    /**
+     * Check whether a brand has its own session
+     */
+    public hasSession(brandId: string): boolean {
+        return this.sessions.has(brandId);
+    }
+
+    private async getSession(brandId: string): Promise<{ sessionId: string; session: TwitterSession }> {
+        let sessionId = brandId;
+
+        if (brandId !== DEFAULT_TWITTER_SESSION && !this.sessions.has(brandId)) {
+            if (this.sharedSessionBrands.has(brandId) ||
+                !(await this.credentialService.hasTwitterCredentials(brandId))) {
+                this.sharedSessionBrands.add(brandId);
+                sessionId = DEFAULT_TWITTER_SESSION;
+            }
+        }
 
-        if (!username) {
+        let session = this.sessions.get(sessionId);
+        if (!session) {
+            session = {
+                scraper: new Scraper(),
+                isInitialized: false,
+                initializing: null,
+                cachedCookies: null
+            };
+            this.sessions.set(sessionId, session);
+        }
+        return { sessionId, session };
+    }
+
+    /**
+     * Resolve the credentials used to log in a session
+     */
+    private async getCredentials(sessionId: string): Promise<{ credentials: TwitterCredentials; retries: number }> {
+        if (sessionId !== DEFAULT_TWITTER_SESSION) {
+            const credentials = await this.credentialService.getTwitterCredentials(sessionId);
+            if (credentials) {
+                return { credentials, retries: parseInt(process.env.TWITTER_RETRY_LIMIT || "5") };
+            }
+        }
+
+        const config = await validateTwitterConfig();
+        if (!config.TWITTER_USERNAME) {
             throw new Error("Twitter username not configured");
         }
 
@@ -41,43 +128,74 @@ export class AuthenticationManager {
         const ct0 = process.env.TWITTER_COOKIES_CT0 ?? "";
         const guestId = process.env.TWITTER_COOKIES_GUEST_ID ?? "";
 
-        const createTwitterCookies = (authToken: string, ct0: string, guestId: string) =>
-            authToken && ct0 && guestId
-                ? [
-                    { key: 'auth_token', value: authToken, domain: '.twitter.com' },
-                    { key: 'ct0', value: ct0, domain: '.twitter.com' },
-                    { key: 'guest_id', value: guestId, domain: '.twitter.com' },
-                ]
-                : null;
+        const cookies = authToken && ct0 && guestId
+            ? [
+                { key: 'auth_token', value: authToken, domain: '.twitter.com' },
+                { key: 'ct0', value: ct0, domain: '.twitter.com' },
+                { key: 'guest_id', value: guestId, domain: '.twitter.com' },
+            ]
+            : undefined;
+
+        return {
+            credentials: {
+                username: config.TWITTER_USERNAME,
+                password: config.TWITTER_PASSWORD,
+                email: config.TWITTER_EMAIL,
+                twoFactorSecret: config.TWITTER_2FA_SECRET,
+                cookies
+            },
+            retries: config.TWITTER_RETRY_LIMIT
+        };
+    }
+
+    private async initialize(sessionId: string, session: TwitterSession): Promise<void> {
+        if (session.isInitialized) {
+            return;
+        }
 
-        const cachedCookies = this.cookieArray || createTwitterCookies(authToken, ct0, guestId);
+        // Concurrent requests wait for the same login
+        if (!session.initializing) {
+            session.initializing = this.login(sessionId, session).finally(() => {
+                session.initializing = null;
+            });
+        }
+
+        await session.initializing;
+    }
 
-        if (cachedCookies) {
-            console.log("[TwitterClient] Using cached cookies");
-            await this.setCookiesFromArray(cachedCookies);
+    private async login(sessionId: string, session: TwitterSession): Promise<void> {
+        const { credentials, retries: retryLimit } = await this.getCredentials(sessionId);
+        let retries = retryLimit;
+
+        if (credentials.cookies && credentials.cookies.length > 0) {
+            console.log(`[TwitterClient] Using cached cookies for ${credentials.username}`);
+            await this.setCookiesFromArray(session, credentials.cookies);
         }
 
-        console.log("[TwitterClient] Waiting for Twitter login");
+        console.log(`[TwitterClient] Waiting for Twitter login (${credentials.username})`);
         while (retries > 0) {
             try {
-                if (await this.scraper.isLoggedIn()) {
+                if (await session.scraper.isLoggedIn()) {
                     // cookies are valid, no login required
                     console.log("[TwitterClient] Successfully logged in.");
                     break;
-                } else {
-                    await this.scraper.login(
-                        username,
-                        password,
-                        email,
-                        twitter2faSecret
+                } else if (credentials.password) {
+                    await session.scraper.login(
+                        credentials.username,
+                        credentials.password,
+                        credentials.email,
+                        credentials.twoFactorSecret
                     );
-                    if (await this.scraper.isLoggedIn()) {
+                    if (await session.scraper.isLoggedIn()) {
                         // fresh login, store new cookies
                         console.log("Successfully logged in.");
                         console.log("Caching cookies");
-                        this.cachedCookies = await this.scraper.getCookies();
+                        session.cachedCookies = await session.scraper.getCookies();
+                        await this.persistCookies(sessionId, session.cachedCookies);
                         break;
                     }
+                } else {
+                    throw new Error("Stored cookies are no longer valid and no password is configured");
                 }
             } catch (error) {
                 console.error(`[TwitterClient] Login attempt failed:`, error);
@@ -98,22 +216,39 @@ export class AuthenticationManager {
             await new Promise((resolve) => setTimeout(resolve, 2000));
         }
 
-        this.isInitialized = true;
+        session.isInitialized = true;
     }
 
-    public async getScraper(): Promise<Scraper> {
-        await this.initialize();
-        return this.scraper;
+    /**
+     * Save the cookies of a fresh login with the brand's credentials
+     */
+    private async persistCookies(sessionId: string, cookies: any[]): Promise<void> {
+        if (sessionId === DEFAULT_TWITTER_SESSION) return;
+
+        try {
+            const serialized: TwitterCookie[] = cookies.map((cookie) => ({
+                key: cookie.key,
+                value: cookie.value,
+                domain: cookie.domain ?? undefined,
+                path: cookie.path ?? undefined,
+                secure: cookie.secure ?? undefined,
+                httpOnly: cookie.httpOnly ?? undefined,
+                sameSite: cookie.sameSite ?? undefined
+            }));
+            await this.credentialService.saveTwitterCookies(sessionId, serialized);
+        } catch (error) {
+            console.error(`[TwitterClient] Failed to store cookies for brand ${sessionId}:`, error);
+        }
     }
 
-    async setCookiesFromArray(cookiesArray: any[]) {
+    async setCookiesFromArray(session: TwitterSession, cookiesArray: any[]) {
         const cookieStrings = cookiesArray.map(
             (cookie) =>
-                `${cookie.key}=${cookie.value}; Domain=${cookie.domain}; Path=${cookie.path}; ${cookie.secure ? "Secure" : ""
+                `${cookie.key}=${cookie.value}; Domain=${cookie.domain || ".twitter.com"}; Path=${cookie.path || "/"}; ${cookie.secure ? "Secure" : ""
                 }; ${cookie.httpOnly ? "HttpOnly" : ""}; SameSite=${cookie.sameSite || "Lax"
                 }`
         );
-        await this.scraper.setCookies(cookieStrings);
-        this.cachedCookies = await this.scraper.getCookies();
+        await session.scraper.setCookies(cookieStrings);
+        session.cachedCookies = await session.scraper.getCookies();
     }
-}
\ No newline at end of file
+}
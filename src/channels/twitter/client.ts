@@ -7,7 +7,7 @@ import {
     FollowResponse,
     GrokChatResponse
 } from './types.js';
-import { AuthenticationManager } from './authentication.js';
+import { AuthenticationManager, DEFAULT_TWITTER_SESSION } from './authentication.js';
 import { formatTweet, formatProfile, formatSearch } from './formatters.js';
 import { Profile, SearchMode } from 'agent-twitter-client';
 
@@ -68,8 +68,13 @@ export class TwitterClient {
     private authManager: AuthenticationManager;
     private requestQueue: RequestQueue;
     private profile: Profile | null = null;
+    private brandId: string;
 
-    constructor() {
+    /**
+     * @param brandId Brand whose Twitter account is used (defaults to the env-configured account)
+     */
+    constructor(brandId: string = DEFAULT_TWITTER_SESSION) {
+        this.brandId = brandId;
         this.authManager = AuthenticationManager.getInstance();
         this.requestQueue = new RequestQueue();
     }
@@ -84,7 +89,7 @@ export class TwitterClient {
         includeRetweets: boolean = true
     ): Promise<TweetResponse[]> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const tweets: any[] = await this.requestQueue.add(async () => {
                 const tweetIterator = includeReplies
                     ? scraper.getTweets(username, count)
@@ -114,7 +119,7 @@ export class TwitterClient {
         id: string
     ): Promise<TweetResponse> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const tweet = await this.requestQueue.add(() => scraper.getTweet(id));
             if (!tweet) {
                 throw new TwitterMcpError(
@@ -134,7 +139,7 @@ export class TwitterClient {
      */
     async getUserTimeline(count: number): Promise<TweetResponse[]> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const tweets: any[] = await this.requestQueue.add(async () => {
                 return await scraper.fetchHomeTimeline(count, []);
             });
@@ -153,7 +158,7 @@ export class TwitterClient {
         searchMode: string = 'Top'
     ): Promise<SearchResponse> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const mode = this.getSearchMode(searchMode);
             const tweets: any[] = await this.requestQueue.add(async () => {
                 const tweets: any[] = [];
@@ -180,7 +185,7 @@ export class TwitterClient {
         media?: { data: string; mediaType: string }[]
     ): Promise<TweetResponse> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const processedMedia = media?.map(item => ({
                 data: Buffer.from(item.data, 'base64'),
                 mediaType: item.mediaType
@@ -213,7 +218,7 @@ export class TwitterClient {
         replyToTweetId?: string
     ): Promise<TweetResponse> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const response = await this.requestQueue.add(() =>
                 scraper.sendTweetV2(
                     text,
@@ -241,7 +246,7 @@ export class TwitterClient {
         id: string
     ): Promise<{ success: boolean; message: string }> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             await this.requestQueue.add(() => scraper.likeTweet(id));
             return {
                 success: true,
@@ -259,7 +264,7 @@ export class TwitterClient {
         id: string
     ): Promise<{ success: boolean; message: string }> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             await this.requestQueue.add(() => scraper.retweet(id));
             return {
                 success: true,
@@ -279,7 +284,7 @@ export class TwitterClient {
         media?: { data: string; mediaType: string }[]
     ): Promise<TweetResponse> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const processedMedia = media?.map(item => ({
                 data: Buffer.from(item.data, 'base64'),
                 mediaType: item.mediaType
@@ -314,7 +319,7 @@ export class TwitterClient {
         username: string
     ): Promise<ProfileResponse> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const profile = await this.requestQueue.add(() => scraper.getProfile(username));
             return formatProfile(profile);
         } catch (error) {
@@ -329,7 +334,7 @@ export class TwitterClient {
         username: string
     ): Promise<FollowResponse> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             await this.requestQueue.add(() => scraper.followUser(username));
             return {
                 success: true,
@@ -348,7 +353,7 @@ export class TwitterClient {
         count: number
     ): Promise<ProfileResponse[]> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const profiles: any[] = await this.requestQueue.add(async () => {
                 const profiles: any[] = [];
                 for await (const profile of scraper.getFollowers(userId, count)) {
@@ -373,7 +378,7 @@ export class TwitterClient {
         count: number
     ): Promise<ProfileResponse[]> {
         try {
-            const scraper = await this.authManager.getScraper();
+            const scraper = await this.authManager.getScraper(this.brandId);
             const profiles: any[] = await this.requestQueue.add(async () => {
                 const profiles: any[] = [];
                 for await (const profile of scraper.getFollowing(userId, count)) {
@@ -433,20 +438,23 @@ export class TwitterClient {
     }
 
     /**
-     * Helper to get or set the profile 
+     * Helper to get or set the profile of the account the brand's requests are made as
      */
     async getProfile(): Promise<Profile> {
-        if (!this.profile) {
-            if (!process.env.TWITTER_USERNAME) {
-                throw new TwitterMcpError(
-                    'Twitter username not set',
-                    'twitter_username_not_set',
-                    500
-                );
-            }
-            const scraper = await this.authManager.getScraper();
+        const username = await this.authManager.getUsername(this.brandId);
+        if (!username) {
+            throw new TwitterMcpError(
+                'Twitter username not set',
+                'twitter_username_not_set',
+                500
+            );
+        }
+
+        // The brand may have connected another account since the profile was fetched
+        if (!this.profile || this.profile.username?.toLowerCase() !== username.toLowerCase()) {
+            const scraper = await this.authManager.getScraper(this.brandId);
             this.profile = await this.requestQueue.add(async () => {
-                const profile = await scraper.getProfile(process.env.TWITTER_USERNAME!);
+                const profile = await scraper.getProfile(username);
                 return profile;
             });
         }
@@ -1,6 +1,7 @@
 import { z, ZodError } from "zod";
 
 export const DEFAULT_MAX_TWEET_LENGTH = 280;
+export const DEFAULT_MAX_THREAD_TWEETS = 25;
 
 const twitterUsernameSchema = z
     .string()
@@ -55,6 +56,28 @@ function safeParseInt(
     return isNaN(parsed) ? defaultValue : Math.max(1, parsed);
 }
 
+/**
+ * Maximum tweet length, configurable through MAX_TWEET_LENGTH.
+ * Does not require Twitter credentials to be configured.
+ */
+export function getMaxTweetLength(): number {
+    return safeParseInt(process.env.MAX_TWEET_LENGTH, DEFAULT_MAX_TWEET_LENGTH);
+}
+
+/**
+ * Maximum number of tweets in a thread, configurable through MAX_THREAD_TWEETS.
+ */
+export function getMaxThreadTweets(): number {
+    return safeParseInt(process.env.MAX_THREAD_TWEETS, DEFAULT_MAX_THREAD_TWEETS);
+}
+
+/**
+ * Whether thread tweets get a "1/n" counter, configurable through TWITTER_THREAD_NUMBERING.
+ */
+export function isThreadNumberingEnabled(): boolean {
+    return process.env.TWITTER_THREAD_NUMBERING !== "false";
+}
+
 /**
  * Validates or constructs a TwitterConfig object using zod,
  * taking values from process.env as needed.
@@ -0,0 +1,160 @@
+/**
+ * Splitting long-form content into a Twitter thread
+ */
+
+// A line made of three or more dashes separates tweets explicitly
+const SEPARATOR_PATTERN = /^[ \t]*-{3,}[ \t]*$/m;
+const SEPARATOR_SPLIT_PATTERN = /^[ \t]*-{3,}[ \t]*$/gm;
+
+// Sentence boundary: whitespace after terminal punctuation (optionally closed by quotes/brackets)
+const SENTENCE_BOUNDARY_PATTERN = /(?<=[.!?…]["'”’)\]]*)\s+/;
+
+// Formats that are always published as a thread
+const THREAD_FORMATS = ["thread", "threads", "twitter thread", "x thread", "tweetstorm", "tweet thread"];
+
+export interface ThreadSplitOptions {
+    /**
+     * Maximum length of a single tweet, numbering included
+     */
+    maxLength: number;
+    /**
+     * Append a "1/n" counter to every tweet (only when there is more than one)
+     */
+    numbering?: boolean;
+}
+
+/**
+ * Check whether a content format asks for a thread
+ */
+export function isThreadFormat(format?: string): boolean {
+    if (!format) return false;
+    return THREAD_FORMATS.includes(format.trim().toLowerCase());
+}
+
+/**
+ * Check whether the text contains explicit tweet separators
+ */
+export function hasThreadSeparators(text: string): boolean {
+    return SEPARATOR_PATTERN.test(text);
+}
+
+/**
+ * Split text into tweets.
+ *
+ * Explicit separators (a line of `---`) are honoured first; any part that is
+ * still too long is split on paragraphs, then sentences, then words.
+ */
+export function splitIntoThread(text: string, options: ThreadSplitOptions): string[] {
+    const numbering = options.numbering ?? true;
+    const parts = text
+        .split(SEPARATOR_SPLIT_PATTERN)
+        .map(part => part.trim())
+        .filter(part => part.length > 0);
+
+    if (parts.length === 0) {
+        return [];
+    }
+
+    if (!numbering) {
+        return parts.flatMap(part => splitToLength(part, options.maxLength));
+    }
+
+    // The counter length depends on the number of tweets, so iterate until stable
+    let count = parts.length;
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const budget = options.maxLength - counterLength(count);
+        if (budget <= 0) {
+            throw new Error(`Tweet length ${options.maxLength} is too short to number a thread`);
+        }
+
+        const tweets = parts.flatMap(part => splitToLength(part, budget));
+        if (tweets.length === 1) {
+            return tweets;
+        }
+        if (counterLength(tweets.length) <= counterLength(count)) {
+            return tweets.map((tweet, index) => `${tweet} ${index + 1}/${tweets.length}`);
+        }
+        count = tweets.length;
+    }
+
+    throw new Error("Could not split content into a numbered thread");
+}
+
+/**
+ * Length of the " i/n" counter for a thread of n tweets
+ */
+function counterLength(count: number): number {
+    const digits = String(count).length;
+    return 1 + digits + 1 + digits;
+}
+
+/**
+ * Split a block of text into chunks of at most maxLength characters
+ */
+function splitToLength(text: string, maxLength: number): string[] {
+    if (text.length <= maxLength) {
+        return [text];
+    }
+
+    const chunks: string[] = [];
+    let current = "";
+
+    const flush = () => {
+        if (current.trim()) {
+            chunks.push(current.trim());
+        }
+        current = "";
+    };
+
+    const append = (piece: string, joiner: string) => {
+        if (!current) {
+            current = piece;
+        } else if (current.length + joiner.length + piece.length <= maxLength) {
+            current += joiner + piece;
+        } else {
+            flush();
+            current = piece;
+        }
+    };
+
+    for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+        if (paragraph.length <= maxLength) {
+            // Short paragraphs share a tweet when they fit
+            append(paragraph, "\n\n");
+            continue;
+        }
+
+        for (const sentence of splitSentences(paragraph)) {
+            if (sentence.length <= maxLength) {
+                append(sentence, " ");
+                continue;
+            }
+
+            for (const word of sentence.split(/\s+/).filter(Boolean)) {
+                if (word.length <= maxLength) {
+                    append(word, " ");
+                    continue;
+                }
+
+                // A single word longer than a tweet (e.g. a long URL) is cut
+                flush();
+                for (let i = 0; i < word.length; i += maxLength) {
+                    chunks.push(word.slice(i, i + maxLength));
+                }
+            }
+        }
+    }
+    flush();
+
+    return chunks;
+}
+
+/**
+ * Split a paragraph into sentences, keeping their punctuation
+ */
+function splitSentences(paragraph: string): string[] {
+    return paragraph
+        .split(SENTENCE_BOUNDARY_PATTERN)
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+}
@@ -1,4 +1,5 @@
 import * as zod from 'zod';
+import { PublishResult } from '../types.js';
 
 export type MediaData = {
     data: Buffer;
@@ -161,4 +162,47 @@ export class TwitterMcpError extends Error {
         super(message);
         this.name = 'TwitterMcpError';
     }
-} 
\ No newline at end of file
+}
+
+export interface ThreadTweet {
+    id: string;
+    url: string;
+    text: string;
+}
+
+/**
+ * Publish result of the tweets of a thread, led by its first tweet
+ */
+export function toThreadResult(tweets: ThreadTweet[]): PublishResult {
+    return {
+        id: tweets[0].id,
+        url: tweets[0].url,
+        platformSpecificData: {
+            thread: true,
+            tweetCount: tweets.length,
+            tweetIds: tweets.map(tweet => tweet.id),
+            tweetUrls: tweets.map(tweet => tweet.url),
+            tweets
+        }
+    };
+}
+
+export class ThreadPublishError extends TwitterMcpError {
+    public readonly retryable: boolean;
+    public readonly partialResult?: PublishResult;
+
+    constructor(
+        message: string,
+        public readonly publishedTweets: ThreadTweet[],
+        public readonly totalTweets: number
+    ) {
+        super(message, 'thread_incomplete', 500);
+        this.name = 'ThreadPublishError';
+        // A partially published thread is left for a person to look at rather than retried.
+        // Its published tweets are kept, so publishing it again resumes after them.
+        this.retryable = publishedTweets.length === 0;
+        if (publishedTweets.length > 0) {
+            this.partialResult = toThreadResult(publishedTweets);
+        }
+    }
+}
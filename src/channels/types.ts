@@ -0,0 +1,86 @@
+import { Content } from "../models/content.model.js";
+
+/**
+ * Result of publishing a content item to a channel
+ */
+export interface PublishResult {
+    id: string;
+    url: string;
+    platformSpecificData?: Record<string, any>;
+}
+
+/**
+ * Error of a publish that failed after posting part of the content, such as the first
+ * tweets of a thread. The partial result is stored on the content, and the channel
+ * resumes after it on the next attempt.
+ */
+export interface PartialPublishError extends Error {
+    partialResult: PublishResult;
+}
+
+/**
+ * Media file attached to a post
+ */
+export interface MediaAttachment {
+    data: Buffer;
+    mediaType: string;
+    fileName?: string;
+    altText?: string;
+    mediaId?: string;
+}
+
+/**
+ * Result of checking whether a content item can be published to a channel
+ */
+export interface ChannelValidationResult {
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+}
+
+/**
+ * Engagement metrics reported by a channel for a published post
+ */
+export interface ChannelMetrics {
+    likes?: number;
+    shares?: number;
+    replies?: number;
+    views?: number;
+    [metric: string]: number | undefined;
+}
+
+/**
+ * Common interface implemented by every publishing channel adapter
+ */
+export interface ChannelPublisher {
+    /**
+     * Canonical channel name (lowercase), matched against content.platform
+     */
+    readonly name: string;
+
+    /**
+     * Alternative platform names that should route to this channel
+     */
+    readonly aliases?: string[];
+
+    /**
+     * Publish a content item on behalf of a brand, with optional media attachments.
+     * Errors carrying `retryable: false` or a 4xx status are not retried by the scheduler.
+     */
+    publish(content: Content, brandId: string, media?: MediaAttachment[]): Promise<PublishResult>;
+
+    /**
+     * Check a content item against the channel's constraints before publishing
+     */
+    validate(content: Content): ChannelValidationResult;
+
+    /**
+     * Remove a previously published post
+     */
+    delete(postId: string, brandId: string): Promise<void>;
+
+    /**
+     * Fetch current engagement metrics for a published post
+     */
+    fetchMetrics(postId: string, brandId: string): Promise<ChannelMetrics>;
+}
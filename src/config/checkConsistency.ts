@@ -0,0 +1,29 @@
+import { connectToDatabase } from "./db.js";
+import { ConsistencyService } from "../services/consistency.service.js";
+
+/**
+ * Report documents referencing brands, campaigns, plans or content that no longer exist.
+ * Exits with code 1 when orphans are found.
+ */
+async function checkConsistency(): Promise<boolean> {
+    await connectToDatabase();
+    const report = await new ConsistencyService().check();
+
+    if (report.consistent) {
+        console.log("No orphaned documents found.");
+        return true;
+    }
+
+    console.log(`Found ${report.orphanCount} orphaned document(s):`);
+    for (const orphan of report.orphans) {
+        console.log(`  ${orphan.collection} ${orphan.entityId}${orphan.name ? ` ("${orphan.name}")` : ""}: ${orphan.field} ${orphan.referencedId} is ${orphan.problem}`);
+    }
+    return false;
+}
+
+checkConsistency()
+    .then(consistent => process.exit(consistent ? 0 : 1))
+    .catch(err => {
+        console.error("Consistency check failed:", err);
+        process.exit(1);
+    });
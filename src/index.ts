@@ -1,7 +1,10 @@
 import { connectToDatabase } from "./config/db.js";
 import { setupMcpServer } from "./mcp/server.js";
+import { closeMcpSessions, isMcpHttpEnabled } from "./mcp/http.js";
 import { setupApiServer } from "./api/server.js";
 import { SchedulerService } from "./services/scheduler.service.js";
+import { MetricsCollectorService } from "./services/metrics-collector.service.js";
+import { TrashPurgerService } from "./services/trash-purger.service.js";
 import dotenv from "dotenv";
 
 // Load environment variables
@@ -12,6 +15,14 @@ const schedulerInterval = parseInt(
   process.env.SCHEDULER_INTERVAL || "60000",
   10
 );
+const metricsInterval = parseInt(
+  process.env.METRICS_COLLECTION_INTERVAL || "3600000",
+  10
+);
+const trashPurgeInterval = parseInt(
+  process.env.TRASH_PURGE_INTERVAL || "86400000",
+  10
+);
 const apiPort = parseInt(process.env.API_PORT || "3000", 10);
 
 async function startApplication() {
@@ -26,6 +37,9 @@ async function startApplication() {
     const apiServer = await setupApiServer();
     apiServer.listen(apiPort, () => {
       console.log(`REST API server listening on port ${apiPort}`);
+      if (isMcpHttpEnabled()) {
+        console.log(`MCP server available at http://localhost:${apiPort}/mcp (SSE at /mcp/sse)`);
+      }
     });
 
     // Start the content scheduler
@@ -35,10 +49,21 @@ async function startApplication() {
       `Content scheduler started with interval of ${schedulerInterval}ms`
     );
 
+    // Start collecting engagement metrics for published content
+    const metricsCollector = new MetricsCollectorService();
+    metricsCollector.start(metricsInterval);
+
+    // Purge entities that have been in the trash past the retention period
+    const trashPurger = new TrashPurgerService();
+    trashPurger.start(trashPurgeInterval);
+
     // Handle application shutdown
     process.on("SIGINT", async () => {
       console.log("\nShutting down...");
       schedulerService.stop();
+      metricsCollector.stop();
+      trashPurger.stop();
+      await closeMcpSessions();
       process.exit(0);
     });
   } catch (error) {
@@ -0,0 +1,29 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { runWithAuditContext } from "../utils/audit-context.js";
+import { AuditSource } from "../models/audit-event.model.js";
+
+// Tool parameters naming the user a tool call acts for, checked in order
+const ACTOR_PARAMS = ["user_id", "reviewer_id", "userId"];
+
+/**
+ * Run every tool registered on the server afterwards inside an audit context,
+ * so the changes a tool call makes are attributed to the tool and its user
+ * @param actor user of an authenticated session, attributed instead of the tools' user parameters
+ */
+export function auditToolCalls(server: McpServer, actor?: string): void {
+  const register = server.tool.bind(server) as (...args: any[]) => any;
+
+  server.tool = ((name: string, ...rest: any[]) => {
+    const handler = rest.pop() as (...args: any[]) => any;
+
+    return register(name, ...rest, (...args: any[]) => {
+      const params = rest.length > 0 && typeof args[0] === "object" ? args[0] : {};
+      const user = actor || ACTOR_PARAMS.map(param => params?.[param]).find(value => typeof value === "string" && value);
+
+      return runWithAuditContext(
+        { actor: user || "mcp", source: AuditSource.Mcp, tool: name },
+        () => handler(...args)
+      );
+    });
+  }) as typeof server.tool;
+}
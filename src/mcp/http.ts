@@ -0,0 +1,201 @@
+import { Router, Request, RequestHandler } from "express";
+import bodyParser from "body-parser";
+import { IncomingMessage } from "http";
+import { randomUUID } from "crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer } from "./server.js";
+import { authenticate, requireAllBrands, requirePermission } from "../api/middleware/auth.js";
+import { Permission } from "../models/api-key.model.js";
+import { getMaxJsonUploadBytes } from "../services/media.service.js";
+import { BadRequestError, ForbiddenError, NotFoundError } from "../utils/errors.js";
+
+const { json } = bodyParser;
+
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/**
+ * Whether the API server also serves MCP over HTTP (MCP_HTTP_ENABLED=true)
+ */
+export function isMcpHttpEnabled(): boolean {
+  return process.env.MCP_HTTP_ENABLED === "true";
+}
+
+/**
+ * How long an MCP session may stay unused before it is closed
+ */
+export function getSessionIdleMs(): number {
+  const parsed = parseInt(process.env.MCP_SESSION_IDLE_MS || "");
+  return isNaN(parsed) || parsed <= 0 ? DEFAULT_SESSION_IDLE_MS : parsed;
+}
+
+interface McpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  // User of the API key that opened the session
+  userId?: string;
+  lastActiveAt: number;
+}
+
+const sessions = new Map<string, McpSession>();
+let sweepTimer: NodeJS.Timeout | undefined;
+
+function openSession(sessionId: string, session: Omit<McpSession, "lastActiveAt">): void {
+  sessions.set(sessionId, { ...session, lastActiveAt: Date.now() });
+
+  if (!sweepTimer) {
+    const idleMs = getSessionIdleMs();
+    sweepTimer = setInterval(() => closeIdleSessions(idleMs), Math.min(idleMs, 60 * 1000));
+    sweepTimer.unref();
+  }
+}
+
+/**
+ * Get a session for a request; sessions can only be used with the API key user that opened them
+ */
+function getSession(sessionId: string, req: Request): McpSession {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new NotFoundError(`MCP session ${sessionId} not found or expired`);
+  }
+  if (session.userId !== req.auth?.userId) {
+    throw new ForbiddenError("The MCP session belongs to another user");
+  }
+
+  session.lastActiveAt = Date.now();
+  return session;
+}
+
+async function closeSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  sessions.delete(sessionId);
+  try {
+    await session.server.close();
+  } catch (error) {
+    console.error(`Failed to close MCP session ${sessionId}:`, error);
+  }
+}
+
+async function closeIdleSessions(idleMs: number): Promise<void> {
+  const cutoff = Date.now() - idleMs;
+  for (const [sessionId, session] of sessions) {
+    if (session.lastActiveAt < cutoff) {
+      await closeSession(sessionId);
+    }
+  }
+}
+
+/**
+ * Close every open MCP session, on shutdown
+ */
+export async function closeMcpSessions(): Promise<void> {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = undefined;
+  }
+  await Promise.all([...sessions.keys()].map(sessionId => closeSession(sessionId)));
+}
+
+/**
+ * Streamable HTTP transport: POST an initialize request without a session ID to
+ * open a session, then send its Mcp-Session-Id header with every POST, GET
+ * (server notifications) and DELETE (close the session)
+ */
+const streamableHttpHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const sessionId = req.header("mcp-session-id");
+    if (sessionId) {
+      const session = getSession(sessionId, req);
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw new BadRequestError(`MCP session ${sessionId} uses the SSE transport`);
+      }
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+      throw new BadRequestError("An Mcp-Session-Id header is required except to initialize a session");
+    }
+
+    const userId = req.auth?.userId;
+    const server = createMcpServer(userId, req.auth?.role);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => openSession(id, { server, transport, userId })
+    });
+    // The server takes over the transport's close handler when it connects
+    const onclose = server.server.onclose;
+    server.server.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+      onclose?.();
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Legacy SSE transport: GET opens the event stream and a session, whose
+ * messages are POSTed to the messages endpoint with the sessionId query parameter
+ */
+const sseStreamHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const userId = req.auth?.userId;
+    const server = createMcpServer(userId, req.auth?.role);
+    const transport = new SSEServerTransport(`${req.baseUrl}/messages`, res);
+    const sessionId = transport.sessionId;
+
+    openSession(sessionId, { server, transport, userId });
+    res.on("close", () => {
+      void closeSession(sessionId);
+    });
+
+    await server.connect(transport);
+  } catch (error) {
+    next(error);
+  }
+};
+
+const sseMessageHandler: RequestHandler = async (req, res, next) => {
+  try {
+    const sessionId = req.query.sessionId as string | undefined;
+    if (!sessionId) {
+      throw new BadRequestError("The sessionId query parameter is required");
+    }
+
+    const session = getSession(sessionId, req);
+    if (!(session.transport instanceof SSEServerTransport)) {
+      throw new BadRequestError(`MCP session ${sessionId} uses the Streamable HTTP transport`);
+    }
+    await session.transport.handlePostMessage(req as IncomingMessage, res, req.body);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Routes serving the MCP tools over HTTP, so several agents can share one running CMS.
+ * MCP tools can approve and publish content of any brand, so they need an API key
+ * with the approve permission that isn't limited to specific brands. Tools needing
+ * the admin permission are only available to admin keys.
+ */
+export function createMcpRouter(): Router {
+  const router = Router();
+
+  // The uploadContentMedia tool takes base64 data, so messages get the media upload
+  // limit; they are only read once the key is checked
+  router.use(authenticate, requirePermission(Permission.Approve), requireAllBrands, json({ limit: getMaxJsonUploadBytes() }));
+
+  router.get("/sse", sseStreamHandler);
+  router.post("/messages", sseMessageHandler);
+  router.all("/", streamableHttpHandler);
+
+  return router;
+}
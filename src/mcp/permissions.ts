@@ -0,0 +1,51 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ApiKeyRole, Permission, ROLE_PERMISSIONS } from "../models/api-key.model.js";
+import { DeletableEntity } from "../models/integrity.model.js";
+import { ForbiddenError } from "../utils/errors.js";
+
+type ToolPermission = Permission | ((params: Record<string, any>) => Permission);
+
+// Tools needing more than the approve permission MCP sessions are opened with,
+// matching the REST routes of the same operations
+const TOOL_PERMISSIONS: Record<string, ToolPermission> = {
+  createBrand: Permission.Admin,
+  deleteBrand: Permission.Admin,
+  connectTwitterAccount: Permission.Admin,
+  disconnectTwitterAccount: Permission.Admin,
+  verifyTwitterAccount: Permission.Admin,
+  getAuditEvents: Permission.Admin,
+  restoreFromTrash: params => params.entity_type === DeletableEntity.Brand ? Permission.Admin : Permission.Approve
+};
+
+/**
+ * Limit the tools registered on the server afterwards to those the role of an API
+ * key grants. Tools whose permission never applies aren't registered; tools whose
+ * permission depends on their parameters check it on every call.
+ * @param role role of the API key of an authenticated session; every tool is available without one
+ */
+export function restrictTools(server: McpServer, role?: ApiKeyRole): void {
+  if (!role) return;
+
+  const permissions = ROLE_PERMISSIONS[role];
+  const register = server.tool.bind(server) as (...args: any[]) => any;
+
+  server.tool = ((name: string, ...rest: any[]) => {
+    const required = TOOL_PERMISSIONS[name];
+    if (!required) {
+      return register(name, ...rest);
+    }
+    if (typeof required !== "function") {
+      return permissions.includes(required) ? register(name, ...rest) : undefined;
+    }
+
+    const handler = rest.pop() as (...args: any[]) => any;
+    return register(name, ...rest, (...args: any[]) => {
+      const params = rest.length > 0 && typeof args[0] === "object" ? args[0] : {};
+      const permission = required(params);
+      if (!permissions.includes(permission)) {
+        throw new ForbiddenError(`The ${role} role does not have the ${permission} permission needed for this ${name} call`);
+      }
+      return handler(...args);
+    });
+  }) as typeof server.tool;
+}
@@ -0,0 +1,77 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { CampaignService } from "../../services/campaign.service.js";
+import { BrandService } from "../../services/brand.service.js";
+import { PlanService } from "../../services/plan.service.js";
+import { ContentService } from "../../services/content.service.js";
+import { ContentState } from "../../models/content.model.js";
+import { addDays, formatDate } from "../../utils/date.utils.js";
+import { formatCampaign, formatContentList, formatMasterPlan, formatMicroPlan, promptMessages, section } from "./prompt.utils.js";
+
+export function registerCampaignPrompts(server: McpServer) {
+    const campaignService = new CampaignService();
+    const brandService = new BrandService();
+    const planService = new PlanService();
+    const contentService = new ContentService();
+
+    // Plan the next week of a campaign
+    server.prompt(
+        "plan-campaign-week",
+        "Plan a week of a campaign: a day-by-day content schedule built from the campaign goals, milestones and content mix, the active plans and their themes, and the content already scheduled",
+        {
+            campaign_id: z.string().describe("ID of the campaign to plan"),
+            start_date: z.string().refine(value => !isNaN(new Date(value).getTime()), "start_date must be a date")
+                .optional().describe("First day of the week to plan, in ISO format (defaults to today)")
+        },
+        async (params) => {
+            const campaign = await campaignService.getCampaignById(params.campaign_id);
+            if (!campaign) {
+                throw new Error(`Campaign with ID ${params.campaign_id} not found`);
+            }
+
+            const start = params.start_date ? new Date(params.start_date) : new Date();
+            start.setHours(0, 0, 0, 0);
+            const end = addDays(start, 7);
+            const inWeek = (date?: Date) => !!date && date >= start && date < end;
+
+            const brand = await brandService.getBrand(campaign.brandId);
+            const masterPlan = await planService.getActiveMasterPlan(campaign._id!);
+            const microPlans = masterPlan
+                ? (await planService.getActiveMicroPlans(masterPlan._id!))
+                    .filter(plan => plan.dateRange.start < end && plan.dateRange.end >= start)
+                : [];
+            const content = await contentService.getContentByCampaignId(campaign._id!);
+
+            const milestones = campaign.majorMilestones.filter(milestone =>
+                milestone.status === "pending" && milestone.date && milestone.date < end);
+
+            return promptMessages(
+                brand,
+                [
+                    formatCampaign(campaign),
+                    section("Milestones due", milestones.length > 0
+                        ? milestones.map(milestone => `- ${formatDate(milestone.date)}: ${milestone.description}` +
+                            (milestone.date! < start ? " (overdue)" : ""))
+                        : ["None this week."]),
+                    ...(campaign.contentMix?.length ? [section("Content mix", campaign.contentMix.map(mix =>
+                        `- ${mix.category}: ${Math.round(mix.ratio * 100)}% on ${mix.platforms.map(platform => `${platform.name} (${platform.format})`).join(", ")}`))] : []),
+                    masterPlan ? formatMasterPlan(masterPlan) : section("Master plan", ["The campaign has no active master plan."]),
+                    ...microPlans.map(formatMicroPlan),
+                    formatContentList("Content scheduled this week",
+                        content.filter(item => inWeek(item.stateMetadata.scheduledFor))),
+                    formatContentList("Unscheduled content",
+                        content.filter(item => item.state !== ContentState.Published && !item.stateMetadata.scheduledFor))
+                ],
+                [
+                    `Plan the week of ${formatDate(start)} - ${formatDate(addDays(end, -1))} for the campaign "${campaign.name}".`,
+                    "- Propose a day-by-day schedule: what to publish, on which channel, and which micro plan and goal each piece serves.",
+                    "- Build around the content already scheduled, prepare for the milestones due, keep to the content mix and cover the plans' themes.",
+                    "- Schedule unscheduled content where it fits and list the new content to write, following the brand guidelines.",
+                    "",
+                    "Once the plan is agreed, create the new content with the createContent tool and schedule it with the scheduleContent tool."
+                ].join("\n"),
+                `Plan the week of ${formatDate(start)} for campaign "${campaign.name}"`
+            );
+        }
+    );
+}
@@ -0,0 +1,59 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ContentService } from "../../services/content.service.js";
+import { BrandService } from "../../services/brand.service.js";
+import { PlanService } from "../../services/plan.service.js";
+import { PlanType } from "../../models/plan.model.js";
+import { formatMicroPlan, promptMessages, section } from "./prompt.utils.js";
+
+export function registerContentPrompts(server: McpServer) {
+    const contentService = new ContentService();
+    const brandService = new BrandService();
+    const planService = new PlanService();
+
+    // Review content against the brand guidelines
+    server.prompt(
+        "review-content-against-guidelines",
+        "Review a content item against its brand guidelines, starting from the automated guideline checks and covering what they can't judge: tone, key messages and fit with the plan",
+        {
+            content_id: z.string().describe("ID of the content to review")
+        },
+        async (params) => {
+            const content = await contentService.getContent(params.content_id);
+            if (!content) {
+                throw new Error(`Content with ID ${params.content_id} not found`);
+            }
+
+            const report = await contentService.validateContent(content);
+            const brand = await brandService.getBrand(report.brandId!);
+            const plan = content.microPlanId ? await planService.getPlan(content.microPlanId) : null;
+
+            return promptMessages(
+                brand,
+                [
+                    section(`Content: ${content.title}`, [
+                        `State: ${content.state}`,
+                        content.platform && `Platform: ${content.platform}`,
+                        content.format && `Format: ${content.format}`,
+                        content.targetAudience && `Audience: ${content.targetAudience}`,
+                        content.keywords.length > 0 && `Keywords: ${content.keywords.join(", ")}`,
+                        `\n${content.content}`
+                    ]),
+                    ...(plan?.type === PlanType.Micro ? [formatMicroPlan(plan)] : []),
+                    section("Automated guideline checks", report.issues.length > 0
+                        ? report.issues.map(issue => `- ${issue.severity}: ${issue.message}`)
+                        : ["No issues found."])
+                ],
+                [
+                    `Review the content "${content.title}" against the ${brand ? `${brand.name} brand guidelines attached above` : "brand's guidelines"}.`,
+                    "- Explain how to fix each issue the automated checks found.",
+                    "- Check what the automated checks can't: the tone, the key messages for the audience, and whether the content serves its plan.",
+                    "",
+                    "End with a verdict (approve or request changes) and, when changes are needed, a revised version of the content. " +
+                    `Record the decision with the reviewContent tool, or save the revision with the updateContent tool (content_id: "${content._id}").`
+                ].join("\n"),
+                `Review content "${content.title}" against its brand guidelines`
+            );
+        }
+    );
+}
@@ -0,0 +1,62 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { PlanService } from "../../services/plan.service.js";
+import { CampaignService } from "../../services/campaign.service.js";
+import { BrandService } from "../../services/brand.service.js";
+import { ContentService } from "../../services/content.service.js";
+import { PlanType } from "../../models/plan.model.js";
+import { getMaxTweetLength } from "../../channels/twitter/config.js";
+import { formatCampaign, formatContentList, formatMasterPlan, formatMicroPlan, promptMessages } from "./prompt.utils.js";
+
+const DEFAULT_TWEET_COUNT = 5;
+
+export function registerPlanPrompts(server: McpServer) {
+    const planService = new PlanService();
+    const campaignService = new CampaignService();
+    const brandService = new BrandService();
+    const contentService = new ContentService();
+
+    // Draft tweets for a micro plan
+    server.prompt(
+        "draft-tweets-for-micro-plan",
+        "Draft tweets for a micro plan, with the brand guidelines, campaign goals, master plan themes and the plan's content series as context",
+        {
+            micro_plan_id: z.string().describe("ID of the micro plan to draft tweets for"),
+            count: z.string().regex(/^[1-9]\d*$/, "count must be a positive number").optional()
+                .describe(`Number of tweets to draft (defaults to the tweets the content series still needs, or ${DEFAULT_TWEET_COUNT})`)
+        },
+        async (params) => {
+            const plan = await planService.getPlan(params.micro_plan_id);
+            if (!plan || plan.type !== PlanType.Micro) {
+                throw new Error(`Micro plan with ID ${params.micro_plan_id} not found`);
+            }
+
+            const masterPlan = await planService.getMasterPlanById(plan.masterPlanId);
+            const campaign = masterPlan ? await campaignService.getCampaignById(masterPlan.campaignId) : null;
+            const brand = campaign ? await brandService.getBrand(campaign.brandId) : null;
+            const existing = await contentService.getContentByMicroPlanId(plan._id!);
+
+            const remaining = (plan.contentSeries?.expectedPieces ?? 0) - existing.length;
+            const count = params.count ? Number.parseInt(params.count, 10) : remaining > 0 ? remaining : DEFAULT_TWEET_COUNT;
+
+            return promptMessages(
+                brand,
+                [
+                    ...(campaign ? [formatCampaign(campaign)] : []),
+                    ...(masterPlan ? [formatMasterPlan(masterPlan)] : []),
+                    formatMicroPlan(plan),
+                    formatContentList("Existing content of the micro plan", existing)
+                ],
+                [
+                    `Draft ${count} tweet(s) for the micro plan "${plan.title}".`,
+                    `- Follow the ${brand ? `${brand.name} brand guidelines attached above` : "plan's audience and goals"}: tone, vocabulary, terms to avoid and content rules.`,
+                    "- Advance the campaign goals and cover the plan's themes; don't repeat the existing content.",
+                    `- Keep each tweet within ${getMaxTweetLength()} characters.`,
+                    "",
+                    `For each tweet give a short title and the tweet text. Once they're approved, save them with the createContent tool (microPlanId: "${plan._id}", platform: "twitter", format: "Tweet").`
+                ].join("\n"),
+                `Draft tweets for micro plan "${plan.title}"`
+            );
+        }
+    );
+}
@@ -0,0 +1,110 @@
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { Brand } from "../../models/brand.model.js";
+import { Campaign } from "../../models/campaign.model.js";
+import { Content } from "../../models/content.model.js";
+import { MasterPlan, MicroPlan } from "../../models/plan.model.js";
+import { formatDate } from "../../utils/date.utils.js";
+import { formatGuidelines } from "../resources/brand.resources.js";
+import { MARKDOWN_MIME_TYPE, resourceUri } from "../resources/resource.utils.js";
+
+/**
+ * A markdown section, leaving out empty lines of optional fields
+ */
+export function section(title: string, lines: (string | undefined | false)[]): string {
+    return [`## ${title}`, ...lines.filter((line): line is string => !!line)].join("\n");
+}
+
+function bullets(items?: string[]): string[] {
+    return (items || []).map(item => `- ${item}`);
+}
+
+function dateRange(start: Date, end: Date): string {
+    return `${formatDate(start)} - ${formatDate(end)}`;
+}
+
+export function formatCampaign(campaign: Campaign): string {
+    return section(`Campaign: ${campaign.name}`, [
+        campaign.description,
+        `Runs ${dateRange(campaign.startDate, campaign.endDate)} (${campaign.status})`,
+        campaign.objectives.length > 0 && "Objectives:",
+        ...bullets(campaign.objectives),
+        campaign.goals.length > 0 && "Goals, by priority:",
+        ...bullets([...campaign.goals]
+            .sort((a, b) => a.priority - b.priority)
+            .map(goal => `${goal.type}: ${goal.description}` +
+                (goal.kpis.length > 0 ? ` (KPIs: ${goal.kpis.map(kpi => `${kpi.metric} ${kpi.target}`).join(", ")})` : ""))),
+        !!campaign.audience?.length && "Audience:",
+        ...bullets(campaign.audience?.map(audience => `${audience.segment}: ${audience.characteristics.join(", ")}` +
+            (audience.painPoints.length > 0 ? `; pain points: ${audience.painPoints.join(", ")}` : "")))
+    ]);
+}
+
+export function formatMasterPlan(plan: MasterPlan): string {
+    return section(`Master plan: ${plan.title}`, [
+        `Runs ${dateRange(plan.dateRange.start, plan.dateRange.end)} (${plan.state})`,
+        `Audience: ${plan.targetAudience}`,
+        `Channels: ${plan.channels.join(", ")}`,
+        plan.goals.length > 0 && "Goals:",
+        ...bullets(plan.goals),
+        plan.contentStrategy && `Approach: ${plan.contentStrategy.approach}`,
+        !!plan.contentStrategy?.keyThemes.length && "Key themes:",
+        ...bullets(plan.contentStrategy?.keyThemes)
+    ]);
+}
+
+export function formatMicroPlan(plan: MicroPlan): string {
+    const series = plan.contentSeries;
+    return section(`Micro plan: ${plan.title}`, [
+        `Runs ${dateRange(plan.dateRange.start, plan.dateRange.end)} (${plan.state})`,
+        `Audience: ${plan.targetAudience}`,
+        `Channels: ${plan.channels.join(", ")}`,
+        plan.goals.length > 0 && "Goals:",
+        ...bullets(plan.goals),
+        series?.name && `Content series: ${series.name}`,
+        series?.theme && `Theme: ${series.theme}`,
+        series?.description,
+        series?.expectedPieces !== undefined && `Expected pieces: ${series.expectedPieces}`,
+        plan.contentSchedule && `Schedule: ${plan.contentSchedule}`
+    ]);
+}
+
+/**
+ * One line per content item, e.g. to keep new content from repeating existing content
+ */
+export function formatContentList(title: string, content: Content[]): string {
+    return section(title, content.length > 0
+        ? bullets(content.map(item => `${item.title} (${item.state}` +
+            (item.stateMetadata.scheduledFor ? `, scheduled for ${formatDate(item.stateMetadata.scheduledFor, { dateStyle: "medium", timeStyle: "short" })}` : "") +
+            `): ${item.content}`))
+        : ["None yet."]);
+}
+
+/**
+ * Prompt messages: the brand guidelines embedded as a resource, followed by the
+ * context sections and the task
+ */
+export function promptMessages(brand: Brand | null, sections: string[], task: string, description?: string): GetPromptResult {
+    return {
+        ...(description && { description }),
+        messages: [
+            ...(brand ? [{
+                role: "user" as const,
+                content: {
+                    type: "resource" as const,
+                    resource: {
+                        uri: resourceUri("brand", brand._id!, "guidelines"),
+                        mimeType: MARKDOWN_MIME_TYPE,
+                        text: formatGuidelines(brand)
+                    }
+                }
+            }] : []),
+            {
+                role: "user" as const,
+                content: {
+                    type: "text" as const,
+                    text: [...sections, task].join("\n\n")
+                }
+            }
+        ]
+    };
+}
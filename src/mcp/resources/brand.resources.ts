@@ -0,0 +1,120 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { BrandService } from "../../services/brand.service.js";
+import { CampaignService } from "../../services/campaign.service.js";
+import { Brand } from "../../models/brand.model.js";
+import { getVariable, jsonContents, JSON_MIME_TYPE, MARKDOWN_MIME_TYPE, resourceUri } from "./resource.utils.js";
+
+function list(title: string, items?: string[]): string[] {
+    return items && items.length > 0 ? [`## ${title}`, ...items.map(item => `- ${item}`), ""] : [];
+}
+
+/**
+ * Render the guidelines of a brand as markdown, to attach as context when writing content
+ */
+export function formatGuidelines(brand: Brand): string {
+    const guidelines = brand.guidelines;
+    if (!guidelines) {
+        return `# ${brand.name} brand guidelines\n\n${brand.description}\n\nNo guidelines defined yet.\n`;
+    }
+
+    const rules = guidelines.contentRules;
+    const lines = [
+        `# ${brand.name} brand guidelines`,
+        "",
+        brand.description,
+        "",
+        ...list("Tone", guidelines.tone),
+        ...list("Vocabulary to use", guidelines.vocabulary),
+        ...list("Terms to avoid", guidelines.avoidedTerms),
+        ...list("Required terms", rules?.requiredTerms),
+        ...list("Key messages", guidelines.keyMessages?.map(keyMessage => `${keyMessage.audienceSegment}: ${keyMessage.message}`)),
+        ...(guidelines.narratives?.elevatorPitch ? ["## Elevator pitch", guidelines.narratives.elevatorPitch, ""] : []),
+        ...(guidelines.narratives?.shortNarrative ? ["## Narrative", guidelines.narratives.shortNarrative, ""] : []),
+        ...list("Content rules", [
+            ...(rules?.hashtags?.required?.length ? [`Include the hashtags ${rules.hashtags.required.join(", ")}`] : []),
+            ...(rules?.hashtags?.banned?.length ? [`Never use the hashtags ${rules.hashtags.banned.join(", ")}`] : []),
+            ...(rules?.hashtags?.max !== undefined ? [`At most ${rules.hashtags.max} hashtag(s)`] : []),
+            ...(rules?.mentions?.banned?.length ? [`Never mention ${rules.mentions.banned.join(", ")}`] : []),
+            ...(rules?.links?.allowed === false ? ["No links"] : []),
+            ...(rules?.links?.allowedDomains?.length ? [`Only link to ${rules.links.allowedDomains.join(", ")}`] : []),
+            ...(rules?.links?.blockedDomains?.length ? [`Never link to ${rules.links.blockedDomains.join(", ")}`] : []),
+            ...Object.entries(rules?.maxLength || {}).map(([platform, length]) => `At most ${length} characters on ${platform}`)
+        ])
+    ];
+
+    return lines.join("\n");
+}
+
+export function registerBrandResources(server: McpServer) {
+    const brandService = new BrandService();
+    const campaignService = new CampaignService();
+
+    async function getBrand(id: string): Promise<Brand> {
+        const brand = await brandService.getBrand(id);
+        if (!brand) {
+            throw new Error(`Brand with ID ${id} not found`);
+        }
+        return brand;
+    }
+
+    // Brand details
+    server.resource(
+        "brand",
+        new ResourceTemplate("cms://brand/{id}", {
+            list: async () => ({
+                resources: (await brandService.getAllBrands()).map(brand => ({
+                    uri: resourceUri("brand", brand._id!),
+                    name: brand.name,
+                    description: brand.description,
+                    mimeType: JSON_MIME_TYPE
+                }))
+            })
+        }),
+        {
+            description: "A brand with its description, guidelines and review policy",
+            mimeType: JSON_MIME_TYPE
+        },
+        async (uri, variables) => jsonContents(uri, await getBrand(getVariable(variables, "id")))
+    );
+
+    // Brand guidelines, for use as context when writing content
+    server.resource(
+        "brand-guidelines",
+        new ResourceTemplate("cms://brand/{id}/guidelines", {
+            list: async () => ({
+                resources: (await brandService.getAllBrands()).map(brand => ({
+                    uri: resourceUri("brand", brand._id!, "guidelines"),
+                    name: `${brand.name} brand guidelines`,
+                    mimeType: MARKDOWN_MIME_TYPE
+                }))
+            })
+        }),
+        {
+            description: "The tone, vocabulary, terms to avoid, key messages and content rules of a brand, to attach as context when writing its content",
+            mimeType: MARKDOWN_MIME_TYPE
+        },
+        async (uri, variables) => ({
+            contents: [
+                {
+                    uri: uri.href,
+                    mimeType: MARKDOWN_MIME_TYPE,
+                    text: formatGuidelines(await getBrand(getVariable(variables, "id")))
+                }
+            ]
+        })
+    );
+
+    // Campaigns of a brand
+    server.resource(
+        "brand-campaigns",
+        new ResourceTemplate("cms://brand/{id}/campaigns", { list: undefined }),
+        {
+            description: "The campaigns of a brand",
+            mimeType: JSON_MIME_TYPE
+        },
+        async (uri, variables) => {
+            const brand = await getBrand(getVariable(variables, "id"));
+            return jsonContents(uri, await campaignService.getCampaignsByBrandId(brand._id!));
+        }
+    );
+}
@@ -0,0 +1,52 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CampaignService } from "../../services/campaign.service.js";
+import { PlanService } from "../../services/plan.service.js";
+import { Campaign } from "../../models/campaign.model.js";
+import { getVariable, jsonContents, JSON_MIME_TYPE, resourceUri } from "./resource.utils.js";
+
+export function registerCampaignResources(server: McpServer) {
+    const campaignService = new CampaignService();
+    const planService = new PlanService();
+
+    async function getCampaign(id: string): Promise<Campaign> {
+        const campaign = await campaignService.getCampaignById(id);
+        if (!campaign) {
+            throw new Error(`Campaign with ID ${id} not found`);
+        }
+        return campaign;
+    }
+
+    // Campaign details
+    server.resource(
+        "campaign",
+        new ResourceTemplate("cms://campaign/{id}", {
+            list: async () => ({
+                resources: (await campaignService.getAllCampaigns()).map(campaign => ({
+                    uri: resourceUri("campaign", campaign._id!),
+                    name: campaign.name,
+                    description: campaign.description,
+                    mimeType: JSON_MIME_TYPE
+                }))
+            })
+        }),
+        {
+            description: "A campaign with its goals, audience, content mix and milestones",
+            mimeType: JSON_MIME_TYPE
+        },
+        async (uri, variables) => jsonContents(uri, await getCampaign(getVariable(variables, "id")))
+    );
+
+    // Plans of a campaign
+    server.resource(
+        "campaign-plans",
+        new ResourceTemplate("cms://campaign/{id}/plans", { list: undefined }),
+        {
+            description: "The master and micro plans of a campaign",
+            mimeType: JSON_MIME_TYPE
+        },
+        async (uri, variables) => {
+            const campaign = await getCampaign(getVariable(variables, "id"));
+            return jsonContents(uri, await planService.getAllPlansByCampaignId(campaign._id!));
+        }
+    );
+}
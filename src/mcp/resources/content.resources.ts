@@ -0,0 +1,34 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ContentService } from "../../services/content.service.js";
+import { getVariable, jsonContents, JSON_MIME_TYPE, resourceUri } from "./resource.utils.js";
+
+export function registerContentResources(server: McpServer) {
+    const contentService = new ContentService();
+
+    // Content details
+    server.resource(
+        "content",
+        new ResourceTemplate("cms://content/{id}", {
+            list: async () => ({
+                resources: (await contentService.getAllContent()).map(content => ({
+                    uri: resourceUri("content", content._id!),
+                    name: content.title,
+                    description: `${content.platform ? `${content.platform} ` : ""}content (${content.state})`,
+                    mimeType: JSON_MIME_TYPE
+                }))
+            })
+        }),
+        {
+            description: "A content item with its text, state, schedule and publishing details",
+            mimeType: JSON_MIME_TYPE
+        },
+        async (uri, variables) => {
+            const id = getVariable(variables, "id");
+            const content = await contentService.getContent(id);
+            if (!content) {
+                throw new Error(`Content with ID ${id} not found`);
+            }
+            return jsonContents(uri, content);
+        }
+    );
+}
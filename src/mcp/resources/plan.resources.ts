@@ -0,0 +1,55 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { PlanService } from "../../services/plan.service.js";
+import { ContentService } from "../../services/content.service.js";
+import { Plan, PlanType } from "../../models/plan.model.js";
+import { getVariable, jsonContents, JSON_MIME_TYPE, resourceUri } from "./resource.utils.js";
+
+export function registerPlanResources(server: McpServer) {
+    const planService = new PlanService();
+    const contentService = new ContentService();
+
+    async function getPlan(id: string): Promise<Plan> {
+        const plan = await planService.getPlan(id);
+        if (!plan) {
+            throw new Error(`Plan with ID ${id} not found`);
+        }
+        return plan;
+    }
+
+    // Plan details
+    server.resource(
+        "plan",
+        new ResourceTemplate("cms://plan/{id}", {
+            list: async () => ({
+                resources: (await planService.getAllPlans()).map(plan => ({
+                    uri: resourceUri("plan", plan._id!),
+                    name: plan.title,
+                    description: `${plan.type === PlanType.Master ? "Master" : "Micro"} plan (${plan.state})`,
+                    mimeType: JSON_MIME_TYPE
+                }))
+            })
+        }),
+        {
+            description: "A master or micro plan with its goals, date range, channels and strategy",
+            mimeType: JSON_MIME_TYPE
+        },
+        async (uri, variables) => jsonContents(uri, await getPlan(getVariable(variables, "id")))
+    );
+
+    // Content of a plan
+    server.resource(
+        "plan-content",
+        new ResourceTemplate("cms://plan/{id}/content", { list: undefined }),
+        {
+            description: "The content of a micro plan, or of all micro plans of a master plan",
+            mimeType: JSON_MIME_TYPE
+        },
+        async (uri, variables) => {
+            const plan = await getPlan(getVariable(variables, "id"));
+            const content = plan.type === PlanType.Master
+                ? await contentService.getContentByMasterPlanId(plan._id!)
+                : await contentService.getContentByMicroPlanId(plan._id!);
+            return jsonContents(uri, content);
+        }
+    );
+}
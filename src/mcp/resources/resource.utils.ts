@@ -0,0 +1,35 @@
+import { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+
+export const JSON_MIME_TYPE = "application/json";
+export const MARKDOWN_MIME_TYPE = "text/markdown";
+
+/**
+ * URI of a CMS resource, e.g. resourceUri("campaign", id, "plans") is cms://campaign/{id}/plans
+ */
+export function resourceUri(type: string, id: string, child?: string): string {
+    return `cms://${type}/${id}` + (child ? `/${child}` : "");
+}
+
+/**
+ * Get a variable of a matched resource template
+ */
+export function getVariable(variables: Variables, name: string): string {
+    const value = variables[name];
+    return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Contents of a resource read as JSON
+ */
+export function jsonContents(uri: URL, value: unknown): ReadResourceResult {
+    return {
+        contents: [
+            {
+                uri: uri.href,
+                mimeType: JSON_MIME_TYPE,
+                text: JSON.stringify(value, null, 2)
+            }
+        ]
+    };
+}
@@ -0,0 +1,114 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { AuditAction } from "../../models/audit-event.model.js";
+import { PlanType } from "../../models/plan.model.js";
+import { CampaignRepository } from "../../repositories/campaign.repository.js";
+import { ContentRepository } from "../../repositories/content.repository.js";
+import { PlanRepository } from "../../repositories/plan.repository.js";
+import { EntityChange, onEntityChange } from "../../utils/entity-events.js";
+import { resourceUri } from "./resource.utils.js";
+
+// Collections exposed as resources, by resource type
+const RESOURCE_TYPES: Record<string, string> = {
+    brands: "brand",
+    campaigns: "campaign",
+    plans: "plan",
+    contents: "content"
+};
+
+/**
+ * Let clients subscribe to resources: the server sends a resource updated
+ * notification when a document behind a subscribed resource changes, and a list
+ * changed notification when brands, campaigns, plans or content are created or
+ * deleted. Only changes made by this process are seen.
+ */
+export function enableResourceSubscriptions(server: McpServer): void {
+    const campaignRepository = new CampaignRepository();
+    const planRepository = new PlanRepository();
+    const contentRepository = new ContentRepository();
+    const subscriptions = new Set<string>();
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+        subscriptions.add(request.params.uri);
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    /**
+     * Resources whose contents depend on a document: the document itself and the
+     * lists of its parent
+     */
+    async function getAffectedUris(change: EntityChange): Promise<string[]> {
+        const type = RESOURCE_TYPES[change.entityType];
+        const uris = [resourceUri(type, change.entityId)];
+
+        switch (change.entityType) {
+            case "brands":
+                uris.push(resourceUri(type, change.entityId, "guidelines"));
+                break;
+            case "campaigns": {
+                const campaign = await campaignRepository.findById(change.entityId);
+                if (campaign) uris.push(resourceUri("brand", campaign.brandId, "campaigns"));
+                break;
+            }
+            case "plans": {
+                const plan = await planRepository.findById(change.entityId);
+                if (plan?.type === PlanType.Master) {
+                    uris.push(resourceUri("campaign", plan.campaignId, "plans"));
+                } else if (plan) {
+                    const masterPlan = await planRepository.findById(plan.masterPlanId);
+                    if (masterPlan?.type === PlanType.Master) {
+                        uris.push(resourceUri("campaign", masterPlan.campaignId, "plans"));
+                    }
+                }
+                break;
+            }
+            case "contents": {
+                const content = await contentRepository.findById(change.entityId);
+                if (content?.microPlanId) {
+                    uris.push(resourceUri("plan", content.microPlanId, "content"));
+                    const microPlan = await planRepository.findById(content.microPlanId);
+                    if (microPlan?.type === PlanType.Micro) {
+                        uris.push(resourceUri("plan", microPlan.masterPlanId, "content"));
+                    }
+                }
+                break;
+            }
+        }
+
+        return uris;
+    }
+
+    async function notify(change: EntityChange): Promise<void> {
+        if (!RESOURCE_TYPES[change.entityType] || !server.isConnected()) return;
+
+        try {
+            if (change.action !== AuditAction.Update) {
+                await server.server.sendResourceListChanged();
+            }
+
+            if (subscriptions.size === 0) return;
+            for (const uri of await getAffectedUris(change)) {
+                if (subscriptions.has(uri)) {
+                    await server.server.sendResourceUpdated({ uri });
+                }
+            }
+        } catch (error) {
+            console.error(`Failed to notify MCP clients of the change to ${change.entityType} ${change.entityId}:`, error);
+        }
+    }
+
+    const stopListening = onEntityChange(change => {
+        void notify(change);
+    });
+
+    const onclose = server.server.onclose;
+    server.server.onclose = () => {
+        stopListening();
+        onclose?.();
+    };
+}
@@ -5,21 +5,73 @@ import { registerTwitterTools } from "./tools/twitter.tools.js";
 import { registerPlanTools } from "./tools/plan.tools.js";
 import { registerCampaignTools } from "./tools/campaign.tools.js";
 import { registerBrandTools } from "./tools/brand.tools.js";
+import { registerMediaTools } from "./tools/media.tools.js";
+import { registerMetricsTools } from "./tools/metrics.tools.js";
+import { registerReviewTools } from "./tools/review.tools.js";
+import { registerAuditTools } from "./tools/audit.tools.js";
+import { registerVersionTools } from "./tools/version.tools.js";
+import { registerConsistencyTools } from "./tools/consistency.tools.js";
+import { registerTrashTools } from "./tools/trash.tools.js";
+import { registerCalendarTools } from "./tools/calendar.tools.js";
+import { auditToolCalls } from "./audit.js";
+import { restrictTools } from "./permissions.js";
+import { ApiKeyRole } from "../models/api-key.model.js";
+import { registerBrandResources } from "./resources/brand.resources.js";
+import { registerCampaignResources } from "./resources/campaign.resources.js";
+import { registerPlanResources } from "./resources/plan.resources.js";
+import { registerContentResources } from "./resources/content.resources.js";
+import { enableResourceSubscriptions } from "./resources/subscriptions.js";
+import { registerPlanPrompts } from "./prompts/plan.prompts.js";
+import { registerContentPrompts } from "./prompts/content.prompts.js";
+import { registerCampaignPrompts } from "./prompts/campaign.prompts.js";
 
-export async function setupMcpServer() {
-  // Create MCP server
+/**
+ * Create an MCP server with the CMS tools, resources and prompts registered. Every connection needs its own server.
+ * @param actor user of an authenticated connection: changes made by tool calls are attributed to them in
+ * the audit log, and they submit and review content
+ * @param role role of the API key the connection was opened with, limiting the tools registered
+ */
+export function createMcpServer(actor?: string, role?: ApiKeyRole): McpServer {
   const server = new McpServer({
     name: "CMS-MCP-Server",
     version: "1.0.0",
-  }, { capabilities: { tools: {}, logging: {} } });
+  }, { capabilities: { tools: {}, resources: { subscribe: true, listChanged: true }, prompts: {}, logging: {} } });
 
 
-  // Register tools
+  // Register tools, attributing the changes they make in the audit log
+  auditToolCalls(server, actor);
+  restrictTools(server, role);
   registerBrandTools(server);
   registerPlanTools(server);
   registerContentTools(server);
   registerTwitterTools(server);
   registerCampaignTools(server);
+  registerMediaTools(server);
+  registerMetricsTools(server);
+  registerReviewTools(server, actor);
+  registerAuditTools(server);
+  registerVersionTools(server);
+  registerConsistencyTools(server);
+  registerTrashTools(server);
+  registerCalendarTools(server);
+
+  // Register resources, notifying subscribers when their documents change
+  registerBrandResources(server);
+  registerCampaignResources(server);
+  registerPlanResources(server);
+  registerContentResources(server);
+  enableResourceSubscriptions(server);
+
+  // Register prompts for the everyday writing workflows
+  registerPlanPrompts(server);
+  registerContentPrompts(server);
+  registerCampaignPrompts(server);
+
+  return server;
+}
+
+export async function setupMcpServer() {
+  const server = createMcpServer();
 
   // Connect to transport
   const transport = new StdioServerTransport();
@@ -0,0 +1,53 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AuditService } from "../../services/audit.service.js";
+import { AuditSource } from "../../models/audit-event.model.js";
+
+export function registerAuditTools(server: McpServer) {
+    const auditService = new AuditService();
+
+    // Query the audit log
+    server.tool(
+        "getAuditEvents",
+        "Queries the audit log of changes, newest first. Every create, update and delete of brands, campaigns, plans, content, media and credentials is recorded with who made it, whether it came from the REST API, an MCP tool (and which) or the system, and the changed fields with their old and new values. Use it to find out who changed what and when.\n\nExample: getAuditEvents(entity_type: \"contents\", entity_id: \"507f1f77bcf86cd799439011\")",
+        {
+            entity_type: z.string().optional().describe("Collection of the changed entity: brands, campaigns, plans, contents, media_assets, channel_credentials (optional)"),
+            entity_id: z.string().optional().describe("ID of the changed entity (optional)"),
+            actor: z.string().optional().describe("User who made the changes (optional)"),
+            source: z.nativeEnum(AuditSource).optional().describe("Where the changes came from (optional)"),
+            from: z.coerce.date().optional().describe("Only return changes made at or after this time (optional)  Format: ISO 8601"),
+            to: z.coerce.date().optional().describe("Only return changes made at or before this time (optional)  Format: ISO 8601"),
+            limit: z.number().int().min(1).max(1000).optional().describe("Maximum number of events to return (default 100)")
+        },
+        async (params) => {
+            const events = await auditService.getEvents({
+                entityType: params.entity_type,
+                entityId: params.entity_id,
+                actor: params.actor,
+                source: params.source,
+                from: params.from,
+                to: params.to,
+                limit: params.limit
+            });
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: events.length > 0
+                            ? `Found ${events.length} audit event(s):\n` + events.map(event =>
+                                `- ${event.timestamp.toISOString()} ${event.actor} (${event.tool || event.request || event.source}) ${event.action} ${event.entityType} ${event.entityId}: ` +
+                                (event.changes.map(change => change.field).join(", ") || "no field changes")
+                            ).join("\n")
+                            : "No audit events found"
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(events)
+                    }
+                ],
+                events
+            };
+        }
+    );
+}
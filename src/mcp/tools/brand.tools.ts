@@ -1,14 +1,22 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { BrandService } from "../../services/brand.service.js";
+import { CampaignService } from "../../services/campaign.service.js";
+import { ContentService } from "../../services/content.service.js";
 import { json } from "body-parser";
 import { cleanNulls } from "../../utils/merge.js";
 import { BaseBrandUpdateSchema, BrandCreationSchema, BrandUpdateSchema } from "../../models/brand.model.js";
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { McpSchemaBuilder } from "../../utils/mcp-schema.js";
+import { DeletionService } from "../../services/deletion.service.js";
+import { DeletableEntity } from "../../models/integrity.model.js";
+import { deleteModeSchema, describeDeletion, describePreview } from "./deletion.utils.js";
 
 export function registerBrandTools(server: McpServer) {
     const brandService = new BrandService();
+    const campaignService = new CampaignService();
+    const contentService = new ContentService();
+    const deletionService = new DeletionService();
 
     // Create brand
     server.tool(
@@ -79,7 +87,8 @@ export function registerBrandTools(server: McpServer) {
                 guidelines: brand.guidelines ? {
                     tone: brand.guidelines.tone,
                     vocabulary: brand.guidelines.vocabulary,
-                    avoided_terms: brand.guidelines.avoidedTerms
+                    avoided_terms: brand.guidelines.avoidedTerms,
+                    content_rules: brand.guidelines.contentRules
                 } : null
             };
         }
@@ -151,4 +160,49 @@ export function registerBrandTools(server: McpServer) {
             };
         }
     );
+
+    // Delete brand
+    server.tool(
+        "deleteBrand",
+        "Deletes a brand. By default the brand and its campaigns, plans and content are moved to the trash, from where restoreFromTrash brings them back until they are purged. With mode 'block' the brand is deleted permanently, and only if it has no campaigns or content; with mode 'cascade' its campaigns, plans and content are permanently deleted with it, along with the content's media and history and the brand's channel credentials. Without confirm: true nothing is deleted and the tool reports what the brand still has, so call it once to check and again with confirm: true to delete.\n\nExample: deleteBrand(brand_id: \"507f1f77bcf86cd799439011\", confirm: true)",
+        {
+            brand_id: z.string().describe("ID of the brand to delete (required)"),
+            mode: deleteModeSchema("campaigns, plans and content"),
+            confirm: z.boolean().optional().describe("Set to true to delete the brand; otherwise nothing is deleted (optional)")
+        },
+        async (params) => {
+            const preview = await deletionService.previewDeletion(DeletableEntity.Brand, params.brand_id);
+
+            if (!params.confirm) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `${describePreview("Brand", preview)} Nothing was deleted: call deleteBrand again with confirm: true to delete the brand.`
+                        }
+                    ],
+                    brand_id: preview.entityId,
+                    deleted: false,
+                    campaign_count: preview.dependents.campaigns,
+                    plan_count: preview.dependents.plans,
+                    content_count: preview.dependents.content
+                };
+            }
+
+            const result = await brandService.deleteBrand(preview.entityId, params.mode);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: describeDeletion("Brand", result)
+                    }
+                ],
+                brand_id: result.entityId,
+                deleted: true,
+                mode: result.mode,
+                removed: result.deleted
+            };
+        }
+    );
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { CalendarService } from "../../services/calendar.service.js";
+import { CalendarFeedService } from "../../services/calendar-feed.service.js";
+import { SchedulingRulesService } from "../../services/scheduling-rules.service.js";
+import { CalendarEntry, CalendarEntryType, CalendarGrouping } from "../../models/calendar.model.js";
+import { CalendarFeedCreationSchema } from "../../models/calendar-feed.model.js";
+import { ContentState } from "../../models/content.model.js";
+
+function describeEntry(entry: CalendarEntry): string {
+    const time = entry.date.toISOString().slice(11, 16);
+    switch (entry.type) {
+        case CalendarEntryType.Content:
+            return `  ${time} content "${entry.title}" (ID: ${entry.contentId}, ${entry.status}${entry.platform ? `, ${entry.platform}` : ""})`;
+        case CalendarEntryType.TimelineEvent:
+            return `  ${time} ${entry.eventType || "timeline event"}: ${entry.title} (plan ${entry.planId}, ${entry.status})`;
+        default:
+            return `  ${time} milestone: ${entry.title} (campaign ${entry.campaignId}, ${entry.status})`;
+    }
+}
+
+export function registerCalendarTools(server: McpServer) {
+    const calendarService = new CalendarService();
+    const calendarFeedService = new CalendarFeedService();
+    const schedulingRulesService = new SchedulingRulesService();
+
+    // Get the content calendar
+    server.tool(
+        "getContentCalendar",
+        "Gets the content calendar of a date range: scheduled and published content, master plan timeline events and campaign milestones, grouped by UTC day or ISO week. Published content is shown at its publish time, other content at its scheduled time. Filter by brand or campaign, and narrow the content by platform and state. A calendar covers at most 366 days.\n\nExample: getContentCalendar(start_date: \"2025-03-01\", end_date: \"2025-03-31\", group_by: \"week\", campaign_id: \"507f1f77bcf86cd799439011\")",
+        {
+            start_date: z.coerce.date().describe("Start of the date range (required)  Format: ISO 8601"),
+            end_date: z.coerce.date().describe("End of the date range, inclusive (required)  Format: ISO 8601"),
+            group_by: z.nativeEnum(CalendarGrouping).optional().describe("Group entries by 'day' (default) or 'week' (optional)"),
+            brand_id: z.string().optional().describe("Only show the entries of this brand (optional)"),
+            campaign_id: z.string().optional().describe("Only show the entries of this campaign (optional)"),
+            platform: z.string().optional().describe("Only show content for this platform, e.g. Twitter (optional)"),
+            states: z.array(z.nativeEnum(ContentState)).optional().describe("Only show content in these states (optional)"),
+            types: z.array(z.nativeEnum(CalendarEntryType)).optional().describe("Kinds of entries to show: 'content', 'timeline_event' and/or 'milestone' (optional, defaults to all)")
+        },
+        async (params) => {
+            const calendar = await calendarService.getCalendar({
+                start: params.start_date,
+                end: params.end_date,
+                groupBy: params.group_by,
+                brandId: params.brand_id,
+                campaignId: params.campaign_id,
+                platform: params.platform,
+                states: params.states,
+                types: params.types
+            });
+
+            const busy = calendar.periods.filter(period => period.entries.length > 0);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: calendar.entryCount === 0
+                            ? `Nothing on the calendar between ${calendar.start.toISOString()} and ${calendar.end.toISOString()}`
+                            : `Found ${calendar.entryCount} calendar entr${calendar.entryCount === 1 ? "y" : "ies"} between ${calendar.start.toISOString()} and ${calendar.end.toISOString()}:\n` +
+                            busy.map(period =>
+                                `${calendar.groupBy === CalendarGrouping.Week ? "Week of " : ""}${period.start.toISOString().slice(0, 10)}:\n` +
+                                period.entries.map(describeEntry).join("\n")
+                            ).join("\n")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(calendar)
+                    }
+                ],
+                calendar
+            };
+        }
+    );
+
+    // Report scheduled content breaking the brand's scheduling rules
+    server.tool(
+        "getScheduleConflicts",
+        "Checks the content of a brand scheduled in a date range against the brand's scheduling rules (minimum gap between posts, posts per day per platform, blackout windows and allowed hours) and reports the posts breaking them, with the next slot meeting the rules. Posts conflicting with earlier posts are reported, so rescheduling a reported post resolves its conflict. A report covers at most 90 days.\n\nExample: getScheduleConflicts(brand_id: \"507f1f77bcf86cd799439011\", from: \"2025-03-01\", to: \"2025-03-31\")",
+        {
+            brand_id: z.string().describe("ID of the brand (required)"),
+            from: z.coerce.date().optional().describe("Start of the date range (optional, defaults to now)  Format: ISO 8601"),
+            to: z.coerce.date().optional().describe("End of the date range (optional, defaults to 30 days after the start)  Format: ISO 8601")
+        },
+        async (params) => {
+            const report = await schedulingRulesService.getConflictReport(params.brand_id, params.from, params.to);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: report.conflicts.length === 0
+                            ? `No conflicts among the ${report.postCount} post(s) scheduled between ${report.from.toISOString()} and ${report.to.toISOString()}`
+                            : `Found ${report.conflicts.length} of ${report.postCount} scheduled post(s) breaking the brand's scheduling rules (times in UTC, rules in ${report.timezone}):\n` +
+                            report.conflicts.map(conflict =>
+                                `- "${conflict.title}" (ID: ${conflict.contentId}, ${conflict.platform}) at ${conflict.scheduledFor.toISOString()}: ` +
+                                conflict.violations.map(violation => violation.message).join("; ") +
+                                (conflict.suggestedSlot ? `. Next available slot: ${conflict.suggestedSlot.toISOString()}` : "")
+                            ).join("\n")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(report)
+                    }
+                ],
+                report
+            };
+        }
+    );
+
+    // Create an iCalendar feed
+    server.tool(
+        "createCalendarFeed",
+        "Creates a subscribable iCalendar (ICS) feed of a brand or campaign for Google Calendar, Outlook and other calendar clients. The feed shows scheduled and published content, campaign milestones and master plan timeline events of the last 30 and next 180 days, and follows reschedules. The feed URL contains a secret token that is only returned now; anyone with the URL can read the feed until it is revoked with revokeCalendarFeed.\n\nExample: createCalendarFeed(name: \"Acme launch\", campaign_id: \"507f1f77bcf86cd799439011\", user_id: \"user123\")",
+        {
+            name: z.string().min(1).describe("Calendar name shown by calendar clients (required)"),
+            brand_id: z.string().optional().describe("ID of the brand whose calendar the feed shows (either brand_id or campaign_id required)"),
+            campaign_id: z.string().optional().describe("ID of the campaign whose calendar the feed shows (either brand_id or campaign_id required)"),
+            user_id: z.string().optional().describe("ID of the user creating the feed (optional)")
+        },
+        async (params) => {
+            const feedParams = CalendarFeedCreationSchema.parse({
+                name: params.name,
+                brandId: params.brand_id,
+                campaignId: params.campaign_id
+            });
+            const { feed, url } = await calendarFeedService.createFeed(feedParams, params.user_id);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Calendar feed "${feed.name}" (ID: ${feed._id}) created. Subscribe to it at ${url}` +
+                            (url.startsWith("/") ? " on the API server (set PUBLIC_BASE_URL for full URLs)" : "") +
+                            ". The URL is only shown now; keep it secret."
+                    }
+                ],
+                feed_id: feed._id,
+                url
+            };
+        }
+    );
+
+    // List iCalendar feeds
+    server.tool(
+        "listCalendarFeeds",
+        "Lists the iCalendar feeds, optionally of a brand or campaign, with when they were last fetched and whether they are revoked. Feed URLs are only shown when a feed is created.",
+        {
+            brand_id: z.string().optional().describe("Only list the feeds of this brand (optional)"),
+            campaign_id: z.string().optional().describe("Only list the feeds of this campaign (optional)")
+        },
+        async (params) => {
+            const feeds = await calendarFeedService.listFeeds({ brandId: params.brand_id, campaignId: params.campaign_id });
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: feeds.length === 0
+                            ? "No calendar feeds found"
+                            : `Found ${feeds.length} calendar feed(s):\n` +
+                            feeds.map(feed =>
+                                `- "${feed.name}" (ID: ${feed._id}) of ${feed.brandId ? `brand ${feed.brandId}` : `campaign ${feed.campaignId}`}` +
+                                (feed.revokedAt ? `, revoked ${feed.revokedAt.toISOString()}` : "") +
+                                (feed.lastAccessedAt ? `, last fetched ${feed.lastAccessedAt.toISOString()}` : ", never fetched")
+                            ).join("\n")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(feeds)
+                    }
+                ],
+                feeds
+            };
+        }
+    );
+
+    // Revoke an iCalendar feed
+    server.tool(
+        "revokeCalendarFeed",
+        "Revokes an iCalendar feed, so its URL stops working. Create a new feed to share the calendar again.\n\nExample: revokeCalendarFeed(feed_id: \"507f1f77bcf86cd799439011\")",
+        {
+            feed_id: z.string().describe("ID of the feed to revoke (required)")
+        },
+        async (params) => {
+            const feed = await calendarFeedService.revokeFeed(params.feed_id);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Calendar feed "${feed.name}" (ID: ${feed._id}) revoked`
+                    }
+                ],
+                feed_id: feed._id,
+                revoked_at: feed.revokedAt
+            };
+        }
+    );
+}
@@ -1,14 +1,26 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z, ZodRawShape } from "zod";
 import { CampaignService } from "../../services/campaign.service.js";
+import { PlanService } from "../../services/plan.service.js";
+import { ContentService } from "../../services/content.service.js";
+import { PerformanceService } from "../../services/performance.service.js";
+import { ContentMixService } from "../../services/content-mix.service.js";
 import { formatDate, getDurationInDays } from "../../utils/date.utils.js";
 import { CampaignCreationSchema, CampaignCreationSchemaParser, CampaignUpdateSchema } from "../../models/campaign.model.js";
 import { McpSchemaBuilder } from "../../utils/mcp-schema.js";
+import { DeletionService } from "../../services/deletion.service.js";
+import { DeletableEntity } from "../../models/integrity.model.js";
+import { deleteModeSchema, describeDeletion, describePreview } from "./deletion.utils.js";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { ListToolsRequestSchema, Tool } from "@modelcontextprotocol/sdk/types.js";
 
 export function registerCampaignTools(server: McpServer) {
   const campaignService = new CampaignService();
+  const performanceService = new PerformanceService();
+  const contentMixService = new ContentMixService();
+  const planService = new PlanService();
+  const contentService = new ContentService();
+  const deletionService = new DeletionService();
 
   const campaignDateFields = z.object({
     startDate: z.coerce.date().describe("Start date of the campaign (ISO 8601 format)"),
@@ -178,4 +190,112 @@ export function registerCampaignTools(server: McpServer) {
       };
     }
   );
+
+  // Get campaign performance
+  server.tool(
+    "getCampaignPerformance",
+    "Reports a campaign's progress against its KPI targets. Engagement of published content (likes, shares, replies, views) is rolled up from micro plans to master plans to the campaign. Each KPI, master plan goal metric and micro plan performance metric is matched to a measurement by name (e.g. 'Retweets' -> shares, 'Impressions' -> views, 'Posts' -> published content), and reported with its actual value, percent of target, and pace compared with the elapsed date range (achieved, ahead, on_track, behind, missed, not_started, or unmeasured when the metric can't be measured from content). Read-only: the metrics collector stores measured micro plan actuals on the micro plans.",
+    {
+      campaign_id: z.string().describe("ID of the campaign")
+    },
+    async (params) => {
+      const performance = await performanceService.getCampaignPerformance(params.campaign_id);
+
+      const summary = performance.kpis.map(kpi =>
+        kpi.actual === null
+          ? `- ${kpi.metric}: target ${kpi.target}, not measurable from content`
+          : `- ${kpi.metric}: ${kpi.actual} of ${kpi.target} (${kpi.percentOfTarget}%, expected ${kpi.expectedPercent}%) - ${kpi.pace}`
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Campaign "${performance.name}" is ${performance.elapsedPercent}% through its date range with ${performance.totals.posts} published content item(s).` +
+              (summary.length > 0 ? `\nKPIs:\n${summary.join("\n")}` : "\nThe campaign has no KPIs.")
+          },
+          {
+            type: "text",
+            text: JSON.stringify(performance)
+          }
+        ],
+        performance
+      };
+    }
+  );
+
+  // Check content mix compliance
+  server.tool(
+    "checkContentMix",
+    "Checks a campaign's existing and scheduled content against its strategy: the contentMix category ratios (content is matched to a category by its platform and format) and the channel distribution of its master plans. Reports the drift of each category and channel (e.g. 'Educational is 15% vs 40% planned'), with how many more pieces to create to catch up on under-represented ones. Use it to decide what content to create next. Content that failed to publish is not counted.",
+    {
+      campaign_id: z.string().describe("ID of the campaign"),
+      tolerance_percent: z.number().min(0).max(100).optional()
+        .describe("Percentage points a share may differ from the plan and still be on target (default 5)")
+    },
+    async (params) => {
+      const compliance = await contentMixService.checkCampaignCompliance(params.campaign_id, params.tolerance_percent);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: compliance.compliant
+              ? `The ${compliance.contentCount} content item(s) of campaign "${compliance.name}" match its content strategy.`
+              : `The ${compliance.contentCount} content item(s) of campaign "${compliance.name}" drift from its content strategy:\n${compliance.summary.map(line => `- ${line}`).join("\n")}`
+          },
+          {
+            type: "text",
+            text: JSON.stringify(compliance)
+          }
+        ],
+        compliance
+      };
+    }
+  );
+
+  // Delete campaign
+  server.tool(
+    "deleteCampaign",
+    "Deletes a campaign with all its versions. By default the campaign and its plans and content are moved to the trash, from where restoreFromTrash brings them back until they are purged. With mode 'block' the campaign is deleted permanently, and only if it has no plans; with mode 'cascade' its plans and their content are permanently deleted with it. Without confirm: true nothing is deleted and the tool reports what the campaign still has, so call it once to check and again with confirm: true to delete.\n\nExample: deleteCampaign(campaign_id: \"507f1f77bcf86cd799439011\", confirm: true)",
+    {
+      campaign_id: z.string().describe("ID of the campaign to delete (required)"),
+      mode: deleteModeSchema("plans and content"),
+      confirm: z.boolean().optional().describe("Set to true to delete the campaign; otherwise nothing is deleted (optional)")
+    },
+    async (params) => {
+      const preview = await deletionService.previewDeletion(DeletableEntity.Campaign, params.campaign_id);
+
+      if (!params.confirm) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${describePreview("Campaign", preview)} Nothing was deleted: call deleteCampaign again with confirm: true to delete the campaign.`
+            }
+          ],
+          campaign_id: preview.entityId,
+          deleted: false,
+          version_count: preview.versions,
+          plan_count: preview.dependents.plans,
+          content_count: preview.dependents.content
+        };
+      }
+
+      const result = await campaignService.deleteCampaign(preview.entityId, params.mode);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: describeDeletion("Campaign", result)
+          }
+        ],
+        campaign_id: result.entityId,
+        deleted: true,
+        mode: result.mode,
+        removed: result.deleted
+      };
+    }
+  );
 }
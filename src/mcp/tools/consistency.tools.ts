@@ -0,0 +1,37 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ConsistencyService } from "../../services/consistency.service.js";
+
+export function registerConsistencyTools(server: McpServer) {
+    const consistencyService = new ConsistencyService();
+
+    // Find orphaned documents
+    server.tool(
+        "checkConsistency",
+        "Checks the references between brands, campaigns, plans, content, media, content history (metrics, publish attempts and review decisions) and channel credentials, and reports orphans: documents referencing a brand, campaign, plan or content item that doesn't exist ('missing'), or live documents whose parent was soft deleted ('deleted'). Nothing is changed; delete or reassign the reported documents to fix them.",
+        {},
+        async () => {
+            const report = await consistencyService.check();
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: report.consistent
+                            ? "No orphaned documents found"
+                            : `Found ${report.orphanCount} orphaned document(s):\n` +
+                            report.orphans.map(orphan =>
+                                `- ${orphan.collection} ${orphan.entityId}${orphan.name ? ` ("${orphan.name}")` : ""}: ${orphan.field} ${orphan.referencedId} is ${orphan.problem}`
+                            ).join("\n")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(report)
+                    }
+                ],
+                consistent: report.consistent,
+                orphan_count: report.orphanCount,
+                orphans: report.orphans
+            };
+        }
+    );
+}
@@ -1,17 +1,21 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ContentService } from "../../services/content.service.js";
-import { ContentCreationSchema, ContentCreationSchemaParser, ContentState, ContentUpdateSchema } from "../../models/content.model.js";
+import { CONTENT_STATE_TRANSITIONS, ContentCreationSchema, ContentCreationSchemaParser, ContentState, ContentUpdateSchema } from "../../models/content.model.js";
 import { BrandService } from "../../services/brand.service.js";
 import { PlanService } from "../../services/plan.service.js";
 import { CampaignService } from "../../services/campaign.service.js";
+import { PublishingService } from "../../services/publishing.service.js";
 import { ensureDate } from "../../utils/date.utils.js";
+import { DeleteMode } from "../../models/integrity.model.js";
+import { describeDeletion } from "./deletion.utils.js";
 
 export function registerContentTools(server: McpServer) {
     const contentService = new ContentService();
     const brandService = new BrandService();
     const planService = new PlanService();
     const campaignService = new CampaignService();
+    const publishingService = new PublishingService();
 
     const contentDateFields = z.object({
         scheduledFor: z.coerce.date().describe("When the content is scheduled to be published (optional)  Format: ISO 8601"),
@@ -60,7 +64,7 @@ export function registerContentTools(server: McpServer) {
     // Update content
     server.tool(
         "updateContent",
-        "Updates an existing content item. You can update the content text, format, platform, media requirements, target audience, keywords, scheduled for, or comments. Only updates to the content text are allowed if the content is in 'draft' state.",
+        "Updates an existing content item. You can update the content text, format, platform, media requirements, target audience, keywords, scheduled for, or comments. Only updates to the content text are allowed if the content is in 'draft' state. A new scheduled for time of 'ready' content must meet the brand's scheduling rules, as with scheduleContent.",
         ContentUpdateSchema.merge(contentDateFields.partial()).shape,
         async (params) => {
             const contentData = ContentUpdateSchema.parse(params);
@@ -88,10 +92,11 @@ export function registerContentTools(server: McpServer) {
     // Schedule content
     server.tool(
         "scheduleContent",
-        "Schedule a content item for publication at a specific date and time.",
+        "Schedule a content item for publication at a specific date and time. The time must meet the scheduling rules of the content's brand (minimum gap between posts, posts per day, blackout windows and allowed hours); times breaking them are rejected with the next available slot, unless auto_shift is set.",
         {
             content_id: z.string(),
-            publish_at: z.coerce.date().describe("When the content is scheduled to be published (Format: ISO 8601)")
+            publish_at: z.coerce.date().describe("When the content is scheduled to be published (Format: ISO 8601)"),
+            auto_shift: z.boolean().optional().describe("Move the content to the next slot meeting the brand's scheduling rules instead of rejecting the time")
         },
         async (params) => {
             const publishAt = ensureDate(params.publish_at, 'publish_at');
@@ -99,23 +104,29 @@ export function registerContentTools(server: McpServer) {
             const result = await contentService.scheduleContent(
                 params.content_id,
                 publishAt,
-                "system-user"
+                "system-user",
+                { autoShift: params.auto_shift }
             );
 
             if (!result) {
                 throw new Error(`Content with ID ${params.content_id} not found`);
             }
 
+            const scheduledFor = result.stateMetadata.scheduledFor!;
+            const shifted = scheduledFor.getTime() !== publishAt.getTime();
+
             return {
                 content: [
                     {
                         type: "text",
-                        text: `Content scheduled for publication: ${result.title} (ID: ${params.content_id})`
+                        text: `Content scheduled for publication: ${result.title} (ID: ${params.content_id})` +
+                            (shifted ? `. Moved to ${scheduledFor.toISOString()} to meet the brand's scheduling rules.` : "")
                     }
                 ],
                 content_id: result._id,
                 title: result.title,
-                scheduled_for: publishAt.toISOString()
+                scheduled_for: scheduledFor.toISOString(),
+                shifted
             };
         }
     );
@@ -123,7 +134,7 @@ export function registerContentTools(server: McpServer) {
     // Approve content
     server.tool(
         "approveContent",
-        "Approves a content item and transitions it from 'draft' to 'ready' state. Content must be in 'ready' state before it can be published or scheduled. This tool validates the content against brand guidelines to ensure it meets standards.\n\nExample: approveContent(content_id: \"507f1f77bcf86cd799439011\", user_id: \"user123\", comments: \"Approved after minor edits\")",
+        "Approves a content item and transitions it from 'draft' to 'ready' state. Content must be in 'ready' state before it can be published or scheduled. This tool validates the content against brand guidelines to ensure it meets standards. If the brand requires content to be reviewed, use submitContentForReview instead.\n\nExample: approveContent(content_id: \"507f1f77bcf86cd799439011\", user_id: \"user123\", comments: \"Approved after minor edits\")",
         {
             content_id: z.string().describe("ID of the content item to approve (required)"),
             user_id: z.string().describe("ID of the user approving the content (required)"),
@@ -151,7 +162,9 @@ export function registerContentTools(server: McpServer) {
                     },
                     {
                         type: "text",
-                        text: `The content has been validated against brand guidelines and is ready for publication.`
+                        text: result.stateMetadata.validationWarnings && result.stateMetadata.validationWarnings.length > 0
+                            ? `The content passed brand guideline validation with warnings:\n${result.stateMetadata.validationWarnings.map(warning => `- ${warning.message}`).join("\n")}`
+                            : `The content has been validated against brand guidelines and is ready for publication.`
                     },
                     {
                         type: "text",
@@ -160,7 +173,37 @@ export function registerContentTools(server: McpServer) {
                 ],
                 content_id: result._id,
                 title: result.title,
-                state: result.state
+                state: result.state,
+                validation_warnings: result.stateMetadata.validationWarnings || []
+            };
+        }
+    );
+
+    // Validate content against brand guidelines
+    server.tool(
+        "validateContent",
+        "Checks a content item against its brand's guidelines without changing it: avoided terms (whole words, including inflected forms), required terms, brand vocabulary usage, platform length limits, hashtag and mention rules, link policy, tone heuristics and the publishing channel's constraints. Each issue has a severity: errors block approving the content, warnings are recorded on the content when it is approved. Use it before approveContent to fix problems.\n\nExample: validateContent(content_id: \"507f1f77bcf86cd799439011\")",
+        {
+            content_id: z.string().describe("ID of the content item to validate (required)")
+        },
+        async (params) => {
+            const report = await contentService.validateContent(params.content_id);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: report.issues.length > 0
+                            ? `Content ${report.valid ? "can" : "can't"} be approved: ${report.errorCount} error(s), ${report.warningCount} warning(s)\n` +
+                                report.issues.map(issue => `- [${issue.severity}] ${issue.rule}: ${issue.message}`).join("\n")
+                            : "Content meets the brand guidelines"
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(report)
+                    }
+                ],
+                report
             };
         }
     );
@@ -282,4 +325,233 @@ export function registerContentTools(server: McpServer) {
             };
         }
     );
+
+    // Publish content through its platform's channel
+    server.tool(
+        "publishContent",
+        "Publishes a content item through the publishing channel that matches its platform and transitions it to 'published' state. Only content in 'ready' state can be published. Content without a platform is published through the default channel. After publication, the post URL and ID are stored with the content.\n\nExample: publishContent(content_id: \"507f1f77bcf86cd799439011\", user_id: \"user123\")",
+        {
+            content_id: z.string().describe("ID of the content to publish (required)"),
+            user_id: z.string().describe("ID of the user initiating the publication (required)")
+        },
+        async (params) => {
+            const content = await contentService.getContent(params.content_id);
+            if (!content) {
+                throw new Error(`Content with ID ${params.content_id} not found`);
+            }
+
+            const { content: updatedContent, result, channel, brand } = await publishingService.publishContent(content, params.user_id);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Content "${content.title}" successfully published to ${channel}: ${result.url}`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(updatedContent)
+                    }
+                ],
+                content_id: content._id,
+                channel,
+                post_id: result.id,
+                post_url: result.url,
+                brand_id: brand._id,
+                available_channels: publishingService.listChannels()
+            };
+        }
+    );
+
+    // List content that failed to publish
+    server.tool(
+        "listFailedContent",
+        "Lists content in 'failed' state: scheduled content that could not be published after exhausting its retries, or that failed with an error retrying cannot fix (e.g. missing required media). Each item includes the last publish error, the number of failed attempts and when it failed. Fix the cause, then use requeueContent to publish it again.",
+        {},
+        async () => {
+            const failedContent = await publishingService.getFailedContent();
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: failedContent.length > 0
+                            ? `Found ${failedContent.length} failed content item(s):\n` + failedContent.map(content =>
+                                `- ${content._id} "${content.title}" (${content.stateMetadata.failedAttempts || 0} attempt(s)): ${content.stateMetadata.lastPublishError || "unknown error"}`
+                            ).join("\n")
+                            : "No failed content"
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(failedContent)
+                    }
+                ],
+                failed_content: failedContent
+            };
+        }
+    );
+
+    // Get the publish history of content
+    server.tool(
+        "getPublishAttempts",
+        "Gets the publish attempt history of a content item across all its versions, newest first. Each attempt records when it ran, the channel, what triggered it (scheduler or manual), and either the channel response or the error and whether it is retried.",
+        {
+            content_id: z.string().describe("ID of the content (required)"),
+            limit: z.number().int().min(1).max(1000).optional().describe("Maximum number of attempts to return (default 100)")
+        },
+        async (params) => {
+            const attempts = await publishingService.getPublishAttempts(params.content_id, params.limit);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Found ${attempts.length} publish attempt(s) for content ${params.content_id}`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(attempts)
+                    }
+                ],
+                attempts
+            };
+        }
+    );
+
+    // Requeue failed content
+    server.tool(
+        "requeueContent",
+        "Moves content in 'failed' state back to 'ready' with a fresh retry count and schedules it for publishing. publishAt must meet the brand's scheduling rules; without it the content goes out at the first slot meeting them. A thread that broke off after some of its tweets resumes after them.\n\nExample: requeueContent(content_id: \"507f1f77bcf86cd799439011\", user_id: \"user123\")",
+        {
+            content_id: z.string().describe("ID of the failed content to requeue (required)"),
+            user_id: z.string().describe("ID of the user requeueing the content (required)"),
+            publishAt: z.coerce.date().optional().describe("When to publish the content (optional, defaults to now)  Format: ISO 8601")
+        },
+        async (params) => {
+            const content = await publishingService.requeueContent(params.content_id, params.user_id, params.publishAt);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Content "${content.title}" requeued for publishing at ${ensureDate(content.stateMetadata.scheduledFor!).toISOString()}`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(content)
+                    }
+                ],
+                content_id: content._id,
+                state: content.state,
+                scheduled_for: content.stateMetadata.scheduledFor
+            };
+        }
+    );
+
+    // Transition content state. Publishing and failing are left to publishContent and the
+    // scheduler, which contact the channel and record the outcome.
+    const MANUAL_TARGET_STATES = [ContentState.Draft, ContentState.InReview, ContentState.Ready] as const;
+
+    server.tool(
+        "transitionContentState",
+        "Moves content to another state. Valid transitions are draft -> ready or in_review, in_review -> draft or ready, ready -> draft, and failed -> ready or draft. Content can't be moved to 'published' or 'failed' here; use publishContent to publish it to its channel. Moving to 'ready' validates the content against the brand guidelines and requires a complete review when the brand requires reviews. Prefer approveContent to approve content and submitContentForReview to start a review.\n\nExample: transitionContentState(content_id: \"507f1f77bcf86cd799439011\", target_state: \"draft\", user_id: \"user123\", comments: \"Needs a new intro\")",
+        {
+            content_id: z.string().describe("ID of the content item (required)"),
+            target_state: z.enum(MANUAL_TARGET_STATES).describe("State to move the content to: draft, in_review or ready (required)"),
+            user_id: z.string().describe("ID of the user changing the state (required)"),
+            comments: z.string().optional().describe("Notes about the change (optional)")
+        },
+        async (params) => {
+            const content = await contentService.getContent(params.content_id);
+            if (!content) {
+                throw new Error(`Content with ID ${params.content_id} not found`);
+            }
+
+            const validTargets = CONTENT_STATE_TRANSITIONS[content.state]
+                .filter(state => (MANUAL_TARGET_STATES as readonly ContentState[]).includes(state));
+            if (!validTargets.includes(params.target_state)) {
+                throw new Error(`Invalid state transition from ${content.state} to ${params.target_state}. Valid transitions are: ${validTargets.join(", ") || "none"}`);
+            }
+
+            const result = await contentService.transitionContentState(
+                content._id!,
+                params.target_state,
+                {
+                    userId: params.user_id,
+                    comments: params.comments
+                }
+            );
+
+            if (!result) {
+                throw new Error(`Content with ID ${params.content_id} not found`);
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Content "${result.title}" (ID: ${result._id}) moved from '${content.state}' to '${result.state}'`
+                    }
+                ],
+                content_id: result._id,
+                title: result.title,
+                previous_state: content.state,
+                state: result.state
+            };
+        }
+    );
+
+    // Delete content
+    server.tool(
+        "deleteContent",
+        "Deletes a content item with all its versions. By default the content is moved to the trash, from where restoreFromTrash brings it back until it is purged; with mode 'block' or 'cascade' it is permanently deleted with its media, metrics, publish attempts and review decisions. Deleting published content doesn't remove the published post. Without confirm: true nothing is deleted and the tool describes the content, so call it once to check and again with confirm: true to delete.\n\nExample: deleteContent(content_id: \"507f1f77bcf86cd799439011\", confirm: true)",
+        {
+            content_id: z.string().describe("ID of the content item to delete (required)"),
+            mode: z.nativeEnum(DeleteMode).optional().describe("'soft' moves the content to the trash (default); 'block' and 'cascade' both delete it permanently, as content has nothing that belongs to it (optional)"),
+            confirm: z.boolean().optional().describe("Set to true to delete the content; otherwise nothing is deleted (optional)")
+        },
+        async (params) => {
+            const content = await contentService.getContent(params.content_id);
+            if (!content) {
+                throw new Error(`Content with ID ${params.content_id} not found`);
+            }
+
+            const versions = await contentService.getAllContentVersions(content._id!);
+
+            if (!params.confirm) {
+                const scheduledFor = content.stateMetadata.scheduledFor;
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Content "${content.title}" (ID: ${content._id}) is in '${content.state}' state` +
+                                (scheduledFor && content.state !== ContentState.Published ? `, scheduled for ${ensureDate(scheduledFor).toISOString()},` : "") +
+                                ` and has ${versions.length} version(s).` +
+                                (content.state === ContentState.Published ? " Deleting it doesn't remove the published post." : "") +
+                                " Nothing was deleted: call deleteContent again with confirm: true to delete the content."
+                        }
+                    ],
+                    content_id: content._id,
+                    deleted: false,
+                    state: content.state,
+                    version_count: versions.length
+                };
+            }
+
+            const result = await contentService.deleteContent(content._id!, params.mode);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: describeDeletion("Content", result)
+                    }
+                ],
+                content_id: content._id,
+                deleted: true,
+                mode: result.mode,
+                removed: result.deleted
+            };
+        }
+    );
 }
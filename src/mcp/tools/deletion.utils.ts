@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { DeleteMode, DeletionPreview, DeletionResult } from "../../models/integrity.model.js";
+import { describeDependents } from "../../services/deletion.service.js";
+
+/**
+ * Schema of the mode parameter of the delete tools
+ * @param dependents what belongs to the deleted entity, e.g. "campaigns, plans and content"
+ */
+export function deleteModeSchema(dependents: string) {
+    return z.nativeEnum(DeleteMode).optional().describe(
+        `How to delete it and the ${dependents} that belong to it: 'soft' moves them all to the trash (default), 'block' deletes it permanently but refuses while there are any, 'cascade' permanently deletes them too (optional)`
+    );
+}
+
+/**
+ * Describe what deleting an entity would affect
+ */
+export function describePreview(label: string, preview: DeletionPreview): string {
+    return `${label} "${preview.name}" (ID: ${preview.entityId}) has ${preview.versions} version(s) and ${describeDependents(preview.dependents)}.`;
+}
+
+/**
+ * Describe the documents removed by a delete
+ */
+export function describeDeletion(label: string, result: DeletionResult): string {
+    const { deleted } = result;
+    const removed = [
+        deleted.brands > 0 ? `${deleted.brands} brand(s)` : "",
+        deleted.campaigns > 0 ? `${deleted.campaigns} campaign version(s)` : "",
+        deleted.plans > 0 ? `${deleted.plans} plan(s)` : "",
+        deleted.content > 0 ? `${deleted.content} content version(s)` : "",
+        deleted.mediaAssets > 0 ? `${deleted.mediaAssets} media asset(s)` : "",
+        deleted.credentials > 0 ? `${deleted.credentials} channel credential(s)` : "",
+        deleted.metricSnapshots > 0 ? `${deleted.metricSnapshots} metric snapshot(s)` : "",
+        deleted.publishAttempts > 0 ? `${deleted.publishAttempts} publish attempt(s)` : "",
+        deleted.reviewDecisions > 0 ? `${deleted.reviewDecisions} review decision(s)` : ""
+    ].filter(Boolean);
+
+    return `${label} "${result.name}" (ID: ${result.entityId}) ${result.mode === DeleteMode.Soft ? "moved to the trash" : "permanently deleted"}` +
+        (removed.length > 0 ? `, removing ${removed.join(", ")}` : "");
+}
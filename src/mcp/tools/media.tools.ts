@@ -0,0 +1,116 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { MediaService } from "../../services/media.service.js";
+import { ContentService } from "../../services/content.service.js";
+import { SUPPORTED_MEDIA_TYPES } from "../../models/media.model.js";
+
+export function registerMediaTools(server: McpServer) {
+    const mediaService = new MediaService();
+    const contentService = new ContentService();
+
+    // Upload media for content
+    server.tool(
+        "uploadContentMedia",
+        `Uploads an image or video for a content item. Uploaded media is attached automatically when the content is published, and fulfills the content's media requirement. Provide either base64 data with its MIME type, or a URL to download the file from. Supported types: ${Object.keys(SUPPORTED_MEDIA_TYPES).join(", ")}.\n\nExample: uploadContentMedia(content_id: "507f1f77bcf86cd799439011", url: "https://example.com/launch.png", alt_text: "Product launch banner")`,
+        {
+            content_id: z.string().describe("ID of the content the media belongs to (required)"),
+            data: z.string().optional().describe("Base64-encoded file data (either data or url is required)"),
+            mime_type: z.string().optional().describe("MIME type of the file (required with data, e.g. image/png)"),
+            url: z.string().url().optional().describe("URL to download the file from (either data or url is required)"),
+            file_name: z.string().optional().describe("File name"),
+            description: z.string().optional().describe("Description of the media"),
+            alt_text: z.string().optional().describe("Alternative text for accessibility"),
+            user_id: z.string().optional().describe("ID of the user uploading the media")
+        },
+        async (params) => {
+            if (!params.data && !params.url) {
+                throw new Error("Either data or url must be provided");
+            }
+
+            const asset = await mediaService.uploadMedia(params.content_id, {
+                data: params.data,
+                mimeType: params.mime_type,
+                url: params.url,
+                fileName: params.file_name,
+                description: params.description,
+                altText: params.alt_text,
+                userId: params.user_id
+            });
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Uploaded ${asset.kind} "${asset.fileName}" (${asset.size} bytes) for content ${params.content_id}`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(asset)
+                    }
+                ],
+                media: asset
+            };
+        }
+    );
+
+    // List media for content
+    server.tool(
+        "listContentMedia",
+        "Lists the media uploaded for a content item and whether its media requirement is fulfilled. Content with an unfulfilled media requirement cannot be published.",
+        {
+            content_id: z.string().describe("ID of the content (required)")
+        },
+        async (params) => {
+            const content = await contentService.getContent(params.content_id);
+            if (!content) {
+                throw new Error(`Content with ID ${params.content_id} not found`);
+            }
+
+            const status = await mediaService.getRequirementStatus(content);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: status.required
+                            ? `Media requirement "${status.requirement!.type}" is ${status.fulfilled ? "fulfilled" : "NOT fulfilled"} (${status.assets.length} asset(s) uploaded)`
+                            : `No media requirement (${status.assets.length} asset(s) uploaded)`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(status)
+                    }
+                ],
+                required: status.required,
+                fulfilled: status.fulfilled,
+                media: status.assets
+            };
+        }
+    );
+
+    // Delete media from content
+    server.tool(
+        "deleteContentMedia",
+        "Deletes a media asset uploaded for a content item.",
+        {
+            content_id: z.string().describe("ID of the content (required)"),
+            media_id: z.string().describe("ID of the media asset to delete (required)")
+        },
+        async (params) => {
+            const deleted = await mediaService.deleteMedia(params.content_id, params.media_id);
+            if (!deleted) {
+                throw new Error(`Media asset with ID ${params.media_id} not found`);
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Media asset ${params.media_id} deleted`
+                    }
+                ],
+                success: true
+            };
+        }
+    );
+}
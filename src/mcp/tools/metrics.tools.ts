@@ -0,0 +1,75 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { MetricsService } from "../../services/metrics.service.js";
+import { ContentService } from "../../services/content.service.js";
+
+export function registerMetricsTools(server: McpServer) {
+    const metricsService = new MetricsService();
+    const contentService = new ContentService();
+
+    // Get the engagement history of content
+    server.tool(
+        "getContentMetrics",
+        "Gets the engagement metrics (likes, shares, replies, views) of a published content item: the latest snapshot and the history of snapshots collected since publication, oldest first. Metrics are collected periodically for recently published content; use collectContentMetrics to fetch fresh numbers.\n\nExample: getContentMetrics(content_id: \"507f1f77bcf86cd799439011\", from: \"2025-01-01T00:00:00Z\")",
+        {
+            content_id: z.string().describe("ID of the content (required)"),
+            from: z.coerce.date().optional().describe("Only return snapshots captured at or after this time (optional)  Format: ISO 8601"),
+            to: z.coerce.date().optional().describe("Only return snapshots captured at or before this time (optional)  Format: ISO 8601")
+        },
+        async (params) => {
+            const { contentId, latest, history } = await metricsService.getMetricHistory(params.content_id, params.from, params.to);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: latest
+                            ? `Latest metrics for content ${contentId} (${latest.capturedAt.toISOString()}): ` +
+                              Object.entries(latest.metrics).map(([name, value]) => `${name} ${value}`).join(", ") +
+                              ` (${history.length} snapshot(s) in range)`
+                            : `No metrics collected yet for content ${contentId}`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify({ latest, history })
+                    }
+                ],
+                content_id: contentId,
+                latest,
+                history
+            };
+        }
+    );
+
+    // Collect the current engagement of content
+    server.tool(
+        "collectContentMetrics",
+        "Fetches the current engagement metrics of a published content item from its channel and stores them as a new snapshot. Only published content has metrics.",
+        {
+            content_id: z.string().describe("ID of the published content (required)")
+        },
+        async (params) => {
+            const content = await contentService.getContent(params.content_id);
+            if (!content) {
+                throw new Error(`Content with ID ${params.content_id} not found`);
+            }
+
+            const snapshot = await metricsService.collectMetrics(content);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Collected metrics for content "${content.title}" from ${snapshot.channel}: ` +
+                            Object.entries(snapshot.metrics).map(([name, value]) => `${name} ${value}`).join(", ")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(snapshot)
+                    }
+                ],
+                snapshot
+            };
+        }
+    );
+}
@@ -3,11 +3,17 @@ import { z } from "zod";
 import { PlanService } from "../../services/plan.service.js";
 import { PlanState, PlanType, Plan, MasterPlan, MicroPlan, MasterPlanCreationSchema, MasterPlanCreationSchemaParser, MicroPlanCreationSchema, MicroPlanCreationSchemaParser, MasterPlanUpdateSchema, MasterPlanUpdateSchemaParser, MicroPlanUpdateSchema, MicroPlanUpdateSchemaParser } from "../../models/plan.model.js";
 import { CampaignService } from "../../services/campaign.service.js";
+import { ContentService } from "../../services/content.service.js";
 import { ensureDate, getDurationInDays } from "../../utils/date.utils.js";
+import { DeletionService } from "../../services/deletion.service.js";
+import { DeletableEntity } from "../../models/integrity.model.js";
+import { deleteModeSchema, describeDeletion, describePreview } from "./deletion.utils.js";
 
 export function registerPlanTools(server: McpServer) {
     const planService = new PlanService();
     const campaignService = new CampaignService();
+    const contentService = new ContentService();
+    const deletionService = new DeletionService();
 
     // Plan date fields
     const planDateFields = z.object({
@@ -206,7 +212,7 @@ export function registerPlanTools(server: McpServer) {
     // Update plan
     server.tool(
         "updateMasterPlan",
-        "Update the details of an existing master plan. Use this to modify the plan's title, schedule, goals, target audience, channels, timeline, content strategy, state, and isActive.  Either plan_id or plan_name must be provided.",
+        "Update the details of an existing master plan. Use this to modify the plan's title, schedule, goals, target audience, channels, timeline, content strategy, state, and isActive. With create_new_version the update is saved as a new version that becomes the active one, keeping the previous version (see listPlanVersions).  Either plan_id or plan_name must be provided.",
         MasterPlanUpdateSchema.merge(masterPlanDateFields.partial()).shape,
         async (params) => {
             const updateData = MasterPlanUpdateSchemaParser.parse(params);
@@ -232,7 +238,7 @@ export function registerPlanTools(server: McpServer) {
 
     server.tool(
         "updateMicroPlan",
-        "Update the details of an existing micro plan. Use this to modify the plan's title, schedule, goals, target audience, channels, timeline, content series, and performance metrics, state, and isActive.  Either plan_id or plan_name must be provided.",
+        "Update the details of an existing micro plan. Use this to modify the plan's title, schedule, goals, target audience, channels, timeline, content series, and performance metrics, state, and isActive. With create_new_version the update is saved as a new version that becomes the active one, keeping the previous version (see listPlanVersions).  Either plan_id or plan_name must be provided.",
         MicroPlanUpdateSchema.merge(planDateFields.partial()).shape,
         async (params) => {
             const updateData = MicroPlanUpdateSchemaParser.parse(params);
@@ -417,4 +423,92 @@ export function registerPlanTools(server: McpServer) {
             };
         }
     );
+
+    // Transition plan state
+    server.tool(
+        "transitionPlanState",
+        "Moves a plan to another state: draft, review, approved or active. Valid transitions are draft -> review or approved, review -> draft or approved, approved -> active or draft, and active -> draft. approvePlan and activatePlan are shortcuts for the approved and active states.\n\nExample: transitionPlanState(plan_id: \"507f1f77bcf86cd799439011\", target_state: \"review\", user_id: \"user123\")",
+        {
+            plan_id: z.string().describe("ID of the plan (required)"),
+            target_state: z.nativeEnum(PlanState).describe("State to move the plan to (required)"),
+            user_id: z.string().describe("ID of the user changing the state (required)"),
+            comments: z.string().optional().describe("Notes about the change (optional)")
+        },
+        async (params) => {
+            const result = await planService.transitionPlanState(
+                params.plan_id,
+                params.target_state,
+                {
+                    userId: params.user_id,
+                    comments: params.comments
+                }
+            );
+
+            if (!result) {
+                throw new Error(`Plan with ID ${params.plan_id} not found`);
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Plan "${result.title}" (ID: ${params.plan_id}) is now in '${result.state}' state`
+                    }
+                ],
+                plan_id: result._id,
+                title: result.title,
+                state: result.state
+            };
+        }
+    );
+
+    // Delete plan
+    server.tool(
+        "deletePlan",
+        "Deletes a master or micro plan. By default the plan and its micro plans and content are moved to the trash, from where restoreFromTrash brings them back until they are purged. With mode 'block' the plan is deleted permanently, and only if a master plan has no micro plans or a micro plan no content; with mode 'cascade' the micro plans and content are permanently deleted with the plan. Without confirm: true nothing is deleted and the tool reports what the plan still has, so call it once to check and again with confirm: true to delete.\n\nExample: deletePlan(plan_id: \"507f1f77bcf86cd799439011\", confirm: true)",
+        {
+            plan_id: z.string().describe("ID of the plan to delete (required)"),
+            mode: deleteModeSchema("micro plans and content"),
+            confirm: z.boolean().optional().describe("Set to true to delete the plan; otherwise nothing is deleted (optional)")
+        },
+        async (params) => {
+            const plan = await planService.getPlan(params.plan_id);
+            if (!plan) {
+                throw new Error(`Plan with ID ${params.plan_id} not found`);
+            }
+
+            const label = plan.type === PlanType.Master ? "Master plan" : "Micro plan";
+            const preview = await deletionService.previewDeletion(DeletableEntity.Plan, plan._id!);
+
+            if (!params.confirm) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `${describePreview(label, preview)} Nothing was deleted: call deletePlan again with confirm: true to delete the plan.`
+                        }
+                    ],
+                    plan_id: plan._id,
+                    deleted: false,
+                    ...(plan.type === PlanType.Master && { micro_plan_count: preview.dependents.plans }),
+                    content_count: preview.dependents.content
+                };
+            }
+
+            const result = await planService.deletePlan(plan._id!, params.mode);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: describeDeletion(label, result)
+                    }
+                ],
+                plan_id: plan._id,
+                deleted: true,
+                mode: result.mode,
+                removed: result.deleted
+            };
+        }
+    );
 }
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ContentReviewService } from "../../services/content-review.service.js";
+import { ContentService } from "../../services/content.service.js";
+import { ContentReviewStatus } from "../../models/review.model.js";
+import { ContentState } from "../../models/content.model.js";
+import { BadRequestError, ForbiddenError } from "../../utils/errors.js";
+
+function describeStatus(status: ContentReviewStatus): string {
+    if (status.state !== ContentState.InReview) {
+        return `Content is ${status.state}` +
+            (status.reviewRequired ? `; the brand requires ${status.requiredApprovals} approval(s)${status.signOffRequired ? " and a sign-off" : ""} before it is ready` : "");
+    }
+
+    return `Content is in review (round ${status.round}): ${status.approvedBy.length} of ${status.requiredApprovals} approval(s)` +
+        (status.signOffRequired ? `, ${status.signedOffBy.length > 0 ? `signed off by ${status.signedOffBy.join(", ")}` : "sign-off pending"}` : "") +
+        (status.missing.length > 0 ? `. Still needed: ${status.missing.join("; ")}` : "") +
+        (status.pendingReviewers.length > 0 ? `. Waiting for: ${status.pendingReviewers.join(", ")}` : "");
+}
+
+// User a tool call acts as: the user of an authenticated session, or without one the user the call names
+function actingUser(actor: string | undefined, claimed: string | undefined, param: string): string {
+    if (actor) {
+        if (claimed && claimed !== actor) {
+            throw new ForbiddenError(`This session acts as user ${actor}, not ${claimed}`);
+        }
+        return actor;
+    }
+    if (!claimed) {
+        throw new BadRequestError(`${param} is required`);
+    }
+    return claimed;
+}
+
+/**
+ * @param actor user of an authenticated session, who submits and reviews content in its place
+ */
+export function registerReviewTools(server: McpServer, actor?: string) {
+    const contentService = new ContentService();
+    const reviewService = new ContentReviewService(contentService);
+
+    // Submit content for review
+    server.tool(
+        "submitContentForReview",
+        "Submits draft content for review. The content moves to 'in_review' and becomes 'ready' once it has the approvals its brand requires (at least one) and, for content matching the brand's sign-off rules (e.g. legal), a sign-off from one of the sign-off reviewers. Content is checked against the brand guidelines first. Reviewers default to the brand's reviewers; with no reviewers assigned anyone but the submitter may review.\n\nExample: submitContentForReview(content_id: \"507f1f77bcf86cd799439011\", user_id: \"user123\", reviewers: [\"editor1\", \"editor2\"])",
+        {
+            content_id: z.string().describe("ID of the draft content to submit (required)"),
+            user_id: z.string().optional().describe("ID of the user submitting the content (required, except in sessions opened with an API key, which act as its user)"),
+            reviewers: z.array(z.string()).optional().describe("User IDs of some of the brand's reviewers to assign instead of all of them; anyone when the brand has none (optional)"),
+            require_sign_off: z.boolean().optional().describe("Require a sign-off even if the brand's sign-off rules don't match the content (optional)"),
+            comments: z.string().optional().describe("Notes for the reviewers (optional)")
+        },
+        async (params) => {
+            const { content, status } = await reviewService.submitForReview(params.content_id, actingUser(actor, params.user_id, "user_id"), {
+                reviewers: params.reviewers,
+                requireSignOff: params.require_sign_off,
+                comments: params.comments
+            });
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Content "${content.title}" submitted for review. ${describeStatus(status)}`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(status)
+                    }
+                ],
+                content_id: content._id,
+                state: content.state,
+                review: status
+            };
+        }
+    );
+
+    // Approve or reject content in review
+    server.tool(
+        "reviewContent",
+        "Records a reviewer's decision on content in review. Approving counts towards the required approvals (and the sign-off when the reviewer is a sign-off reviewer); the content becomes 'ready' when the review is complete. Rejecting requires a reason and sends the content back to 'draft' to be edited and resubmitted. Each reviewer decides once per review round.\n\nExample: reviewContent(content_id: \"507f1f77bcf86cd799439011\", reviewer_id: \"legal1\", decision: \"reject\", reason: \"Claims need a source\")",
+        {
+            content_id: z.string().describe("ID of the content in review (required)"),
+            reviewer_id: z.string().optional().describe("ID of the reviewer (required, except in sessions opened with an API key, which act as its user)"),
+            decision: z.enum(["approve", "reject"]).describe("Whether to approve or reject the content (required)"),
+            reason: z.string().optional().describe("Why the content is rejected (required when rejecting)"),
+            comments: z.string().optional().describe("Reviewer comments (optional)")
+        },
+        async (params) => {
+            const reviewerId = actingUser(actor, params.reviewer_id, "reviewer_id");
+            const { content, status } = params.decision === "approve"
+                ? await reviewService.approve(params.content_id, reviewerId, params.comments)
+                : await reviewService.reject(params.content_id, reviewerId, params.reason || "", params.comments);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Content "${content.title}" ${params.decision === "approve" ? "approved" : "rejected"} by ${reviewerId}. ${describeStatus(status)}`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(status)
+                    }
+                ],
+                content_id: content._id,
+                state: content.state,
+                review: status
+            };
+        }
+    );
+
+    // Get the review status of content
+    server.tool(
+        "getContentReview",
+        "Gets the review status of a content item: required approvals, assigned and pending reviewers, who approved or signed off, what is still missing, and the decisions of the current round. With include_history, returns the decisions of every review round.",
+        {
+            content_id: z.string().describe("ID of the content (required)"),
+            include_history: z.boolean().optional().describe("Include the decisions of all review rounds (optional)")
+        },
+        async (params) => {
+            const status = await contentService.getReviewStatus(params.content_id);
+            const history = params.include_history ? await reviewService.getReviewHistory(params.content_id) : undefined;
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: describeStatus(status)
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(history ? { ...status, history } : status)
+                    }
+                ],
+                review: status,
+                ...(history && { history })
+            };
+        }
+    );
+}
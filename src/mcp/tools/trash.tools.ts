@@ -0,0 +1,75 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { DeletableEntity } from "../../models/integrity.model.js";
+import { DeletionService, getTrashRetentionDays } from "../../services/deletion.service.js";
+
+export function registerTrashTools(server: McpServer) {
+    const deletionService = new DeletionService();
+
+    // List soft-deleted entities
+    server.tool(
+        "listTrash",
+        `Lists the brands, campaigns, plans or content items in the trash, most recently deleted first. Deleted entities are kept for ${getTrashRetentionDays()} days before they are permanently purged; use restoreFromTrash to bring one back before then.\n\nExample: listTrash(entity_type: "plan")`,
+        {
+            entity_type: z.nativeEnum(DeletableEntity).describe("Type of the deleted entities to list: 'brand', 'campaign', 'plan' or 'content' (required)")
+        },
+        async (params) => {
+            const items = await deletionService.listTrash(params.entity_type);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: items.length === 0
+                            ? `No ${params.entity_type} in the trash`
+                            : `Found ${items.length} ${params.entity_type} item(s) in the trash:\n` +
+                            items.map(item =>
+                                `- "${item.name}" (ID: ${item.entityId}), deleted ${item.deletedAt.toISOString()}${item.deletedBy ? ` by ${item.deletedBy}` : ""}, purged after ${item.purgeAt.toISOString()}`
+                            ).join("\n")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(items)
+                    }
+                ],
+                items
+            };
+        }
+    );
+
+    // Restore a soft-deleted entity
+    server.tool(
+        "restoreFromTrash",
+        "Restores a brand, campaign, plan or content item from the trash, together with the versions and dependents that were deleted with it. Dependents deleted separately stay in the trash. Fails if the entity isn't deleted, or while the brand, campaign or plan it belongs to is in the trash (restore that first).\n\nExample: restoreFromTrash(entity_type: \"plan\", entity_id: \"507f1f77bcf86cd799439011\")",
+        {
+            entity_type: z.nativeEnum(DeletableEntity).describe("Type of the entity to restore: 'brand', 'campaign', 'plan' or 'content' (required)"),
+            entity_id: z.string().describe("ID of the deleted entity (required)")
+        },
+        async (params) => {
+            const result = await deletionService.restore(params.entity_type, params.entity_id);
+            const { restored } = result;
+            const counts = [
+                restored.brands > 0 ? `${restored.brands} brand(s)` : "",
+                restored.campaigns > 0 ? `${restored.campaigns} campaign version(s)` : "",
+                restored.plans > 0 ? `${restored.plans} plan(s)` : "",
+                restored.content > 0 ? `${restored.content} content version(s)` : ""
+            ].filter(Boolean);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Restored ${params.entity_type} "${result.name}" (ID: ${result.entityId})` +
+                            (counts.length > 0 ? `: ${counts.join(", ")}` : "")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(result)
+                    }
+                ],
+                _id: result.entityId,
+                restored
+            };
+        }
+    );
+}
@@ -1,19 +1,34 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { TwitterService } from "../../services/twitter.service.js";
-import { BrandService } from "../../services/brand.service.js";
 import { ContentService } from "../../services/content.service.js";
-import { PlanService } from "../../services/plan.service.js";
-import { CampaignService } from "../../services/campaign.service.js";
-import { ContentState } from "../../models/content.model.js";
-import { PlanType } from "../../models/plan.model.js";
+import { PublishingService } from "../../services/publishing.service.js";
+import { BrandService } from "../../services/brand.service.js";
+import { CredentialService } from "../../services/credential.service.js";
+import { TwitterCookieSchema } from "../../models/credential.model.js";
+import { Content, ContentState } from "../../models/content.model.js";
 
 export function registerTwitterTools(server: McpServer) {
     const twitterService = new TwitterService();
-    const brandService = new BrandService();
     const contentService = new ContentService();
-    const planService = new PlanService();
-    const campaignService = new CampaignService();
+    const publishingService = new PublishingService();
+    const brandService = new BrandService();
+    const credentialService = new CredentialService();
+
+    // Resolve a brand ID from either brand_id or brand_name
+    const resolveBrandId = async (params: { brand_id?: string; brand_name?: string }): Promise<string> => {
+        if (params.brand_id) {
+            return params.brand_id;
+        }
+        if (params.brand_name) {
+            const brand = await brandService.getBrandByName(params.brand_name);
+            if (!brand || !brand._id) {
+                throw new Error(`Brand with name ${params.brand_name} not found`);
+            }
+            return brand._id;
+        }
+        throw new Error("Either brand_id or brand_name must be provided");
+    };
 
     // Get tweets from a user
     server.tool(
@@ -386,7 +401,7 @@ export function registerTwitterTools(server: McpServer) {
     // Publish content to Twitter
     server.tool(
         "publishToTwitter",
-        "Publishes a content item directly to Twitter and transitions it to 'published' state. Only content in 'ready' state can be published. The system determines the appropriate Twitter account based on the content's brand association. After publication, the tweet URL and ID are stored with the content.\n\nExample: publishToTwitter(content_id: \"507f1f77bcf86cd799439011\", user_id: \"user123\")",
+        "Publishes a content item directly to Twitter and transitions it to 'published' state. Only content in 'ready' state can be published. Content with a 'Thread' format, or too long for a single tweet, is published as a reply chain; separate tweets explicitly with a line containing only '---'. The system determines the appropriate Twitter account based on the content's brand association. After publication, the tweet URL and ID are stored with the content.\n\nExample: publishToTwitter(content_id: \"507f1f77bcf86cd799439011\", user_id: \"user123\")",
         {
             content_id: z.string().describe("ID of the content to publish (required)"),
             user_id: z.string().describe("ID of the user initiating the publication (required)")
@@ -398,63 +413,14 @@ export function registerTwitterTools(server: McpServer) {
                 throw new Error(`Content with ID ${params.content_id} not found`);
             }
 
-            // Verify content is in Ready state
-            if (content.state !== ContentState.Ready) {
-                throw new Error(`Content must be in 'ready' state to be published`);
-            }
-
-            let brandId = "";
-
-            // Determine brand ID from either direct association or through hierarchy
-            if (content.brandId) {
-                // Content is directly associated with a brand
-                brandId = content.brandId;
-            } else if (content.microPlanId) {
-                // Content is associated with a microplan, follow the hierarchy
-                const microPlan = await planService.getPlan(content.microPlanId);
-                if (!microPlan || microPlan.type !== PlanType.Micro) {
-                    throw new Error(`Micro plan with ID ${content.microPlanId} not found`);
-                }
-
-                // Get the master plan
-                const masterPlan = await planService.getPlan(microPlan.masterPlanId);
-                if (!masterPlan || masterPlan.type !== PlanType.Master) {
-                    throw new Error(`Master plan with ID ${microPlan.masterPlanId} not found`);
-                }
-
-                // Get the campaign
-                const campaign = await campaignService.getCampaignById(masterPlan.campaignId);
-                if (!campaign) {
-                    throw new Error(`Campaign with ID ${masterPlan.campaignId} not found`);
-                }
-
-                brandId = campaign.brandId;
-            } else {
-                throw new Error('Content must be associated with either a microplan or a brand');
-            }
-
-            // Get the brand
-            const brand = await brandService.getBrand(brandId);
-            if (!brand) {
-                throw new Error(`Brand with ID ${brandId} not found`);
+            // Only content targeting Twitter can be published with this tool
+            const channel = publishingService.getChannelForContent(content);
+            if (channel.name !== twitterService.name) {
+                throw new Error(`Content targets platform "${content.platform}", which is published through the "${channel.name}" channel. Use publishContent instead.`);
             }
 
-            // Publish to Twitter
-            const result = await twitterService.publishContent(content, brand._id!);
-
-            // Update content state and metadata
-            const updatedContent = await contentService.transitionContentState(
-                content._id!,
-                ContentState.Published,
-                {
-                    userId: params.user_id,
-                    comments: `Published to Twitter: ${result.url}`
-                }
-            );
-
-            if (!updatedContent) {
-                throw new Error(`Failed to update content state after publishing`);
-            }
+            // Publish to Twitter and update content state and metadata
+            const { content: updatedContent, result, brand } = await publishingService.publishContent(content, params.user_id);
 
             return {
                 content: [
@@ -477,7 +443,9 @@ export function registerTwitterTools(server: McpServer) {
                 current_state: ContentState.Published,
                 tweet_id: result.id,
                 tweet_url: result.url,
-                brand_id: brandId,
+                thread_tweet_ids: result.platformSpecificData?.tweetIds,
+                thread_tweet_urls: result.platformSpecificData?.tweetUrls,
+                brand_id: brand._id,
                 brand_name: brand.name,
                 publishing_user_id: params.user_id,
                 published_at: updatedContent.stateMetadata.publishedAt?.toISOString(),
@@ -485,4 +453,166 @@ export function registerTwitterTools(server: McpServer) {
             };
         }
     );
-}
\ No newline at end of file
+
+    // Preview how content will be split into a thread
+    server.tool(
+        "previewTwitterThread",
+        "Shows the tweets a content item (or a piece of text) would be published as, without posting anything. Text is split on lines containing only '---', then on paragraphs and sentences, and numbered like '1/n'.",
+        {
+            content_id: z.string().optional().describe("ID of the content to preview (either content_id or text is required)"),
+            text: z.string().optional().describe("Text to preview (either content_id or text is required)")
+        },
+        async (params) => {
+            let content;
+            if (params.content_id) {
+                content = await contentService.getContent(params.content_id);
+                if (!content) {
+                    throw new Error(`Content with ID ${params.content_id} not found`);
+                }
+            } else if (params.text) {
+                content = { title: "Preview", content: params.text, format: "Thread" } as Content;
+            } else {
+                throw new Error("Either content_id or text must be provided");
+            }
+
+            const tweets = twitterService.getTweetsForContent(content);
+            const validation = twitterService.validate(content);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: tweets.map((tweet, index) => `[${index + 1}] (${tweet.length} chars)\n${tweet}`).join("\n\n")
+                    }
+                ],
+                tweets,
+                tweet_count: tweets.length,
+                errors: validation.errors,
+                warnings: validation.warnings
+            };
+        }
+    );
+
+    // Connect a Twitter account to a brand
+    server.tool(
+        "connectTwitterAccount",
+        "Connects a Twitter account to a brand so its content is published from that account. Credentials are stored encrypted and replace any previously connected account. Provide either the password (with email and optional 2FA secret) or session cookies. Use verifyTwitterAccount afterwards to check the login.\n\nExample: connectTwitterAccount(brand_name: \"Acme\", username: \"acme\", password: \"...\", email: \"social@acme.com\")",
+        {
+            brand_id: z.string().optional().describe("ID of the brand (either brand_id or brand_name is required)"),
+            brand_name: z.string().optional().describe("Name of the brand (either brand_id or brand_name is required)"),
+            username: z.string().min(1).max(15).describe("Twitter username (required)"),
+            password: z.string().optional().describe("Account password"),
+            email: z.string().email().optional().describe("Account email"),
+            two_factor_secret: z.string().optional().describe("TOTP secret for two-factor authentication"),
+            cookies: z.array(TwitterCookieSchema).optional().describe("Session cookies (e.g., auth_token, ct0)")
+        },
+        async (params) => {
+            if (!params.password && !(params.cookies && params.cookies.length > 0)) {
+                throw new Error("Either password or cookies must be provided");
+            }
+
+            const brandId = await resolveBrandId(params);
+            const account = await credentialService.connectTwitterAccount(brandId, {
+                username: params.username,
+                password: params.password,
+                email: params.email,
+                twoFactorSecret: params.two_factor_secret,
+                cookies: params.cookies
+            });
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Twitter account @${account.username} connected to brand ${brandId}`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(account)
+                    }
+                ],
+                account
+            };
+        }
+    );
+
+    // Disconnect the Twitter account of a brand
+    server.tool(
+        "disconnectTwitterAccount",
+        "Removes the Twitter account connected to a brand. The brand's content is then published from the default account configured on the server, if any.",
+        {
+            brand_id: z.string().optional().describe("ID of the brand (either brand_id or brand_name is required)"),
+            brand_name: z.string().optional().describe("Name of the brand (either brand_id or brand_name is required)")
+        },
+        async (params) => {
+            const brandId = await resolveBrandId(params);
+            const disconnected = await credentialService.disconnectTwitterAccount(brandId);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: disconnected
+                            ? `Twitter account disconnected from brand ${brandId}`
+                            : `Brand ${brandId} has no Twitter account connected`
+                    }
+                ],
+                success: disconnected
+            };
+        }
+    );
+
+    // Verify the Twitter account of a brand
+    server.tool(
+        "verifyTwitterAccount",
+        "Logs in with the Twitter account connected to a brand and records whether the credentials work.",
+        {
+            brand_id: z.string().optional().describe("ID of the brand (either brand_id or brand_name is required)"),
+            brand_name: z.string().optional().describe("Name of the brand (either brand_id or brand_name is required)")
+        },
+        async (params) => {
+            const brandId = await resolveBrandId(params);
+            const account = await credentialService.verifyTwitterAccount(brandId);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: account.lastError
+                            ? `Twitter account @${account.username} could not be verified: ${account.lastError}`
+                            : `Twitter account @${account.username} verified`
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(account)
+                    }
+                ],
+                account
+            };
+        }
+    );
+
+    // Get the Twitter account of a brand
+    server.tool(
+        "getTwitterAccount",
+        "Retrieves the Twitter account connected to a brand and its connection status. Secrets are never returned.",
+        {
+            brand_id: z.string().optional().describe("ID of the brand (either brand_id or brand_name is required)"),
+            brand_name: z.string().optional().describe("Name of the brand (either brand_id or brand_name is required)")
+        },
+        async (params) => {
+            const brandId = await resolveBrandId(params);
+            const account = await credentialService.getTwitterAccount(brandId);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: account ? JSON.stringify(account) : `Brand ${brandId} has no Twitter account connected`
+                    }
+                ],
+                account
+            };
+        }
+    );
+}
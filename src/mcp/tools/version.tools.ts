@@ -0,0 +1,414 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ContentService } from "../../services/content.service.js";
+import { CampaignService } from "../../services/campaign.service.js";
+import { PlanService } from "../../services/plan.service.js";
+import { Plan } from "../../models/plan.model.js";
+import { DiffService } from "../../services/diff.service.js";
+import { DiffChangeType, FieldDiff, VersionDiff, VersionedEntity } from "../../models/diff.model.js";
+
+interface Versioned {
+    _id?: string;
+    version: number;
+    isActive: boolean;
+    updated_at: Date;
+}
+
+// Plans keep their version number in stateMetadata, and isActive marks the plan in effect
+function planVersion(plan: Plan): Versioned {
+    return {
+        _id: plan._id,
+        version: plan.stateMetadata.version,
+        isActive: plan.isActiveVersion,
+        updated_at: plan.updated_at
+    };
+}
+
+// One line per change; text diffs are shown inline as [-removed-]{+added+}
+function describeChange(change: FieldDiff): string {
+    if (change.textDiff) {
+        return `- ${change.path} changed: ` + change.textDiff.map(segment =>
+            segment.type === "removed" ? `[-${segment.text}-]` : segment.type === "added" ? `{+${segment.text}+}` : segment.text
+        ).join("");
+    }
+    switch (change.type) {
+        case DiffChangeType.Added:
+            return `- ${change.path} added: ${JSON.stringify(change.to)}`;
+        case DiffChangeType.Removed:
+            return `- ${change.path} removed: ${JSON.stringify(change.from)}`;
+        default:
+            return `- ${change.path} changed from ${JSON.stringify(change.from)} to ${JSON.stringify(change.to)}`;
+    }
+}
+
+// Summary and changes of a version diff, followed by the diff itself
+function diffResponse(diff: VersionDiff) {
+    const { summary } = diff;
+
+    return {
+        content: [
+            {
+                type: "text" as const,
+                text: diff.changes.length > 0
+                    ? `From version ${diff.from.version} to version ${diff.to.version} of ${diff.entityType} ${diff.entityId}: ` +
+                    `${summary.added} added, ${summary.removed} removed, ${summary.changed} changed\n` +
+                    diff.changes.map(describeChange).join("\n")
+                    : `Versions ${diff.from.version} and ${diff.to.version} are the same`
+            },
+            {
+                type: "text" as const,
+                text: JSON.stringify(diff)
+            }
+        ],
+        diff
+    };
+}
+
+function summarizeVersions(versions: Versioned[]) {
+    return [...versions].sort((a, b) => a.version - b.version).map(version => ({
+        id: version._id,
+        version: version.version,
+        active: version.isActive,
+        updated_at: version.updated_at
+    }));
+}
+
+export function registerVersionTools(server: McpServer) {
+    const contentService = new ContentService();
+    const campaignService = new CampaignService();
+    const planService = new PlanService();
+    const diffService = new DiffService();
+
+    async function getContentVersion(contentId: string, version: number) {
+        const content = await contentService.getContentVersion(contentId, version);
+        if (!content) {
+            throw new Error(`Version ${version} of content ${contentId} not found`);
+        }
+        return content;
+    }
+
+    async function getCampaignVersion(campaignId: string, version: number) {
+        const campaign = await campaignService.getCampaignVersion(campaignId, version);
+        if (!campaign) {
+            throw new Error(`Version ${version} of campaign ${campaignId} not found`);
+        }
+        return campaign;
+    }
+
+    async function getPlanVersion(planId: string, version: number) {
+        const plan = await planService.getPlanVersion(planId, version);
+        if (!plan) {
+            throw new Error(`Version ${version} of plan ${planId} not found`);
+        }
+        return plan;
+    }
+
+    // List content versions
+    server.tool(
+        "listContentVersions",
+        "Lists every version of a content item, oldest first, with the ID of each version and which one is active. New versions are created by updateContent with create_new_version. Any version's ID can be given as content_id.\n\nExample: listContentVersions(content_id: \"507f1f77bcf86cd799439011\")",
+        {
+            content_id: z.string().describe("ID of the content, or of any of its versions (required)")
+        },
+        async (params) => {
+            const versions = await contentService.getAllContentVersions(params.content_id);
+            if (versions.length === 0) {
+                throw new Error(`Content with ID ${params.content_id} not found`);
+            }
+            const active = versions.find(version => version.isActive);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Content "${(active || versions[0]).title}" has ${versions.length} version(s); ` +
+                            (active ? `version ${active.version} is active` : "none is active")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(summarizeVersions(versions))
+                    }
+                ],
+                versions: summarizeVersions(versions)
+            };
+        }
+    );
+
+    // Get a content version
+    server.tool(
+        "getContentVersion",
+        "Gets a specific version of a content item.\n\nExample: getContentVersion(content_id: \"507f1f77bcf86cd799439011\", version: 2)",
+        {
+            content_id: z.string().describe("ID of the content, or of any of its versions (required)"),
+            version: z.number().int().min(1).describe("Version number to get (required)")
+        },
+        async (params) => {
+            const content = await getContentVersion(params.content_id, params.version);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(content)
+                    }
+                ],
+                content_item: content
+            };
+        }
+    );
+
+    // Compare two content versions
+    server.tool(
+        "compareContentVersions",
+        "Lists the fields added, removed and changed between two versions of a content item, with the body compared word by word, like compareVersions. Use it to see what an update changed before reverting with activateContentVersion.\n\nExample: compareContentVersions(content_id: \"507f1f77bcf86cd799439011\", from_version: 1, to_version: 3)",
+        {
+            content_id: z.string().describe("ID of the content, or of any of its versions (required)"),
+            from_version: z.number().int().min(1).describe("Version to compare from (required)"),
+            to_version: z.number().int().min(1).describe("Version to compare to (required)")
+        },
+        async (params) => diffResponse(
+            await diffService.compareVersions(VersionedEntity.Content, params.content_id, params.from_version, params.to_version)
+        )
+    );
+
+    // Activate (revert to) a content version
+    server.tool(
+        "activateContentVersion",
+        "Makes a version of a content item the active one, e.g. to revert an update. The other versions are kept and can be activated again.\n\nExample: activateContentVersion(content_id: \"507f1f77bcf86cd799439011\", version: 1, user_id: \"user123\")",
+        {
+            content_id: z.string().describe("ID of the content, or of any of its versions (required)"),
+            version: z.number().int().min(1).describe("Version number to activate (required)"),
+            user_id: z.string().describe("ID of the user activating the version (required)")
+        },
+        async (params) => {
+            const version = await getContentVersion(params.content_id, params.version);
+            const result = await contentService.activateContentVersion(version._id!, params.user_id);
+            if (!result) {
+                throw new Error(`Version ${params.version} of content ${params.content_id} not found`);
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Version ${result.version} of content "${result.title}" is now active (ID: ${result._id})`
+                    }
+                ],
+                content_id: result._id,
+                version: result.version,
+                state: result.state
+            };
+        }
+    );
+
+    // List campaign versions
+    server.tool(
+        "listCampaignVersions",
+        "Lists every version of a campaign, oldest first, with the ID of each version and which one is active. New versions are created by updateCampaign with create_new_version. Any version's ID can be given as campaign_id.\n\nExample: listCampaignVersions(campaign_id: \"507f1f77bcf86cd799439011\")",
+        {
+            campaign_id: z.string().describe("ID of the campaign, or of any of its versions (required)")
+        },
+        async (params) => {
+            const versions = await campaignService.getAllCampaignVersions(params.campaign_id);
+            if (versions.length === 0) {
+                throw new Error(`Campaign with ID ${params.campaign_id} not found`);
+            }
+            const active = versions.find(version => version.isActive);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Campaign "${(active || versions[0]).name}" has ${versions.length} version(s); ` +
+                            (active ? `version ${active.version} is active` : "none is active")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(summarizeVersions(versions))
+                    }
+                ],
+                versions: summarizeVersions(versions)
+            };
+        }
+    );
+
+    // Get a campaign version
+    server.tool(
+        "getCampaignVersion",
+        "Gets a specific version of a campaign.\n\nExample: getCampaignVersion(campaign_id: \"507f1f77bcf86cd799439011\", version: 2)",
+        {
+            campaign_id: z.string().describe("ID of the campaign, or of any of its versions (required)"),
+            version: z.number().int().min(1).describe("Version number to get (required)")
+        },
+        async (params) => {
+            const campaign = await getCampaignVersion(params.campaign_id, params.version);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(campaign)
+                    }
+                ],
+                campaign
+            };
+        }
+    );
+
+    // Compare two campaign versions
+    server.tool(
+        "compareCampaignVersions",
+        "Lists the fields added, removed and changed between two versions of a campaign, like compareVersions. Use it to see what an update changed before reverting with activateCampaignVersion.\n\nExample: compareCampaignVersions(campaign_id: \"507f1f77bcf86cd799439011\", from_version: 1, to_version: 2)",
+        {
+            campaign_id: z.string().describe("ID of the campaign, or of any of its versions (required)"),
+            from_version: z.number().int().min(1).describe("Version to compare from (required)"),
+            to_version: z.number().int().min(1).describe("Version to compare to (required)")
+        },
+        async (params) => diffResponse(
+            await diffService.compareVersions(VersionedEntity.Campaign, params.campaign_id, params.from_version, params.to_version)
+        )
+    );
+
+    // Activate (revert to) a campaign version
+    server.tool(
+        "activateCampaignVersion",
+        "Makes a version of a campaign the active one, e.g. to revert an update. The other versions are kept and can be activated again.\n\nExample: activateCampaignVersion(campaign_id: \"507f1f77bcf86cd799439011\", version: 1, user_id: \"user123\")",
+        {
+            campaign_id: z.string().describe("ID of the campaign, or of any of its versions (required)"),
+            version: z.number().int().min(1).describe("Version number to activate (required)"),
+            user_id: z.string().describe("ID of the user activating the version (required)")
+        },
+        async (params) => {
+            const version = await getCampaignVersion(params.campaign_id, params.version);
+            const result = await campaignService.activateCampaignVersion(version._id!, params.user_id);
+            if (!result) {
+                throw new Error(`Version ${params.version} of campaign ${params.campaign_id} not found`);
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Version ${result.version} of campaign "${result.name}" is now active (ID: ${result._id})`
+                    }
+                ],
+                campaign_id: result._id,
+                version: result.version,
+                status: result.status
+            };
+        }
+    );
+
+    // List plan versions
+    server.tool(
+        "listPlanVersions",
+        "Lists every version of a master or micro plan, oldest first, with the ID of each version and which one is active. New versions are created by updateMasterPlan or updateMicroPlan with create_new_version. Any version's ID can be given as plan_id.\n\nExample: listPlanVersions(plan_id: \"507f1f77bcf86cd799439011\")",
+        {
+            plan_id: z.string().describe("ID of the plan, or of any of its versions (required)")
+        },
+        async (params) => {
+            const versions = await planService.getAllPlanVersions(params.plan_id);
+            if (versions.length === 0) {
+                throw new Error(`Plan with ID ${params.plan_id} not found`);
+            }
+            const active = versions.find(version => version.isActiveVersion);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Plan "${(active || versions[0]).title}" has ${versions.length} version(s); ` +
+                            (active ? `version ${active.stateMetadata.version} is active` : "none is active")
+                    },
+                    {
+                        type: "text",
+                        text: JSON.stringify(summarizeVersions(versions.map(planVersion)))
+                    }
+                ],
+                versions: summarizeVersions(versions.map(planVersion))
+            };
+        }
+    );
+
+    // Get a plan version
+    server.tool(
+        "getPlanVersion",
+        "Gets a specific version of a master or micro plan.\n\nExample: getPlanVersion(plan_id: \"507f1f77bcf86cd799439011\", version: 2)",
+        {
+            plan_id: z.string().describe("ID of the plan, or of any of its versions (required)"),
+            version: z.number().int().min(1).describe("Version number to get (required)")
+        },
+        async (params) => {
+            const plan = await getPlanVersion(params.plan_id, params.version);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(plan)
+                    }
+                ],
+                plan
+            };
+        }
+    );
+
+    // Compare two plan versions
+    server.tool(
+        "comparePlanVersions",
+        "Lists the fields added, removed and changed between two versions of a master or micro plan, like compareVersions. Use it to see what an update changed before reverting with activatePlanVersion.\n\nExample: comparePlanVersions(plan_id: \"507f1f77bcf86cd799439011\", from_version: 1, to_version: 2)",
+        {
+            plan_id: z.string().describe("ID of the plan, or of any of its versions (required)"),
+            from_version: z.number().int().min(1).describe("Version to compare from (required)"),
+            to_version: z.number().int().min(1).describe("Version to compare to (required)")
+        },
+        async (params) => diffResponse(
+            await diffService.compareVersions(VersionedEntity.Plan, params.plan_id, params.from_version, params.to_version)
+        )
+    );
+
+    // Activate (revert to) a plan version
+    server.tool(
+        "activatePlanVersion",
+        "Makes a version of a master or micro plan the active one, e.g. to revert an update. The micro plans of a master plan, or the content of a micro plan, move to the activated version. The other versions are kept and can be activated again.\n\nExample: activatePlanVersion(plan_id: \"507f1f77bcf86cd799439011\", version: 1, user_id: \"user123\")",
+        {
+            plan_id: z.string().describe("ID of the plan, or of any of its versions (required)"),
+            version: z.number().int().min(1).describe("Version number to activate (required)"),
+            user_id: z.string().describe("ID of the user activating the version (required)")
+        },
+        async (params) => {
+            const version = await getPlanVersion(params.plan_id, params.version);
+            const result = await planService.activatePlanVersion(version._id!, params.user_id);
+            if (!result) {
+                throw new Error(`Version ${params.version} of plan ${params.plan_id} not found`);
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Version ${result.stateMetadata.version} of plan "${result.title}" is now active (ID: ${result._id})`
+                    }
+                ],
+                plan_id: result._id,
+                version: result.stateMetadata.version,
+                state: result.state
+            };
+        }
+    );
+
+    // Structured diff between two versions of any versioned entity
+    server.tool(
+        "compareVersions",
+        "Diffs two versions of a campaign, plan or content item field by field: which fields were added, removed or changed. Goals, audience segments, milestones, timeline events and metrics are matched item by item, and the body of content is compared word by word, shown as [-removed-]{+added+}.\n\nExample: compareVersions(entity_type: \"content\", entity_id: \"507f1f77bcf86cd799439011\", from_version: 1, to_version: 2)",
+        {
+            entity_type: z.nativeEnum(VersionedEntity).describe("Type of the entity: 'campaign', 'plan' or 'content' (required)"),
+            entity_id: z.string().describe("ID of the entity, or of any of its versions (required)"),
+            from_version: z.number().int().min(1).describe("Version to compare from (required)"),
+            to_version: z.number().int().min(1).describe("Version to compare to (required)")
+        },
+        async (params) => diffResponse(
+            await diffService.compareVersions(params.entity_type, params.entity_id, params.from_version, params.to_version)
+        )
+    );
+}
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { dateSchema, optionalDateSchema } from "../utils/date.utils.js";
+
+// Roles an API key can be issued with, from least to most privileged
+export enum ApiKeyRole {
+    Viewer = "viewer",
+    Editor = "editor",
+    Approver = "approver",
+    Admin = "admin"
+}
+
+// Permissions checked by the REST API routes
+export enum Permission {
+    Read = "read",          // read brands, campaigns, plans and content
+    Write = "write",        // create and edit campaigns, plans, content and media
+    Approve = "approve",    // approve, schedule and requeue content
+    Admin = "admin"         // manage brands, channel accounts, API keys and the audit log
+}
+
+export const ROLE_PERMISSIONS: Record<ApiKeyRole, Permission[]> = {
+    [ApiKeyRole.Viewer]: [Permission.Read],
+    [ApiKeyRole.Editor]: [Permission.Read, Permission.Write],
+    [ApiKeyRole.Approver]: [Permission.Read, Permission.Write, Permission.Approve],
+    [ApiKeyRole.Admin]: [Permission.Read, Permission.Write, Permission.Approve, Permission.Admin]
+};
+
+// Stored API key; only a hash of the key itself is kept
+export const ApiKeySchema = z.object({
+    _id: z.string().optional().describe("Unique identifier for the API key in the database"),
+    name: z.string().min(1).describe("Name describing what the key is used for"),
+    userId: z.string().min(1).describe("ID of the user the key acts for"),
+    role: z.nativeEnum(ApiKeyRole).describe("Role granted to the key"),
+    brandIds: z.array(z.string()).optional().describe("Brands the key is limited to (all brands if omitted)"),
+    keyHash: z.string().describe("SHA-256 hash of the key"),
+    keyPrefix: z.string().describe("First characters of the key, to tell keys apart"),
+    createdBy: z.string().optional().describe("ID of the user who issued the key"),
+    expiresAt: optionalDateSchema.describe("When the key stops working"),
+    revokedAt: optionalDateSchema.describe("When the key was revoked"),
+    lastUsedAt: optionalDateSchema.describe("When the key was last used"),
+    created_at: dateSchema.default(() => new Date()).describe("When the key was issued"),
+    updated_at: dateSchema.default(() => new Date()).describe("When the key was last updated")
+});
+
+// API key issuance input
+export const ApiKeyCreationSchema = z.object({
+    name: z.string().min(1).describe("Name describing what the key is used for"),
+    userId: z.string().min(1).describe("ID of the user the key acts for"),
+    role: z.nativeEnum(ApiKeyRole).describe("Role granted to the key"),
+    brandIds: z.array(z.string()).min(1).optional().describe("Brands the key is limited to (all brands if omitted)"),
+    expiresAt: optionalDateSchema.describe("When the key stops working (never if omitted)")
+});
+
+// Type definitions
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+export type ApiKeyCreationParams = z.infer<typeof ApiKeyCreationSchema>;
+
+// API key as exposed by the API (hash removed)
+export type ApiKeySummary = Omit<ApiKey, "keyHash">;
+
+// Identity a request was authenticated as
+export interface AuthContext {
+    keyId?: string;
+    userId: string;
+    role: ApiKeyRole;
+    brandIds?: string[];
+}
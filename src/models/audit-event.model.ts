@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { dateSchema } from "../utils/date.utils.js";
+
+// Kind of mutation an audit event records
+export enum AuditAction {
+    Create = "create",
+    Update = "update",
+    Delete = "delete"
+}
+
+// Where a mutation came from
+export enum AuditSource {
+    Rest = "rest",
+    Mcp = "mcp",
+    System = "system"
+}
+
+// Changed field of an entity; from is missing for new fields, to for removed ones
+export const FieldChangeSchema = z.object({
+    field: z.string().describe("Dot-separated path of the field"),
+    from: z.any().optional().describe("Value before the change"),
+    to: z.any().optional().describe("Value after the change")
+});
+
+// Audit event, appended for every mutation of an audited collection
+export const AuditEventSchema = z.object({
+    _id: z.string().optional().describe("Unique identifier for the event in the database"),
+    action: z.nativeEnum(AuditAction).describe("Kind of mutation"),
+    entityType: z.string().describe("Collection of the changed entity (e.g. contents, brands)"),
+    entityId: z.string().describe("ID of the changed entity"),
+    actor: z.string().describe("User ID of who made the change, or the system process"),
+    source: z.nativeEnum(AuditSource).describe("Whether the change came from the REST API, an MCP tool or the system"),
+    tool: z.string().optional().describe("Name of the MCP tool that made the change"),
+    request: z.string().optional().describe("REST method and path that made the change"),
+    changes: z.array(FieldChangeSchema).describe("Changed fields"),
+    timestamp: dateSchema.describe("When the change was made"),
+    created_at: dateSchema.default(() => new Date()).describe("When the event was recorded"),
+    updated_at: dateSchema.default(() => new Date()).describe("When the event was recorded")
+});
+
+// Type definitions
+export type FieldChange = z.infer<typeof FieldChangeSchema>;
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+
+export interface AuditEventFilter {
+    entityType?: string;
+    entityId?: string;
+    actor?: string;
+    source?: AuditSource;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+}
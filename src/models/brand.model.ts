@@ -1,5 +1,32 @@
 import { z } from "zod";
-import { dateSchema } from "../utils/date.utils.js";
+import { dateSchema, optionalDateSchema } from "../utils/date.utils.js";
+import { isValidTimeZone } from "../utils/timezone.js";
+
+// Severity of a content rule violation; "off" disables the rule
+export const RuleSeveritySchema = z.enum(["error", "warning", "off"]);
+
+// Content Rules Schema - brand-specific settings of the content validation rules
+export const ContentRulesSchema = z.object({
+    requiredTerms: z.array(z.string()).optional().describe("Words and phrases every content item must contain"),
+    minVocabularyTerms: z.number().int().min(0).optional().describe("Minimum number of brand vocabulary terms each content item should use (default 1)"),
+    maxLength: z.record(z.string(), z.number().int().positive()).optional().describe("Maximum content length in characters per platform (e.g. {\"linkedin\": 1300}), overriding the platform defaults"),
+    hashtags: z.object({
+        max: z.number().int().min(0).optional().describe("Maximum number of hashtags"),
+        required: z.array(z.string()).optional().describe("Hashtags every content item must include"),
+        banned: z.array(z.string()).optional().describe("Hashtags that must not be used")
+    }).optional().describe("Hashtag rules"),
+    mentions: z.object({
+        max: z.number().int().min(0).optional().describe("Maximum number of @mentions"),
+        banned: z.array(z.string()).optional().describe("Accounts that must not be mentioned")
+    }).optional().describe("Mention rules"),
+    links: z.object({
+        allowed: z.boolean().optional().describe("Whether content may contain links (default true)"),
+        max: z.number().int().min(0).optional().describe("Maximum number of links"),
+        allowedDomains: z.array(z.string()).optional().describe("Only links to these domains (and their subdomains) are allowed"),
+        blockedDomains: z.array(z.string()).optional().describe("Links to these domains (and their subdomains) are not allowed")
+    }).optional().describe("Link policy"),
+    severities: z.record(z.string(), RuleSeveritySchema).optional().describe("Severity overrides per rule (avoided_terms, required_terms, vocabulary, length, hashtags, mentions, links, tone, channel)")
+});
 
 // Brand Guidelines Schema
 export const BrandGuidelinesSchema = z.object({
@@ -19,21 +46,63 @@ export const BrandGuidelinesSchema = z.object({
         audienceSegment: z.string().describe("Target audience segment for this message"),
         message: z.string().describe("Key message for this specific audience segment")
     })).optional().describe("Key messages tailored to specific audience segments"),
-    marketingPlan: z.string().optional().describe("Complete marketing plan for the brand")
+    marketingPlan: z.string().optional().describe("Complete marketing plan for the brand"),
+    contentRules: ContentRulesSchema.optional().describe("Rules content is validated against before it can be marked ready")
+});
+
+// Review Policy Schema - who must review content of the brand before it is ready
+export const ReviewPolicySchema = z.object({
+    requiredApprovals: z.number().int().min(0).optional().describe("Number of reviewer approvals content needs before it is ready (default 0, no review)"),
+    reviewers: z.array(z.string()).optional().describe("User IDs of the reviewers assigned to content by default"),
+    signOff: z.object({
+        reviewers: z.array(z.string()).min(1).describe("User IDs allowed to sign off content (e.g. the legal team)"),
+        platforms: z.array(z.string()).optional().describe("Content for these platforms requires sign-off"),
+        formats: z.array(z.string()).optional().describe("Content in these formats requires sign-off"),
+        keywords: z.array(z.string()).optional().describe("Content mentioning these keywords requires sign-off")
+    }).optional().describe("Sign-off required before content can be scheduled. Applies to all content when no platforms, formats or keywords are given")
+});
+
+// Time of day as HH:MM (24-hour)
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be given as HH:MM");
+
+// Scheduling Rules Schema - when content of the brand may be scheduled
+export const SchedulingRulesSchema = z.object({
+    timezone: z.string().refine(isValidTimeZone, "Unknown time zone").optional()
+        .describe("IANA time zone of the allowed hours and posting days (e.g. Europe/Lisbon, default UTC)"),
+    minGapMinutes: z.number().int().min(0).max(10080).optional().describe("Minimum number of minutes between two posts on the same platform (at most a week)"),
+    maxPostsPerDay: z.record(z.string(), z.number().int().positive()).optional()
+        .describe("Maximum posts per day per platform (e.g. {\"twitter\": 5}); \"*\" applies to platforms not listed"),
+    blackoutWindows: z.array(z.object({
+        start: dateSchema.describe("Start of the blackout"),
+        end: dateSchema.describe("End of the blackout"),
+        reason: z.string().optional().describe("Why nothing may be posted (e.g. product freeze, holiday)")
+    }).refine(
+        window => window.end > window.start,
+        { message: "A blackout window must end after it starts", path: ["end"] }
+    )).optional().describe("Periods during which nothing may be posted"),
+    allowedHours: z.object({
+        start: TimeOfDaySchema.describe("Time posts may be published from (HH:MM)"),
+        end: TimeOfDaySchema.describe("Time posts may be published until (HH:MM, exclusive); before start for windows past midnight"),
+        weekdays: z.array(z.number().int().min(0).max(6)).optional().describe("Days posts may be published on, 0 (Sunday) to 6 (Saturday); every day if omitted")
+    }).optional().describe("Hours of the day, in the brand's time zone, posts may be published in")
 });
 
 // Base Brand Schema
 export const BaseBrandSchema = z.object({
     name: z.string().min(1).describe("Name of the brand"),
     description: z.string().min(1).describe("Description of what the brand represents and its purpose"),
-    guidelines: BrandGuidelinesSchema.optional().describe("Comprehensive brand guidelines")
+    guidelines: BrandGuidelinesSchema.optional().describe("Comprehensive brand guidelines"),
+    reviewPolicy: ReviewPolicySchema.optional().describe("Content review and sign-off requirements"),
+    schedulingRules: SchedulingRulesSchema.optional().describe("Posting cadence rules enforced when content is scheduled")
 });
 
 // Full Brand Schema for database
 export const BrandSchema = BaseBrandSchema.extend({
     _id: z.string().optional().describe("Unique identifier for the brand in the database"),
     created_at: dateSchema.default(() => new Date()).describe("When the brand was created"),
-    updated_at: dateSchema.default(() => new Date()).describe("When the brand was last updated")
+    updated_at: dateSchema.default(() => new Date()).describe("When the brand was last updated"),
+    deletedAt: optionalDateSchema.describe("When the brand was soft deleted"),
+    deletedBy: z.string().optional().describe("User ID of who soft deleted the brand")
 });
 
 // Brand Creation Schema for tools
@@ -53,6 +122,10 @@ export const BrandUpdateSchema = BaseBrandUpdateSchema.refine(
 // Type definitions
 export type Brand = z.infer<typeof BrandSchema>;
 export type BrandGuidelines = z.infer<typeof BrandGuidelinesSchema>;
+export type ContentRules = z.infer<typeof ContentRulesSchema>;
+export type RuleSeverity = z.infer<typeof RuleSeveritySchema>;
+export type ReviewPolicy = z.infer<typeof ReviewPolicySchema>;
+export type SchedulingRules = z.infer<typeof SchedulingRulesSchema>;
 export type BrandCreationParams = z.infer<typeof BrandCreationSchema>;
 export type BrandUpdateParams = z.infer<typeof BrandUpdateSchema>;
 
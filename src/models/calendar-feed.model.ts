@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { dateSchema, optionalDateSchema } from "../utils/date.utils.js";
+
+// Stored iCalendar feed of a brand or campaign; only a hash of the feed's secret token is kept
+export const CalendarFeedSchema = z.object({
+    _id: z.string().optional().describe("Unique identifier for the feed in the database"),
+    name: z.string().min(1).describe("Name of the feed, shown as the calendar name"),
+    brandId: z.string().optional().describe("Brand whose calendar the feed shows"),
+    campaignId: z.string().optional().describe("Campaign whose calendar the feed shows"),
+    tokenHash: z.string().describe("SHA-256 hash of the feed token"),
+    tokenPrefix: z.string().describe("First characters of the token, to tell feeds apart"),
+    createdBy: z.string().optional().describe("ID of the user who created the feed"),
+    revokedAt: optionalDateSchema.describe("When the feed was revoked"),
+    lastAccessedAt: optionalDateSchema.describe("When a calendar client last fetched the feed"),
+    created_at: dateSchema.default(() => new Date()).describe("When the feed was created"),
+    updated_at: dateSchema.default(() => new Date()).describe("When the feed was last updated")
+});
+
+// Feed creation input
+export const CalendarFeedCreationSchema = z.object({
+    name: z.string().min(1).describe("Name of the feed, shown as the calendar name"),
+    brandId: z.string().optional().describe("Brand whose calendar the feed shows (either brandId or campaignId required)"),
+    campaignId: z.string().optional().describe("Campaign whose calendar the feed shows (either brandId or campaignId required)")
+}).refine(
+    data => !!data.brandId !== !!data.campaignId,
+    { message: "Either brandId or campaignId must be provided, but not both" }
+);
+
+// Type definitions
+export type CalendarFeed = z.infer<typeof CalendarFeedSchema>;
+export type CalendarFeedCreationParams = z.infer<typeof CalendarFeedCreationSchema>;
+
+// Feed as exposed by the API (hash removed)
+export type CalendarFeedSummary = Omit<CalendarFeed, "tokenHash">;
@@ -0,0 +1,47 @@
+// Kinds of entries shown on the content calendar
+export enum CalendarEntryType {
+    Content = "content",
+    TimelineEvent = "timeline_event",
+    Milestone = "milestone"
+}
+
+// Periods calendar entries are grouped by (UTC days and ISO weeks)
+export enum CalendarGrouping {
+    Day = "day",
+    Week = "week"
+}
+
+export interface CalendarEntry {
+    type: CalendarEntryType;
+    // Identifies the entry across versions, updates and reschedules
+    key: string;
+    // When the content is scheduled for (or was published), or the date of the event
+    date: Date;
+    title: string;
+    // Content state, or the status of the milestone or timeline event
+    status: string;
+    brandId?: string;
+    campaignId?: string;
+    // Master plan of timeline events, micro plan of content
+    planId?: string;
+    contentId?: string;
+    platform?: string;
+    // Type of a timeline event (e.g. launch, review)
+    eventType?: string;
+    // When the content, plan or campaign was last updated
+    updatedAt?: Date;
+}
+
+export interface CalendarPeriod {
+    start: Date;
+    end: Date;
+    entries: CalendarEntry[];
+}
+
+export interface ContentCalendar {
+    start: Date;
+    end: Date;
+    groupBy: CalendarGrouping;
+    entryCount: number;
+    periods: CalendarPeriod[];
+}
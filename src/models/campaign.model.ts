@@ -66,7 +66,9 @@ export const BaseCampaignSchema = z.object({
 export const CampaignSchema = BaseCampaignSchema.extend({
   _id: z.string().optional().describe("Unique identifier for the campaign in the database"),
   created_at: dateSchema.default(() => new Date()).describe("When the campaign was created"),
-  updated_at: dateSchema.default(() => new Date()).describe("When the campaign was last modified")
+  updated_at: dateSchema.default(() => new Date()).describe("When the campaign was last modified"),
+  deletedAt: optionalDateSchema.describe("When the campaign was soft deleted"),
+  deletedBy: z.string().optional().describe("User ID of who soft deleted the campaign")
 });
 
 // Tool input schema for creating campaigns
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { dateSchema } from "../utils/date.utils.js";
+
+// Engagement snapshot of a published content item
+export const ContentMetricsSnapshotSchema = z.object({
+    _id: z.string().optional().describe("Unique identifier for the snapshot in the database"),
+    contentId: z.string().describe("ID of the root content (shared by all content versions)"),
+    contentVersionId: z.string().describe("ID of the content version that was published"),
+    channel: z.string().describe("Channel the content was published to"),
+    postId: z.string().describe("ID of the post on the channel"),
+    capturedAt: dateSchema.describe("When the metrics were fetched"),
+    metrics: z.record(z.number()).describe("Engagement metrics reported by the channel (likes, shares, replies, views, ...)"),
+    engagement: z.number().min(0).describe("Total interactions: likes + shares + replies"),
+    created_at: dateSchema.default(() => new Date()).describe("When the snapshot was recorded"),
+    updated_at: dateSchema.default(() => new Date()).describe("When the snapshot was last updated")
+});
+
+// Type definitions
+export type ContentMetricsSnapshot = z.infer<typeof ContentMetricsSnapshotSchema>;
+
+export interface ContentMetricsHistory {
+    contentId: string;
+    latest: ContentMetricsSnapshot | null;
+    history: ContentMetricsSnapshot[];
+}
@@ -0,0 +1,31 @@
+import { ShareComparison } from "./report.model.js";
+
+// How the actual share of content compares with the plan
+export enum DriftStatus {
+    OnTarget = "on_target",
+    Under = "under",
+    Over = "over",
+    Unplanned = "unplanned"
+}
+
+export interface ShareDrift extends ShareComparison {
+    driftPercent: number;
+    status: DriftStatus;
+    // Content to create in this category/channel to reach the planned share
+    suggestedAdditional: number;
+    // Platform/format pairs planned for a content mix category
+    formats?: { name: string; format: string }[];
+    message: string;
+}
+
+export interface ContentMixCompliance {
+    campaignId: string;
+    name: string;
+    contentCount: number;
+    tolerancePercent: number;
+    compliant: boolean;
+    categories: ShareDrift[];
+    channels: ShareDrift[];
+    summary: string[];
+    generatedAt: Date;
+}
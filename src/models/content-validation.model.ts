@@ -0,0 +1,36 @@
+// Rules content is checked against by the validation engine
+export enum ValidationRule {
+    AvoidedTerms = "avoided_terms",
+    RequiredTerms = "required_terms",
+    Vocabulary = "vocabulary",
+    Length = "length",
+    Hashtags = "hashtags",
+    Mentions = "mentions",
+    Links = "links",
+    Tone = "tone",
+    Channel = "channel"
+}
+
+// Errors keep content from being marked ready; warnings are only reported
+export enum ValidationSeverity {
+    Error = "error",
+    Warning = "warning"
+}
+
+export interface ValidationIssue {
+    rule: ValidationRule;
+    severity: ValidationSeverity;
+    message: string;
+    matches?: string[];
+}
+
+export interface ContentValidationReport {
+    contentId?: string;
+    brandId?: string;
+    platform: string;
+    valid: boolean;
+    errorCount: number;
+    warningCount: number;
+    issues: ValidationIssue[];
+    validatedAt: Date;
+}
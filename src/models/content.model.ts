@@ -4,8 +4,27 @@ import { dateSchema, optionalDateSchema } from "../utils/date.utils.js";
 // Content states
 export enum ContentState {
     Draft = "draft",
+    InReview = "in_review",
     Ready = "ready",
-    Published = "published"
+    Published = "published",
+    Failed = "failed"
+}
+
+// Valid state transitions. Ready -> Failed is only performed by the scheduler.
+export const CONTENT_STATE_TRANSITIONS: Record<ContentState, ContentState[]> = {
+    [ContentState.Draft]: [ContentState.Ready, ContentState.InReview],
+    [ContentState.InReview]: [ContentState.Draft, ContentState.Ready],
+    [ContentState.Ready]: [ContentState.Draft, ContentState.Published],
+    [ContentState.Published]: [], // Terminal state
+    [ContentState.Failed]: [ContentState.Ready, ContentState.Draft]
+};
+
+// Scheduler lease on a content document. Written and cleared only by the scheduler's
+// atomic claim operations, so it is not part of the validated content schema.
+export interface ContentLease {
+    owner: string;
+    acquiredAt: Date;
+    expiresAt: Date;
 }
 
 // Base Content Schema
@@ -15,9 +34,10 @@ export const BaseContentSchema = z.object({
     title: z.string().min(1).describe("Title of the content piece - should be clear and engaging"),
     content: z.string().min(1).describe("The actual content text or body"),
     state: z.nativeEnum(ContentState).default(ContentState.Draft)
-        .describe("Current state of the content: draft, ready for publishing, or published"),
+        .describe("Current state of the content: draft, in review, ready for publishing, published, or failed (publishing retries exhausted)"),
     format: z.string().optional().describe("Format of the content (e.g., Article, Tweet, Video script)"),
     platform: z.string().optional().describe("Platform where this content will be published (e.g., Twitter, Medium)"),
+    category: z.string().optional().describe("Content mix category of the campaign this content counts towards (e.g., Educational, Promotional)"),
     mediaRequirements: z.object({
         type: z.string().describe("Type of media required (e.g., Image, Video, Infographic)"),
         description: z.string().describe("Description of the media requirements")
@@ -34,10 +54,28 @@ export const BaseContentSchema = z.object({
         comments: z.string().optional().describe("Additional notes about the most recent update"),
         scheduledFor: optionalDateSchema.describe("When the content is scheduled to be published (if applicable)"),
         publishedAt: optionalDateSchema.describe("When the content was actually published (if applicable)"),
-        publishedUrl: z.string().optional().describe("URL where the content was published (if applicable)")
+        publishedUrl: z.string().optional().describe("URL where the content was published (if applicable)"),
+        failedAttempts: z.number().int().min(0).optional().describe("Number of consecutive failed scheduled publish attempts"),
+        nextAttemptAt: optionalDateSchema.describe("When the scheduler will retry publishing after a failure"),
+        lastPublishError: z.string().optional().describe("Error of the last failed publish attempt"),
+        failedAt: optionalDateSchema.describe("When the content was moved to the failed state"),
+        validationWarnings: z.array(z.object({
+            rule: z.string().describe("Rule that produced the warning"),
+            message: z.string().describe("Description of the warning")
+        })).optional().describe("Brand guideline warnings found when the content was last marked ready"),
+        validatedAt: optionalDateSchema.describe("When the content was last validated against the brand guidelines")
     }).default(() => ({
         updatedBy: "system"
     })).describe("Metadata about content state and publishing"),
+    review: z.object({
+        round: z.number().int().min(1).describe("Review round, increased each time the content is submitted"),
+        submittedBy: z.string().describe("User ID of who submitted the content for review"),
+        submittedAt: dateSchema.describe("When the content was submitted for review"),
+        reviewers: z.array(z.string()).describe("User IDs of the assigned reviewers (anyone but the submitter may review if empty)"),
+        requiredApprovals: z.number().int().min(0).describe("Number of approvals needed before the content is ready"),
+        signOffRequired: z.boolean().describe("Whether one of the sign-off reviewers must approve the content"),
+        signOffReviewers: z.array(z.string()).describe("User IDs allowed to sign off the content (e.g. the legal team)")
+    }).optional().describe("Review requirements of the current (or last) review round"),
     // Versioning fields
     version: z.number().int().min(1).default(1).describe("Version number of this content"),
     isActive: z.boolean().default(true).describe("Whether this is the active version of the content"),
@@ -49,7 +87,9 @@ export const BaseContentSchema = z.object({
 export const ContentSchema = BaseContentSchema.extend({
     _id: z.string().optional().describe("Unique identifier for the content in the database"),
     created_at: z.coerce.date().default(() => new Date()).describe("When the content was created"),
-    updated_at: z.coerce.date().default(() => new Date()).describe("When the content was last modified")
+    updated_at: z.coerce.date().default(() => new Date()).describe("When the content was last modified"),
+    deletedAt: optionalDateSchema.describe("When the content was soft deleted"),
+    deletedBy: z.string().optional().describe("User ID of who soft deleted the content")
 });
 
 // Content Creation Schema for tools
@@ -57,6 +97,7 @@ export const ContentCreationSchema = BaseContentSchema.omit({
     publishedMetadata: true,
     stateMetadata: true,
     state: true,
+    review: true,
     // Omit versioning fields for creation
     version: true,
     isActive: true,
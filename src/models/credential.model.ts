@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { dateSchema, optionalDateSchema } from "../utils/date.utils.js";
+
+// Channels that support stored account credentials
+export enum CredentialChannel {
+    Twitter = "twitter"
+}
+
+// Connection status of a stored account
+export enum CredentialStatus {
+    Connected = "connected",
+    Unverified = "unverified",
+    Error = "error"
+}
+
+// Twitter session cookie
+export const TwitterCookieSchema = z.object({
+    key: z.string().min(1).describe("Cookie name (e.g., auth_token, ct0)"),
+    value: z.string().describe("Cookie value"),
+    domain: z.string().optional().describe("Cookie domain (defaults to .twitter.com)"),
+    path: z.string().optional().describe("Cookie path"),
+    secure: z.boolean().optional().describe("Whether the cookie is secure"),
+    httpOnly: z.boolean().optional().describe("Whether the cookie is HTTP only"),
+    sameSite: z.string().optional().describe("SameSite attribute of the cookie")
+});
+
+// Twitter secrets, only ever stored encrypted
+export const TwitterSecretsSchema = z.object({
+    password: z.string().optional().describe("Account password"),
+    email: z.string().optional().describe("Account email, used by Twitter login challenges"),
+    twoFactorSecret: z.string().optional().describe("TOTP secret for two-factor authentication"),
+    cookies: z.array(TwitterCookieSchema).optional().describe("Session cookies")
+});
+
+// Twitter account connection input
+export const TwitterConnectSchema = TwitterSecretsSchema.extend({
+    username: z.string().min(1).max(15).describe("Twitter username (without @)")
+}).refine(
+    data => data.password || (data.cookies && data.cookies.length > 0),
+    { message: "Either password or cookies must be provided" }
+);
+
+// Stored channel credentials
+export const ChannelCredentialSchema = z.object({
+    _id: z.string().optional().describe("Unique identifier for the credentials in the database"),
+    brandId: z.string().describe("ID of the brand that owns the account"),
+    channel: z.nativeEnum(CredentialChannel).describe("Channel the account belongs to"),
+    username: z.string().describe("Account username"),
+    encryptedSecrets: z.string().describe("Encrypted account secrets"),
+    // Which secrets are stored, recorded with them so listing accounts needn't decrypt them
+    hasPassword: z.boolean().default(false).describe("Whether a password is stored"),
+    hasCookies: z.boolean().default(false).describe("Whether session cookies are stored"),
+    hasTwoFactorSecret: z.boolean().default(false).describe("Whether a two-factor secret is stored"),
+    status: z.nativeEnum(CredentialStatus).default(CredentialStatus.Unverified).describe("Connection status of the account"),
+    lastVerifiedAt: optionalDateSchema.describe("When the account was last verified successfully"),
+    lastError: z.string().optional().describe("Last login or verification error"),
+    created_at: dateSchema.default(() => new Date()).describe("When the account was connected"),
+    updated_at: dateSchema.default(() => new Date()).describe("When the credentials were last updated")
+});
+
+// Type definitions
+export type TwitterCookie = z.infer<typeof TwitterCookieSchema>;
+export type TwitterSecrets = z.infer<typeof TwitterSecretsSchema>;
+export type TwitterConnectParams = z.infer<typeof TwitterConnectSchema>;
+export type ChannelCredential = z.infer<typeof ChannelCredentialSchema>;
+
+// Credentials as exposed by the API and tools (secrets removed)
+export type ChannelCredentialSummary = Omit<ChannelCredential, "encryptedSecrets">;
+
+// Decrypted Twitter credentials used to open a session
+export type TwitterCredentials = TwitterSecrets & {
+    username: string;
+};
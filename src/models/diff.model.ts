@@ -0,0 +1,43 @@
+// Entities that keep a history of versions
+export enum VersionedEntity {
+    Campaign = "campaign",
+    Plan = "plan",
+    Content = "content"
+}
+
+export enum DiffChangeType {
+    Added = "added",
+    Removed = "removed",
+    Changed = "changed"
+}
+
+// Run of words that is in both texts, or only in the old or the new one
+export interface TextDiffSegment {
+    type: "equal" | "added" | "removed";
+    text: string;
+}
+
+export interface FieldDiff {
+    // Dot-separated path; array items are identified by their key, e.g. goals[Awareness].target, or by index
+    path: string;
+    type: DiffChangeType;
+    from?: unknown;
+    to?: unknown;
+    // Word-level diff of changed text fields, e.g. the body of content
+    textDiff?: TextDiffSegment[];
+}
+
+export interface VersionRef {
+    id: string;
+    version: number;
+}
+
+export interface VersionDiff {
+    entityType: VersionedEntity;
+    // ID of the root version, shared by all versions
+    entityId: string;
+    from: VersionRef;
+    to: VersionRef;
+    summary: Record<DiffChangeType, number>;
+    changes: FieldDiff[];
+}
@@ -0,0 +1,97 @@
+// How a delete treats the documents that belong to the deleted entity
+export enum DeleteMode {
+    Block = "block",     // Refuse to delete while dependents exist, otherwise delete permanently
+    Cascade = "cascade", // Permanently delete the dependents too
+    Soft = "soft"        // Move the entity and its dependents to the trash, from where they can be restored
+}
+
+// Entities that own other entities: brand -> campaigns -> master plans -> micro plans -> content
+export enum DeletableEntity {
+    Brand = "brand",
+    Campaign = "campaign",
+    Plan = "plan",
+    Content = "content"
+}
+
+export interface DependentCounts {
+    campaigns: number;
+    plans: number;
+    content: number;
+}
+
+export interface DeletionPreview {
+    entityType: DeletableEntity;
+    entityId: string;
+    name: string;
+    // Documents of the entity itself, one per version
+    versions: number;
+    dependents: DependentCounts;
+}
+
+export interface DeletionResult {
+    entityType: DeletableEntity;
+    entityId: string;
+    name: string;
+    mode: DeleteMode;
+    deleted: DeletedCounts;
+}
+
+// Documents removed by a delete or purge, counting every version
+export interface DeletedCounts {
+    brands: number;
+    campaigns: number;
+    plans: number;
+    content: number;
+    mediaAssets: number;
+    credentials: number;
+    // History of the deleted content
+    metricSnapshots: number;
+    publishAttempts: number;
+    reviewDecisions: number;
+}
+
+// Soft-deleted entity, listed once however many versions it has
+export interface TrashItem {
+    entityType: DeletableEntity;
+    entityId: string;
+    name: string;
+    deletedAt: Date;
+    deletedBy?: string;
+    // When the entity will be permanently deleted
+    purgeAt: Date;
+}
+
+export interface RestoreResult {
+    entityType: DeletableEntity;
+    entityId: string;
+    name: string;
+    // Documents restored, including those deleted together with the entity
+    restored: {
+        brands: number;
+        campaigns: number;
+        plans: number;
+        content: number;
+    };
+}
+
+export interface PurgeResult {
+    purgedBefore: Date;
+    purged: DeletedCounts;
+}
+
+// Document referencing a parent that doesn't exist, or a live document whose parent was soft deleted
+export interface OrphanedReference {
+    collection: string;
+    entityId: string;
+    name?: string;
+    field: string;
+    referencedId: string;
+    problem: "missing" | "deleted";
+}
+
+export interface ConsistencyReport {
+    consistent: boolean;
+    orphanCount: number;
+    orphans: OrphanedReference[];
+    checkedAt: Date;
+}
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { dateSchema } from "../utils/date.utils.js";
+
+// Kinds of media that can be attached to content
+export enum MediaKind {
+    Image = "image",
+    Gif = "gif",
+    Video = "video"
+}
+
+// Supported MIME types and the kind of media they hold
+export const SUPPORTED_MEDIA_TYPES: Record<string, MediaKind> = {
+    "image/jpeg": MediaKind.Image,
+    "image/png": MediaKind.Image,
+    "image/webp": MediaKind.Image,
+    "image/gif": MediaKind.Gif,
+    "video/mp4": MediaKind.Video,
+    "video/quicktime": MediaKind.Video
+};
+
+// Stored media asset
+export const MediaAssetSchema = z.object({
+    _id: z.string().optional().describe("Unique identifier for the media asset in the database"),
+    contentId: z.string().describe("ID of the root content the asset belongs to (shared by all content versions)"),
+    fileName: z.string().min(1).describe("Original file name"),
+    mimeType: z.string().describe("MIME type of the file"),
+    kind: z.nativeEnum(MediaKind).describe("Kind of media (image, gif, video)"),
+    size: z.number().int().min(0).describe("File size in bytes"),
+    storageKey: z.string().describe("Location of the file in the media store"),
+    description: z.string().optional().describe("Description of the media"),
+    altText: z.string().optional().describe("Alternative text for accessibility"),
+    sourceUrl: z.string().optional().describe("URL the file was downloaded from (if any)"),
+    uploadedBy: z.string().optional().describe("User ID of who uploaded the asset"),
+    created_at: dateSchema.default(() => new Date()).describe("When the asset was uploaded"),
+    updated_at: dateSchema.default(() => new Date()).describe("When the asset was last updated")
+});
+
+// Media upload input (file data as base64, or a URL to download)
+export const MediaUploadSchema = z.object({
+    fileName: z.string().min(1).optional().describe("File name (derived from the URL when omitted)"),
+    mimeType: z.string().optional().describe("MIME type of the file (e.g., image/png). Required with base64 data"),
+    data: z.string().optional().describe("Base64-encoded file data"),
+    url: z.string().url().optional().describe("URL to download the file from"),
+    description: z.string().optional().describe("Description of the media"),
+    altText: z.string().optional().describe("Alternative text for accessibility"),
+    userId: z.string().optional().describe("User ID of who uploads the asset")
+}).refine(
+    data => data.data || data.url,
+    { message: "Either data or url must be provided" }
+);
+
+// Type definitions
+export type MediaAsset = z.infer<typeof MediaAssetSchema>;
+export type MediaUploadParams = z.infer<typeof MediaUploadSchema>;
+
+// Whether the media requirement of a content item is fulfilled
+export interface MediaRequirementStatus {
+    required: boolean;
+    requirement?: {
+        type: string;
+        description: string;
+    };
+    acceptedKinds: MediaKind[];
+    fulfilled: boolean;
+    assets: MediaAsset[];
+}
@@ -0,0 +1,66 @@
+// Content measurements that KPI metric names can be mapped to
+export enum MeasuredField {
+    Posts = "posts",
+    Likes = "likes",
+    Shares = "shares",
+    Replies = "replies",
+    Views = "views",
+    Engagement = "engagement",
+    EngagementRate = "engagementRate"
+}
+
+// How a KPI is tracking against its target over the plan or campaign date range
+export enum PaceStatus {
+    Achieved = "achieved",
+    Ahead = "ahead",
+    OnTrack = "on_track",
+    Behind = "behind",
+    Missed = "missed",
+    NotStarted = "not_started",
+    Unmeasured = "unmeasured"
+}
+
+// Measurements aggregated over a set of content
+export type MeasuredTotals = Record<MeasuredField, number>;
+
+// Progress of a single KPI
+export interface KpiProgress {
+    metric: string;
+    field: MeasuredField | null;
+    target: number;
+    actual: number | null;
+    percentOfTarget: number | null;
+    expectedPercent: number;
+    projected: number | null;
+    pace: PaceStatus;
+    goal?: string;
+}
+
+interface DateRangePerformance {
+    start: Date;
+    end: Date;
+    elapsedPercent: number;
+    contentCount: number;
+    totals: MeasuredTotals;
+}
+
+export interface MicroPlanPerformance extends DateRangePerformance {
+    planId: string;
+    title: string;
+    metrics: KpiProgress[];
+}
+
+export interface MasterPlanPerformance extends DateRangePerformance {
+    planId: string;
+    title: string;
+    metrics: KpiProgress[];
+    microPlans: MicroPlanPerformance[];
+}
+
+export interface CampaignPerformance extends DateRangePerformance {
+    campaignId: string;
+    name: string;
+    kpis: KpiProgress[];
+    masterPlans: MasterPlanPerformance[];
+    generatedAt: Date;
+}
@@ -33,8 +33,14 @@ export const BasePlanSchema = z.object({
     comments: z.string().optional().describe("Additional notes about the most recent update")
   }).describe("Metadata about plan state changes"),
   isActive: z.boolean().default(true).describe("Whether this plan is currently active"),
+  // Versioning fields. The version number is stateMetadata.version; isActive is taken by the plan in effect
+  isActiveVersion: z.boolean().default(true).describe("Whether this is the active version of the plan"),
+  previousVersionId: z.string().optional().describe("ID of the previous version of this plan"),
+  rootPlanId: z.string().optional().describe("ID of the original root plan this version is derived from"),
   created_at: dateSchema.default(() => new Date()).describe("When the plan was created"),
-  updated_at: dateSchema.default(() => new Date()).describe("When the plan was last modified")
+  updated_at: dateSchema.default(() => new Date()).describe("When the plan was last modified"),
+  deletedAt: optionalDateSchema.describe("When the plan was soft deleted"),
+  deletedBy: z.string().optional().describe("User ID of who soft deleted the plan")
 });
 
 // Master Plan schema
@@ -97,7 +103,12 @@ export const MasterPlanCreationSchema = MasterPlanSchema.omit({
   updated_at: true,
   state: true,
   stateMetadata: true,
-  isActive: true
+  isActive: true,
+  isActiveVersion: true,
+  previousVersionId: true,
+  rootPlanId: true,
+  deletedAt: true,
+  deletedBy: true
 }).extend({
   campaignId: z.string().optional().describe("ID of the campaign this master plan belongs to"),
   campaignName: z.string().optional().describe("Name of the campaign this master plan belongs to"),
@@ -117,7 +128,8 @@ export const MasterPlanUpdateSchema = MasterPlanCreationSchema.partial().extend(
   plan_name: z.string().optional().describe("Name of the plan to update"),
   state: z.nativeEnum(PlanState).optional().default(PlanState.Draft)
     .describe("Current state of the plan: draft, review, approved, or active"),
-  isActive: z.boolean().optional().default(false).describe("Whether this plan is currently active")
+  isActive: z.boolean().optional().default(false).describe("Whether this plan is currently active"),
+  create_new_version: z.boolean().optional().default(false).describe("Whether to create a new version when updating")
 });
 
 // Master Plan update schema parser for tools
@@ -136,7 +148,12 @@ export const MicroPlanCreationSchema = MicroPlanSchema.omit({
   updated_at: true,
   state: true,
   stateMetadata: true,
-  isActive: true
+  isActive: true,
+  isActiveVersion: true,
+  previousVersionId: true,
+  rootPlanId: true,
+  deletedAt: true,
+  deletedBy: true
 }).extend({
   masterPlanId: z.string().optional().describe("ID of the master plan this micro plan belongs to"),
   masterPlanName: z.string().optional().describe("Name of the master plan this micro plan belongs to"),
@@ -156,7 +173,8 @@ export const MicroPlanUpdateSchema = MicroPlanCreationSchema.partial().extend({
   plan_name: z.string().optional().describe("Name of the plan to update"),
   state: z.nativeEnum(PlanState).optional().default(PlanState.Draft)
     .describe("Current state of the plan: draft, review, approved, or active"),
-  isActive: z.boolean().optional().default(false).describe("Whether this plan is currently active")
+  isActive: z.boolean().optional().default(false).describe("Whether this plan is currently active"),
+  create_new_version: z.boolean().optional().default(false).describe("Whether to create a new version when updating")
 });
 
 // Micro Plan update schema parser for tools
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { dateSchema } from "../utils/date.utils.js";
+
+// Outcome of a publish attempt
+export enum PublishAttemptStatus {
+    Success = "success",
+    Failure = "failure"
+}
+
+// What started a publish attempt
+export enum PublishTrigger {
+    Scheduler = "scheduler",
+    Manual = "manual"
+}
+
+// Publish attempt record
+export const PublishAttemptSchema = z.object({
+    _id: z.string().optional().describe("Unique identifier for the attempt in the database"),
+    contentId: z.string().describe("ID of the content version that was published"),
+    rootContentId: z.string().describe("ID of the root content (shared by all content versions)"),
+    channel: z.string().describe("Channel the content was published to"),
+    status: z.nativeEnum(PublishAttemptStatus).describe("Outcome of the attempt"),
+    trigger: z.nativeEnum(PublishTrigger).describe("What started the attempt"),
+    attemptNumber: z.number().int().min(1).describe("Attempt number since the content was last (re)queued"),
+    userId: z.string().describe("User ID of who started the attempt"),
+    attemptedAt: dateSchema.describe("When the attempt started"),
+    durationMs: z.number().int().min(0).describe("How long the attempt took"),
+    error: z.object({
+        message: z.string().describe("Error message"),
+        code: z.string().optional().describe("Error code"),
+        retryable: z.boolean().describe("Whether the scheduler retries after this error")
+    }).optional().describe("Error of a failed attempt"),
+    response: z.record(z.any()).optional().describe("Channel response (post ID, URL, platform data)"),
+    created_at: dateSchema.default(() => new Date()).describe("When the attempt was recorded"),
+    updated_at: dateSchema.default(() => new Date()).describe("When the attempt was last updated")
+});
+
+// Type definitions
+export type PublishAttempt = z.infer<typeof PublishAttemptSchema>;
@@ -0,0 +1,65 @@
+import { ContentState } from "./content.model.js";
+
+// Time buckets for publish cadence
+export enum CadenceInterval {
+    Day = "day",
+    Week = "week",
+    Month = "month"
+}
+
+export interface CadenceBucket {
+    periodStart: Date;
+    published: number;
+    scheduled: number;
+}
+
+export interface MilestoneSummary {
+    total: number;
+    completed: number;
+    overdue: number;
+    completionPercent: number;
+    milestones: {
+        source: "campaign" | "master_plan";
+        planId?: string;
+        date?: Date;
+        description: string;
+        status: string;
+        overdue: boolean;
+    }[];
+}
+
+// Planned vs actual share of content, in percent
+export interface ShareComparison {
+    name: string;
+    count: number;
+    actualPercent: number;
+    plannedPercent: number | null;
+}
+
+export interface TopContent {
+    contentId: string;
+    title: string;
+    platform?: string;
+    publishedUrl?: string;
+    publishedAt?: Date;
+    engagement: number;
+    metrics: Record<string, number>;
+}
+
+export interface CampaignReport {
+    campaignId: string;
+    name: string;
+    start: Date;
+    end: Date;
+    contentCount: number;
+    contentByState: Record<ContentState, number>;
+    cadence: {
+        interval: CadenceInterval;
+        buckets: CadenceBucket[];
+    };
+    milestones: MilestoneSummary;
+    contentMix: ShareComparison[];
+    channelDistribution: ShareComparison[];
+    topContent: TopContent[];
+    generatedAt: Date;
+}
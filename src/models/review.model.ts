@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { dateSchema } from "../utils/date.utils.js";
+import { ContentState } from "./content.model.js";
+
+// Step of the content review workflow
+export enum ReviewAction {
+    Submitted = "submitted",
+    Approved = "approved",
+    Rejected = "rejected"
+}
+
+// Capacity a reviewer acted in
+export enum ReviewerRole {
+    Reviewer = "reviewer",
+    SignOff = "sign_off"
+}
+
+// Review decision record, kept as the audit trail of the workflow
+export const ReviewDecisionSchema = z.object({
+    _id: z.string().optional().describe("Unique identifier for the decision in the database"),
+    contentId: z.string().describe("ID of the content version that was reviewed"),
+    rootContentId: z.string().describe("ID of the root content (shared by all content versions)"),
+    round: z.number().int().min(1).describe("Review round the decision belongs to"),
+    action: z.nativeEnum(ReviewAction).describe("Submission, approval or rejection"),
+    userId: z.string().describe("User ID of who submitted or reviewed the content"),
+    role: z.nativeEnum(ReviewerRole).optional().describe("Capacity the reviewer acted in"),
+    comments: z.string().optional().describe("Comments of the submitter or reviewer"),
+    reason: z.string().optional().describe("Reason the content was rejected"),
+    decidedAt: dateSchema.describe("When the decision was made"),
+    created_at: dateSchema.default(() => new Date()).describe("When the decision was recorded"),
+    updated_at: dateSchema.default(() => new Date()).describe("When the decision was last updated")
+});
+
+// Type definitions
+export type ReviewDecision = z.infer<typeof ReviewDecisionSchema>;
+
+export interface ContentReviewStatus {
+    contentId: string;
+    state: ContentState;
+    round: number;
+    reviewRequired: boolean;
+    requiredApprovals: number;
+    reviewers: string[];
+    approvedBy: string[];
+    pendingReviewers: string[];
+    signOffRequired: boolean;
+    signOffReviewers: string[];
+    signedOffBy: string[];
+    complete: boolean;
+    missing: string[];
+    decisions: ReviewDecision[];
+}
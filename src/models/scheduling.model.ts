@@ -0,0 +1,47 @@
+import { ContentState } from "./content.model.js";
+
+// Brand scheduling rules a post can break
+export enum SchedulingRule {
+    MinGap = "min_gap",
+    MaxPostsPerDay = "max_posts_per_day",
+    Blackout = "blackout",
+    AllowedHours = "allowed_hours"
+}
+
+export interface SchedulingViolation {
+    rule: SchedulingRule;
+    message: string;
+    // Posts the slot is too close to, or that fill the day
+    conflictingContentIds?: string[];
+}
+
+// Post of a brand taken into account by its scheduling rules
+export interface ScheduledPost {
+    contentId: string;
+    title: string;
+    platform: string;
+    // Scheduled (ready) or published
+    state: ContentState;
+    // When the post is scheduled for or was published
+    date: Date;
+}
+
+export interface ScheduleConflict {
+    contentId: string;
+    title: string;
+    platform: string;
+    scheduledFor: Date;
+    violations: SchedulingViolation[];
+    // Next slot that meets the rules, if one was found
+    suggestedSlot?: Date;
+}
+
+export interface ScheduleConflictReport {
+    brandId: string;
+    timezone: string;
+    from: Date;
+    to: Date;
+    postCount: number;
+    conflicts: ScheduleConflict[];
+    checkedAt: Date;
+}
@@ -0,0 +1,25 @@
+import { BaseRepository } from "./base.repository.js";
+import { ApiKey, ApiKeySchema } from "../models/api-key.model.js";
+
+export class ApiKeyRepository extends BaseRepository<ApiKey> {
+    constructor() {
+        super("api_keys", ApiKeySchema);
+    }
+
+    protected auditRedactedFields = ["keyHash"];
+
+    /**
+     * Find an API key by the hash of the key
+     */
+    async findByKeyHash(keyHash: string): Promise<ApiKey | null> {
+        return this.findOne({ keyHash });
+    }
+
+    /**
+     * Record that a key was used. Not audited: it's bookkeeping, not a change.
+     */
+    async touch(id: string, usedAt: Date = new Date()): Promise<void> {
+        await this.initCollection();
+        await this.collection.updateOne({ _id: this.toObjectId(id) }, { $set: { lastUsedAt: usedAt } });
+    }
+}
@@ -0,0 +1,51 @@
+import { AUDIT_EVENTS_COLLECTION, BaseRepository } from "./base.repository.js";
+import { AuditEvent, AuditEventFilter, AuditEventSchema } from "../models/audit-event.model.js";
+
+/**
+ * Read access to the audit log. Events are written by BaseRepository and are
+ * never changed or removed.
+ */
+export class AuditEventRepository extends BaseRepository<AuditEvent> {
+    constructor() {
+        super(AUDIT_EVENTS_COLLECTION, AuditEventSchema);
+    }
+
+    protected audited = false;
+
+    /**
+     * Find audit events matching a filter, newest first
+     */
+    async findEvents(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+        await this.initCollection();
+        const query: Record<string, any> = {};
+        if (filter.entityType) query.entityType = filter.entityType;
+        if (filter.entityId) query.entityId = filter.entityId;
+        if (filter.actor) query.actor = filter.actor;
+        if (filter.source) query.source = filter.source;
+        if (filter.from || filter.to) {
+            query.timestamp = {
+                ...(filter.from && { $gte: filter.from }),
+                ...(filter.to && { $lte: filter.to })
+            };
+        }
+
+        const results = await this.collection
+            .find(query)
+            .sort({ timestamp: -1 })
+            .limit(filter.limit ?? 100)
+            .toArray();
+
+        return results.map(result => this.validate({
+            ...result,
+            _id: this.fromObjectId(result._id)
+        }));
+    }
+
+    async update(): Promise<AuditEvent | null> {
+        throw new Error("Audit events are append-only");
+    }
+
+    async delete(): Promise<boolean> {
+        throw new Error("Audit events are append-only");
+    }
+}
@@ -4,6 +4,29 @@ import { z } from "zod";
 import { deepMerge } from "../utils/merge.js";
 import { toDate, normalizeDocumentDates, provideDefaultsForMissingFields } from "../utils/date.utils.js";
 import { stripNullValues } from "../utils/nulls.js";
+import { diffDocuments } from "../utils/diff.js";
+import { getAuditContext } from "../utils/audit-context.js";
+import { emitEntityChange } from "../utils/entity-events.js";
+import { AuditAction, FieldChange } from "../models/audit-event.model.js";
+
+export const AUDIT_EVENTS_COLLECTION = "audit_events";
+
+// Bookkeeping fields left out of audit diffs
+const AUDIT_IGNORED_FIELDS = ["_id", "created_at", "updated_at"];
+const REDACTED = "[redacted]";
+
+// Fields set on documents in the trash
+interface SoftDeleteFields {
+    deletedAt?: Date | null;
+    deletedBy?: string;
+}
+
+/**
+ * Whether a document is soft deleted
+ */
+function isSoftDeleted(document: SoftDeleteFields): boolean {
+    return !!document.deletedAt;
+}
 
 /**
  * Base repository for MongoDB collections
@@ -13,6 +36,23 @@ export abstract class BaseRepository<T extends Document> {
     protected schema: z.ZodType<T, z.ZodTypeDef, any>;
     private collectionName: string;
 
+    /**
+     * Whether mutations are written to the audit log. Collections that are an
+     * append-only history themselves turn it off.
+     */
+    protected audited: boolean = true;
+
+    /**
+     * Fields whose values are replaced with a placeholder in audit events
+     */
+    protected auditRedactedFields: string[] = [];
+
+    /**
+     * Whether documents can be soft deleted. Find methods leave out soft-deleted
+     * documents unless the query filters on deletedAt itself.
+     */
+    protected softDeletable: boolean = false;
+
     constructor(collectionName: string, schema: z.ZodType<T, z.ZodTypeDef, any>) {
         this.collectionName = collectionName;
         this.schema = schema;
@@ -28,6 +68,66 @@ export abstract class BaseRepository<T extends Document> {
         }
     }
 
+    /**
+     * Append an audit event for a mutation, attributed to the current audit context,
+     * and tell change listeners about it. Updates that change nothing are not recorded.
+     * @param before the document before the change (null for creates)
+     * @param after the document after the change (null for deletes)
+     */
+    protected async recordAudit(action: AuditAction, entityId: string, before: any, after: any): Promise<void> {
+        emitEntityChange({ action, entityType: this.collectionName, entityId });
+        if (!this.audited) return;
+
+        try {
+            const changes = diffDocuments(before ?? {}, after ?? {}, { ignore: AUDIT_IGNORED_FIELDS })
+                .map(({ path, from, to }) => this.redact({
+                    field: path,
+                    ...(from !== undefined && { from }),
+                    ...(to !== undefined && { to })
+                }));
+            if (action === AuditAction.Update && changes.length === 0) return;
+
+            const context = getAuditContext();
+            const now = new Date();
+            await getDatabase().collection(AUDIT_EVENTS_COLLECTION).insertOne({
+                action,
+                entityType: this.collectionName,
+                entityId,
+                actor: context.actor,
+                source: context.source,
+                ...(context.tool && { tool: context.tool }),
+                ...(context.request && { request: context.request }),
+                changes,
+                timestamp: now,
+                created_at: now,
+                updated_at: now
+            });
+        } catch (error) {
+            // A failed audit write must not fail the change it records
+            console.error(`Failed to record audit event for ${this.collectionName} ${entityId}:`, error);
+        }
+    }
+
+    private redact(change: FieldChange): FieldChange {
+        const redacted = this.auditRedactedFields.some(field =>
+            change.field === field || change.field.startsWith(`${field}.`) || change.field.startsWith(`${field}[`));
+        if (!redacted) return change;
+
+        return {
+            field: change.field,
+            ...(change.from !== undefined && { from: REDACTED }),
+            ...(change.to !== undefined && { to: REDACTED })
+        };
+    }
+
+    /**
+     * Leave soft-deleted documents out of a query
+     */
+    protected excludeDeleted(query: any = {}): any {
+        if (!this.softDeletable || "deletedAt" in query) return query;
+        return { ...query, deletedAt: null };
+    }
+
     /**
      * Convert string ID to ObjectId
      */
@@ -221,7 +321,7 @@ export abstract class BaseRepository<T extends Document> {
      */
     async find(query: any = {}): Promise<T[]> {
         await this.initCollection();
-        const results = await this.collection.find(query).toArray();
+        const results = await this.collection.find(this.excludeDeleted(query)).toArray();
         return results.map(result => {
             const document = {
                 ...result,
@@ -238,7 +338,7 @@ export abstract class BaseRepository<T extends Document> {
      */
     async findOne(query: any = {}): Promise<T | null> {
         await this.initCollection();
-        const result = await this.collection.findOne(query);
+        const result = await this.collection.findOne(this.excludeDeleted(query));
         if (!result) return null;
 
         const document = {
@@ -250,10 +350,12 @@ export abstract class BaseRepository<T extends Document> {
 
     /**
      * Find document by ID
+     * @param includeDeleted also find the document when it is soft deleted
      */
-    async findById(id: string): Promise<T | null> {
+    async findById(id: string, includeDeleted: boolean = false): Promise<T | null> {
         await this.initCollection();
-        const result = await this.collection.findOne({ _id: this.toObjectId(id) });
+        const query = { _id: this.toObjectId(id) };
+        const result = await this.collection.findOne(includeDeleted ? query : this.excludeDeleted(query));
 
         if (!result) return null;
 
@@ -282,10 +384,12 @@ export abstract class BaseRepository<T extends Document> {
         // const cleanedData = stripNullValues(validatedData) as any;
 
         const result = await this.collection.insertOne(validatedData);
+        const id = this.fromObjectId(result.insertedId);
+        await this.recordAudit(AuditAction.Create, id, null, validatedData);
 
         return {
             ...validatedData,
-            _id: this.fromObjectId(result.insertedId)
+            _id: id
         } as T;
     }
 
@@ -314,16 +418,67 @@ export abstract class BaseRepository<T extends Document> {
             { _id: this.toObjectId(id) },
             { $set: updateData }
         );
+        await this.recordAudit(AuditAction.Update, id, existingDoc, updatedDoc);
 
         return updatedDoc;
     }
 
+    /**
+     * Set fields on every document matching a query, soft-deleted ones included, one by one
+     * so each change is audited and announced like an update()
+     */
+    protected async updateEach(query: any, fields: Record<string, any>): Promise<void> {
+        await this.initCollection();
+        const documents = await this.collection.find(query, { projection: { _id: 1 } }).toArray();
+
+        for (const { _id } of documents) {
+            const id = this.fromObjectId(_id);
+            const existingDoc = await this.findById(id, true);
+            await this.collection.updateOne({ _id }, { $set: { ...fields, updated_at: new Date() } });
+            await this.recordAudit(AuditAction.Update, id, existingDoc, await this.findById(id, true));
+        }
+    }
+
     /**
      * Delete a document
      */
     async delete(id: string): Promise<boolean> {
         await this.initCollection();
+        const existingDoc = this.audited ? await this.findById(id, true) : null;
         const result = await this.collection.deleteOne({ _id: this.toObjectId(id) });
+        if (result.deletedCount === 1) {
+            await this.recordAudit(AuditAction.Delete, id, existingDoc, null);
+        }
         return result.deletedCount === 1;
     }
+
+    /**
+     * Soft delete a document: it is kept with deletedAt and deletedBy set, and
+     * left out by the find methods
+     * @param deletedAt when the document was deleted, shared by documents deleted together
+     */
+    async softDelete(id: string, deletedBy: string, deletedAt: Date = new Date()): Promise<boolean> {
+        await this.initCollection();
+        const existingDoc = await this.findById(id);
+        if (!existingDoc) return false;
+
+        const deletion: SoftDeleteFields = { deletedAt, deletedBy };
+        await this.collection.updateOne({ _id: this.toObjectId(id) }, { $set: deletion });
+        await this.recordAudit(AuditAction.Delete, id, existingDoc, { ...existingDoc, ...deletion });
+        return true;
+    }
+
+    /**
+     * Restore a soft-deleted document
+     */
+    async restore(id: string): Promise<boolean> {
+        await this.initCollection();
+        const existingDoc = await this.findById(id, true);
+        if (!existingDoc || !isSoftDeleted(existingDoc)) return false;
+
+        await this.collection.updateOne({ _id: this.toObjectId(id) }, { $unset: { deletedAt: "", deletedBy: "" } });
+        const restoredDoc = await this.findById(id);
+        await this.recordAudit(AuditAction.Update, id, existingDoc, restoredDoc);
+        return true;
+    }
 }
\ No newline at end of file
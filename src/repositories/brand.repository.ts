@@ -7,12 +7,14 @@ export class BrandRepository extends BaseRepository<Brand> {
         super("brands", BrandSchema);
     }
 
+    protected softDeletable = true;
+
     /**
      * Find brand by name
      */
     async findByName(name: string): Promise<Brand | null> {
         await this.initCollection();
-        const result = await this.collection.findOne({ name });
+        const result = await this.collection.findOne(this.excludeDeleted({ name }));
 
         if (!result) return null;
 
@@ -0,0 +1,25 @@
+import { BaseRepository } from "./base.repository.js";
+import { CalendarFeed, CalendarFeedSchema } from "../models/calendar-feed.model.js";
+
+export class CalendarFeedRepository extends BaseRepository<CalendarFeed> {
+    constructor() {
+        super("calendar_feeds", CalendarFeedSchema);
+    }
+
+    protected auditRedactedFields = ["tokenHash"];
+
+    /**
+     * Find a feed by the hash of its token
+     */
+    async findByTokenHash(tokenHash: string): Promise<CalendarFeed | null> {
+        return this.findOne({ tokenHash });
+    }
+
+    /**
+     * Record that a feed was fetched. Not audited: it's bookkeeping, not a change.
+     */
+    async touch(id: string, accessedAt: Date = new Date()): Promise<void> {
+        await this.initCollection();
+        await this.collection.updateOne({ _id: this.toObjectId(id) }, { $set: { lastAccessedAt: accessedAt } });
+    }
+}
@@ -7,6 +7,8 @@ export class CampaignRepository extends BaseRepository<Campaign> {
     super("campaigns", CampaignSchema);
   }
 
+  protected softDeletable = true;
+
   /**
    * Find campaign by name
    */
@@ -22,6 +24,13 @@ export class CampaignRepository extends BaseRepository<Campaign> {
     return this.find({ brandId, isActive: true });
   }
 
+  /**
+   * Find campaigns of any of the brands
+   */
+  async findByBrandIds(brandIds: string[]): Promise<Campaign[]> {
+    return this.find({ brandId: { $in: brandIds }, isActive: true });
+  }
+
   /**
    * Find active campaigns for a brand
    */
@@ -88,7 +97,7 @@ export class CampaignRepository extends BaseRepository<Campaign> {
   async findActiveVersionByRoot(rootId: string): Promise<Campaign | null> {
     const results = await this.find({
       $or: [
-        { _id: rootId, isActive: true },
+        { _id: this.toObjectId(rootId), isActive: true },
         { rootCampaignId: rootId, isActive: true }
       ]
     });
@@ -98,23 +107,37 @@ export class CampaignRepository extends BaseRepository<Campaign> {
 
   /**
    * Find all versions of campaign by root ID
+   * @param deletedAt find the versions soft deleted at this time instead of the live ones
    */
-  async findAllVersionsByRoot(rootId: string): Promise<Campaign[]> {
+  async findAllVersionsByRoot(rootId: string, deletedAt?: Date): Promise<Campaign[]> {
     return this.find({
       $or: [
-        { _id: rootId },
+        { _id: this.toObjectId(rootId) },
         { rootCampaignId: rootId }
-      ]
+      ],
+      ...(deletedAt && { deletedAt })
     }, false); // Pass false to get all versions including inactive ones
   }
 
+  /**
+   * Find all versions of any of the campaigns with the root IDs
+   */
+  async findAllVersionsByRoots(rootIds: string[]): Promise<Campaign[]> {
+    return this.find({
+      $or: [
+        { _id: { $in: rootIds.map(rootId => this.toObjectId(rootId)) } },
+        { rootCampaignId: { $in: rootIds } }
+      ]
+    }, false);
+  }
+
   /**
    * Find specific version of campaign by root ID and version number
    */
   async findVersionByRoot(rootId: string, version: number): Promise<Campaign | null> {
     const results = await this.find({
       $or: [
-        { _id: rootId, version },
+        { _id: this.toObjectId(rootId), version },
         { rootCampaignId: rootId, version }
       ]
     }, false); // Pass false to get the specific version even if inactive
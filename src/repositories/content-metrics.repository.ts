@@ -0,0 +1,110 @@
+import { getDatabase } from "../config/db.js";
+import { BaseRepository } from "./base.repository.js";
+import { ContentMetricsSnapshot, ContentMetricsSnapshotSchema } from "../models/content-metrics.model.js";
+
+const COLLECTION_NAME = "content_metrics";
+
+export class ContentMetricsRepository extends BaseRepository<ContentMetricsSnapshot> {
+    constructor() {
+        super(COLLECTION_NAME, ContentMetricsSnapshotSchema);
+    }
+
+    // Metric snapshots are an append-only history themselves
+    protected audited = false;
+
+    /**
+     * Snapshots are stored in a MongoDB time-series collection, created on first use
+     */
+    protected async initCollection(): Promise<void> {
+        if (this.collection) return;
+
+        const db = getDatabase();
+        const existing = await db.listCollections({ name: COLLECTION_NAME }, { nameOnly: true }).toArray();
+        if (existing.length === 0) {
+            try {
+                await db.createCollection(COLLECTION_NAME, {
+                    timeseries: { timeField: "capturedAt", metaField: "contentId", granularity: "hours" }
+                });
+            } catch (error) {
+                // Another instance created it first
+                if ((error as { codeName?: string }).codeName !== "NamespaceExists") {
+                    throw error;
+                }
+            }
+        }
+
+        this.collection = db.collection(COLLECTION_NAME);
+    }
+
+    /**
+     * Find the snapshots of a content item, oldest first
+     */
+    async findByContentId(contentId: string, from?: Date, to?: Date): Promise<ContentMetricsSnapshot[]> {
+        await this.initCollection();
+        const query: Record<string, any> = { contentId };
+        if (from || to) {
+            query.capturedAt = {
+                ...(from && { $gte: from }),
+                ...(to && { $lte: to })
+            };
+        }
+
+        const results = await this.collection.find(query).sort({ capturedAt: 1 }).toArray();
+        return results.map(result => this.validate({
+            ...result,
+            _id: this.fromObjectId(result._id)
+        }));
+    }
+
+    /**
+     * Find the most recent snapshot of each of the given content items, keyed by content ID
+     */
+    async findLatestByContentIds(contentIds: string[]): Promise<Map<string, ContentMetricsSnapshot>> {
+        await this.initCollection();
+        const results = await this.collection.aggregate([
+            { $match: { contentId: { $in: contentIds } } },
+            { $sort: { capturedAt: -1 } },
+            { $group: { _id: "$contentId", snapshot: { $first: "$$ROOT" } } }
+        ]).toArray();
+
+        return new Map(results.map(result => [
+            result._id as string,
+            this.validate({
+                ...result.snapshot,
+                _id: this.fromObjectId(result.snapshot._id)
+            })
+        ]));
+    }
+
+    /**
+     * IDs of every content item with snapshots
+     */
+    async findContentIds(): Promise<string[]> {
+        await this.initCollection();
+        return await this.collection.distinct("contentId");
+    }
+
+    /**
+     * Delete the snapshots of a content item
+     * @returns the number of snapshots deleted
+     */
+    async deleteByContentId(contentId: string): Promise<number> {
+        await this.initCollection();
+        const result = await this.collection.deleteMany({ contentId });
+        return result.deletedCount;
+    }
+
+    /**
+     * Find the most recent snapshot of a content item
+     */
+    async findLatestByContentId(contentId: string): Promise<ContentMetricsSnapshot | null> {
+        await this.initCollection();
+        const result = await this.collection.findOne({ contentId }, { sort: { capturedAt: -1 } });
+        if (!result) return null;
+
+        return this.validate({
+            ...result,
+            _id: this.fromObjectId(result._id)
+        });
+    }
+}
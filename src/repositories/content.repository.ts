@@ -1,11 +1,12 @@
 import { Collection, ObjectId } from "mongodb";
 import { BaseRepository } from "./base.repository.js";
-import { Content, ContentParser, ContentSchema, ContentState } from "../models/content.model.js";
+import { Content, ContentLease, ContentParser, ContentSchema, ContentState } from "../models/content.model.js";
 import { MicroPlan, MicroPlanSchema, Plan } from "../models/plan.model.js";
 import { PlanType } from "../models/plan.model.js";
 import { MasterPlanSchema } from "../models/plan.model.js";
 import { MasterPlan } from "../models/plan.model.js";
 import { deepMerge } from "../utils/merge.js";
+import { AuditAction } from "../models/audit-event.model.js";
 
 /**
  * Repository for content collection
@@ -15,6 +16,25 @@ export class ContentRepository extends BaseRepository<Content> {
         super("contents", ContentParser);
     }
 
+    protected softDeletable = true;
+
+    private indexesCreated = false;
+
+    /**
+     * Scheduling and calendar queries select content by date range, so the
+     * schedule and publish dates are indexed when the collection is first used
+     */
+    protected async initCollection(): Promise<void> {
+        await super.initCollection();
+        if (this.indexesCreated) return;
+
+        this.indexesCreated = true;
+        await this.collection.createIndexes([
+            { key: { isActive: 1, "stateMetadata.scheduledFor": 1 } },
+            { key: { isActive: 1, "stateMetadata.publishedAt": 1 } }
+        ]);
+    }
+
     /**
      * Find all content by micro plan ID
      */
@@ -40,15 +60,50 @@ export class ContentRepository extends BaseRepository<Content> {
     }
 
     /**
-     * Find all content with a scheduled date
+     * Find all content with a scheduled date, optionally in some states
      */
-    async findWithScheduledDate(): Promise<Content[]> {
+    async findWithScheduledDate(states?: ContentState[]): Promise<Content[]> {
         return this.find({
             "stateMetadata.scheduledFor": { $exists: true, $ne: null },
+            ...(states && states.length > 0 && { state: { $in: states } }),
             isActive: true
         });
     }
 
+    /**
+     * Find content scheduled for or published within a date range (inclusive).
+     * Content can be limited to some micro plans and brands (standalone
+     * content), matching either, and to some states.
+     */
+    async findInDateRange(
+        start: Date,
+        end: Date,
+        filter: { microPlanIds?: string[]; brandIds?: string[]; states?: ContentState[] } = {}
+    ): Promise<Content[]> {
+        const range = { $gte: start, $lte: end };
+        const query: Record<string, any> = {
+            $or: [
+                { "stateMetadata.scheduledFor": range },
+                { "stateMetadata.publishedAt": range }
+            ],
+            isActive: true
+        };
+
+        if (filter.microPlanIds || filter.brandIds) {
+            query.$and = [{
+                $or: [
+                    ...(filter.microPlanIds ? [{ microPlanId: { $in: filter.microPlanIds } }] : []),
+                    ...(filter.brandIds ? [{ brandId: { $in: filter.brandIds } }] : [])
+                ]
+            }];
+        }
+        if (filter.states && filter.states.length > 0) {
+            query.state = { $in: filter.states };
+        }
+
+        return this.find(query);
+    }
+
     /**
      * Find content by state
      */
@@ -62,7 +117,7 @@ export class ContentRepository extends BaseRepository<Content> {
     async findActiveVersionByRoot(rootId: string): Promise<Content | null> {
         const results = await this.find({
             $or: [
-                { _id: rootId, isActive: true },
+                { _id: this.toObjectId(rootId), isActive: true },
                 { rootContentId: rootId, isActive: true }
             ]
         });
@@ -72,14 +127,16 @@ export class ContentRepository extends BaseRepository<Content> {
 
     /**
      * Find all versions of content by root ID
+     * @param deletedAt find the versions soft deleted at this time instead of the live ones
      */
-    async findAllVersionsByRoot(rootId: string): Promise<Content[]> {
+    async findAllVersionsByRoot(rootId: string, deletedAt?: Date): Promise<Content[]> {
         return this.find({
             $or: [
-                { _id: rootId },
+                { _id: this.toObjectId(rootId) },
                 { rootContentId: rootId }
-            ]
-        });
+            ],
+            ...(deletedAt && { deletedAt })
+        }, false); // Pass false to get all versions including inactive ones
     }
 
     /**
@@ -88,10 +145,10 @@ export class ContentRepository extends BaseRepository<Content> {
     async findVersionByRoot(rootId: string, version: number): Promise<Content | null> {
         const results = await this.find({
             $or: [
-                { _id: rootId, version },
+                { _id: this.toObjectId(rootId), version },
                 { rootContentId: rootId, version }
             ]
-        });
+        }, false); // Pass false to get the specific version even if inactive
 
         return results.length > 0 ? results[0] : null;
     }
@@ -113,6 +170,16 @@ export class ContentRepository extends BaseRepository<Content> {
         );
     }
 
+    /**
+     * Move the content of some micro plan versions to another version
+     */
+    async reassignMicroPlan(fromMicroPlanIds: string[], toMicroPlanId: string): Promise<void> {
+        await this.updateEach(
+            { microPlanId: { $in: fromMicroPlanIds } },
+            { microPlanId: toMicroPlanId }
+        );
+    }
+
     /**
      * Find content that need to be published - they're in Ready state with scheduledFor date in the past
      */
@@ -125,12 +192,136 @@ export class ContentRepository extends BaseRepository<Content> {
         });
     }
 
+    /**
+     * Find published content with a post ID that was published after a date
+     */
+    async findPublishedSince(date: Date): Promise<Content[]> {
+        return this.find({
+            state: ContentState.Published,
+            "stateMetadata.publishedAt": { $gte: date },
+            "publishedMetadata.postId": { $exists: true, $ne: null },
+            isActive: true
+        });
+    }
+
+    /**
+     * Atomically claim one Ready content item whose scheduled time has passed,
+     * that is not waiting for a publish retry and that is not leased by another
+     * scheduler. Expired leases count as free, so content held by a crashed
+     * scheduler is picked up again.
+     */
+    async claimDueContent(owner: string, leaseMs: number, now: Date = new Date()): Promise<Content | null> {
+        await this.initCollection();
+        const lease: ContentLease = {
+            owner,
+            acquiredAt: now,
+            expiresAt: new Date(now.getTime() + leaseMs)
+        };
+
+        const result = await this.collection.findOneAndUpdate(
+            this.excludeDeleted({
+                state: ContentState.Ready,
+                "stateMetadata.scheduledFor": { $lte: now },
+                isActive: true,
+                $and: [
+                    {
+                        $or: [
+                            { "stateMetadata.nextAttemptAt": { $exists: false } },
+                            { "stateMetadata.nextAttemptAt": null },
+                            { "stateMetadata.nextAttemptAt": { $lte: now } }
+                        ]
+                    },
+                    {
+                        $or: [
+                            { lease: { $exists: false } },
+                            { lease: null },
+                            { "lease.expiresAt": { $lte: now } }
+                        ]
+                    }
+                ]
+            }),
+            { $set: { lease } },
+            { sort: { "stateMetadata.scheduledFor": 1 }, returnDocument: "after" }
+        );
+
+        if (!result) return null;
+
+        return this.validate({
+            ...result,
+            _id: this.fromObjectId(result._id)
+        });
+    }
+
+    // Leases are scheduler bookkeeping, so the lease methods below are not audited
+
+    /**
+     * Extend a lease held by the given owner
+     * @returns false if the lease expired and was claimed by someone else
+     */
+    async renewLease(id: string, owner: string, leaseMs: number): Promise<boolean> {
+        await this.initCollection();
+        const result = await this.collection.updateOne(
+            { _id: this.toObjectId(id), "lease.owner": owner },
+            { $set: { "lease.expiresAt": new Date(Date.now() + leaseMs) } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Release a lease held by the given owner
+     */
+    async releaseLease(id: string, owner: string): Promise<boolean> {
+        await this.initCollection();
+        const result = await this.collection.updateOne(
+            { _id: this.toObjectId(id), "lease.owner": owner },
+            { $unset: { lease: "" } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Clear leases that expired before a date, left behind by schedulers that
+     * stopped while publishing
+     * @returns the number of leases cleared
+     */
+    async releaseExpiredLeases(date: Date = new Date()): Promise<number> {
+        await this.initCollection();
+        const result = await this.collection.updateMany(
+            { "lease.expiresAt": { $lte: date } },
+            { $unset: { lease: "" } }
+        );
+        return result.modifiedCount;
+    }
+
+    /**
+     * Clear the publish retry bookkeeping of a content item
+     */
+    async resetPublishFailures(id: string): Promise<Content | null> {
+        await this.initCollection();
+        const existing = await this.findById(id);
+        await this.collection.updateOne(
+            { _id: this.toObjectId(id) },
+            {
+                $set: { "stateMetadata.failedAttempts": 0, updated_at: new Date() },
+                $unset: {
+                    "stateMetadata.nextAttemptAt": "",
+                    "stateMetadata.lastPublishError": "",
+                    "stateMetadata.failedAt": ""
+                }
+            }
+        );
+
+        const updated = await this.findById(id);
+        await this.recordAudit(AuditAction.Update, id, existing, updated);
+        return updated;
+    }
+
     /**
      * Override find method to only return active versions by default
      */
-    async find(query: any = {}): Promise<Content[]> {
-        // If query doesn't specify isActive, only return active versions
-        if (query.isActive === undefined) {
+    async find(query: any = {}, activeOnly: boolean = true): Promise<Content[]> {
+        // If query doesn't specify isActive and activeOnly is true, only return active versions
+        if (query.isActive === undefined && activeOnly) {
             query.isActive = true;
         }
 
@@ -196,6 +387,7 @@ export class ContentRepository extends BaseRepository<Content> {
             { _id: this.toObjectId(id) },
             { $set: updateData }
         );
+        await this.recordAudit(AuditAction.Update, id, existingContent, validatedContent);
 
         return validatedContent;
     }
@@ -0,0 +1,66 @@
+import { BaseRepository } from "./base.repository.js";
+import { ChannelCredential, ChannelCredentialSchema, CredentialChannel, CredentialStatus } from "../models/credential.model.js";
+import { AuditAction } from "../models/audit-event.model.js";
+
+export class CredentialRepository extends BaseRepository<ChannelCredential> {
+    constructor() {
+        super("channel_credentials", ChannelCredentialSchema);
+    }
+
+    protected auditRedactedFields = ["encryptedSecrets"];
+
+    /**
+     * Find the credentials a brand stored for a channel
+     */
+    async findByBrandAndChannel(brandId: string, channel: CredentialChannel): Promise<ChannelCredential | null> {
+        return this.findOne({ brandId, channel });
+    }
+
+    /**
+     * Find all credentials stored for a brand
+     */
+    async findByBrandId(brandId: string): Promise<ChannelCredential[]> {
+        return this.find({ brandId });
+    }
+
+    /**
+     * Delete the credentials a brand stored for a channel
+     */
+    async deleteByBrandAndChannel(brandId: string, channel: CredentialChannel): Promise<boolean> {
+        await this.initCollection();
+        const existing = await this.findOne({ brandId, channel });
+        if (!existing) return false;
+
+        const result = await this.collection.deleteOne({ _id: this.toObjectId(existing._id!) });
+        if (result.deletedCount === 1) {
+            await this.recordAudit(AuditAction.Delete, existing._id!, existing, null);
+        }
+        return result.deletedCount === 1;
+    }
+
+    /**
+     * Record the connection status of an account.
+     * A successful verification clears the last error.
+     */
+    async updateStatus(id: string, status: CredentialStatus, lastError?: string): Promise<ChannelCredential | null> {
+        await this.initCollection();
+        const existing = await this.findById(id);
+        const now = new Date();
+
+        const set: Record<string, any> = { status, updated_at: now };
+        if (status === CredentialStatus.Connected) {
+            set.lastVerifiedAt = now;
+        }
+
+        if (lastError) {
+            set.lastError = lastError;
+            await this.collection.updateOne({ _id: this.toObjectId(id) }, { $set: set });
+        } else {
+            await this.collection.updateOne({ _id: this.toObjectId(id) }, { $set: set, $unset: { lastError: "" } });
+        }
+
+        const updated = await this.findById(id);
+        await this.recordAudit(AuditAction.Update, id, existing, updated);
+        return updated;
+    }
+}
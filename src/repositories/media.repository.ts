@@ -0,0 +1,20 @@
+import { BaseRepository } from "./base.repository.js";
+import { MediaAsset, MediaAssetSchema } from "../models/media.model.js";
+
+export class MediaRepository extends BaseRepository<MediaAsset> {
+    constructor() {
+        super("media_assets", MediaAssetSchema);
+    }
+
+    /**
+     * Find the media assets of a content item, oldest first
+     */
+    async findByContentId(contentId: string): Promise<MediaAsset[]> {
+        await this.initCollection();
+        const results = await this.collection.find({ contentId }).sort({ created_at: 1 }).toArray();
+        return results.map(result => this.validate({
+            ...result,
+            _id: this.fromObjectId(result._id)
+        }));
+    }
+}
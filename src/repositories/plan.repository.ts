@@ -4,18 +4,29 @@ import { deepMerge, deepMergeArrays, toDate } from "../utils/merge.js";
 import { create } from "domain";
 import { stripNullValues } from "../utils/nulls.js";
 import { provideDefaultsForMissingFields } from "../utils/date.utils.js";
+import { AuditAction } from "../models/audit-event.model.js";
+
+// Matches active versions, including plans created before versioning
+const ACTIVE_VERSION = { $ne: false };
 
 export class PlanRepository extends BaseRepository<Plan> {
   constructor() {
     super("plans", PlanSchema);
   }
 
+  protected softDeletable = true;
+
   /**
-   * Override find to handle different plan types correctly
+   * Override find to handle different plan types correctly, and to only return active versions by default
    */
-  async find(query: any = {}): Promise<Plan[]> {
+  async find(query: any = {}, activeOnly: boolean = true): Promise<Plan[]> {
     await this.initCollection();
-    const results = await this.collection.find(query).toArray();
+
+    // Plans created before versioning have no isActiveVersion and are active
+    if (query.isActiveVersion === undefined && activeOnly) {
+      query.isActiveVersion = ACTIVE_VERSION;
+    }
+    const results = await this.collection.find(this.excludeDeleted(query)).toArray();
 
     return results.map(result => {
       let document = {
@@ -36,15 +47,36 @@ export class PlanRepository extends BaseRepository<Plan> {
   async update(id: string, updates: Partial<Omit<Plan, "_id">>): Promise<Plan | null> {
     await this.initCollection();
 
-    let updateSchema: any = null;
-    let schema: any = null;
-
     // Get existing plan
     const existingPlan = await this.findById(id);
     if (!existingPlan) {
       throw new Error(`Cannot update non-existant plan. Plan with ID "${id}" not found.`);
     }
 
+    const validatedPlan = this.applyUpdates(existingPlan, updates);
+
+    // Remove _id for update
+    const { _id, ...updateData } = validatedPlan as any;
+
+    // Perform update
+    await this.collection.updateOne(
+      { _id: this.toObjectId(id) },
+      { $set: updateData }
+    );
+
+    const updated = await this.findById(id);
+    await this.recordAudit(AuditAction.Update, id, existingPlan, updated);
+    return updated;
+  }
+
+  /**
+   * Merge updates into a plan, merging nested objects and arrays the way update() does
+   * @returns the validated plan, not saved
+   */
+  applyUpdates(existingPlan: Plan, updates: Partial<Omit<Plan, "_id">>): Plan {
+    let updateSchema: any = null;
+    let schema: any = null;
+
     switch (existingPlan.type) {
       case PlanType.Master:
         updateSchema = MasterPlanUpdateSchema;
@@ -125,18 +157,26 @@ export class PlanRepository extends BaseRepository<Plan> {
     );
 
     // Validate the merged plan against the schema
-    const validatedPlan = this.validate(planToUpdate, schema) as Plan;
-
-    // Remove _id for update
-    const { _id, ...updateData } = validatedPlan as any;
+    return this.validate(planToUpdate, schema) as Plan;
+  }
 
-    // Perform update
+  /**
+   * Store the measured actuals of a micro plan's performance metrics.
+   * Bypasses update(), whose update schema would reset the plan state.
+   */
+  async updatePerformanceMetrics(id: string, performanceMetrics: MicroPlan["performanceMetrics"]): Promise<void> {
+    await this.initCollection();
+    const existing = await this.findById(id) as MicroPlan | null;
     await this.collection.updateOne(
-      { _id: this.toObjectId(id) },
-      { $set: updateData }
+      { _id: this.toObjectId(id), type: PlanType.Micro },
+      { $set: { performanceMetrics, updated_at: new Date() } }
+    );
+    await this.recordAudit(
+      AuditAction.Update,
+      id,
+      { performanceMetrics: existing?.performanceMetrics },
+      { performanceMetrics }
     );
-
-    return this.findById(id);
   }
 
   /**
@@ -153,17 +193,32 @@ export class PlanRepository extends BaseRepository<Plan> {
     return await this.find({ type: PlanType.Master, campaignId }) as MasterPlan[];
   }
 
+  /**
+   * Find all master plans of any of the campaigns
+   */
+  async findMasterPlansByCampaignIds(campaignIds: string[]): Promise<MasterPlan[]> {
+    return await this.find({ type: PlanType.Master, campaignId: { $in: campaignIds } }) as MasterPlan[];
+  }
+
+  /**
+   * Find all micro plans of any of the master plans
+   */
+  async findMicroPlansByMasterIds(masterPlanIds: string[]): Promise<MicroPlan[]> {
+    return await this.find({ type: PlanType.Micro, masterPlanId: { $in: masterPlanIds } }) as MicroPlan[];
+  }
+
   /**
    * Find active master plan for a campaign
    */
   async findActiveMasterPlan(campaignId: string): Promise<MasterPlan | null> {
     await this.initCollection();
-    const result = await this.collection.findOne({
+    const result = await this.collection.findOne(this.excludeDeleted({
       type: PlanType.Master,
       campaignId,
       state: PlanState.Active,
       isActive: true,
-    });
+      isActiveVersion: ACTIVE_VERSION
+    }));
 
     if (!result) return null;
 
@@ -181,12 +236,13 @@ export class PlanRepository extends BaseRepository<Plan> {
    */
   async findActiveMicroPlans(masterPlanId: string): Promise<MicroPlan[]> {
     await this.initCollection();
-    const results = await this.collection.find({
+    const results = await this.collection.find(this.excludeDeleted({
       type: PlanType.Micro,
       masterPlanId,
       state: PlanState.Active,
       isActive: true,
-    }).toArray();
+      isActiveVersion: ACTIVE_VERSION
+    })).toArray();
 
     return results.map(result => {
       let document = {
@@ -231,12 +287,106 @@ export class PlanRepository extends BaseRepository<Plan> {
     return await this.find({ campaignId });
   }
 
+  /**
+   * Find active version by root plan ID
+   */
+  async findActiveVersionByRoot(rootId: string): Promise<Plan | null> {
+    const results = await this.find({
+      $or: [
+        { _id: this.toObjectId(rootId) },
+        { rootPlanId: rootId }
+      ],
+      isActiveVersion: ACTIVE_VERSION
+    });
+
+    return results.length > 0 ? results[0] : null;
+  }
+
+  /**
+   * Find all versions of plan by root ID
+   * @param deletedAt find the versions soft deleted at this time instead of the live ones
+   */
+  async findAllVersionsByRoot(rootId: string, deletedAt?: Date): Promise<Plan[]> {
+    return this.find({
+      $or: [
+        { _id: this.toObjectId(rootId) },
+        { rootPlanId: rootId }
+      ],
+      ...(deletedAt && { deletedAt })
+    }, false); // Pass false to get all versions including inactive ones
+  }
+
+  /**
+   * Find specific version of plan by root ID and version number
+   */
+  async findVersionByRoot(rootId: string, version: number): Promise<Plan | null> {
+    const results = await this.find({
+      $or: [
+        { _id: this.toObjectId(rootId), "stateMetadata.version": version },
+        { rootPlanId: rootId, "stateMetadata.version": version }
+      ]
+    }, false); // Pass false to get the specific version even if inactive
+
+    return results.length > 0 ? results[0] : null;
+  }
+
+  /**
+   * Deactivate all versions of plan with the same root
+   */
+  async deactivateAllVersionsByRoot(rootId: string): Promise<void> {
+    await this.initCollection();
+
+    await this.collection.updateMany(
+      {
+        $or: [
+          { _id: this.toObjectId(rootId) },
+          { rootPlanId: rootId }
+        ]
+      },
+      { $set: { isActiveVersion: false } }
+    );
+  }
+
+  /**
+   * Make a plan version the active one. Bypasses update(), whose update schema would reset the plan state.
+   */
+  async activateVersion(id: string, updatedBy: string): Promise<Plan | null> {
+    await this.initCollection();
+    const existing = await this.findById(id);
+    if (!existing) return null;
+
+    const stateMetadata = {
+      ...existing.stateMetadata,
+      updatedBy,
+      comments: `Activated version ${existing.stateMetadata.version}`
+    };
+    await this.collection.updateOne(
+      { _id: this.toObjectId(id) },
+      { $set: { isActiveVersion: true, stateMetadata, updated_at: new Date() } }
+    );
+
+    const updated = await this.findById(id);
+    await this.recordAudit(AuditAction.Update, id, existing, updated);
+    return updated;
+  }
+
+  /**
+   * Move the micro plans of some master plan versions to another version
+   */
+  async reassignMicroPlans(fromMasterPlanIds: string[], toMasterPlanId: string): Promise<void> {
+    await this.updateEach(
+      { type: PlanType.Micro, masterPlanId: { $in: fromMasterPlanIds } },
+      { masterPlanId: toMasterPlanId }
+    );
+  }
+
   /**
    * Override findById to handle different plan types
    */
-  async findById(id: string): Promise<Plan | null> {
+  async findById(id: string, includeDeleted: boolean = false): Promise<Plan | null> {
     await this.initCollection();
-    const result = await this.collection.findOne({ _id: this.toObjectId(id) });
+    const query = { _id: this.toObjectId(id) };
+    const result = await this.collection.findOne(includeDeleted ? query : this.excludeDeleted(query));
 
     if (!result) return null;
 
@@ -267,10 +417,11 @@ export class PlanRepository extends BaseRepository<Plan> {
 
   async findMasterPlansByContentTheme(theme: string): Promise<MasterPlan[]> {
     await this.initCollection();
-    const results = await this.collection.find({
+    const results = await this.collection.find(this.excludeDeleted({
       type: PlanType.Master,
-      "contentStrategy.keyThemes": theme
-    }).toArray();
+      "contentStrategy.keyThemes": theme,
+      isActiveVersion: ACTIVE_VERSION
+    })).toArray();
 
     return results.map(result => {
       let document = {
@@ -284,10 +435,11 @@ export class PlanRepository extends BaseRepository<Plan> {
 
   async findMicroPlansByContentSeries(seriesName: string): Promise<MicroPlan[]> {
     await this.initCollection();
-    const results = await this.collection.find({
+    const results = await this.collection.find(this.excludeDeleted({
       type: PlanType.Micro,
-      "contentSeries.name": seriesName
-    }).toArray();
+      "contentSeries.name": seriesName,
+      isActiveVersion: ACTIVE_VERSION
+    })).toArray();
 
     return results.map(result => {
       let document = {
@@ -304,15 +456,16 @@ export class PlanRepository extends BaseRepository<Plan> {
     future.setDate(future.getDate() + daysAhead);
 
     await this.initCollection();
-    const results = await this.collection.find({
+    const results = await this.collection.find(this.excludeDeleted({
       type: PlanType.Master,
       "timeline": {
         $elemMatch: {
           date: { $gte: new Date(), $lte: future },
           status: { $ne: "completed" }
         }
-      }
-    }).toArray();
+      },
+      isActiveVersion: ACTIVE_VERSION
+    })).toArray();
 
     return results.map(result => {
       let document = {
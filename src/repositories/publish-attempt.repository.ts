@@ -0,0 +1,68 @@
+import { BaseRepository } from "./base.repository.js";
+import { PublishAttempt, PublishAttemptSchema, PublishAttemptStatus } from "../models/publish-attempt.model.js";
+
+export class PublishAttemptRepository extends BaseRepository<PublishAttempt> {
+    constructor() {
+        super("publish_attempts", PublishAttemptSchema);
+    }
+
+    // Publish attempts are an append-only history themselves
+    protected audited = false;
+
+    /**
+     * Find the publish attempts of a content item (all versions), newest first
+     */
+    async findByRootContentId(rootContentId: string, limit: number = 100): Promise<PublishAttempt[]> {
+        await this.initCollection();
+        const results = await this.collection
+            .find({ rootContentId })
+            .sort({ attemptedAt: -1 })
+            .limit(limit)
+            .toArray();
+
+        return results.map(result => this.validate({
+            ...result,
+            _id: this.fromObjectId(result._id)
+        }));
+    }
+
+    /**
+     * Find failed publish attempts, newest first
+     */
+    async findFailures(since?: Date, limit: number = 100): Promise<PublishAttempt[]> {
+        await this.initCollection();
+        const query: Record<string, any> = { status: PublishAttemptStatus.Failure };
+        if (since) {
+            query.attemptedAt = { $gte: since };
+        }
+
+        const results = await this.collection
+            .find(query)
+            .sort({ attemptedAt: -1 })
+            .limit(limit)
+            .toArray();
+
+        return results.map(result => this.validate({
+            ...result,
+            _id: this.fromObjectId(result._id)
+        }));
+    }
+
+    /**
+     * Root IDs of every content item with publish attempts
+     */
+    async findRootContentIds(): Promise<string[]> {
+        await this.initCollection();
+        return await this.collection.distinct("rootContentId");
+    }
+
+    /**
+     * Delete the publish attempts of a content item (all versions)
+     * @returns the number of publish attempts deleted
+     */
+    async deleteByRootContentId(rootContentId: string): Promise<number> {
+        await this.initCollection();
+        const result = await this.collection.deleteMany({ rootContentId });
+        return result.deletedCount;
+    }
+}
@@ -0,0 +1,51 @@
+import { BaseRepository } from "./base.repository.js";
+import { ReviewDecision, ReviewDecisionSchema } from "../models/review.model.js";
+
+export class ReviewDecisionRepository extends BaseRepository<ReviewDecision> {
+    constructor() {
+        super("review_decisions", ReviewDecisionSchema);
+    }
+
+    // Review decisions are an append-only history themselves
+    protected audited = false;
+
+    /**
+     * Find the review decisions of a content item (all versions), oldest first
+     * @param round only return decisions of this review round
+     */
+    async findByRootContentId(rootContentId: string, round?: number): Promise<ReviewDecision[]> {
+        await this.initCollection();
+        const query: Record<string, any> = { rootContentId };
+        if (round !== undefined) {
+            query.round = round;
+        }
+
+        const results = await this.collection
+            .find(query)
+            .sort({ decidedAt: 1 })
+            .toArray();
+
+        return results.map(result => this.validate({
+            ...result,
+            _id: this.fromObjectId(result._id)
+        }));
+    }
+
+    /**
+     * Root IDs of every content item with review decisions
+     */
+    async findRootContentIds(): Promise<string[]> {
+        await this.initCollection();
+        return await this.collection.distinct("rootContentId");
+    }
+
+    /**
+     * Delete the review decisions of a content item (all versions)
+     * @returns the number of review decisions deleted
+     */
+    async deleteByRootContentId(rootContentId: string): Promise<number> {
+        await this.initCollection();
+        const result = await this.collection.deleteMany({ rootContentId });
+        return result.deletedCount;
+    }
+}
@@ -0,0 +1,123 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { ApiKey, ApiKeyCreationParams, ApiKeyRole, ApiKeySummary, AuthContext } from "../models/api-key.model.js";
+import { ApiKeyRepository } from "../repositories/api-key.repository.js";
+import { BrandRepository } from "../repositories/brand.repository.js";
+import { hashSecret } from "../utils/crypto.js";
+import { BadRequestError } from "../utils/errors.js";
+
+const KEY_PREFIX = "cms_";
+const KEY_PREFIX_LENGTH = 12;
+
+// User the ADMIN_API_KEY environment key acts as
+export const BOOTSTRAP_ADMIN_USER = "admin";
+
+/**
+ * Whether REST requests must carry an API key. Set API_AUTH_ENABLED=false to
+ * turn authentication off for local development.
+ */
+export function isApiAuthEnabled(): boolean {
+    return process.env.API_AUTH_ENABLED !== "false";
+}
+
+export interface IssuedApiKey {
+    apiKey: ApiKeySummary;
+    // The key itself, only available when it is issued
+    key: string;
+}
+
+export class ApiKeyService {
+    private apiKeyRepository: ApiKeyRepository;
+    private brandRepository: BrandRepository;
+
+    constructor() {
+        this.apiKeyRepository = new ApiKeyRepository();
+        this.brandRepository = new BrandRepository();
+    }
+
+    /**
+     * Issue a new API key. Only its hash is stored, so the key is returned once.
+     */
+    async issueKey(params: ApiKeyCreationParams, createdBy?: string): Promise<IssuedApiKey> {
+        for (const brandId of params.brandIds || []) {
+            if (!await this.brandRepository.findById(brandId)) {
+                throw new Error(`Brand with ID ${brandId} not found`);
+            }
+        }
+        if (params.expiresAt && params.expiresAt <= new Date()) {
+            throw new BadRequestError("The expiry date of the key must be in the future");
+        }
+
+        const key = KEY_PREFIX + randomBytes(32).toString("base64url");
+        const apiKey = await this.apiKeyRepository.create({
+            ...params,
+            keyHash: hashSecret(key),
+            keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+            ...(createdBy && { createdBy })
+        });
+
+        return { apiKey: this.toSummary(apiKey), key };
+    }
+
+    /**
+     * Revoke an API key; requests with it are rejected from then on
+     */
+    async revokeKey(id: string): Promise<ApiKeySummary> {
+        const apiKey = await this.apiKeyRepository.findById(id);
+        if (!apiKey) {
+            throw new Error(`API key with ID ${id} not found`);
+        }
+        if (apiKey.revokedAt) {
+            return this.toSummary(apiKey);
+        }
+
+        const revoked = await this.apiKeyRepository.update(id, { revokedAt: new Date() });
+        return this.toSummary(revoked!);
+    }
+
+    async getKey(id: string): Promise<ApiKeySummary | null> {
+        const apiKey = await this.apiKeyRepository.findById(id);
+        return apiKey ? this.toSummary(apiKey) : null;
+    }
+
+    async listKeys(): Promise<ApiKeySummary[]> {
+        const apiKeys = await this.apiKeyRepository.find();
+        return apiKeys.map(apiKey => this.toSummary(apiKey));
+    }
+
+    /**
+     * Resolve a key to the user and role it was issued for.
+     * The ADMIN_API_KEY environment key is an unrestricted admin key, for issuing the first keys.
+     * @returns null for unknown, revoked and expired keys
+     */
+    async authenticate(key: string): Promise<AuthContext | null> {
+        const adminKey = process.env.ADMIN_API_KEY;
+        if (adminKey && this.matches(key, adminKey)) {
+            return { userId: BOOTSTRAP_ADMIN_USER, role: ApiKeyRole.Admin };
+        }
+
+        const apiKey = await this.apiKeyRepository.findByKeyHash(hashSecret(key));
+        if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+            return null;
+        }
+
+        await this.apiKeyRepository.touch(apiKey._id!);
+
+        return {
+            keyId: apiKey._id,
+            userId: apiKey.userId,
+            role: apiKey.role,
+            ...(apiKey.brandIds && apiKey.brandIds.length > 0 && { brandIds: apiKey.brandIds })
+        };
+    }
+
+    private matches(key: string, expected: string): boolean {
+        const a = Buffer.from(hashSecret(key));
+        const b = Buffer.from(hashSecret(expected));
+        return timingSafeEqual(a, b);
+    }
+
+    private toSummary(apiKey: ApiKey): ApiKeySummary {
+        const { keyHash, ...summary } = apiKey;
+        return summary;
+    }
+}
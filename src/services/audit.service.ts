@@ -0,0 +1,21 @@
+import { AuditEvent, AuditEventFilter } from "../models/audit-event.model.js";
+import { AuditEventRepository } from "../repositories/audit-event.repository.js";
+
+/**
+ * Queries the audit log of changes to brands, campaigns, plans, content and
+ * other audited collections
+ */
+export class AuditService {
+    private auditEventRepository: AuditEventRepository;
+
+    constructor() {
+        this.auditEventRepository = new AuditEventRepository();
+    }
+
+    /**
+     * Get audit events matching a filter, newest first
+     */
+    async getEvents(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+        return await this.auditEventRepository.findEvents(filter);
+    }
+}
@@ -0,0 +1,123 @@
+import { Content } from "../models/content.model.js";
+import { Plan, PlanType } from "../models/plan.model.js";
+import { BrandRepository } from "../repositories/brand.repository.js";
+import { CampaignRepository } from "../repositories/campaign.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { PlanRepository } from "../repositories/plan.repository.js";
+
+// References to a parent entity, as given when creating campaigns, plans and content
+export interface BrandReference {
+    brandId?: string;
+    brandName?: string;
+    campaignId?: string;
+    campaignName?: string;
+    masterPlanId?: string;
+    masterPlanName?: string;
+    microPlanId?: string;
+}
+
+/**
+ * Resolves which brand campaigns, plans and content belong to, for API keys
+ * limited to specific brands. Soft-deleted entities resolve like live ones, so
+ * they can be restored; unknown entities resolve to undefined.
+ */
+export class BrandScopeService {
+    private brandRepository: BrandRepository;
+    private campaignRepository: CampaignRepository;
+    private planRepository: PlanRepository;
+    private contentRepository: ContentRepository;
+
+    constructor() {
+        this.brandRepository = new BrandRepository();
+        this.campaignRepository = new CampaignRepository();
+        this.planRepository = new PlanRepository();
+        this.contentRepository = new ContentRepository();
+    }
+
+    async getCampaignBrandId(campaignId: string): Promise<string | undefined> {
+        const campaign = await this.campaignRepository.findById(campaignId, true);
+        return campaign?.brandId;
+    }
+
+    async getPlanBrandId(planId: string): Promise<string | undefined> {
+        const plan = await this.planRepository.findById(planId, true);
+        return plan ? await this.getBrandIdOfPlan(plan) : undefined;
+    }
+
+    async getContentBrandId(contentId: string): Promise<string | undefined> {
+        const content = await this.contentRepository.findById(contentId, true);
+        return content ? await this.getBrandIdOfContent(content) : undefined;
+    }
+
+    /**
+     * Resolve the brand of the parent an entity is created under
+     */
+    async resolveReference(reference: BrandReference): Promise<string | undefined> {
+        if (reference.brandId) return reference.brandId;
+        if (reference.brandName) {
+            return (await this.brandRepository.findByName(reference.brandName))?._id;
+        }
+        if (reference.campaignId) return await this.getCampaignBrandId(reference.campaignId);
+        if (reference.campaignName) {
+            return (await this.campaignRepository.findByName(reference.campaignName))?.brandId;
+        }
+        if (reference.masterPlanId) return await this.getPlanBrandId(reference.masterPlanId);
+        if (reference.masterPlanName) {
+            const plans = await this.planRepository.findPlanByName(reference.masterPlanName);
+            return plans && plans.length > 0 ? await this.getBrandIdOfPlan(plans[0]) : undefined;
+        }
+        if (reference.microPlanId) return await this.getPlanBrandId(reference.microPlanId);
+        return undefined;
+    }
+
+    /**
+     * Keep the plans belonging to one of the brands
+     */
+    async filterPlans<T extends Plan>(plans: T[], brandIds: string[]): Promise<T[]> {
+        // Micro plans of the same master plan share its brand
+        const brandOfMasterPlan = new Map<string, Promise<string | undefined>>();
+        const allowed = await Promise.all(plans.map(async plan => {
+            const brandId = plan.type === PlanType.Master
+                ? await this.getCampaignBrandId(plan.campaignId)
+                : await this.memoize(brandOfMasterPlan, plan.masterPlanId, () => this.getPlanBrandId(plan.masterPlanId));
+            return !!brandId && brandIds.includes(brandId);
+        }));
+        return plans.filter((_, index) => allowed[index]);
+    }
+
+    /**
+     * Keep the content belonging to one of the brands
+     */
+    async filterContent(content: Content[], brandIds: string[]): Promise<Content[]> {
+        // Content of the same micro plan shares its brand
+        const brandOfPlan = new Map<string, Promise<string | undefined>>();
+        const allowed = await Promise.all(content.map(async item => {
+            const brandId = item.brandId || (item.microPlanId
+                ? await this.memoize(brandOfPlan, item.microPlanId, () => this.getPlanBrandId(item.microPlanId!))
+                : undefined);
+            return !!brandId && brandIds.includes(brandId);
+        }));
+        return content.filter((_, index) => allowed[index]);
+    }
+
+    private async getBrandIdOfPlan(plan: Plan): Promise<string | undefined> {
+        if (plan.type === PlanType.Master) {
+            return await this.getCampaignBrandId(plan.campaignId);
+        }
+
+        const masterPlan = await this.planRepository.findById(plan.masterPlanId, true);
+        return masterPlan?.type === PlanType.Master ? await this.getCampaignBrandId(masterPlan.campaignId) : undefined;
+    }
+
+    private async getBrandIdOfContent(content: Content): Promise<string | undefined> {
+        if (content.brandId) return content.brandId;
+        return content.microPlanId ? await this.getPlanBrandId(content.microPlanId) : undefined;
+    }
+
+    private memoize<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+        if (!cache.has(key)) {
+            cache.set(key, load());
+        }
+        return cache.get(key)!;
+    }
+}
@@ -2,12 +2,16 @@ import { Brand, BrandCreationParams, BrandGuidelines, BrandUpdateParams } from "
 import { BrandRepository } from "../repositories/brand.repository.js";
 import { deepMergeArrays, cleanNulls } from "../utils/merge.js";
 import { deepMerge } from "../utils/merge.js";
+import { DeletableEntity, DeleteMode, DeletionResult } from "../models/integrity.model.js";
+import { DeletionService } from "./deletion.service.js";
 
 export class BrandService {
     private brandRepository: BrandRepository;
+    private deletionService: DeletionService;
 
     constructor() {
         this.brandRepository = new BrandRepository();
+        this.deletionService = new DeletionService();
     }
 
     /**
@@ -120,7 +124,11 @@ export class BrandService {
 
                 marketingPlan: updates.guidelines.marketingPlan
                     ? updates.guidelines.marketingPlan
-                    : existingGuidelines.marketingPlan
+                    : existingGuidelines.marketingPlan,
+
+                contentRules: updates.guidelines.contentRules
+                    ? deepMerge(existingGuidelines.contentRules || {}, updates.guidelines.contentRules)
+                    : existingGuidelines.contentRules
             };
         }
 
@@ -171,10 +179,11 @@ export class BrandService {
         return cleanNulls(updatedBrand);
     }
 
-    async deleteBrand(brandId: string): Promise<Boolean | null> {
-        const brand = await this.brandRepository.delete(brandId);
-        if (!brand) return null;
-        return brand;
+    /**
+     * Delete a brand. By default the brand is moved to the trash with its campaigns, plans and content.
+     */
+    async deleteBrand(brandId: string, mode: DeleteMode = DeleteMode.Soft): Promise<DeletionResult> {
+        return await this.deletionService.delete(DeletableEntity.Brand, brandId, mode);
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { randomBytes } from "crypto";
+import { CalendarEntry, CalendarEntryType } from "../models/calendar.model.js";
+import { CalendarFeed, CalendarFeedCreationParams, CalendarFeedSummary } from "../models/calendar-feed.model.js";
+import { CalendarFeedRepository } from "../repositories/calendar-feed.repository.js";
+import { BrandRepository } from "../repositories/brand.repository.js";
+import { CampaignRepository } from "../repositories/campaign.repository.js";
+import { CalendarService } from "./calendar.service.js";
+import { hashSecret } from "../utils/crypto.js";
+import { addDays } from "../utils/date.utils.js";
+import { ICalEvent, renderICalendar } from "../utils/ical.js";
+
+const TOKEN_PREFIX = "cal_";
+const TOKEN_PREFIX_LENGTH = 12;
+
+// Feeds cover the recent past and the coming months
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+const FEED_REFRESH_MINUTES = 60;
+
+// Posts are shown as short events at their publish time
+const POST_DURATION_MINUTES = 15;
+
+// Domain part of event UIDs
+const UID_DOMAIN = "cms-mcp";
+
+/**
+ * Path of a feed on the API server. The token is part of the path, as calendar
+ * clients can't send an API key.
+ */
+export function getCalendarFeedPath(token: string): string {
+    return `/feeds/calendar/${token}.ics`;
+}
+
+/**
+ * URL to subscribe to a feed, on PUBLIC_BASE_URL (or the given base URL)
+ */
+export function getCalendarFeedUrl(token: string, baseUrl: string | undefined = process.env.PUBLIC_BASE_URL): string {
+    return (baseUrl || "").replace(/\/+$/, "") + getCalendarFeedPath(token);
+}
+
+export interface IssuedCalendarFeed {
+    feed: CalendarFeedSummary;
+    // The feed token, only available when the feed is created
+    token: string;
+    url: string;
+}
+
+/**
+ * Subscribable iCalendar feeds of the content calendar of a brand or campaign,
+ * each reached through its own secret token
+ */
+export class CalendarFeedService {
+    private calendarFeedRepository: CalendarFeedRepository;
+    private brandRepository: BrandRepository;
+    private campaignRepository: CampaignRepository;
+    private calendarService: CalendarService;
+
+    constructor() {
+        this.calendarFeedRepository = new CalendarFeedRepository();
+        this.brandRepository = new BrandRepository();
+        this.campaignRepository = new CampaignRepository();
+        this.calendarService = new CalendarService();
+    }
+
+    /**
+     * Create a feed. Only the hash of its token is stored, so the token is returned once.
+     * @param baseUrl base of the returned feed URL (defaults to PUBLIC_BASE_URL)
+     */
+    async createFeed(params: CalendarFeedCreationParams, createdBy?: string, baseUrl?: string): Promise<IssuedCalendarFeed> {
+        if (params.brandId && !await this.brandRepository.findById(params.brandId)) {
+            throw new Error(`Brand with ID ${params.brandId} not found`);
+        }
+        if (params.campaignId && !await this.campaignRepository.findById(params.campaignId)) {
+            throw new Error(`Campaign with ID ${params.campaignId} not found`);
+        }
+
+        const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+        const feed = await this.calendarFeedRepository.create({
+            ...params,
+            tokenHash: hashSecret(token),
+            tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+            ...(createdBy && { createdBy })
+        });
+
+        return { feed: this.toSummary(feed), token, url: getCalendarFeedUrl(token, baseUrl) };
+    }
+
+    /**
+     * Revoke a feed; fetching it fails from then on
+     */
+    async revokeFeed(id: string): Promise<CalendarFeedSummary> {
+        const feed = await this.calendarFeedRepository.findById(id);
+        if (!feed) {
+            throw new Error(`Calendar feed with ID ${id} not found`);
+        }
+        if (feed.revokedAt) {
+            return this.toSummary(feed);
+        }
+
+        const revoked = await this.calendarFeedRepository.update(id, { revokedAt: new Date() });
+        return this.toSummary(revoked!);
+    }
+
+    async getFeed(id: string): Promise<CalendarFeedSummary | null> {
+        const feed = await this.calendarFeedRepository.findById(id);
+        return feed ? this.toSummary(feed) : null;
+    }
+
+    /**
+     * List feeds, optionally those of a brand or campaign
+     */
+    async listFeeds(filter: { brandId?: string; campaignId?: string } = {}): Promise<CalendarFeedSummary[]> {
+        const feeds = await this.calendarFeedRepository.find({
+            ...(filter.brandId && { brandId: filter.brandId }),
+            ...(filter.campaignId && { campaignId: filter.campaignId })
+        });
+        return feeds.map(feed => this.toSummary(feed));
+    }
+
+    /**
+     * Render the iCalendar document of the feed with a token
+     */
+    async renderFeed(token: string): Promise<string> {
+        const feed = await this.calendarFeedRepository.findByTokenHash(hashSecret(token));
+        if (!feed || feed.revokedAt) {
+            throw new Error("Calendar feed not found");
+        }
+        if (feed.brandId && !await this.brandRepository.findById(feed.brandId)) {
+            throw new Error(`Brand with ID ${feed.brandId} not found`);
+        }
+
+        const now = new Date();
+        const entries = await this.calendarService.getEntries({
+            start: addDays(now, -FEED_PAST_DAYS),
+            end: addDays(now, FEED_FUTURE_DAYS),
+            brandId: feed.brandId,
+            campaignId: feed.campaignId
+        });
+
+        await this.calendarFeedRepository.touch(feed._id!, now);
+
+        return renderICalendar({
+            name: feed.name,
+            refreshMinutes: FEED_REFRESH_MINUTES,
+            events: entries.map(entry => this.toEvent(entry))
+        }, now);
+    }
+
+    /**
+     * Calendar entry as an event. UIDs come from the entry keys, so reschedules and
+     * new versions update the event a client already has.
+     */
+    private toEvent(entry: CalendarEntry): ICalEvent {
+        const uid = `${entry.key}@${UID_DOMAIN}`;
+        switch (entry.type) {
+            case CalendarEntryType.Content:
+                return {
+                    uid,
+                    start: entry.date,
+                    durationMinutes: POST_DURATION_MINUTES,
+                    summary: `${entry.platform ? `[${entry.platform}] ` : ""}${entry.title}`,
+                    description: `Content (${entry.status})\nContent ID: ${entry.contentId}`,
+                    categories: ["Content", entry.status],
+                    lastModified: entry.updatedAt
+                };
+            case CalendarEntryType.TimelineEvent:
+                return {
+                    uid,
+                    start: entry.date,
+                    allDay: true,
+                    summary: `${entry.eventType ? `${entry.eventType}: ` : ""}${entry.title}`,
+                    description: `Plan timeline event (${entry.status})\nPlan ID: ${entry.planId}`,
+                    categories: ["Timeline event", entry.status],
+                    lastModified: entry.updatedAt
+                };
+            default:
+                return {
+                    uid,
+                    start: entry.date,
+                    allDay: true,
+                    summary: `Milestone: ${entry.title}`,
+                    description: `Campaign milestone (${entry.status})\nCampaign ID: ${entry.campaignId}`,
+                    categories: ["Milestone", entry.status],
+                    lastModified: entry.updatedAt
+                };
+        }
+    }
+
+    private toSummary(feed: CalendarFeed): CalendarFeedSummary {
+        const { tokenHash, ...summary } = feed;
+        return summary;
+    }
+}
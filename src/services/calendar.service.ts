@@ -0,0 +1,270 @@
+import { createHash } from "crypto";
+import { Campaign } from "../models/campaign.model.js";
+import { Content, ContentState } from "../models/content.model.js";
+import { MasterPlan, MicroPlan } from "../models/plan.model.js";
+import {
+    CalendarEntry,
+    CalendarEntryType,
+    CalendarGrouping,
+    CalendarPeriod,
+    ContentCalendar
+} from "../models/calendar.model.js";
+import { CampaignRepository } from "../repositories/campaign.repository.js";
+import { PlanRepository } from "../repositories/plan.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { ChannelRegistry } from "../channels/registry.js";
+import { BadRequestError } from "../utils/errors.js";
+
+// Longest date range a calendar can cover
+const MAX_CALENDAR_DAYS = 366;
+
+export interface CalendarOptions {
+    start: Date;
+    end: Date;
+    groupBy?: CalendarGrouping;
+    brandId?: string;
+    campaignId?: string;
+    // Content filters; milestones and timeline events have no platform or content state
+    platform?: string;
+    states?: ContentState[];
+    types?: CalendarEntryType[];
+    // Brands the caller may access (API keys limited to specific brands)
+    brandIds?: string[];
+}
+
+// Campaigns, plans and content a calendar is built from
+interface CalendarScope {
+    // Active versions of the campaigns
+    campaigns: Campaign[];
+    // The active version of each campaign by the ID of any of its versions
+    campaignByVersionId: Map<string, Campaign>;
+    masterPlans: MasterPlan[];
+    microPlans: MicroPlan[];
+    content: Content[];
+}
+
+/**
+ * Start of the UTC day or ISO week (Monday) containing a date
+ */
+function getPeriodStart(date: Date, groupBy: CalendarGrouping): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (groupBy === CalendarGrouping.Week) {
+        start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    }
+    return start;
+}
+
+function getNextPeriodStart(periodStart: Date, groupBy: CalendarGrouping): Date {
+    const next = new Date(periodStart);
+    next.setUTCDate(next.getUTCDate() + (groupBy === CalendarGrouping.Week ? 7 : 1));
+    return next;
+}
+
+/**
+ * Key of a milestone or timeline event. They have no IDs, so they are identified
+ * by their description within the campaign or plan, numbering repeated descriptions.
+ */
+function getEventKey(prefix: string, ownerId: string, description: string, seen: Map<string, number>): string {
+    const digest = createHash("sha1").update(description.trim().toLowerCase()).digest("hex").slice(0, 12);
+    const base = `${prefix}-${ownerId}-${digest}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base}-${count}` : base;
+}
+
+/**
+ * Builds the content calendar: scheduled and published content, master plan
+ * timeline events and campaign milestones within a date range
+ */
+export class CalendarService {
+    private campaignRepository: CampaignRepository;
+    private planRepository: PlanRepository;
+    private contentRepository: ContentRepository;
+
+    constructor() {
+        this.campaignRepository = new CampaignRepository();
+        this.planRepository = new PlanRepository();
+        this.contentRepository = new ContentRepository();
+    }
+
+    /**
+     * Get the calendar entries of a date range (inclusive), grouped by day or week
+     */
+    async getCalendar(options: CalendarOptions): Promise<ContentCalendar> {
+        const groupBy = options.groupBy || CalendarGrouping.Day;
+        const entries = await this.getEntries(options);
+
+        const periods: CalendarPeriod[] = [];
+        for (let start = getPeriodStart(options.start, groupBy);
+            start <= options.end;
+            start = getNextPeriodStart(start, groupBy)) {
+            const end = getNextPeriodStart(start, groupBy);
+            periods.push({
+                start,
+                end,
+                entries: entries.filter(entry => entry.date >= start && entry.date < end)
+            });
+        }
+
+        return {
+            start: options.start,
+            end: options.end,
+            groupBy,
+            entryCount: entries.length,
+            periods
+        };
+    }
+
+    /**
+     * Get the calendar entries of a date range (inclusive), oldest first
+     */
+    async getEntries(options: CalendarOptions): Promise<CalendarEntry[]> {
+        const { start, end } = options;
+        if (start > end) {
+            throw new BadRequestError("The start of the calendar must not be after its end");
+        }
+        if (end.getTime() - start.getTime() > MAX_CALENDAR_DAYS * 24 * 60 * 60 * 1000) {
+            throw new BadRequestError(`A calendar can cover at most ${MAX_CALENDAR_DAYS} days`);
+        }
+
+        const scope = await this.getScope(options);
+        const included = (type: CalendarEntryType) => !options.types || options.types.length === 0 || options.types.includes(type);
+        const inRange = (date?: Date): date is Date => !!date && date >= start && date <= end;
+
+        const campaignById = scope.campaignByVersionId;
+        const masterPlanById = new Map(scope.masterPlans.map(plan => [plan._id!, plan]));
+        const microPlanById = new Map(scope.microPlans.map(plan => [plan._id!, plan]));
+
+        const entries: CalendarEntry[] = [];
+
+        if (included(CalendarEntryType.Content)) {
+            const platform = options.platform && ChannelRegistry.normalize(options.platform);
+            for (const item of scope.content) {
+                // Published content is shown when it went out, the rest when it is due to
+                const date = item.state === ContentState.Published
+                    ? item.stateMetadata.publishedAt || item.stateMetadata.scheduledFor
+                    : item.stateMetadata.scheduledFor;
+                if (!inRange(date)) continue;
+                if (platform && (!item.platform || ChannelRegistry.normalize(item.platform) !== platform)) continue;
+
+                const masterPlan = item.microPlanId ? masterPlanById.get(microPlanById.get(item.microPlanId)?.masterPlanId || "") : undefined;
+                const campaign = masterPlan ? campaignById.get(masterPlan.campaignId) : undefined;
+                entries.push({
+                    type: CalendarEntryType.Content,
+                    key: `content-${item.rootContentId || item._id}`,
+                    date,
+                    title: item.title,
+                    status: item.state,
+                    brandId: campaign?.brandId || item.brandId,
+                    ...(campaign && { campaignId: campaign._id }),
+                    ...(item.microPlanId && { planId: item.microPlanId }),
+                    contentId: item._id,
+                    ...(item.platform && { platform: item.platform }),
+                    updatedAt: item.updated_at
+                });
+            }
+        }
+
+        if (included(CalendarEntryType.TimelineEvent)) {
+            for (const plan of scope.masterPlans) {
+                const campaign = campaignById.get(plan.campaignId);
+                const seen = new Map<string, number>();
+                for (const event of plan.timeline || []) {
+                    // Keyed before the range check, so keys don't depend on the range
+                    const key = getEventKey("timeline", plan.rootPlanId || plan._id!, `${event.type}:${event.description}`, seen);
+                    if (!inRange(event.date)) continue;
+                    entries.push({
+                        type: CalendarEntryType.TimelineEvent,
+                        key,
+                        date: event.date,
+                        title: event.description,
+                        status: event.status,
+                        brandId: campaign?.brandId,
+                        campaignId: campaign?._id || plan.campaignId,
+                        planId: plan._id,
+                        eventType: event.type,
+                        updatedAt: plan.updated_at
+                    });
+                }
+            }
+        }
+
+        if (included(CalendarEntryType.Milestone)) {
+            for (const campaign of scope.campaigns) {
+                const seen = new Map<string, number>();
+                for (const milestone of campaign.majorMilestones) {
+                    const key = getEventKey("milestone", campaign.rootCampaignId || campaign._id!, milestone.description, seen);
+                    if (!inRange(milestone.date)) continue;
+                    entries.push({
+                        type: CalendarEntryType.Milestone,
+                        key,
+                        date: milestone.date,
+                        title: milestone.description,
+                        status: milestone.status,
+                        brandId: campaign.brandId,
+                        campaignId: campaign._id,
+                        updatedAt: campaign.updated_at
+                    });
+                }
+            }
+        }
+
+        return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
+    /**
+     * Load the campaigns and plans of the brand or campaign the calendar is for (all
+     * when neither is given) and their content within the date range. Campaigns are
+     * loaded in their active version, with the plans of all their versions.
+     */
+    private async getScope(options: CalendarOptions): Promise<CalendarScope> {
+        let brandIds = options.brandIds;
+        if (options.brandId) {
+            brandIds = brandIds ? brandIds.filter(brandId => brandId === options.brandId) : [options.brandId];
+        }
+
+        let campaigns: Campaign[];
+        if (options.campaignId) {
+            const version = await this.campaignRepository.findById(options.campaignId);
+            const campaign = version && !version.isActive
+                ? await this.campaignRepository.findActiveVersionByRoot(version.rootCampaignId || version._id!)
+                : version;
+            if (!campaign) {
+                throw new Error(`Campaign with ID ${options.campaignId} not found`);
+            }
+            campaigns = !brandIds || brandIds.includes(campaign.brandId) ? [campaign] : [];
+        } else {
+            campaigns = brandIds
+                ? await this.campaignRepository.findByBrandIds(brandIds)
+                : await this.campaignRepository.find({});
+        }
+
+        // Plans keep the ID of the campaign version they were created for
+        const campaignByRootId = new Map(campaigns.map(campaign => [campaign.rootCampaignId || campaign._id!, campaign]));
+        const campaignByVersionId = new Map<string, Campaign>();
+        const versions = campaigns.length > 0
+            ? await this.campaignRepository.findAllVersionsByRoots([...campaignByRootId.keys()])
+            : [];
+        for (const version of versions) {
+            campaignByVersionId.set(version._id!, campaignByRootId.get(version.rootCampaignId || version._id!)!);
+        }
+
+        const masterPlans = campaignByVersionId.size > 0
+            ? await this.planRepository.findMasterPlansByCampaignIds([...campaignByVersionId.keys()])
+            : [];
+        const microPlans = masterPlans.length > 0
+            ? await this.planRepository.findMicroPlansByMasterIds(masterPlans.map(plan => plan._id!))
+            : [];
+
+        // Unscoped calendars include content that belongs to no campaign; campaign
+        // calendars leave out standalone content of the campaign's brand
+        const scoped = !!options.campaignId || !!brandIds;
+        const content = await this.contentRepository.findInDateRange(options.start, options.end, {
+            ...(scoped && { microPlanIds: microPlans.map(plan => plan._id!) }),
+            ...(scoped && !options.campaignId && { brandIds }),
+            states: options.states
+        });
+
+        return { campaigns, campaignByVersionId, masterPlans, microPlans, content };
+    }
+}
@@ -3,6 +3,8 @@ import { CampaignRepository } from "../repositories/campaign.repository.js";
 import { BrandRepository } from "../repositories/brand.repository.js";
 import { deepMerge, deepMergeArrays } from "../utils/merge.js";
 import { Brand } from "../models/brand.model.js";
+import { DeletableEntity, DeleteMode, DeletionResult } from "../models/integrity.model.js";
+import { DeletionService } from "./deletion.service.js";
 
 export interface StateTransitionMetadata {
   userId: string;
@@ -12,10 +14,12 @@ export interface StateTransitionMetadata {
 export class CampaignService {
   private campaignRepository: CampaignRepository;
   private brandRepository: BrandRepository;
+  private deletionService: DeletionService;
 
   constructor() {
     this.campaignRepository = new CampaignRepository();
     this.brandRepository = new BrandRepository();
+    this.deletionService = new DeletionService();
   }
 
   /**
@@ -351,10 +355,10 @@ export class CampaignService {
   }
 
   /**
-   * Delete campaign
+   * Delete campaign with all its versions. By default the campaign is moved to the trash with its plans and content.
    */
-  async deleteCampaign(id: string): Promise<boolean> {
-    return await this.campaignRepository.delete(id);
+  async deleteCampaign(id: string, mode: DeleteMode = DeleteMode.Soft): Promise<DeletionResult> {
+    return await this.deletionService.delete(DeletableEntity.Campaign, id, mode);
   }
 
   /**
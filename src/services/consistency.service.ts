@@ -0,0 +1,149 @@
+import { ConsistencyReport, OrphanedReference } from "../models/integrity.model.js";
+import { PlanType } from "../models/plan.model.js";
+import { BrandRepository } from "../repositories/brand.repository.js";
+import { CampaignRepository } from "../repositories/campaign.repository.js";
+import { PlanRepository } from "../repositories/plan.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { MediaRepository } from "../repositories/media.repository.js";
+import { CredentialRepository } from "../repositories/credential.repository.js";
+import { ContentMetricsRepository } from "../repositories/content-metrics.repository.js";
+import { PublishAttemptRepository } from "../repositories/publish-attempt.repository.js";
+import { ReviewDecisionRepository } from "../repositories/review-decision.repository.js";
+
+interface ReferencingDocument {
+    _id?: string;
+    deletedAt?: Date;
+    [field: string]: any;
+}
+
+/**
+ * Finds documents referencing brands, campaigns, plans or content that no longer exist,
+ * e.g. left behind by deletes made before deletion checked for dependents.
+ */
+export class ConsistencyService {
+    private brandRepository: BrandRepository;
+    private campaignRepository: CampaignRepository;
+    private planRepository: PlanRepository;
+    private contentRepository: ContentRepository;
+    private mediaRepository: MediaRepository;
+    private credentialRepository: CredentialRepository;
+    private metricsRepository: ContentMetricsRepository;
+    private publishAttemptRepository: PublishAttemptRepository;
+    private reviewDecisionRepository: ReviewDecisionRepository;
+
+    constructor() {
+        this.brandRepository = new BrandRepository();
+        this.campaignRepository = new CampaignRepository();
+        this.planRepository = new PlanRepository();
+        this.contentRepository = new ContentRepository();
+        this.mediaRepository = new MediaRepository();
+        this.credentialRepository = new CredentialRepository();
+        this.metricsRepository = new ContentMetricsRepository();
+        this.publishAttemptRepository = new PublishAttemptRepository();
+        this.reviewDecisionRepository = new ReviewDecisionRepository();
+    }
+
+    /**
+     * Check every reference between brands, campaigns, plans, content, media, content history
+     * (metrics, publish attempts and review decisions) and channel credentials.
+     * A reference is broken when the referenced document doesn't exist, or when a live document
+     * references a soft-deleted one. Soft-deleted documents referencing soft-deleted ones are consistent.
+     */
+    async check(): Promise<ConsistencyReport> {
+        const deleted = { deletedAt: { $ne: null } };
+
+        const brands = [...await this.brandRepository.find({}), ...await this.brandRepository.find(deleted)];
+        const campaigns = [...await this.campaignRepository.find({}, false), ...await this.campaignRepository.find(deleted, false)];
+        const plans = [...await this.planRepository.find({}, false), ...await this.planRepository.find(deleted, false)];
+        const content = [...await this.contentRepository.find({}, false), ...await this.contentRepository.find(deleted, false)];
+
+        const masterPlans = plans.filter(plan => plan.type === PlanType.Master);
+        const microPlans = plans.filter(plan => plan.type === PlanType.Micro);
+
+        const orphans = [
+            ...this.findOrphans("campaigns", campaigns, "brandId", this.indexById(brands)),
+            ...this.findOrphans("plans", masterPlans, "campaignId", this.indexById(campaigns)),
+            ...this.findOrphans("plans", microPlans, "masterPlanId", this.indexById(masterPlans)),
+            ...this.findOrphans("contents", content, "microPlanId", this.indexById(microPlans)),
+            // The brand of content in a plan follows from the plan, so only standalone content is checked
+            ...this.findOrphans("contents", content.filter(item => !item.microPlanId), "brandId", this.indexById(brands)),
+            // Media and credentials are kept while their content or brand is soft deleted
+            ...this.findOrphans("media_assets", await this.mediaRepository.find({}), "contentId", this.indexById(content), false),
+            ...this.findOrphans("channel_credentials", await this.credentialRepository.find({}), "brandId", this.indexById(brands), false),
+            // Content history references the root content, kept while the content is soft deleted
+            ...await this.findHistoryOrphans("content_metrics", this.metricsRepository, "contentId",
+                this.metricsRepository.findContentIds(), this.indexById(content)),
+            ...await this.findHistoryOrphans("publish_attempts", this.publishAttemptRepository, "rootContentId",
+                this.publishAttemptRepository.findRootContentIds(), this.indexById(content)),
+            ...await this.findHistoryOrphans("review_decisions", this.reviewDecisionRepository, "rootContentId",
+                this.reviewDecisionRepository.findRootContentIds(), this.indexById(content))
+        ];
+
+        return {
+            consistent: orphans.length === 0,
+            orphanCount: orphans.length,
+            orphans,
+            checkedAt: new Date()
+        };
+    }
+
+    /**
+     * Index documents by ID, mapping each ID to whether the document is soft deleted
+     */
+    private indexById(documents: ReferencingDocument[]): Map<string, boolean> {
+        return new Map(documents.map(document => [document._id!, !!document.deletedAt]));
+    }
+
+    /**
+     * Orphans in a history collection. Histories can be large, so only the documents
+     * referencing missing content are loaded.
+     */
+    private async findHistoryOrphans(
+        collection: string,
+        repository: { find(query: any): Promise<ReferencingDocument[]> },
+        field: string,
+        referencedIds: Promise<string[]>,
+        referenced: Map<string, boolean>
+    ): Promise<OrphanedReference[]> {
+        const missing = (await referencedIds).filter(id => !referenced.has(id));
+        if (missing.length === 0) return [];
+
+        return this.findOrphans(collection, await repository.find({ [field]: { $in: missing } }), field, referenced, false);
+    }
+
+    private findOrphans(
+        collection: string,
+        documents: ReferencingDocument[],
+        field: string,
+        referenced: Map<string, boolean>,
+        softDeletable: boolean = true
+    ): OrphanedReference[] {
+        const orphans: OrphanedReference[] = [];
+
+        for (const document of documents) {
+            const referencedId = document[field];
+            if (!referencedId) continue;
+
+            const referencedDeleted = referenced.get(referencedId);
+            if (referencedDeleted === undefined) {
+                orphans.push(this.toOrphan(collection, document, field, "missing"));
+            } else if (referencedDeleted && softDeletable && !document.deletedAt) {
+                orphans.push(this.toOrphan(collection, document, field, "deleted"));
+            }
+        }
+
+        return orphans;
+    }
+
+    private toOrphan(collection: string, document: ReferencingDocument, field: string, problem: OrphanedReference["problem"]): OrphanedReference {
+        const name = document.name || document.title || document.fileName;
+        return {
+            collection,
+            entityId: document._id!,
+            ...(name && { name }),
+            field,
+            referencedId: document[field],
+            problem
+        };
+    }
+}
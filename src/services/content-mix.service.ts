@@ -0,0 +1,222 @@
+import { Campaign } from "../models/campaign.model.js";
+import { Content, ContentState } from "../models/content.model.js";
+import { MasterPlan } from "../models/plan.model.js";
+import { ShareComparison } from "../models/report.model.js";
+import { ContentMixCompliance, DriftStatus, ShareDrift } from "../models/content-mix.model.js";
+import { CampaignRepository } from "../repositories/campaign.repository.js";
+import { PlanRepository } from "../repositories/plan.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { ChannelRegistry, getDefaultChannelName } from "../channels/registry.js";
+
+export const UNCATEGORIZED = "Uncategorized";
+
+// Percentage points the actual share may differ from the plan by
+const DEFAULT_TOLERANCE_PERCENT = 5;
+
+function normalize(value?: string): string {
+    return (value || "").trim().toLowerCase();
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compares campaign content with the campaign content mix and the master plan
+ * channel distributions
+ */
+export class ContentMixService {
+    private campaignRepository: CampaignRepository;
+    private planRepository: PlanRepository;
+    private contentRepository: ContentRepository;
+
+    constructor() {
+        this.campaignRepository = new CampaignRepository();
+        this.planRepository = new PlanRepository();
+        this.contentRepository = new ContentRepository();
+    }
+
+    /**
+     * Check the existing and scheduled content of a campaign against its
+     * content mix ratios and channel distribution, and report the drift.
+     * Content that failed to publish is not counted.
+     */
+    async checkCampaignCompliance(campaignId: string, tolerancePercent: number = DEFAULT_TOLERANCE_PERCENT): Promise<ContentMixCompliance> {
+        const campaign = await this.campaignRepository.findById(campaignId);
+        if (!campaign) {
+            throw new Error(`Campaign with ID ${campaignId} not found`);
+        }
+
+        const masterPlans = await this.planRepository.findMasterPlansByCampaignId(campaign._id!);
+        const microPlans = (await Promise.all(
+            masterPlans.map(masterPlan => this.planRepository.findMicroPlansByMasterId(masterPlan._id!))
+        )).flat();
+        const content = (await Promise.all(
+            microPlans.map(microPlan => this.contentRepository.findByMicroPlanId(microPlan._id!))
+        )).flat().filter(item => item.state !== ContentState.Failed);
+
+        const mix = campaign.contentMix || [];
+        const categories = this.getContentMix(campaign, content).map(share => {
+            const entry = mix.find(item => item.category === share.name);
+            return this.getDrift(share, content.length, tolerancePercent, "category", entry?.platforms);
+        });
+        const channels = this.getChannelDistribution(masterPlans, content)
+            .map(share => this.getDrift(share, content.length, tolerancePercent, "channel"));
+
+        const drifting = [...categories, ...channels].filter(drift => drift.status !== DriftStatus.OnTarget);
+        const summary = drifting.map(drift => drift.message);
+        if (mix.length === 0) {
+            summary.unshift("The campaign has no content mix, so content categories can't be checked");
+        }
+        if (!masterPlans.some(masterPlan => masterPlan.contentStrategy?.distribution)) {
+            summary.unshift("No master plan has a channel distribution, so channels can't be checked");
+        }
+
+        return {
+            campaignId: campaign._id!,
+            name: campaign.name,
+            contentCount: content.length,
+            tolerancePercent,
+            compliant: drifting.length === 0,
+            categories,
+            channels,
+            summary,
+            generatedAt: new Date()
+        };
+    }
+
+    /**
+     * Content mix category of a content item: its own category when it has one,
+     * otherwise matched by its platform and format, then by format alone, then by
+     * a category named after the format. Categories sharing a platform and format
+     * can only be told apart by the content's category.
+     */
+    classifyContent(content: Content, mix: NonNullable<Campaign["contentMix"]>): string {
+        if (content.category?.trim()) {
+            const category = normalize(content.category);
+            return mix.find(entry => normalize(entry.category) === category)?.category || content.category.trim();
+        }
+
+        const platform = normalize(content.platform);
+        const format = normalize(content.format);
+        return (
+            mix.find(entry => entry.platforms.some(target =>
+                normalize(target.name) === platform && normalize(target.format) === format)) ||
+            mix.find(entry => entry.platforms.some(target => normalize(target.format) === format)) ||
+            mix.find(entry => normalize(entry.category) === format)
+        )?.category || UNCATEGORIZED;
+    }
+
+    /**
+     * Share of content per content mix category, compared with the planned ratio
+     */
+    getContentMix(campaign: Campaign, content: Content[]): ShareComparison[] {
+        const mix = campaign.contentMix || [];
+        const counts = new Map<string, number>(mix.map(entry => [entry.category, 0]));
+
+        for (const item of content) {
+            const category = this.classifyContent(item, mix);
+            counts.set(category, (counts.get(category) || 0) + 1);
+        }
+
+        return [...counts.entries()].map(([name, count]) => {
+            const planned = mix.find(entry => entry.category === name);
+            return {
+                name,
+                count,
+                actualPercent: content.length > 0 ? round(count / content.length * 100) : 0,
+                plannedPercent: planned ? round(planned.ratio * 100) : null
+            };
+        });
+    }
+
+    /**
+     * Share of content per channel, compared with the master plan distributions.
+     * Each distribution is scaled to 100% and the master plans are averaged.
+     */
+    getChannelDistribution(masterPlans: MasterPlan[], content: Content[]): ShareComparison[] {
+        const planned = new Map<string, { name: string; percent: number }>();
+        const distributions = masterPlans
+            .map(masterPlan => masterPlan.contentStrategy?.distribution)
+            .filter((distribution): distribution is Record<string, number> =>
+                !!distribution && Object.values(distribution).some(value => value > 0));
+
+        for (const distribution of distributions) {
+            const sum = Object.values(distribution).reduce((total, value) => total + value, 0);
+            for (const [channel, value] of Object.entries(distribution)) {
+                const key = ChannelRegistry.normalize(channel);
+                const entry = planned.get(key) || { name: channel, percent: 0 };
+                entry.percent += value / sum * 100 / distributions.length;
+                planned.set(key, entry);
+            }
+        }
+
+        const counts = new Map<string, { name: string; count: number }>(
+            [...planned.entries()].map(([key, entry]) => [key, { name: entry.name, count: 0 }])
+        );
+        for (const item of content) {
+            const platform = item.platform || getDefaultChannelName();
+            const key = ChannelRegistry.normalize(platform);
+            const entry = counts.get(key) || { name: platform, count: 0 };
+            entry.count++;
+            counts.set(key, entry);
+        }
+
+        return [...counts.entries()].map(([key, { name, count }]) => ({
+            name,
+            count,
+            actualPercent: content.length > 0 ? round(count / content.length * 100) : 0,
+            plannedPercent: planned.has(key) ? round(planned.get(key)!.percent) : null
+        }));
+    }
+
+    private getDrift(
+        share: ShareComparison,
+        total: number,
+        tolerancePercent: number,
+        kind: "category" | "channel",
+        formats?: { name: string; format: string }[]
+    ): ShareDrift {
+        const label = kind === "category" ? share.name : `Channel ${share.name}`;
+
+        if (share.plannedPercent === null) {
+            return {
+                ...share,
+                driftPercent: share.actualPercent,
+                status: DriftStatus.Unplanned,
+                suggestedAdditional: 0,
+                message: kind === "category"
+                    ? `${share.count} content item(s) have a category that isn't in the content mix or, without one, match no category by platform and format`
+                    : `${label} is ${share.actualPercent}% of content but is not in the planned distribution`
+            };
+        }
+
+        const driftPercent = round(share.actualPercent - share.plannedPercent);
+        const status = Math.abs(driftPercent) <= tolerancePercent
+            ? DriftStatus.OnTarget
+            : driftPercent < 0 ? DriftStatus.Under : DriftStatus.Over;
+
+        // Pieces to add so that (count + n) / (total + n) reaches the planned share
+        const planned = share.plannedPercent / 100;
+        const suggestedAdditional = status === DriftStatus.Under && planned < 1
+            ? Math.max(Math.ceil((planned * total - share.count) / (1 - planned)), 0)
+            : 0;
+
+        let message = `${label} is ${share.actualPercent}% vs ${share.plannedPercent}% planned`;
+        if (status === DriftStatus.OnTarget) {
+            message += " (on target)";
+        } else if (suggestedAdditional > 0) {
+            message += `; create ${suggestedAdditional} more to catch up` +
+                (formats && formats.length > 0 ? ` (${formats.map(target => `${target.name} ${target.format}`).join(", ")})` : "");
+        }
+
+        return {
+            ...share,
+            driftPercent,
+            status,
+            suggestedAdditional,
+            ...(formats && { formats }),
+            message
+        };
+    }
+}
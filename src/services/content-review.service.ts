@@ -0,0 +1,223 @@
+import { Content, ContentState } from "../models/content.model.js";
+import { ValidationSeverity } from "../models/content-validation.model.js";
+import { ContentReviewStatus, ReviewAction, ReviewDecision, ReviewerRole } from "../models/review.model.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { ReviewDecisionRepository } from "../repositories/review-decision.repository.js";
+import { ContentService } from "./content.service.js";
+import { BadRequestError, ConflictError, ForbiddenError } from "../utils/errors.js";
+
+export interface ReviewSubmissionOptions {
+    reviewers?: string[];
+    requireSignOff?: boolean;
+    comments?: string;
+}
+
+export interface ReviewOutcome {
+    content: Content;
+    status: ContentReviewStatus;
+}
+
+/**
+ * Review workflow of content: submission, reviewer approvals and sign-offs, and
+ * rejection back to draft. Every step is recorded as a review decision.
+ */
+export class ContentReviewService {
+    private contentService: ContentService;
+    private contentRepository: ContentRepository;
+    private reviewDecisionRepository: ReviewDecisionRepository;
+
+    constructor(contentService: ContentService = new ContentService()) {
+        this.contentService = contentService;
+        this.contentRepository = new ContentRepository();
+        this.reviewDecisionRepository = new ReviewDecisionRepository();
+    }
+
+    /**
+     * Submit draft content for review. Reviewers default to the brand's reviewers and
+     * can be narrowed to some of them, and sign-off is required when the brand's
+     * sign-off rules match the content.
+     */
+    async submitForReview(contentId: string, userId: string, options: ReviewSubmissionOptions = {}): Promise<ReviewOutcome> {
+        const content = await this.getContent(contentId);
+        if (content.state !== ContentState.Draft) {
+            throw new BadRequestError(`Only draft content can be submitted for review (content is ${content.state})`);
+        }
+
+        // Content that can't become ready isn't worth reviewing
+        const report = await this.contentService.validateContent(content);
+        if (!report.valid) {
+            throw new BadRequestError(
+                `Content does not meet the brand guidelines: ${report.issues.filter(issue => issue.severity === ValidationSeverity.Error).map(issue => issue.message).join("; ")}`,
+                { validation: report }
+            );
+        }
+
+        const requirement = await this.contentService.getReviewRequirement(content);
+        const reviewers = this.selectReviewers(requirement.reviewers, options.reviewers);
+        const signOffRequired = requirement.signOffRequired || !!options.requireSignOff;
+        if (signOffRequired && requirement.signOffReviewers.length === 0) {
+            throw new BadRequestError("The brand has no sign-off reviewers configured");
+        }
+
+        // Submitting for review always takes at least one approval
+        const requiredApprovals = Math.max(requirement.requiredApprovals, 1);
+        const eligible = new Set([...reviewers, ...requirement.signOffReviewers]);
+        eligible.delete(userId);
+        if ((reviewers.length > 0 || requirement.signOffReviewers.length > 0) && eligible.size < requiredApprovals) {
+            throw new BadRequestError(
+                `The content needs ${requiredApprovals} approval(s) but only ${eligible.size} reviewer(s) other than the submitter are assigned`
+            );
+        }
+
+        await this.contentService.transitionContentState(contentId, ContentState.InReview, {
+            userId,
+            comments: options.comments
+        });
+
+        const round = (content.review?.round || 0) + 1;
+        const updated = await this.contentRepository.update(contentId, {
+            review: {
+                round,
+                submittedBy: userId,
+                submittedAt: new Date(),
+                reviewers,
+                requiredApprovals,
+                signOffRequired,
+                signOffReviewers: requirement.signOffReviewers
+            }
+        });
+
+        await this.recordDecision(updated!, ReviewAction.Submitted, userId, { comments: options.comments });
+
+        return { content: updated!, status: await this.contentService.getReviewStatus(updated!) };
+    }
+
+    /**
+     * Approve content in review. The content becomes ready once it has the required
+     * approvals and, when needed, a sign-off.
+     */
+    async approve(contentId: string, reviewerId: string, comments?: string): Promise<ReviewOutcome> {
+        const content = await this.getContentInReview(contentId);
+        const role = await this.checkReviewer(content, reviewerId);
+
+        await this.recordDecision(content, ReviewAction.Approved, reviewerId, { role, comments });
+
+        const status = await this.contentService.getReviewStatus(content);
+        if (!status.complete) {
+            return { content, status };
+        }
+
+        const ready = await this.contentService.transitionContentState(contentId, ContentState.Ready, {
+            userId: reviewerId,
+            comments: comments || `Approved by ${status.approvedBy.join(", ")}`
+        });
+        return { content: ready!, status: await this.contentService.getReviewStatus(ready!) };
+    }
+
+    /**
+     * Reject content in review, sending it back to draft with the reason
+     */
+    async reject(contentId: string, reviewerId: string, reason: string, comments?: string): Promise<ReviewOutcome> {
+        if (!reason.trim()) {
+            throw new BadRequestError("A reason is required to reject content");
+        }
+
+        const content = await this.getContentInReview(contentId);
+        const role = await this.checkReviewer(content, reviewerId);
+
+        await this.recordDecision(content, ReviewAction.Rejected, reviewerId, { role, reason, comments });
+
+        const draft = await this.contentService.transitionContentState(contentId, ContentState.Draft, {
+            userId: reviewerId,
+            comments: `Rejected by ${reviewerId}: ${reason}`
+        });
+        return { content: draft!, status: await this.contentService.getReviewStatus(draft!) };
+    }
+
+    /**
+     * Get every review decision of a content item across all review rounds and versions
+     */
+    async getReviewHistory(contentId: string): Promise<ReviewDecision[]> {
+        const content = await this.getContent(contentId);
+        return await this.reviewDecisionRepository.findByRootContentId(content.rootContentId || content._id!);
+    }
+
+    /**
+     * Reviewers of a submission: the brand's reviewers, or the requested subset of them.
+     * Brands without reviewers let the submitter pick anyone.
+     */
+    private selectReviewers(brandReviewers: string[], requested?: string[]): string[] {
+        if (!requested) return brandReviewers;
+        if (brandReviewers.length === 0) return requested;
+
+        if (requested.length === 0) {
+            throw new BadRequestError(`Content must be reviewed by the brand's reviewers (${brandReviewers.join(", ")})`);
+        }
+        const unknown = requested.filter(userId => !brandReviewers.includes(userId));
+        if (unknown.length > 0) {
+            throw new BadRequestError(`Not reviewers of the brand: ${unknown.join(", ")}`);
+        }
+        return [...new Set(requested)];
+    }
+
+    private async getContent(contentId: string): Promise<Content> {
+        const content = await this.contentRepository.findById(contentId);
+        if (!content) {
+            throw new Error(`Content with ID ${contentId} not found`);
+        }
+        return content;
+    }
+
+    private async getContentInReview(contentId: string): Promise<Content> {
+        const content = await this.getContent(contentId);
+        if (content.state !== ContentState.InReview || !content.review) {
+            throw new BadRequestError(`Content is not in review (content is ${content.state})`);
+        }
+        return content;
+    }
+
+    /**
+     * Check that a user may review content in its current round
+     * @returns the capacity the user reviews in
+     */
+    private async checkReviewer(content: Content, reviewerId: string): Promise<ReviewerRole> {
+        const review = content.review!;
+        if (reviewerId === review.submittedBy) {
+            throw new ForbiddenError("Content can't be reviewed by the user who submitted it");
+        }
+
+        const signOff = review.signOffReviewers.includes(reviewerId);
+        if (!signOff && review.reviewers.length > 0 && !review.reviewers.includes(reviewerId)) {
+            throw new ForbiddenError(`User ${reviewerId} is not a reviewer of this content`);
+        }
+
+        const decisions = await this.reviewDecisionRepository.findByRootContentId(
+            content.rootContentId || content._id!,
+            review.round
+        );
+        if (decisions.some(decision => decision.userId === reviewerId && decision.action !== ReviewAction.Submitted)) {
+            throw new ConflictError(`User ${reviewerId} has already reviewed this content`);
+        }
+
+        return signOff ? ReviewerRole.SignOff : ReviewerRole.Reviewer;
+    }
+
+    private async recordDecision(
+        content: Content,
+        action: ReviewAction,
+        userId: string,
+        details: { role?: ReviewerRole; comments?: string; reason?: string }
+    ): Promise<ReviewDecision> {
+        return await this.reviewDecisionRepository.create({
+            contentId: content._id!,
+            rootContentId: content.rootContentId || content._id!,
+            round: content.review!.round,
+            action,
+            userId,
+            ...(details.role && { role: details.role }),
+            ...(details.comments && { comments: details.comments }),
+            ...(details.reason && { reason: details.reason }),
+            decidedAt: new Date()
+        });
+    }
+}
@@ -0,0 +1,365 @@
+import { Content } from "../models/content.model.js";
+import { BrandGuidelines, ContentRules } from "../models/brand.model.js";
+import {
+    ContentValidationReport,
+    ValidationIssue,
+    ValidationRule,
+    ValidationSeverity
+} from "../models/content-validation.model.js";
+import { ChannelRegistry, getChannelRegistry, getDefaultChannelName } from "../channels/registry.js";
+
+// Character limits of platforms the brand sets no limit for. Twitter is left to its
+// channel adapter, which splits long content into threads.
+const DEFAULT_PLATFORM_LENGTH_LIMITS: Record<string, number> = {
+    linkedin: 3000,
+    instagram: 2200,
+    facebook: 63206,
+    threads: 500,
+    mastodon: 500,
+    bluesky: 300
+};
+
+const DEFAULT_SEVERITIES: Record<ValidationRule, ValidationSeverity> = {
+    [ValidationRule.AvoidedTerms]: ValidationSeverity.Error,
+    [ValidationRule.RequiredTerms]: ValidationSeverity.Error,
+    [ValidationRule.Vocabulary]: ValidationSeverity.Warning,
+    [ValidationRule.Length]: ValidationSeverity.Error,
+    [ValidationRule.Hashtags]: ValidationSeverity.Warning,
+    [ValidationRule.Mentions]: ValidationSeverity.Warning,
+    [ValidationRule.Links]: ValidationSeverity.Error,
+    [ValidationRule.Tone]: ValidationSeverity.Warning,
+    [ValidationRule.Channel]: ValidationSeverity.Error
+};
+
+const SLANG = ["gonna", "wanna", "gotta", "kinda", "sorta", "lol", "omg", "btw", "tbh", "idk", "ya", "yeah", "dude", "awesome"];
+const NEGATIVE_WORDS = ["hate", "terrible", "awful", "worst", "horrible", "fail", "bad", "never", "impossible", "disaster", "useless"];
+const SECOND_PERSON = ["you", "your", "you're", "yours", "yourself"];
+
+interface TextStats {
+    words: string[];
+    sentenceCount: number;
+    exclamations: number;
+    capsWords: string[];
+    emojis: number;
+}
+
+// Heuristics for tone descriptors, matched against the brand tone by keyword
+const TONE_CHECKS: { tones: string[]; check: (stats: TextStats) => string | null }[] = [
+    {
+        tones: ["professional", "formal", "corporate", "authoritative", "serious"],
+        check: stats => stats.exclamations > 1 ? `content has ${stats.exclamations} exclamation marks` : null
+    },
+    {
+        tones: ["professional", "formal", "corporate", "authoritative", "serious"],
+        check: stats => stats.capsWords.length > 0 ? `content has words in all caps (${stats.capsWords.join(", ")})` : null
+    },
+    {
+        tones: ["professional", "formal", "corporate", "authoritative"],
+        check: stats => {
+            const slang = stats.words.filter(word => SLANG.includes(word));
+            return slang.length > 0 ? `content uses slang (${[...new Set(slang)].join(", ")})` : null;
+        }
+    },
+    {
+        tones: ["professional", "formal", "corporate", "serious"],
+        check: stats => stats.emojis > 3 ? `content has ${stats.emojis} emojis` : null
+    },
+    {
+        tones: ["conversational", "friendly", "casual", "approachable", "personal", "warm"],
+        check: stats => stats.words.length > 0 && !stats.words.some(word => SECOND_PERSON.includes(word))
+            ? "content doesn't address the reader directly (you, your)"
+            : null
+    },
+    {
+        tones: ["conversational", "casual", "concise", "clear", "direct", "simple"],
+        check: stats => {
+            const average = stats.words.length / Math.max(stats.sentenceCount, 1);
+            return average > 25 ? `sentences average ${Math.round(average)} words` : null;
+        }
+    },
+    {
+        tones: ["positive", "optimistic", "inspiring", "uplifting", "encouraging"],
+        check: stats => {
+            const negative = stats.words.filter(word => NEGATIVE_WORDS.includes(word));
+            return negative.length > 0 ? `content uses negative words (${[...new Set(negative)].join(", ")})` : null;
+        }
+    }
+];
+
+/**
+ * Reduce a word to a crude stem so inflected forms match (e.g. "scams",
+ * "scammed" and "scamming" all stem to "scam")
+ */
+export function stem(word: string): string {
+    let result = word.toLowerCase().replace(/'s?$/, "");
+    if (result.length <= 3) return result;
+
+    if (result.endsWith("ies")) {
+        result = result.slice(0, -3) + "y";
+    } else if (/(ss|x|ch|sh)es$/.test(result)) {
+        result = result.slice(0, -2);
+    } else if (result.endsWith("s") && !/(ss|us|is)$/.test(result)) {
+        result = result.slice(0, -1);
+    }
+
+    if (/(ing|ed)$/.test(result) && result.length > 5) {
+        result = result.replace(/(ing|ed)$/, "");
+        // "running" -> "runn" -> "run"
+        if (/([^aeiouls])\1$/.test(result)) {
+            result = result.slice(0, -1);
+        }
+    } else if (result.endsWith("ly") && result.length > 5) {
+        result = result.slice(0, -2);
+    }
+
+    if (result.endsWith("e") && result.length > 3) {
+        result = result.slice(0, -1);
+    }
+    return result;
+}
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) || [];
+}
+
+function extractHashtags(text: string): string[] {
+    return [...text.matchAll(/#([\p{L}\p{N}_]+)/gu)].map(match => match[1]);
+}
+
+function extractMentions(text: string): string[] {
+    return [...text.matchAll(/(?<![\w@])@([A-Za-z0-9_]{1,50})/g)].map(match => match[1]);
+}
+
+function extractLinks(text: string): string[] {
+    return text.match(/\bhttps?:\/\/[^\s<>"')]+|\bwww\.[^\s<>"')]+/gi) || [];
+}
+
+function getHostname(link: string): string | null {
+    try {
+        return new URL(/^https?:\/\//i.test(link) ? link : `https://${link}`).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+    const normalized = domain.trim().toLowerCase().replace(/^www\./, "");
+    return hostname === normalized || hostname.endsWith(`.${normalized}`) || hostname === `www.${normalized}`;
+}
+
+function stripPrefix(value: string, prefix: string): string {
+    return value.trim().replace(new RegExp(`^\\${prefix}`), "").toLowerCase();
+}
+
+/**
+ * Checks content against the guidelines of its brand: avoided and required terms,
+ * vocabulary usage, platform length limits, hashtag and mention rules, link
+ * policy, tone and the publishing channel's own constraints
+ */
+export class ContentValidationService {
+    private channelRegistry: ChannelRegistry;
+
+    constructor(channelRegistry: ChannelRegistry = getChannelRegistry()) {
+        this.channelRegistry = channelRegistry;
+    }
+
+    /**
+     * Validate a content item against brand guidelines. Content is valid when
+     * no issue has error severity.
+     */
+    validate(content: Pick<Content, "_id" | "content" | "platform">, guidelines?: BrandGuidelines): ContentValidationReport {
+        const rules = guidelines?.contentRules || {};
+        const platform = content.platform?.trim() ? content.platform : getDefaultChannelName();
+        const text = content.content;
+        const stems = tokenize(text).map(stem);
+
+        const issues: ValidationIssue[] = [];
+        const report = (rule: ValidationRule, message: string, matches?: string[], severity?: ValidationSeverity) => {
+            const configured = rules.severities?.[rule];
+            if (configured === "off") return;
+            issues.push({
+                rule,
+                severity: (configured as ValidationSeverity | undefined) || severity || DEFAULT_SEVERITIES[rule],
+                message,
+                ...(matches && { matches })
+            });
+        };
+
+        // Terms
+        const avoided = (guidelines?.avoidedTerms || []).filter(term => this.containsTerm(stems, term));
+        if (avoided.length > 0) {
+            report(ValidationRule.AvoidedTerms, `Content contains avoided terms: ${avoided.join(", ")}`, avoided);
+        }
+
+        const missing = (rules.requiredTerms || []).filter(term => !this.containsTerm(stems, term));
+        if (missing.length > 0) {
+            report(ValidationRule.RequiredTerms, `Content is missing required terms: ${missing.join(", ")}`, missing);
+        }
+
+        const vocabulary = guidelines?.vocabulary || [];
+        const minVocabularyTerms = Math.min(rules.minVocabularyTerms ?? 1, vocabulary.length);
+        const used = vocabulary.filter(term => this.containsTerm(stems, term));
+        if (used.length < minVocabularyTerms) {
+            report(
+                ValidationRule.Vocabulary,
+                `Content uses ${used.length} brand vocabulary term(s), at least ${minVocabularyTerms} expected (${vocabulary.join(", ")})`,
+                used
+            );
+        }
+
+        // Length
+        const maxLength = this.getMaxLength(platform, rules);
+        const length = [...text].length;
+        if (maxLength !== undefined && length > maxLength) {
+            report(ValidationRule.Length, `Content is ${length} characters, over the ${platform} limit of ${maxLength}`);
+        }
+
+        // Hashtags and mentions
+        this.checkHashtags(extractHashtags(text), rules, report);
+        this.checkMentions(extractMentions(text), rules, report);
+
+        // Links
+        this.checkLinks(extractLinks(text), rules, report);
+
+        // Tone
+        const stats = this.getTextStats(text);
+        for (const tone of guidelines?.tone || []) {
+            const descriptor = tone.toLowerCase();
+            for (const { tones, check } of TONE_CHECKS) {
+                if (!tones.some(keyword => descriptor.includes(keyword))) continue;
+                const finding = check(stats);
+                if (finding) {
+                    report(ValidationRule.Tone, `Tone "${tone}": ${finding}`);
+                }
+            }
+        }
+
+        // Publishing channel constraints
+        const channel = this.channelRegistry.get(platform);
+        if (channel) {
+            const result = channel.validate(content as Content);
+            result.errors.forEach(error => report(ValidationRule.Channel, error));
+            result.warnings.forEach(warning => report(ValidationRule.Channel, warning, undefined, ValidationSeverity.Warning));
+        } else {
+            report(
+                ValidationRule.Channel,
+                `No publishing channel is registered for platform "${platform}", so the content can't be published automatically`,
+                undefined,
+                ValidationSeverity.Warning
+            );
+        }
+
+        const errorCount = issues.filter(issue => issue.severity === ValidationSeverity.Error).length;
+        return {
+            contentId: content._id,
+            platform,
+            valid: errorCount === 0,
+            errorCount,
+            warningCount: issues.length - errorCount,
+            issues,
+            validatedAt: new Date()
+        };
+    }
+
+    /**
+     * Whether the stemmed words contain a term as a whole word or phrase
+     */
+    private containsTerm(stems: string[], term: string): boolean {
+        const termStems = tokenize(term).map(stem);
+        if (termStems.length === 0) return false;
+
+        for (let i = 0; i + termStems.length <= stems.length; i++) {
+            if (termStems.every((termStem, offset) => stems[i + offset] === termStem)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private getMaxLength(platform: string, rules: ContentRules): number | undefined {
+        const key = ChannelRegistry.normalize(platform);
+        const configured = Object.entries(rules.maxLength || {})
+            .find(([name]) => ChannelRegistry.normalize(name) === key);
+        return configured ? configured[1] : DEFAULT_PLATFORM_LENGTH_LIMITS[key];
+    }
+
+    private checkHashtags(
+        hashtags: string[],
+        rules: ContentRules,
+        report: (rule: ValidationRule, message: string, matches?: string[]) => void
+    ): void {
+        const used = hashtags.map(hashtag => hashtag.toLowerCase());
+        const { max, required = [], banned = [] } = rules.hashtags || {};
+
+        if (max !== undefined && hashtags.length > max) {
+            report(ValidationRule.Hashtags, `Content has ${hashtags.length} hashtags, more than the maximum of ${max}`, hashtags);
+        }
+
+        const missing = required.filter(hashtag => !used.includes(stripPrefix(hashtag, "#")));
+        if (missing.length > 0) {
+            report(ValidationRule.Hashtags, `Content is missing required hashtags: ${missing.join(", ")}`, missing);
+        }
+
+        const bannedUsed = hashtags.filter(hashtag =>
+            banned.some(bannedHashtag => stripPrefix(bannedHashtag, "#") === hashtag.toLowerCase()));
+        if (bannedUsed.length > 0) {
+            report(ValidationRule.Hashtags, `Content uses banned hashtags: ${bannedUsed.map(hashtag => `#${hashtag}`).join(", ")}`, bannedUsed);
+        }
+    }
+
+    private checkMentions(
+        mentions: string[],
+        rules: ContentRules,
+        report: (rule: ValidationRule, message: string, matches?: string[]) => void
+    ): void {
+        const { max, banned = [] } = rules.mentions || {};
+
+        if (max !== undefined && mentions.length > max) {
+            report(ValidationRule.Mentions, `Content has ${mentions.length} mentions, more than the maximum of ${max}`, mentions);
+        }
+
+        const bannedUsed = mentions.filter(mention =>
+            banned.some(account => stripPrefix(account, "@") === mention.toLowerCase()));
+        if (bannedUsed.length > 0) {
+            report(ValidationRule.Mentions, `Content mentions banned accounts: ${bannedUsed.map(mention => `@${mention}`).join(", ")}`, bannedUsed);
+        }
+    }
+
+    private checkLinks(
+        links: string[],
+        rules: ContentRules,
+        report: (rule: ValidationRule, message: string, matches?: string[]) => void
+    ): void {
+        const { allowed = true, max, allowedDomains, blockedDomains = [] } = rules.links || {};
+        if (links.length === 0) return;
+
+        if (!allowed) {
+            report(ValidationRule.Links, "Content contains links, which the brand doesn't allow", links);
+            return;
+        }
+
+        if (max !== undefined && links.length > max) {
+            report(ValidationRule.Links, `Content has ${links.length} links, more than the maximum of ${max}`, links);
+        }
+
+        const disallowed = links.filter(link => {
+            const hostname = getHostname(link);
+            if (!hostname) return true;
+            if (blockedDomains.some(domain => matchesDomain(hostname, domain))) return true;
+            return !!allowedDomains && !allowedDomains.some(domain => matchesDomain(hostname, domain));
+        });
+        if (disallowed.length > 0) {
+            report(ValidationRule.Links, `Content links to domains that aren't allowed: ${disallowed.join(", ")}`, disallowed);
+        }
+    }
+
+    private getTextStats(text: string): TextStats {
+        return {
+            words: tokenize(text),
+            sentenceCount: (text.match(/[^.!?]+[.!?]*/g) || []).filter(sentence => sentence.trim().length > 0).length,
+            exclamations: (text.match(/!/g) || []).length,
+            capsWords: [...new Set(text.match(/\b[A-Z]{5,}\b/g) || [])],
+            emojis: (text.match(/\p{Extended_Pictographic}/gu) || []).length
+        };
+    }
+}
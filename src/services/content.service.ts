@@ -1,10 +1,18 @@
-import { Content, ContentCreationParams, ContentCreationSchemaParser, ContentState, ContentUpdateParams } from "../models/content.model.js";
+import { CONTENT_STATE_TRANSITIONS, Content, ContentCreationParams, ContentCreationSchemaParser, ContentState, ContentUpdateParams } from "../models/content.model.js";
 import { ContentRepository } from "../repositories/content.repository.js";
 import { PlanRepository } from "../repositories/plan.repository.js";
 import { BrandRepository } from "../repositories/brand.repository.js";
 import { CampaignRepository } from "../repositories/campaign.repository.js";
 import { PlanType, MicroPlan, MasterPlan } from "../models/plan.model.js";
 import { ensureDate } from "../utils/date.utils.js";
+import { BadRequestError } from "../utils/errors.js";
+import { ContentValidationReport, ValidationSeverity } from "../models/content-validation.model.js";
+import { ContentValidationService } from "./content-validation.service.js";
+import { ReviewDecisionRepository } from "../repositories/review-decision.repository.js";
+import { ContentReviewStatus, ReviewAction } from "../models/review.model.js";
+import { DeletableEntity, DeleteMode, DeletionResult } from "../models/integrity.model.js";
+import { DeletionService } from "./deletion.service.js";
+import { SchedulingRulesService } from "./scheduling-rules.service.js";
 
 export interface ContentCreationData {
     microPlanId?: string;
@@ -16,6 +24,7 @@ export interface ContentCreationData {
     comments?: string;
     format?: string;
     platform?: string;
+    category?: string;
     mediaRequirements?: {
         type: string;
         description: string;
@@ -24,22 +33,43 @@ export interface ContentCreationData {
     keywords?: string[];
 }
 
+// States of content that was submitted for review or made ready, which an edit sends back to draft
+const REVIEWED_STATES = [ContentState.InReview, ContentState.Ready, ContentState.Failed];
+
+// Update parameters that don't change what the content says or where it goes
+const SCHEDULING_UPDATE_FIELDS = ["content_id", "create_new_version", "scheduledFor"];
+
+export interface SchedulingOptions {
+    // Move the content to the next slot meeting the brand's scheduling rules instead of rejecting the time
+    autoShift?: boolean;
+}
+
 export interface StateTransitionMetadata {
     userId: string;
     comments?: string;
 }
 
+export type ReviewRequirement = Omit<NonNullable<Content["review"]>, "round" | "submittedBy" | "submittedAt">;
+
 export class ContentService {
     private contentRepository: ContentRepository;
     private planRepository: PlanRepository;
     private brandRepository: BrandRepository;
     private campaignRepository: CampaignRepository;
+    private validationService: ContentValidationService;
+    private reviewDecisionRepository: ReviewDecisionRepository;
+    private deletionService: DeletionService;
+    private schedulingRulesService: SchedulingRulesService;
 
     constructor() {
         this.contentRepository = new ContentRepository();
         this.planRepository = new PlanRepository();
         this.brandRepository = new BrandRepository();
         this.campaignRepository = new CampaignRepository();
+        this.validationService = new ContentValidationService();
+        this.reviewDecisionRepository = new ReviewDecisionRepository();
+        this.deletionService = new DeletionService();
+        this.schedulingRulesService = new SchedulingRulesService();
     }
 
     /**
@@ -174,7 +204,9 @@ export class ContentService {
     }
 
     /**
-     * Update content
+     * Update content. A new schedule of Ready content must meet the scheduling rules of its brand.
+     * Editing content that is in review, ready or failed sends it back to draft, so it is validated
+     * and reviewed again before it can be published; rescheduling it doesn't.
      */
     async updateContent(updates: ContentUpdateParams): Promise<Content | null> {
         // Get current content
@@ -188,16 +220,23 @@ export class ContentService {
             throw new Error("Can only update content in Draft or Ready state");
         }
 
+        // The last round's review stays on the content so the next round is numbered after it,
+        // as with rejected content; it doesn't count for draft content
+        const reopened = REVIEWED_STATES.includes(content.state) && this.changesContent(content, updates);
+        const state = reopened ? ContentState.Draft : content.state;
+        const scheduledFor = await this.resolveUpdatedSchedule({ ...content, state }, updates);
+
         // Check if we should create a new version or update in place
         if (updates.create_new_version) {
-            return await this.createNewVersion(content, updates);
+            return await this.createNewVersion(content, updates, state, scheduledFor);
         }
 
         // Update state metadata
         const stateMetadata = {
             ...content.stateMetadata,
             updatedBy: "system-user",
-            scheduledFor: updates.scheduledFor ? ensureDate(updates.scheduledFor, 'scheduledFor') : content.stateMetadata.scheduledFor
+            ...(reopened && { comments: `Edited while ${content.state}; back to draft for another review` }),
+            scheduledFor
         };
 
         // update media requirements
@@ -208,14 +247,26 @@ export class ContentService {
         // Apply updates
         return await this.contentRepository.update(updates.content_id, {
             ...updates,
+            state,
             stateMetadata
         });
     }
 
     /**
-     * Create a new version of content
+     * Whether an update changes the content itself rather than only its schedule
      */
-    private async createNewVersion(existingContent: Content, updates: ContentUpdateParams): Promise<Content> {
+    private changesContent(content: Content, updates: ContentUpdateParams): boolean {
+        return Object.entries(updates).some(([field, value]) =>
+            value !== undefined
+            && !SCHEDULING_UPDATE_FIELDS.includes(field)
+            && JSON.stringify(value) !== JSON.stringify(content[field as keyof Content])
+        );
+    }
+
+    /**
+     * Create a new version of content in the given state
+     */
+    private async createNewVersion(existingContent: Content, updates: ContentUpdateParams, state: ContentState, scheduledFor?: Date): Promise<Content> {
         // Strip non-content data fields from updates
         const { content_id, create_new_version, ...contentUpdates } = updates;
 
@@ -229,6 +280,7 @@ export class ContentService {
         const newVersionData: Omit<Content, "_id"> = {
             ...existingContent,
             ...contentUpdates,
+            state,
             version: existingContent.version + 1,
             isActive: true,
             previousVersionId: existingContent._id,
@@ -236,9 +288,8 @@ export class ContentService {
             stateMetadata: {
                 ...existingContent.stateMetadata,
                 updatedBy: "system-user",
-                scheduledFor: updates.scheduledFor
-                    ? ensureDate(updates.scheduledFor, 'scheduledFor')
-                    : existingContent.stateMetadata.scheduledFor
+                ...(state !== existingContent.state && { comments: `Edited while ${existingContent.state}; back to draft for another review` }),
+                scheduledFor
             },
             updated_at: new Date()
         };
@@ -254,6 +305,21 @@ export class ContentService {
         return newVersion;
     }
 
+    /**
+     * Time content is scheduled for after an update. When the update moves Ready content
+     * to another time, the schedule must meet the scheduling rules of its brand as with
+     * scheduleContent. (Moving it to another platform sends it back to draft.)
+     */
+    private async resolveUpdatedSchedule(content: Content, updates: ContentUpdateParams): Promise<Date | undefined> {
+        const current = content.stateMetadata.scheduledFor;
+        const scheduledFor = updates.scheduledFor ? ensureDate(updates.scheduledFor, 'scheduledFor') : current;
+        if (!scheduledFor || content.state !== ContentState.Ready) return scheduledFor;
+
+        if (scheduledFor.getTime() === current?.getTime()) return scheduledFor;
+
+        return await this.schedulingRulesService.resolveSlot(content, await this.resolveBrandId(content), scheduledFor);
+    }
+
     /**
      * Get all versions of a content
      */
@@ -310,9 +376,15 @@ export class ContentService {
     }
 
     /**
-     * Schedule content for publication
+     * Schedule content for publication. The time must meet the scheduling rules
+     * of the content's brand, unless autoShift moves it to the next slot that does.
      */
-    async scheduleContent(contentId: string, publishAt: Date, userId: string): Promise<Content | null> {
+    async scheduleContent(
+        contentId: string,
+        publishAt: Date,
+        userId: string,
+        options: SchedulingOptions = {}
+    ): Promise<Content | null> {
         // Get current content
         const content = await this.contentRepository.findById(contentId);
         if (!content) return null;
@@ -322,11 +394,26 @@ export class ContentService {
             throw new Error("Can only schedule content in Ready state");
         }
 
+        // Content the brand requires to be signed off can't be scheduled without it
+        const review = await this.getReviewStatus(content);
+        if (review.signOffRequired && review.signedOffBy.length === 0) {
+            throw new BadRequestError(
+                `Content must be signed off by one of ${review.signOffReviewers.join(", ")} before it can be scheduled`
+            );
+        }
+
+        const scheduledFor = await this.schedulingRulesService.resolveSlot(
+            content,
+            await this.resolveBrandId(content),
+            publishAt,
+            options.autoShift
+        );
+
         // Update state metadata
         const stateMetadata = {
             ...content.stateMetadata,
             updatedBy: userId,
-            scheduledFor: publishAt
+            scheduledFor
         };
 
         // Apply the schedule
@@ -339,15 +426,7 @@ export class ContentService {
     * Get all scheduled content, optionally filtered by state
     */
     async getScheduledContent(states?: ContentState[]): Promise<Content[]> {
-        // Get all content that has a scheduledFor date
-        const allContent = await this.contentRepository.findWithScheduledDate();
-
-        // Filter by state if specified
-        if (states && states.length > 0) {
-            return allContent.filter(content => states.includes(content.state));
-        }
-
-        return allContent;
+        return await this.contentRepository.findWithScheduledDate(states);
     }
 
     /**
@@ -365,9 +444,16 @@ export class ContentService {
         // Validate the transition
         this.validateStateTransition(content.state, targetState);
 
-        // If transitioning to Ready, validate against brand guidelines
-        if (targetState === ContentState.Ready) {
-            await this.validateAgainstBrandGuidelines(content);
+        // Brands can require content to be reviewed before it is ready. Failed content
+        // was already ready once, so it can go back without another review.
+        if (targetState === ContentState.Ready && content.state !== ContentState.Failed) {
+            const review = await this.getReviewStatus(content);
+            if (content.state === ContentState.Draft && review.reviewRequired) {
+                throw new BadRequestError("The brand requires content to be reviewed before it is ready; submit it for review instead");
+            }
+            if (content.state === ContentState.InReview && !review.complete) {
+                throw new BadRequestError(`The review of this content is not complete: ${review.missing.join("; ")}`);
+            }
         }
 
         // Update state metadata
@@ -377,6 +463,22 @@ export class ContentService {
             comments: metadata.comments || content.stateMetadata.comments
         };
 
+        // If transitioning to Ready, validate against brand guidelines. Errors block
+        // the transition, warnings are kept on the content.
+        if (targetState === ContentState.Ready) {
+            const report = await this.validateContent(content);
+            if (!report.valid) {
+                const errors = report.issues.filter(issue => issue.severity === ValidationSeverity.Error);
+                throw new BadRequestError(
+                    `Content does not meet the brand guidelines: ${errors.map(issue => issue.message).join("; ")}`,
+                    { validation: report }
+                );
+            }
+
+            stateMetadata.validationWarnings = report.issues.map(({ rule, message }) => ({ rule, message }));
+            stateMetadata.validatedAt = report.validatedAt;
+        }
+
         // Create update object without _id field
         const updates: Partial<Omit<Content, "_id">> = {
             state: targetState,
@@ -384,77 +486,169 @@ export class ContentService {
         };
 
         // Apply the state change
-        return await this.contentRepository.update(contentId, updates);
+        const updated = await this.contentRepository.update(contentId, updates);
+
+        // Content leaving the Failed state starts over with a clean retry count
+        if (updated && content.state === ContentState.Failed) {
+            return await this.contentRepository.resetPublishFailures(contentId);
+        }
+
+        return updated;
     }
 
     /**
      * Validate state transition
      */
     private validateStateTransition(currentState: ContentState, targetState: ContentState): void {
-        // Define valid transitions
-        const validTransitions: Record<ContentState, ContentState[]> = {
-            [ContentState.Draft]: [ContentState.Ready],
-            [ContentState.Ready]: [ContentState.Draft, ContentState.Published],
-            [ContentState.Published]: [] // Terminal state
-        };
-
         // Check if transition is valid
-        if (!validTransitions[currentState].includes(targetState)) {
+        if (!CONTENT_STATE_TRANSITIONS[currentState].includes(targetState)) {
             throw new Error(`Invalid state transition from ${currentState} to ${targetState}`);
         }
     }
 
     /**
-     * Validate content against brand guidelines
+     * Resolve the brand a content item belongs to, either directly or through
+     * the micro plan -> master plan -> campaign hierarchy
      */
-    private async validateAgainstBrandGuidelines(content: Content): Promise<void> {
-        let brandId: string | null = null;
+    async resolveBrandId(content: Content): Promise<string> {
+        if (content.brandId) {
+            // For standalone content
+            return content.brandId;
+        }
 
-        if (content.microPlanId) {
-            // Get the micro plan
-            const microPlan = await this.planRepository.findById(content.microPlanId) as MicroPlan;
-            if (!microPlan || microPlan.type !== PlanType.Micro) {
-                throw new Error(`Micro plan with ID ${content.microPlanId} not found`);
-            }
+        if (!content.microPlanId) {
+            throw new Error('Content must be associated with either a microplan or a brand');
+        }
 
-            // Get the master plan
-            const masterPlan = await this.planRepository.findById(microPlan.masterPlanId) as MasterPlan;
-            if (!masterPlan || masterPlan.type !== PlanType.Master) {
-                throw new Error(`Master plan with ID ${microPlan.masterPlanId} not found`);
-            }
+        // Get the micro plan
+        const microPlan = await this.planRepository.findById(content.microPlanId) as MicroPlan;
+        if (!microPlan || microPlan.type !== PlanType.Micro) {
+            throw new Error(`Micro plan with ID ${content.microPlanId} not found`);
+        }
 
-            // Get the campaign
-            const campaign = await this.campaignRepository.findById(masterPlan.campaignId);
-            if (!campaign) {
-                throw new Error(`Campaign with ID ${masterPlan.campaignId} not found`);
-            }
+        // Get the master plan
+        const masterPlan = await this.planRepository.findById(microPlan.masterPlanId) as MasterPlan;
+        if (!masterPlan || masterPlan.type !== PlanType.Master) {
+            throw new Error(`Master plan with ID ${microPlan.masterPlanId} not found`);
+        }
 
-            brandId = campaign.brandId;
-        } else if (content.brandId) {
-            // For standalone content
-            brandId = content.brandId;
-        } else {
-            throw new Error('Content must be associated with either a microplan or a brand');
+        // Get the campaign
+        const campaign = await this.campaignRepository.findById(masterPlan.campaignId);
+        if (!campaign) {
+            throw new Error(`Campaign with ID ${masterPlan.campaignId} not found`);
+        }
+
+        return campaign.brandId;
+    }
+
+    /**
+     * Validate content against the guidelines of its brand without changing it
+     * @param content the content or its ID
+     */
+    async validateContent(content: Content | string): Promise<ContentValidationReport> {
+        if (typeof content === "string") {
+            const found = await this.contentRepository.findById(content);
+            if (!found) {
+                throw new Error(`Content with ID ${content} not found`);
+            }
+            content = found;
         }
 
-        // Get brand guidelines
+        const brandId = await this.resolveBrandId(content);
         const brand = await this.brandRepository.findById(brandId);
-        if (!brand || !brand.guidelines) {
-            // No guidelines to validate against
-            return;
+
+        return {
+            ...this.validationService.validate(content, brand?.guidelines),
+            brandId
+        };
+    }
+
+    /**
+     * Review requirements the brand of a content item sets for it: the approval count,
+     * default reviewers, and whether the content matches the brand's sign-off rules
+     */
+    async getReviewRequirement(content: Content): Promise<ReviewRequirement> {
+        const brand = await this.brandRepository.findById(await this.resolveBrandId(content));
+        const policy = brand?.reviewPolicy;
+        const signOff = policy?.signOff;
+
+        let signOffRequired = false;
+        if (signOff) {
+            const matches = (values: string[] | undefined, value?: string) =>
+                !!value && !!values?.some(item => item.trim().toLowerCase() === value.trim().toLowerCase());
+            const text = `${content.title} ${content.content} ${content.keywords.join(" ")}`.toLowerCase();
+            const hasCriteria = !!(signOff.platforms?.length || signOff.formats?.length || signOff.keywords?.length);
+
+            signOffRequired = !hasCriteria ||
+                matches(signOff.platforms, content.platform) ||
+                matches(signOff.formats, content.format) ||
+                !!signOff.keywords?.some(keyword => text.includes(keyword.toLowerCase()));
         }
 
-        const guidelines = brand.guidelines;
-        const contentText = content.content.toLowerCase();
+        return {
+            reviewers: policy?.reviewers || [],
+            requiredApprovals: policy?.requiredApprovals || 0,
+            signOffRequired,
+            signOffReviewers: signOff?.reviewers || []
+        };
+    }
 
-        // Check for avoided terms
-        const foundAvoidedTerms = guidelines && guidelines.avoidedTerms && guidelines.avoidedTerms.filter(term =>
-            contentText.includes(term.toLowerCase())
-        );
+    /**
+     * Get the review progress of a content item. Content in draft reports the
+     * requirements its next review would have.
+     * @param content the content or its ID
+     */
+    async getReviewStatus(content: Content | string): Promise<ContentReviewStatus> {
+        if (typeof content === "string") {
+            const found = await this.contentRepository.findById(content);
+            if (!found) {
+                throw new Error(`Content with ID ${content} not found`);
+            }
+            content = found;
+        }
 
-        if (foundAvoidedTerms && foundAvoidedTerms.length > 0) {
-            throw new Error(`Content contains avoided terms: ${foundAvoidedTerms.join(', ')}`);
+        // Reviewed content keeps the requirements it was submitted with
+        const inDraft = content.state === ContentState.Draft;
+        const requirement = content.review && !inDraft ? content.review : await this.getReviewRequirement(content);
+        const round = content.review?.round || 0;
+
+        const decisions = round > 0
+            ? await this.reviewDecisionRepository.findByRootContentId(content.rootContentId || content._id!, round)
+            : [];
+        const approvedBy = inDraft ? [] : [...new Set(decisions
+            .filter(decision => decision.action === ReviewAction.Approved)
+            .map(decision => decision.userId))];
+        const decidedBy = new Set(decisions
+            .filter(decision => decision.action !== ReviewAction.Submitted)
+            .map(decision => decision.userId));
+        const signedOffBy = approvedBy.filter(userId => requirement.signOffReviewers.includes(userId));
+
+        const missing: string[] = [];
+        if (approvedBy.length < requirement.requiredApprovals) {
+            missing.push(`${requirement.requiredApprovals - approvedBy.length} more approval(s)`);
+        }
+        if (requirement.signOffRequired && signedOffBy.length === 0) {
+            missing.push(`sign-off by one of ${requirement.signOffReviewers.join(", ")}`);
         }
+
+        return {
+            contentId: content._id!,
+            state: content.state,
+            round,
+            reviewRequired: requirement.requiredApprovals > 0 || requirement.signOffRequired,
+            requiredApprovals: requirement.requiredApprovals,
+            reviewers: requirement.reviewers,
+            approvedBy,
+            pendingReviewers: content.state === ContentState.InReview
+                ? [...new Set([...requirement.reviewers, ...requirement.signOffReviewers])].filter(userId => !decidedBy.has(userId))
+                : [],
+            signOffRequired: requirement.signOffRequired,
+            signOffReviewers: requirement.signOffReviewers,
+            signedOffBy,
+            complete: missing.length === 0,
+            missing,
+            decisions
+        };
     }
 
     /**
@@ -511,7 +705,11 @@ export class ContentService {
         });
     }
 
-    async deleteContent(contentId: string): Promise<Boolean> {
-        return await this.contentRepository.delete(contentId);
+    /**
+     * Delete content with all its versions. By default the content is moved to the trash;
+     * content has no dependents, so block and cascade both delete it permanently with its media.
+     */
+    async deleteContent(contentId: string, mode: DeleteMode = DeleteMode.Soft): Promise<DeletionResult> {
+        return await this.deletionService.delete(DeletableEntity.Content, contentId, mode);
     }
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+import {
+    ChannelCredential,
+    ChannelCredentialSummary,
+    CredentialChannel,
+    CredentialStatus,
+    TwitterConnectParams,
+    TwitterCookie,
+    TwitterCredentials,
+    TwitterSecrets
+} from "../models/credential.model.js";
+import { CredentialRepository } from "../repositories/credential.repository.js";
+import { BrandRepository } from "../repositories/brand.repository.js";
+import { AuthenticationManager } from "../channels/twitter/authentication.js";
+import { decryptJson, encryptJson } from "../utils/crypto.js";
+
+export class CredentialService {
+    private credentialRepository: CredentialRepository;
+    private brandRepository: BrandRepository;
+
+    constructor() {
+        this.credentialRepository = new CredentialRepository();
+        this.brandRepository = new BrandRepository();
+    }
+
+    /**
+     * Store (or replace) the Twitter account of a brand
+     */
+    async connectTwitterAccount(brandId: string, params: TwitterConnectParams): Promise<ChannelCredentialSummary> {
+        const brand = await this.brandRepository.findById(brandId);
+        if (!brand) {
+            throw new Error(`Brand with ID ${brandId} not found`);
+        }
+
+        const { username, ...secrets } = params;
+        const data = {
+            brandId,
+            channel: CredentialChannel.Twitter,
+            username: username.replace(/^@/, ""),
+            encryptedSecrets: encryptJson(secrets),
+            hasPassword: !!secrets.password,
+            hasCookies: !!secrets.cookies && secrets.cookies.length > 0,
+            hasTwoFactorSecret: !!secrets.twoFactorSecret,
+            status: CredentialStatus.Unverified
+        };
+
+        // Replace any stored account rather than merging secrets
+        await this.credentialRepository.deleteByBrandAndChannel(brandId, CredentialChannel.Twitter);
+        const credential = await this.credentialRepository.create(data);
+
+        // The next request for this brand logs in with the new account
+        await AuthenticationManager.getInstance().resetSession(brandId);
+
+        return this.toSummary(credential);
+    }
+
+    /**
+     * Remove the Twitter account of a brand
+     */
+    async disconnectTwitterAccount(brandId: string): Promise<boolean> {
+        const deleted = await this.credentialRepository.deleteByBrandAndChannel(brandId, CredentialChannel.Twitter);
+        await AuthenticationManager.getInstance().resetSession(brandId);
+        return deleted;
+    }
+
+    /**
+     * Log in with the stored Twitter account of a brand and record the result
+     */
+    async verifyTwitterAccount(brandId: string): Promise<ChannelCredentialSummary> {
+        const credential = await this.credentialRepository.findByBrandAndChannel(brandId, CredentialChannel.Twitter);
+        if (!credential) {
+            throw new Error(`Twitter account for brand ${brandId} not found`);
+        }
+
+        const authManager = AuthenticationManager.getInstance();
+
+        try {
+            // Force a fresh login with the stored credentials
+            await authManager.resetSession(brandId);
+            const scraper = await authManager.getScraper(brandId);
+            const profile = await scraper.me();
+
+            if (profile?.username && profile.username.toLowerCase() !== credential.username.toLowerCase()) {
+                throw new Error(`Logged in as @${profile.username}, expected @${credential.username}`);
+            }
+
+            const updated = await this.credentialRepository.updateStatus(credential._id!, CredentialStatus.Connected);
+            return this.toSummary(updated!);
+        } catch (error: any) {
+            await authManager.resetSession(brandId);
+            const updated = await this.credentialRepository.updateStatus(
+                credential._id!,
+                CredentialStatus.Error,
+                error?.message || String(error)
+            );
+            return this.toSummary(updated!);
+        }
+    }
+
+    /**
+     * Get the Twitter account of a brand, without secrets
+     */
+    async getTwitterAccount(brandId: string): Promise<ChannelCredentialSummary | null> {
+        const credential = await this.credentialRepository.findByBrandAndChannel(brandId, CredentialChannel.Twitter);
+        if (!credential) return null;
+        return this.toSummary(credential);
+    }
+
+    /**
+     * Check whether a brand has stored Twitter credentials
+     */
+    async hasTwitterCredentials(brandId: string): Promise<boolean> {
+        const credential = await this.credentialRepository.findByBrandAndChannel(brandId, CredentialChannel.Twitter);
+        return credential !== null;
+    }
+
+    /**
+     * Get the decrypted Twitter credentials of a brand
+     */
+    async getTwitterCredentials(brandId: string): Promise<TwitterCredentials | null> {
+        const credential = await this.credentialRepository.findByBrandAndChannel(brandId, CredentialChannel.Twitter);
+        if (!credential) return null;
+
+        const secrets = decryptJson<TwitterSecrets>(credential.encryptedSecrets);
+        return { username: credential.username, ...secrets };
+    }
+
+    /**
+     * Store the session cookies of a fresh login
+     */
+    async saveTwitterCookies(brandId: string, cookies: TwitterCookie[]): Promise<void> {
+        const credential = await this.credentialRepository.findByBrandAndChannel(brandId, CredentialChannel.Twitter);
+        if (!credential) return;
+
+        const secrets = decryptJson<TwitterSecrets>(credential.encryptedSecrets);
+        await this.credentialRepository.update(credential._id!, {
+            encryptedSecrets: encryptJson({ ...secrets, cookies }),
+            hasCookies: cookies.length > 0
+        });
+        await this.credentialRepository.updateStatus(credential._id!, CredentialStatus.Connected);
+    }
+
+    /**
+     * Strip the secrets from stored credentials
+     */
+    private toSummary(credential: ChannelCredential): ChannelCredentialSummary {
+        const { encryptedSecrets, ...summary } = credential;
+        return summary;
+    }
+}
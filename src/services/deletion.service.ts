@@ -0,0 +1,498 @@
+import { Brand } from "../models/brand.model.js";
+import { Campaign } from "../models/campaign.model.js";
+import { Content } from "../models/content.model.js";
+import { MasterPlan, MicroPlan, PlanType } from "../models/plan.model.js";
+import {
+    DeletableEntity,
+    DeletedCounts,
+    DeleteMode,
+    DeletionPreview,
+    DeletionResult,
+    DependentCounts,
+    PurgeResult,
+    RestoreResult,
+    TrashItem
+} from "../models/integrity.model.js";
+import { BrandRepository } from "../repositories/brand.repository.js";
+import { CampaignRepository } from "../repositories/campaign.repository.js";
+import { PlanRepository } from "../repositories/plan.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { CredentialRepository } from "../repositories/credential.repository.js";
+import { ContentMetricsRepository } from "../repositories/content-metrics.repository.js";
+import { PublishAttemptRepository } from "../repositories/publish-attempt.repository.js";
+import { ReviewDecisionRepository } from "../repositories/review-decision.repository.js";
+import { MediaService } from "./media.service.js";
+import { getAuditContext } from "../utils/audit-context.js";
+import { BadRequestError, ConflictError } from "../utils/errors.js";
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Documents deleted, restored or purged together
+interface DocumentSet {
+    brands: Brand[];
+    campaigns: Campaign[];
+    masterPlans: MasterPlan[];
+    microPlans: MicroPlan[];
+    content: Content[];
+}
+
+// An entity with every document that belongs to it, the entity's own documents (versions) included
+interface DeletionTree extends DocumentSet {
+    entityType: DeletableEntity;
+    entityId: string;
+    name: string;
+}
+
+// Soft-deleted document, as listed in the trash
+interface DeletedDocument {
+    _id?: string;
+    deletedAt?: Date;
+    deletedBy?: string;
+}
+
+const ENTITY_LABELS: Record<DeletableEntity, string> = {
+    [DeletableEntity.Brand]: "Brand",
+    [DeletableEntity.Campaign]: "Campaign",
+    [DeletableEntity.Plan]: "Plan",
+    [DeletableEntity.Content]: "Content"
+};
+
+/**
+ * How long soft-deleted documents are kept before they are purged, configurable through TRASH_RETENTION_DAYS
+ */
+export function getTrashRetentionDays(): number {
+    const parsed = parseInt(process.env.TRASH_RETENTION_DAYS || "");
+    return isNaN(parsed) || parsed <= 0 ? DEFAULT_TRASH_RETENTION_DAYS : parsed;
+}
+
+/**
+ * Count the items among versioned documents, counting all versions of an item once
+ */
+function countItems(documents: { _id?: string; rootCampaignId?: string | null; rootPlanId?: string | null; rootContentId?: string | null }[]): number {
+    return new Set(documents.map(document => document.rootCampaignId || document.rootPlanId || document.rootContentId || document._id)).size;
+}
+
+function emptyCounts(): DeletedCounts {
+    return {
+        brands: 0,
+        campaigns: 0,
+        plans: 0,
+        content: 0,
+        mediaAssets: 0,
+        credentials: 0,
+        metricSnapshots: 0,
+        publishAttempts: 0,
+        reviewDecisions: 0
+    };
+}
+
+/**
+ * Describe dependent counts, e.g. "2 campaign(s) and 5 content item(s)"
+ */
+export function describeDependents(dependents: DependentCounts): string {
+    const parts = [
+        dependents.campaigns > 0 ? `${dependents.campaigns} campaign(s)` : "",
+        dependents.plans > 0 ? `${dependents.plans} plan(s)` : "",
+        dependents.content > 0 ? `${dependents.content} content item(s)` : ""
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(", ").replace(/, ([^,]*)$/, " and $1") : "no dependents";
+}
+
+/**
+ * Deletes brands, campaigns, plans and content together with the documents that
+ * belong to them (brand -> campaigns -> master plans -> micro plans -> content),
+ * so that deleting an entity never leaves documents referencing it. Soft-deleted
+ * entities stay in the trash until they are restored or purged.
+ */
+export class DeletionService {
+    private brandRepository: BrandRepository;
+    private campaignRepository: CampaignRepository;
+    private planRepository: PlanRepository;
+    private contentRepository: ContentRepository;
+    private credentialRepository: CredentialRepository;
+    private metricsRepository: ContentMetricsRepository;
+    private publishAttemptRepository: PublishAttemptRepository;
+    private reviewDecisionRepository: ReviewDecisionRepository;
+    private mediaService: MediaService;
+
+    constructor() {
+        this.brandRepository = new BrandRepository();
+        this.campaignRepository = new CampaignRepository();
+        this.planRepository = new PlanRepository();
+        this.contentRepository = new ContentRepository();
+        this.credentialRepository = new CredentialRepository();
+        this.metricsRepository = new ContentMetricsRepository();
+        this.publishAttemptRepository = new PublishAttemptRepository();
+        this.reviewDecisionRepository = new ReviewDecisionRepository();
+        this.mediaService = new MediaService();
+    }
+
+    /**
+     * Report what deleting an entity would affect, without deleting anything
+     */
+    async previewDeletion(entityType: DeletableEntity, entityId: string): Promise<DeletionPreview> {
+        return this.toPreview(await this.collect(entityType, entityId));
+    }
+
+    /**
+     * Delete an entity with all its versions.
+     * - Soft: moves the entity and the documents that belong to it to the trash
+     * - Block: refuses with a conflict error while other documents belong to the entity, otherwise deletes it permanently
+     * - Cascade: permanently deletes the documents that belong to the entity too
+     * Media, metrics, publish attempts and review decisions of permanently deleted content and
+     * credentials of permanently deleted brands are deleted with them.
+     */
+    async delete(
+        entityType: DeletableEntity,
+        entityId: string,
+        mode: DeleteMode = DeleteMode.Soft,
+        deletedBy: string = getAuditContext().actor
+    ): Promise<DeletionResult> {
+        const tree = await this.collect(entityType, entityId);
+        const { dependents } = this.toPreview(tree);
+
+        if (mode === DeleteMode.Block && dependents.campaigns + dependents.plans + dependents.content > 0) {
+            throw new ConflictError(
+                `${ENTITY_LABELS[entityType]} "${tree.name}" still has ${describeDependents(dependents)}. Delete them first, or delete in cascade or soft mode`,
+                { dependents }
+            );
+        }
+
+        return {
+            entityType,
+            entityId,
+            name: tree.name,
+            mode,
+            deleted: mode === DeleteMode.Soft ? await this.softDeleteDocuments(tree, deletedBy) : await this.deleteDocuments(tree)
+        };
+    }
+
+    /**
+     * Restore a soft-deleted entity together with the documents deleted with it.
+     * Documents that belong to the entity but were deleted separately stay in the trash.
+     */
+    async restore(entityType: DeletableEntity, entityId: string): Promise<RestoreResult> {
+        const document = await this.findEntity(entityType, entityId, true);
+        if (!document.deletedAt) {
+            throw new BadRequestError(`${ENTITY_LABELS[entityType]} with ID ${entityId} is not deleted`);
+        }
+
+        await this.checkParentRestorable(entityType, document);
+
+        const tree = await this.collect(entityType, entityId, document.deletedAt);
+        const restored = { brands: 0, campaigns: 0, plans: 0, content: 0 };
+
+        // Parents before the documents that belong to them
+        for (const brand of tree.brands) {
+            if (await this.brandRepository.restore(brand._id!)) restored.brands++;
+        }
+        for (const campaign of tree.campaigns) {
+            if (await this.campaignRepository.restore(campaign._id!)) restored.campaigns++;
+        }
+        for (const plan of [...tree.masterPlans, ...tree.microPlans]) {
+            if (await this.planRepository.restore(plan._id!)) restored.plans++;
+        }
+        for (const content of tree.content) {
+            if (await this.contentRepository.restore(content._id!)) restored.content++;
+        }
+
+        return { entityType, entityId, name: tree.name, restored };
+    }
+
+    /**
+     * List the soft-deleted entities of a type, most recently deleted first.
+     * Campaigns and content are listed once, by their active version.
+     */
+    async listTrash(entityType: DeletableEntity): Promise<TrashItem[]> {
+        const deleted = { deletedAt: { $ne: null } };
+        let items: { document: DeletedDocument; name: string }[];
+
+        switch (entityType) {
+            case DeletableEntity.Brand:
+                items = (await this.brandRepository.find(deleted)).map(brand => ({ document: brand, name: brand.name }));
+                break;
+            case DeletableEntity.Campaign:
+                items = (await this.campaignRepository.find(deleted)).map(campaign => ({ document: campaign, name: campaign.name }));
+                break;
+            case DeletableEntity.Plan:
+                items = (await this.planRepository.find(deleted)).map(plan => ({ document: plan, name: plan.title }));
+                break;
+            case DeletableEntity.Content:
+                items = (await this.contentRepository.find(deleted)).map(content => ({ document: content, name: content.title }));
+                break;
+        }
+
+        const retentionMs = getTrashRetentionDays() * DAY_MS;
+        return items
+            .map(({ document, name }) => ({
+                entityType,
+                entityId: document._id!,
+                name,
+                deletedAt: document.deletedAt!,
+                ...(document.deletedBy && { deletedBy: document.deletedBy }),
+                purgeAt: new Date(document.deletedAt!.getTime() + retentionMs)
+            }))
+            .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+    }
+
+    /**
+     * Permanently delete the documents that have been in the trash for longer than the retention period
+     * @param before purge documents deleted at or before this time instead
+     */
+    async purgeTrash(before: Date = new Date(Date.now() - getTrashRetentionDays() * DAY_MS)): Promise<PurgeResult> {
+        const expired = { deletedAt: { $lte: before } };
+        const plans = await this.planRepository.find(expired, false);
+
+        const purged = await this.deleteDocuments({
+            brands: await this.brandRepository.find(expired),
+            campaigns: await this.campaignRepository.find(expired, false),
+            masterPlans: plans.filter(plan => plan.type === PlanType.Master) as MasterPlan[],
+            microPlans: plans.filter(plan => plan.type === PlanType.Micro) as MicroPlan[],
+            content: await this.contentRepository.find(expired, false)
+        });
+
+        return { purgedBefore: before, purged };
+    }
+
+    private toPreview(tree: DeletionTree): DeletionPreview {
+        // The versions of a deleted master plan are the master plans of the tree, otherwise its micro plans
+        const planVersions = tree.masterPlans.length || tree.microPlans.length;
+        const versions = {
+            [DeletableEntity.Brand]: tree.brands.length,
+            [DeletableEntity.Campaign]: tree.campaigns.length,
+            [DeletableEntity.Plan]: planVersions,
+            [DeletableEntity.Content]: tree.content.length
+        }[tree.entityType];
+
+        return {
+            entityType: tree.entityType,
+            entityId: tree.entityId,
+            name: tree.name,
+            versions,
+            dependents: {
+                campaigns: tree.entityType === DeletableEntity.Brand ? countItems(tree.campaigns) : 0,
+                plans: tree.entityType === DeletableEntity.Plan
+                    ? (tree.masterPlans.length > 0 ? countItems(tree.microPlans) : 0)
+                    : countItems(tree.masterPlans) + countItems(tree.microPlans),
+                content: tree.entityType === DeletableEntity.Content ? 0 : countItems(tree.content)
+            }
+        };
+    }
+
+    private async findEntity(
+        entityType: DeletableEntity,
+        entityId: string,
+        includeDeleted: boolean = false
+    ): Promise<Brand | Campaign | MasterPlan | MicroPlan | Content> {
+        const document = await {
+            [DeletableEntity.Brand]: () => this.brandRepository.findById(entityId, includeDeleted),
+            [DeletableEntity.Campaign]: () => this.campaignRepository.findById(entityId, includeDeleted),
+            [DeletableEntity.Plan]: () => this.planRepository.findById(entityId, includeDeleted),
+            [DeletableEntity.Content]: () => this.contentRepository.findById(entityId, includeDeleted)
+        }[entityType]();
+
+        if (!document) {
+            throw new Error(`${ENTITY_LABELS[entityType]} with ID ${entityId} not found`);
+        }
+        return document;
+    }
+
+    /**
+     * Collect an entity and everything that belongs to it
+     * @param deletedAt collect the documents soft deleted at this time instead of the live ones
+     */
+    private async collect(entityType: DeletableEntity, entityId: string, deletedAt?: Date): Promise<DeletionTree> {
+        const scope = deletedAt ? { deletedAt } : {};
+        const entity = await this.findEntity(entityType, entityId, !!deletedAt);
+        const tree: DeletionTree = {
+            entityType,
+            entityId,
+            name: "",
+            brands: [],
+            campaigns: [],
+            masterPlans: [],
+            microPlans: [],
+            content: []
+        };
+
+        switch (entityType) {
+            case DeletableEntity.Brand: {
+                const brand = entity as Brand;
+                tree.name = brand.name;
+                tree.brands = [brand];
+                tree.campaigns = await this.campaignRepository.find({ brandId: entityId, ...scope }, false);
+                await this.collectPlans(tree, tree.campaigns.map(campaign => campaign._id!), scope);
+                // Standalone content of the brand as well as the content of its plans
+                tree.content = await this.contentRepository.find({
+                    $or: [
+                        { microPlanId: { $in: tree.microPlans.map(plan => plan._id!) } },
+                        { brandId: entityId }
+                    ],
+                    ...scope
+                }, false);
+                break;
+            }
+
+            case DeletableEntity.Campaign: {
+                const campaign = entity as Campaign;
+                tree.name = campaign.name;
+                tree.campaigns = await this.campaignRepository.findAllVersionsByRoot(campaign.rootCampaignId || campaign._id!, deletedAt);
+                await this.collectPlans(tree, tree.campaigns.map(version => version._id!), scope);
+                await this.collectPlanContent(tree, scope);
+                break;
+            }
+
+            case DeletableEntity.Plan: {
+                const plan = entity as MasterPlan | MicroPlan;
+                const versions = await this.planRepository.findAllVersionsByRoot(plan.rootPlanId || plan._id!, deletedAt);
+                tree.name = plan.title;
+                if (plan.type === PlanType.Master) {
+                    tree.masterPlans = versions as MasterPlan[];
+                    tree.microPlans = await this.planRepository.find({
+                        type: PlanType.Micro,
+                        masterPlanId: { $in: versions.map(version => version._id!) },
+                        ...scope
+                    }, false) as MicroPlan[];
+                } else {
+                    tree.microPlans = versions as MicroPlan[];
+                }
+                await this.collectPlanContent(tree, scope);
+                break;
+            }
+
+            case DeletableEntity.Content: {
+                const content = entity as Content;
+                tree.name = content.title;
+                tree.content = await this.contentRepository.findAllVersionsByRoot(content.rootContentId || content._id!, deletedAt);
+                break;
+            }
+        }
+
+        return tree;
+    }
+
+    /**
+     * Collect every version of the master plans of campaigns and their micro plans
+     */
+    private async collectPlans(tree: DeletionTree, campaignIds: string[], scope: { deletedAt?: Date }): Promise<void> {
+        tree.masterPlans = await this.planRepository.find({
+            type: PlanType.Master,
+            campaignId: { $in: campaignIds },
+            ...scope
+        }, false) as MasterPlan[];
+        tree.microPlans = await this.planRepository.find({
+            type: PlanType.Micro,
+            masterPlanId: { $in: tree.masterPlans.map(plan => plan._id!) },
+            ...scope
+        }, false) as MicroPlan[];
+    }
+
+    /**
+     * Collect every version of the content of the collected micro plans
+     */
+    private async collectPlanContent(tree: DeletionTree, scope: { deletedAt?: Date }): Promise<void> {
+        tree.content = await this.contentRepository.find({
+            microPlanId: { $in: tree.microPlans.map(plan => plan._id!) },
+            ...scope
+        }, false);
+    }
+
+    /**
+     * Check that the parent of a soft-deleted entity is live, so restoring it doesn't create an orphan
+     */
+    private async checkParentRestorable(entityType: DeletableEntity, document: Brand | Campaign | MasterPlan | MicroPlan | Content): Promise<void> {
+        let parentType: DeletableEntity | null = null;
+        let parentId: string | undefined;
+
+        if (entityType === DeletableEntity.Campaign) {
+            parentType = DeletableEntity.Brand;
+            parentId = (document as Campaign).brandId;
+        } else if (entityType === DeletableEntity.Plan) {
+            const plan = document as MasterPlan | MicroPlan;
+            parentType = plan.type === PlanType.Master ? DeletableEntity.Campaign : DeletableEntity.Plan;
+            parentId = plan.type === PlanType.Master ? plan.campaignId : plan.masterPlanId;
+        } else if (entityType === DeletableEntity.Content) {
+            const content = document as Content;
+            parentType = content.microPlanId ? DeletableEntity.Plan : DeletableEntity.Brand;
+            parentId = content.microPlanId || content.brandId;
+        }
+
+        if (!parentType || !parentId) return;
+
+        const parent = await this.findEntity(parentType, parentId, true).catch(() => null);
+        if (!parent) {
+            throw new ConflictError(`The ${ENTITY_LABELS[parentType].toLowerCase()} this ${ENTITY_LABELS[entityType].toLowerCase()} belongs to (ID: ${parentId}) no longer exists`);
+        }
+        if (parent.deletedAt) {
+            throw new ConflictError(
+                `The ${ENTITY_LABELS[parentType].toLowerCase()} this ${ENTITY_LABELS[entityType].toLowerCase()} belongs to (ID: ${parentId}) is in the trash. Restore it first`,
+                { parentType, parentId }
+            );
+        }
+    }
+
+    /**
+     * Permanently delete documents, dependents before the documents they reference
+     */
+    private async deleteDocuments(documents: DocumentSet): Promise<DeletedCounts> {
+        const deleted = emptyCounts();
+
+        // Media and history belong to the root content, shared by all its versions
+        const historyDeletedFor = new Set<string>();
+        for (const content of documents.content) {
+            const rootId = content.rootContentId || content._id!;
+            if (!historyDeletedFor.has(rootId)) {
+                deleted.mediaAssets += await this.mediaService.deleteAllMedia(content);
+                deleted.metricSnapshots += await this.metricsRepository.deleteByContentId(rootId);
+                deleted.publishAttempts += await this.publishAttemptRepository.deleteByRootContentId(rootId);
+                deleted.reviewDecisions += await this.reviewDecisionRepository.deleteByRootContentId(rootId);
+                historyDeletedFor.add(rootId);
+            }
+            if (await this.contentRepository.delete(content._id!)) deleted.content++;
+        }
+
+        for (const plan of [...documents.microPlans, ...documents.masterPlans]) {
+            if (await this.planRepository.delete(plan._id!)) deleted.plans++;
+        }
+
+        for (const campaign of documents.campaigns) {
+            if (await this.campaignRepository.delete(campaign._id!)) deleted.campaigns++;
+        }
+
+        for (const brand of documents.brands) {
+            for (const credential of await this.credentialRepository.findByBrandId(brand._id!)) {
+                if (await this.credentialRepository.delete(credential._id!)) deleted.credentials++;
+            }
+            if (await this.brandRepository.delete(brand._id!)) deleted.brands++;
+        }
+
+        return deleted;
+    }
+
+    /**
+     * Soft delete documents together, so they can be restored together. Media, content history and credentials are kept.
+     */
+    private async softDeleteDocuments(documents: DocumentSet, deletedBy: string): Promise<DeletedCounts> {
+        const deleted = emptyCounts();
+        const deletedAt = new Date();
+
+        for (const content of documents.content) {
+            if (await this.contentRepository.softDelete(content._id!, deletedBy, deletedAt)) deleted.content++;
+        }
+
+        for (const plan of [...documents.microPlans, ...documents.masterPlans]) {
+            if (await this.planRepository.softDelete(plan._id!, deletedBy, deletedAt)) deleted.plans++;
+        }
+
+        for (const campaign of documents.campaigns) {
+            if (await this.campaignRepository.softDelete(campaign._id!, deletedBy, deletedAt)) deleted.campaigns++;
+        }
+
+        for (const brand of documents.brands) {
+            if (await this.brandRepository.softDelete(brand._id!, deletedBy, deletedAt)) deleted.brands++;
+        }
+
+        return deleted;
+    }
+}
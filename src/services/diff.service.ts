@@ -0,0 +1,109 @@
+import { Campaign } from "../models/campaign.model.js";
+import { Content } from "../models/content.model.js";
+import { DiffChangeType, FieldDiff, TextDiffSegment, VersionDiff, VersionedEntity } from "../models/diff.model.js";
+import { Plan } from "../models/plan.model.js";
+import { DiffOptions, diffDocuments, diffText } from "../utils/diff.js";
+import { CampaignService } from "./campaign.service.js";
+import { ContentService } from "./content.service.js";
+import { PlanService } from "./plan.service.js";
+
+// Fields that identify a version rather than describe the entity
+const VERSION_FIELDS = [
+    "_id", "version", "isActive", "isActiveVersion", "previousVersionId",
+    "rootCampaignId", "rootPlanId", "rootContentId", "stateMetadata.version", "created_at", "updated_at"
+];
+
+// Arrays of objects whose items are matched by a key field rather than by position
+const ARRAY_KEYS: Record<string, string> = {
+    "goals": "type",
+    "audience": "segment",
+    "contentMix": "category",
+    "majorMilestones": "description",
+    "guidelines.keyMessages": "audienceSegment",
+    "planGoals": "description",
+    "timeline": "date",
+    "performanceMetrics": "metricName"
+};
+
+// Text fields that get a word-level diff
+const TEXT_FIELDS = ["content"];
+
+type VersionedDocument = Campaign | Plan | Content;
+
+/**
+ * Field-level diffs between documents, and between versions of campaigns, plans and content
+ */
+export class DiffService {
+    private contentService: ContentService;
+    private campaignService: CampaignService;
+    private planService: PlanService;
+
+    constructor() {
+        this.contentService = new ContentService();
+        this.campaignService = new CampaignService();
+        this.planService = new PlanService();
+    }
+
+    /**
+     * Diff two versions of an entity
+     * @param entityId ID of the entity or of any of its versions
+     */
+    async compareVersions(entityType: VersionedEntity, entityId: string, fromVersion: number, toVersion: number): Promise<VersionDiff> {
+        const from = await this.getVersion(entityType, entityId, fromVersion);
+        const to = await this.getVersion(entityType, entityId, toVersion);
+        const changes = this.diffDocuments(from, to);
+
+        return {
+            entityType,
+            entityId: this.rootIdOf(from),
+            from: { id: from._id!, version: fromVersion },
+            to: { id: to._id!, version: toVersion },
+            summary: {
+                [DiffChangeType.Added]: changes.filter(change => change.type === DiffChangeType.Added).length,
+                [DiffChangeType.Removed]: changes.filter(change => change.type === DiffChangeType.Removed).length,
+                [DiffChangeType.Changed]: changes.filter(change => change.type === DiffChangeType.Changed).length
+            },
+            changes
+        };
+    }
+
+    /**
+     * List the fields added, removed and changed between two documents. Nested objects are
+     * compared field by field, arrays of objects item by item, and text fields word by word.
+     * Version bookkeeping fields are left out unless other fields to ignore are given.
+     */
+    diffDocuments(before: unknown, after: unknown, options: DiffOptions = {}): FieldDiff[] {
+        return diffDocuments(before, after, {
+            ignore: options.ignore ?? VERSION_FIELDS,
+            arrayKeys: options.arrayKeys ?? ARRAY_KEYS,
+            textFields: options.textFields ?? TEXT_FIELDS
+        });
+    }
+
+    /**
+     * Word-level diff of two texts, as runs of equal, removed and added text
+     */
+    diffText(before: string, after: string): TextDiffSegment[] {
+        return diffText(before, after);
+    }
+
+    private async getVersion(entityType: VersionedEntity, entityId: string, version: number): Promise<VersionedDocument> {
+        const document = await {
+            [VersionedEntity.Campaign]: () => this.campaignService.getCampaignVersion(entityId, version),
+            [VersionedEntity.Plan]: () => this.planService.getPlanVersion(entityId, version),
+            [VersionedEntity.Content]: () => this.contentService.getContentVersion(entityId, version)
+        }[entityType]();
+
+        if (!document) {
+            throw new Error(`Version ${version} of ${entityType} ${entityId} not found`);
+        }
+        return document;
+    }
+
+    private rootIdOf(document: VersionedDocument): string {
+        if ("rootCampaignId" in document && document.rootCampaignId) return document.rootCampaignId;
+        if ("rootPlanId" in document && document.rootPlanId) return document.rootPlanId;
+        if ("rootContentId" in document && document.rootContentId) return document.rootContentId;
+        return document._id!;
+    }
+}
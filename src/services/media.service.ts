@@ -0,0 +1,371 @@
+import { randomUUID } from "crypto";
+import { IncomingMessage } from "http";
+import path from "path";
+import { Content } from "../models/content.model.js";
+import {
+    MediaAsset,
+    MediaKind,
+    MediaRequirementStatus,
+    MediaUploadParams,
+    SUPPORTED_MEDIA_TYPES
+} from "../models/media.model.js";
+import { MediaRepository } from "../repositories/media.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { MediaAttachment } from "../channels/types.js";
+import { deleteMediaFile, readMediaFile, saveMediaFile } from "../utils/media-storage.js";
+import { BadRequestError } from "../utils/errors.js";
+import { getPublicUrl } from "../utils/network.js";
+
+const DEFAULT_MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+const DEFAULT_DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+
+// Redirects followed when downloading media, each checked like the original URL
+const MAX_DOWNLOAD_REDIRECTS = 5;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+    "image/jpeg": ".jpg",
+    "image/png": ".png",
+    "image/webp": ".webp",
+    "image/gif": ".gif",
+    "video/mp4": ".mp4",
+    "video/quicktime": ".mov"
+};
+
+/**
+ * Maximum size of an uploaded media file, configurable through MEDIA_MAX_UPLOAD_BYTES
+ */
+export function getMaxUploadBytes(): number {
+    const parsed = parseInt(process.env.MEDIA_MAX_UPLOAD_BYTES || "");
+    return isNaN(parsed) || parsed <= 0 ? DEFAULT_MAX_UPLOAD_BYTES : parsed;
+}
+
+/**
+ * Time a media download from a URL may take, redirects included, configurable through MEDIA_DOWNLOAD_TIMEOUT_MS
+ */
+export function getDownloadTimeoutMs(): number {
+    const parsed = parseInt(process.env.MEDIA_DOWNLOAD_TIMEOUT_MS || "");
+    return isNaN(parsed) || parsed <= 0 ? DEFAULT_DOWNLOAD_TIMEOUT_MS : parsed;
+}
+
+/**
+ * Maximum size of a JSON request body carrying a base64-encoded media upload
+ */
+export function getMaxJsonUploadBytes(): number {
+    return Math.ceil(getMaxUploadBytes() * 4 / 3) + 64 * 1024;
+}
+
+/**
+ * Kinds of media that satisfy a free-form requirement type (e.g. "Image", "Video", "Infographic")
+ */
+export function getAcceptedKinds(requirementType: string): MediaKind[] {
+    const type = requirementType.trim().toLowerCase();
+
+    if (type.includes("video") || type.includes("clip")) {
+        return [MediaKind.Video];
+    }
+    if (type.includes("gif")) {
+        return [MediaKind.Gif];
+    }
+    if (["image", "photo", "picture", "graphic", "infographic", "illustration", "chart", "meme", "screenshot"]
+        .some(keyword => type.includes(keyword))) {
+        return [MediaKind.Image, MediaKind.Gif];
+    }
+
+    // Unknown requirement types accept any media
+    return Object.values(MediaKind);
+}
+
+export class MediaService {
+    private mediaRepository: MediaRepository;
+    private contentRepository: ContentRepository;
+
+    constructor() {
+        this.mediaRepository = new MediaRepository();
+        this.contentRepository = new ContentRepository();
+    }
+
+    /**
+     * Upload a media file for a content item.
+     * Assets belong to the root content, so they carry over to new content versions.
+     */
+    async uploadMedia(contentId: string, params: MediaUploadParams): Promise<MediaAsset> {
+        const content = await this.getContentOrThrow(contentId);
+
+        let data: Buffer;
+        let mimeType = params.mimeType;
+        let fileName = params.fileName;
+
+        if (params.data) {
+            if (!mimeType) {
+                throw new BadRequestError("mimeType is required when uploading base64 data");
+            }
+            data = Buffer.from(params.data, "base64");
+        } else if (params.url) {
+            const downloaded = await this.download(params.url);
+            data = downloaded.data;
+            mimeType = mimeType || downloaded.mimeType;
+            fileName = fileName || path.basename(new URL(params.url).pathname) || "media";
+        } else {
+            throw new BadRequestError("Either data or url must be provided");
+        }
+
+        return await this.storeMedia(content, {
+            data,
+            mimeType: mimeType || "",
+            fileName: fileName || "media",
+            description: params.description,
+            altText: params.altText,
+            sourceUrl: params.url,
+            uploadedBy: params.userId
+        });
+    }
+
+    /**
+     * Upload a media file from raw bytes
+     */
+    async uploadMediaFile(
+        contentId: string,
+        file: { data: Buffer; mimeType: string; fileName: string },
+        details: { description?: string; altText?: string; userId?: string } = {}
+    ): Promise<MediaAsset> {
+        const content = await this.getContentOrThrow(contentId);
+        return await this.storeMedia(content, {
+            ...file,
+            description: details.description,
+            altText: details.altText,
+            uploadedBy: details.userId
+        });
+    }
+
+    /**
+     * List the media assets of a content item
+     */
+    async listMedia(contentId: string): Promise<MediaAsset[]> {
+        const content = await this.getContentOrThrow(contentId);
+        return await this.mediaRepository.findByContentId(this.getRootId(content));
+    }
+
+    /**
+     * Get a media asset of a content item
+     */
+    async getMedia(contentId: string, mediaId: string): Promise<MediaAsset | null> {
+        const content = await this.getContentOrThrow(contentId);
+        const asset = await this.mediaRepository.findById(mediaId);
+        if (!asset || asset.contentId !== this.getRootId(content)) return null;
+        return asset;
+    }
+
+    /**
+     * Read the file of a media asset
+     */
+    async readMedia(asset: MediaAsset): Promise<Buffer> {
+        return await readMediaFile(asset.storageKey);
+    }
+
+    /**
+     * Delete a media asset and its file
+     */
+    async deleteMedia(contentId: string, mediaId: string): Promise<boolean> {
+        const asset = await this.getMedia(contentId, mediaId);
+        if (!asset) return false;
+
+        const deleted = await this.mediaRepository.delete(mediaId);
+        if (deleted) {
+            await deleteMediaFile(asset.storageKey);
+        }
+        return deleted;
+    }
+
+    /**
+     * Delete every media asset of a content item and their files, when the content itself is deleted
+     * @returns the number of assets deleted
+     */
+    async deleteAllMedia(content: Content): Promise<number> {
+        let deleted = 0;
+        for (const asset of await this.mediaRepository.findByContentId(this.getRootId(content))) {
+            if (await this.mediaRepository.delete(asset._id!)) {
+                await deleteMediaFile(asset.storageKey);
+                deleted++;
+            }
+        }
+        return deleted;
+    }
+
+    /**
+     * Check whether the media requirement of a content item is fulfilled.
+     * A requirement is fulfilled by any uploaded asset of an accepted kind.
+     */
+    async getRequirementStatus(content: Content): Promise<MediaRequirementStatus> {
+        const assets = await this.mediaRepository.findByContentId(this.getRootId(content));
+        const requirement = content.mediaRequirements;
+
+        if (!requirement) {
+            return { required: false, acceptedKinds: Object.values(MediaKind), fulfilled: true, assets };
+        }
+
+        const acceptedKinds = getAcceptedKinds(requirement.type);
+        return {
+            required: true,
+            requirement,
+            acceptedKinds,
+            fulfilled: assets.some(asset => acceptedKinds.includes(asset.kind)),
+            assets
+        };
+    }
+
+    /**
+     * Load the media to attach when publishing a content item
+     * @throws BadRequestError if a required asset is missing
+     */
+    async getAttachmentsForPublishing(content: Content): Promise<MediaAttachment[]> {
+        const status = await this.getRequirementStatus(content);
+
+        if (!status.fulfilled) {
+            throw new BadRequestError(
+                `Content ${content._id} is missing required media: ${status.requirement!.type} (${status.requirement!.description}). ` +
+                `Upload a ${status.acceptedKinds.join(" or ")} before publishing.`
+            );
+        }
+
+        // Only media of the required kind is attached when there is a requirement
+        const assets = status.required
+            ? status.assets.filter(asset => status.acceptedKinds.includes(asset.kind))
+            : status.assets;
+
+        return await Promise.all(assets.map(async asset => ({
+            data: await readMediaFile(asset.storageKey),
+            mediaType: asset.mimeType,
+            fileName: asset.fileName,
+            altText: asset.altText,
+            mediaId: asset._id
+        })));
+    }
+
+    private async storeMedia(
+        content: Content,
+        file: {
+            data: Buffer;
+            mimeType: string;
+            fileName: string;
+            description?: string;
+            altText?: string;
+            sourceUrl?: string;
+            uploadedBy?: string;
+        }
+    ): Promise<MediaAsset> {
+        const mimeType = file.mimeType.split(";")[0].trim().toLowerCase();
+        const kind = SUPPORTED_MEDIA_TYPES[mimeType];
+        if (!kind) {
+            throw new BadRequestError(`Unsupported media type "${file.mimeType}". Supported types: ${Object.keys(SUPPORTED_MEDIA_TYPES).join(", ")}`);
+        }
+
+        if (file.data.length === 0) {
+            throw new BadRequestError("Media file is empty");
+        }
+
+        const maxBytes = getMaxUploadBytes();
+        if (file.data.length > maxBytes) {
+            throw new BadRequestError(`Media file is ${file.data.length} bytes, which exceeds the maximum upload size of ${maxBytes} bytes`);
+        }
+
+        const rootId = this.getRootId(content);
+        const storageKey = `${rootId}/${randomUUID()}${FILE_EXTENSIONS[mimeType]}`;
+        await saveMediaFile(storageKey, file.data);
+
+        try {
+            return await this.mediaRepository.create({
+                contentId: rootId,
+                fileName: file.fileName,
+                mimeType,
+                kind,
+                size: file.data.length,
+                storageKey,
+                description: file.description,
+                altText: file.altText,
+                sourceUrl: file.sourceUrl,
+                uploadedBy: file.uploadedBy
+            });
+        } catch (error) {
+            // Don't leave orphaned files behind
+            await deleteMediaFile(storageKey);
+            throw error;
+        }
+    }
+
+    /**
+     * Download a media file from a public http(s) URL. Redirects are followed by
+     * hand so every hop is checked, the body is read up to the upload limit, and
+     * the whole download must finish within the download timeout.
+     */
+    private async download(url: string): Promise<{ data: Buffer; mimeType: string }> {
+        const maxBytes = getMaxUploadBytes();
+        const timeoutMs = getDownloadTimeoutMs();
+        const controller = new AbortController();
+        const deadline = AbortSignal.timeout(timeoutMs);
+        const signal = AbortSignal.any([controller.signal, deadline]);
+
+        try {
+            let target = url;
+            let response: IncomingMessage;
+            for (let redirects = 0; ; redirects++) {
+                response = await getPublicUrl(target, signal);
+
+                const status = response.statusCode || 0;
+                const location = response.headers.location;
+                if (status < 300 || status >= 400 || !location) break;
+                if (redirects >= MAX_DOWNLOAD_REDIRECTS) {
+                    throw new BadRequestError(`Too many redirects downloading media from ${url}`);
+                }
+                response.resume();
+                target = new URL(location, target).toString();
+            }
+
+            const status = response.statusCode || 0;
+            if (status < 200 || status >= 300) {
+                throw new BadRequestError(`Failed to download media from ${url}: ${status} ${response.statusMessage || ""}`.trim());
+            }
+
+            const tooLarge = () => new BadRequestError(`Media at ${url} exceeds the maximum upload size of ${maxBytes} bytes`);
+            const declaredLength = parseInt(response.headers["content-length"] || "");
+            if (!isNaN(declaredLength) && declaredLength > maxBytes) {
+                throw tooLarge();
+            }
+
+            // The declared length may be missing or wrong, so count the bytes received
+            const chunks: Buffer[] = [];
+            let size = 0;
+            for await (const chunk of response) {
+                size += chunk.length;
+                if (size > maxBytes) {
+                    throw tooLarge();
+                }
+                chunks.push(chunk);
+            }
+
+            return {
+                data: Buffer.concat(chunks),
+                mimeType: response.headers["content-type"] || ""
+            };
+        } catch (error) {
+            if (deadline.aborted) {
+                throw new BadRequestError(`Downloading media from ${url} took longer than ${timeoutMs} ms`);
+            }
+            throw error;
+        } finally {
+            // Close the connection of a download that stopped early
+            controller.abort();
+        }
+    }
+
+    private async getContentOrThrow(contentId: string): Promise<Content> {
+        const content = await this.contentRepository.findById(contentId);
+        if (!content) {
+            throw new Error(`Content with ID ${contentId} not found`);
+        }
+        return content;
+    }
+
+    private getRootId(content: Content): string {
+        return content.rootContentId || content._id!;
+    }
+}
@@ -0,0 +1,65 @@
+import { MetricsService } from "./metrics.service.js";
+import { PerformanceService } from "./performance.service.js";
+
+/**
+ * Periodically snapshots the engagement of recently published content and
+ * rolls it up into the KPIs of active campaigns
+ */
+export class MetricsCollectorService {
+    private metricsService: MetricsService;
+    private performanceService: PerformanceService;
+    private collectInterval: NodeJS.Timeout | null = null;
+    private collecting = false;
+
+    constructor(metricsService: MetricsService = new MetricsService()) {
+        this.metricsService = metricsService;
+        this.performanceService = new PerformanceService();
+    }
+
+    /**
+     * Start the collector
+     */
+    start(intervalMs: number = 60 * 60 * 1000): void {
+        if (this.collectInterval) return;
+
+        // Schedule first collection
+        this.collectMetrics(intervalMs);
+
+        // Set up recurring collections
+        this.collectInterval = setInterval(() => {
+            this.collectMetrics(intervalMs);
+        }, intervalMs);
+
+        console.log(`Metrics collector started, collecting every ${intervalMs}ms`);
+    }
+
+    /**
+     * Stop the collector
+     */
+    stop(): void {
+        if (this.collectInterval) {
+            clearInterval(this.collectInterval);
+            this.collectInterval = null;
+            console.log("Metrics collector stopped");
+        }
+    }
+
+    private async collectMetrics(intervalMs: number): Promise<void> {
+        // Skip a run while the previous one is still going
+        if (this.collecting) return;
+        this.collecting = true;
+
+        try {
+            // Leave some slack so a run that starts slightly early still collects
+            const collected = await this.metricsService.collectDueMetrics(intervalMs / 2);
+            if (collected > 0) {
+                console.log(`Collected metrics for ${collected} content item(s)`);
+                await this.performanceService.refreshActiveCampaigns();
+            }
+        } catch (error) {
+            console.error("Error collecting content metrics:", error);
+        } finally {
+            this.collecting = false;
+        }
+    }
+}
@@ -0,0 +1,113 @@
+import { Content, ContentState } from "../models/content.model.js";
+import { ContentMetricsHistory, ContentMetricsSnapshot } from "../models/content-metrics.model.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { ContentMetricsRepository } from "../repositories/content-metrics.repository.js";
+import { ContentService } from "./content.service.js";
+import { ChannelRegistry, getChannelRegistry } from "../channels/registry.js";
+import { BadRequestError } from "../utils/errors.js";
+
+const DEFAULT_COLLECTION_WINDOW_DAYS = 30;
+
+/**
+ * How long after publishing engagement keeps being collected, configurable through METRICS_COLLECTION_WINDOW_DAYS
+ */
+export function getMetricsCollectionWindowDays(): number {
+    const parsed = parseInt(process.env.METRICS_COLLECTION_WINDOW_DAYS || "");
+    return isNaN(parsed) || parsed <= 0 ? DEFAULT_COLLECTION_WINDOW_DAYS : parsed;
+}
+
+export class MetricsService {
+    private contentRepository: ContentRepository;
+    private metricsRepository: ContentMetricsRepository;
+    private contentService: ContentService;
+    private channelRegistry: ChannelRegistry;
+
+    constructor(channelRegistry: ChannelRegistry = getChannelRegistry()) {
+        this.contentRepository = new ContentRepository();
+        this.metricsRepository = new ContentMetricsRepository();
+        this.contentService = new ContentService();
+        this.channelRegistry = channelRegistry;
+    }
+
+    /**
+     * Fetch the current engagement of a published content item from its channel
+     * and store it as a snapshot
+     */
+    async collectMetrics(content: Content): Promise<ContentMetricsSnapshot> {
+        const postId = content.publishedMetadata?.postId;
+        if (content.state !== ContentState.Published || !postId) {
+            throw new BadRequestError(`Content ${content._id} has not been published, so it has no metrics`);
+        }
+
+        // Ask the channel the content was actually published to
+        const channel = this.channelRegistry.resolve(content.publishedMetadata?.platformSpecificData?.channel || content.platform);
+        const brandId = await this.contentService.resolveBrandId(content);
+        const fetched = await channel.fetchMetrics(postId, brandId);
+
+        const metrics: Record<string, number> = {};
+        for (const [name, value] of Object.entries(fetched)) {
+            if (typeof value === "number" && !isNaN(value)) {
+                metrics[name] = value;
+            }
+        }
+
+        return await this.metricsRepository.create({
+            contentId: content.rootContentId || content._id!,
+            contentVersionId: content._id!,
+            channel: channel.name,
+            postId,
+            capturedAt: new Date(),
+            metrics,
+            engagement: (metrics.likes || 0) + (metrics.shares || 0) + (metrics.replies || 0)
+        });
+    }
+
+    /**
+     * Snapshot the engagement of all content published within the collection window.
+     * Content snapshotted less than minIntervalMs ago is skipped, so several
+     * collectors sharing a database don't store duplicate snapshots.
+     * @returns the number of snapshots stored
+     */
+    async collectDueMetrics(minIntervalMs: number = 0): Promise<number> {
+        const windowStart = new Date(Date.now() - getMetricsCollectionWindowDays() * 24 * 60 * 60 * 1000);
+        const publishedContent = await this.contentRepository.findPublishedSince(windowStart);
+
+        let collected = 0;
+        for (const content of publishedContent) {
+            try {
+                if (minIntervalMs > 0) {
+                    const latest = await this.metricsRepository.findLatestByContentId(content.rootContentId || content._id!);
+                    if (latest && Date.now() - latest.capturedAt.getTime() < minIntervalMs) {
+                        continue;
+                    }
+                }
+
+                await this.collectMetrics(content);
+                collected++;
+            } catch (error) {
+                console.error(`Failed to collect metrics for content ${content._id}:`, error);
+            }
+        }
+
+        return collected;
+    }
+
+    /**
+     * Get the engagement history of a content item (all versions), oldest first
+     */
+    async getMetricHistory(contentId: string, from?: Date, to?: Date): Promise<ContentMetricsHistory> {
+        const content = await this.contentRepository.findById(contentId);
+        if (!content) {
+            throw new Error(`Content with ID ${contentId} not found`);
+        }
+
+        const rootId = content.rootContentId || content._id!;
+        const history = await this.metricsRepository.findByContentId(rootId, from, to);
+
+        return {
+            contentId: rootId,
+            latest: await this.metricsRepository.findLatestByContentId(rootId),
+            history
+        };
+    }
+}
@@ -0,0 +1,289 @@
+import { Campaign, CampaignStatus } from "../models/campaign.model.js";
+import { Content, ContentState } from "../models/content.model.js";
+import { MasterPlan, MicroPlan } from "../models/plan.model.js";
+import {
+    CampaignPerformance,
+    KpiProgress,
+    MasterPlanPerformance,
+    MeasuredField,
+    MeasuredTotals,
+    MicroPlanPerformance,
+    PaceStatus
+} from "../models/performance.model.js";
+import { CampaignRepository } from "../repositories/campaign.repository.js";
+import { PlanRepository } from "../repositories/plan.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { ContentMetricsRepository } from "../repositories/content-metrics.repository.js";
+
+// Share of the expected progress a KPI may deviate by and still count as on track
+const PACE_TOLERANCE = 0.1;
+
+// Keywords identifying the measured field of a KPI metric name, checked in order
+const METRIC_KEYWORDS: [MeasuredField, string[]][] = [
+    [MeasuredField.EngagementRate, ["engagementrate", "interactionrate"]],
+    [MeasuredField.Engagement, ["engagement", "interaction"]],
+    [MeasuredField.Likes, ["like", "favorite", "favourite", "heart"]],
+    [MeasuredField.Shares, ["retweet", "share", "repost"]],
+    [MeasuredField.Replies, ["repl", "comment"]],
+    [MeasuredField.Views, ["view", "impression", "reach"]],
+    [MeasuredField.Posts, ["post", "tweet", "publication", "piece", "content", "article", "thread"]]
+];
+
+/**
+ * Map a free-form KPI metric name (e.g. "Total Retweets", "impressions") to the
+ * content measurement it tracks
+ * @returns null if the metric is not measured from content engagement
+ */
+export function resolveMetricField(metric: string): MeasuredField | null {
+    const normalized = metric.toLowerCase().replace(/[^a-z]/g, "");
+    for (const [field, keywords] of METRIC_KEYWORDS) {
+        if (keywords.some(keyword => normalized.includes(keyword))) {
+            return field;
+        }
+    }
+    return null;
+}
+
+/**
+ * Rolls content engagement up the micro plan -> master plan -> campaign hierarchy
+ * and reports progress against the KPI targets at each level
+ */
+export class PerformanceService {
+    private campaignRepository: CampaignRepository;
+    private planRepository: PlanRepository;
+    private contentRepository: ContentRepository;
+    private metricsRepository: ContentMetricsRepository;
+
+    constructor() {
+        this.campaignRepository = new CampaignRepository();
+        this.planRepository = new PlanRepository();
+        this.contentRepository = new ContentRepository();
+        this.metricsRepository = new ContentMetricsRepository();
+    }
+
+    /**
+     * Compute the performance of a campaign and its plans, without storing anything
+     */
+    async getCampaignPerformance(campaignId: string, now: Date = new Date()): Promise<CampaignPerformance> {
+        const campaign = await this.campaignRepository.findById(campaignId);
+        if (!campaign) {
+            throw new Error(`Campaign with ID ${campaignId} not found`);
+        }
+
+        return await this.rollupCampaign(campaign, now);
+    }
+
+    /**
+     * Refresh the micro plan actuals of every active campaign, storing the measured
+     * actuals of micro plan performance metrics on the micro plans
+     * @returns the number of campaigns refreshed
+     */
+    async refreshActiveCampaigns(): Promise<number> {
+        const campaigns = await this.campaignRepository.find({ status: CampaignStatus.Active });
+
+        let refreshed = 0;
+        for (const campaign of campaigns) {
+            try {
+                await this.rollupCampaign(campaign, new Date(), true);
+                refreshed++;
+            } catch (error) {
+                console.error(`Failed to roll up performance of campaign ${campaign._id}:`, error);
+            }
+        }
+        return refreshed;
+    }
+
+    private async rollupCampaign(campaign: Campaign, now: Date, storeActuals: boolean = false): Promise<CampaignPerformance> {
+        const masterPlans = await this.planRepository.findMasterPlansByCampaignId(campaign._id!);
+        const masterPlanPerformance = await Promise.all(
+            masterPlans.map(masterPlan => this.rollupMasterPlan(masterPlan, now, storeActuals))
+        );
+
+        const totals = this.sumTotals(masterPlanPerformance.map(plan => plan.totals));
+        const elapsedPercent = this.getElapsedPercent(campaign.startDate, campaign.endDate, now);
+
+        return {
+            campaignId: campaign._id!,
+            name: campaign.name,
+            start: campaign.startDate,
+            end: campaign.endDate,
+            elapsedPercent,
+            contentCount: masterPlanPerformance.reduce((count, plan) => count + plan.contentCount, 0),
+            totals,
+            kpis: campaign.goals.flatMap(goal => goal.kpis.map(kpi => ({
+                ...this.getProgress(kpi.metric, kpi.target, totals, elapsedPercent, now < campaign.startDate),
+                goal: goal.type
+            }))),
+            masterPlans: masterPlanPerformance,
+            generatedAt: now
+        };
+    }
+
+    private async rollupMasterPlan(masterPlan: MasterPlan, now: Date, storeActuals: boolean): Promise<MasterPlanPerformance> {
+        const microPlans = await this.planRepository.findMicroPlansByMasterId(masterPlan._id!);
+        const microPlanPerformance = await Promise.all(
+            microPlans.map(microPlan => this.rollupMicroPlan(microPlan, now, storeActuals))
+        );
+
+        const totals = this.sumTotals(microPlanPerformance.map(plan => plan.totals));
+        const { start, end } = masterPlan.dateRange;
+        const elapsedPercent = this.getElapsedPercent(start, end, now);
+
+        return {
+            planId: masterPlan._id!,
+            title: masterPlan.title,
+            start,
+            end,
+            elapsedPercent,
+            contentCount: microPlanPerformance.reduce((count, plan) => count + plan.contentCount, 0),
+            totals,
+            metrics: (masterPlan.planGoals || []).flatMap(goal => goal.metrics.map(metric => ({
+                ...this.getProgress(metric.name, metric.target, totals, elapsedPercent, now < start),
+                goal: goal.description
+            }))),
+            microPlans: microPlanPerformance
+        };
+    }
+
+    private async rollupMicroPlan(microPlan: MicroPlan, now: Date, storeActuals: boolean): Promise<MicroPlanPerformance> {
+        const content = await this.contentRepository.findByMicroPlanId(microPlan._id!);
+        const totals = await this.measureContent(content);
+        const { start, end } = microPlan.dateRange;
+        const elapsedPercent = this.getElapsedPercent(start, end, now);
+
+        const metrics = (microPlan.performanceMetrics || []).map(metric =>
+            this.getProgress(metric.metricName, metric.target, totals, elapsedPercent, now < start)
+        );
+
+        // Store the measured actuals; metrics that can't be measured keep their manual value
+        if (storeActuals && metrics.some(metric => metric.actual !== null)) {
+            await this.planRepository.updatePerformanceMetrics(
+                microPlan._id!,
+                microPlan.performanceMetrics!.map((metric, index) => ({
+                    ...metric,
+                    actual: metrics[index].actual ?? metric.actual
+                }))
+            );
+        }
+
+        return {
+            planId: microPlan._id!,
+            title: microPlan.title,
+            start,
+            end,
+            elapsedPercent,
+            contentCount: content.length,
+            totals,
+            metrics
+        };
+    }
+
+    /**
+     * Sum the latest engagement snapshot of each published content item
+     */
+    private async measureContent(content: Content[]): Promise<MeasuredTotals> {
+        const published = content.filter(item => item.state === ContentState.Published);
+        const latest = await this.metricsRepository.findLatestByContentIds(
+            published.map(item => item.rootContentId || item._id!)
+        );
+
+        const totals = this.emptyTotals();
+        totals[MeasuredField.Posts] = published.length;
+        for (const snapshot of latest.values()) {
+            totals[MeasuredField.Likes] += snapshot.metrics.likes || 0;
+            totals[MeasuredField.Shares] += snapshot.metrics.shares || 0;
+            totals[MeasuredField.Replies] += snapshot.metrics.replies || 0;
+            totals[MeasuredField.Views] += snapshot.metrics.views || 0;
+            totals[MeasuredField.Engagement] += snapshot.engagement;
+        }
+        return this.withEngagementRate(totals);
+    }
+
+    private sumTotals(parts: MeasuredTotals[]): MeasuredTotals {
+        const totals = this.emptyTotals();
+        for (const part of parts) {
+            for (const field of Object.values(MeasuredField)) {
+                totals[field] += part[field];
+            }
+        }
+        return this.withEngagementRate(totals);
+    }
+
+    private emptyTotals(): MeasuredTotals {
+        return Object.fromEntries(Object.values(MeasuredField).map(field => [field, 0])) as MeasuredTotals;
+    }
+
+    /**
+     * Engagement rate is a ratio, so it is derived from the summed totals instead of being summed
+     */
+    private withEngagementRate(totals: MeasuredTotals): MeasuredTotals {
+        totals[MeasuredField.EngagementRate] = totals[MeasuredField.Views] > 0
+            ? Math.round(totals[MeasuredField.Engagement] / totals[MeasuredField.Views] * 10000) / 100
+            : 0;
+        return totals;
+    }
+
+    private getProgress(
+        metric: string,
+        target: number,
+        totals: MeasuredTotals,
+        elapsedPercent: number,
+        notStarted: boolean
+    ): KpiProgress {
+        const field = resolveMetricField(metric);
+        if (!field) {
+            return {
+                metric,
+                field,
+                target,
+                actual: null,
+                percentOfTarget: null,
+                expectedPercent: elapsedPercent,
+                projected: null,
+                pace: PaceStatus.Unmeasured
+            };
+        }
+
+        const actual = totals[field];
+        const percentOfTarget = target > 0 ? this.round(actual / target * 100) : 100;
+
+        // Rates don't accumulate over time, so they are compared with the full target
+        const cumulative = field !== MeasuredField.EngagementRate;
+        const expectedPercent = cumulative ? elapsedPercent : 100;
+        const projected = cumulative
+            ? (elapsedPercent > 0 ? this.round(actual / (elapsedPercent / 100)) : null)
+            : actual;
+
+        let pace: PaceStatus;
+        if (percentOfTarget >= 100) {
+            pace = PaceStatus.Achieved;
+        } else if (notStarted) {
+            pace = PaceStatus.NotStarted;
+        } else if (elapsedPercent >= 100) {
+            pace = PaceStatus.Missed;
+        } else if (percentOfTarget >= expectedPercent * (1 + PACE_TOLERANCE)) {
+            pace = PaceStatus.Ahead;
+        } else if (percentOfTarget >= expectedPercent * (1 - PACE_TOLERANCE)) {
+            pace = PaceStatus.OnTrack;
+        } else {
+            pace = PaceStatus.Behind;
+        }
+
+        return { metric, field, target, actual, percentOfTarget, expectedPercent, projected, pace };
+    }
+
+    /**
+     * Share of a date range that has passed, from 0 to 100
+     */
+    private getElapsedPercent(start: Date, end: Date, now: Date): number {
+        const duration = end.getTime() - start.getTime();
+        if (duration <= 0) {
+            return now >= end ? 100 : 0;
+        }
+        return this.round(Math.min(Math.max((now.getTime() - start.getTime()) / duration, 0), 1) * 100);
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
@@ -3,6 +3,9 @@ import { Plan, PlanState, PlanType, MasterPlan, MicroPlan, MasterPlanCreationPar
 import { BrandRepository } from "../repositories/brand.repository.js";
 import { CampaignRepository } from "../repositories/campaign.repository.js";
 import { PlanRepository } from "../repositories/plan.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { DeletableEntity, DeleteMode, DeletionResult } from "../models/integrity.model.js";
+import { DeletionService } from "./deletion.service.js";
 
 export interface StateTransitionMetadata {
   userId: string;
@@ -13,10 +16,14 @@ export class PlanService {
   private planRepository: PlanRepository;
   private campaignRepository: CampaignRepository;
   private brandRepository: BrandRepository;
+  private contentRepository: ContentRepository;
+  private deletionService: DeletionService;
   constructor() {
     this.planRepository = new PlanRepository();
     this.campaignRepository = new CampaignRepository();
     this.brandRepository = new BrandRepository();
+    this.contentRepository = new ContentRepository();
+    this.deletionService = new DeletionService();
   }
 
   /**
@@ -55,6 +62,7 @@ export class PlanService {
         comments: ""
       },
       isActive: false,
+      isActiveVersion: true,
       created_at: new Date()
     };
 
@@ -94,6 +102,7 @@ export class PlanService {
         comments: ""
       },
       isActive: false,
+      isActiveVersion: true,
       created_at: new Date()
     };
 
@@ -245,6 +254,11 @@ export class PlanService {
       throw new Error("Plan not found");
     }
 
+    // Check if we should create a new version or update in place
+    if (updates.create_new_version) {
+      return await this.createNewVersion(plan, updates);
+    }
+
     // Update state metadata
     const stateMetadata = {
       ...plan.stateMetadata,
@@ -258,6 +272,108 @@ export class PlanService {
     });
   }
 
+  /**
+   * Create a new version of a plan. Micro plans and content move to the new version.
+   */
+  private async createNewVersion(
+    existingPlan: Plan,
+    updates: MasterPlanUpdateParams | MicroPlanUpdateParams
+  ): Promise<Plan> {
+    // Strip non-plan data fields from updates
+    const { plan_id, plan_name, create_new_version, ...planUpdates } = updates;
+
+    // Merge the updates the way an update in place does
+    const merged = this.planRepository.applyUpdates(existingPlan, planUpdates as Partial<Omit<Plan, "_id">>);
+    const { _id, created_at, updated_at, deletedAt, deletedBy, ...planData } = merged;
+
+    // Prepare new version data:
+    // 1. It gets a new _id (assigned by MongoDB)
+    // 2. Increment version number
+    // 3. Set the other versions' isActiveVersion to false
+    // 4. Save reference to previous version
+    // 5. Keep reference to root version if it exists, otherwise use existing plan ID
+    const version = existingPlan.stateMetadata.version + 1;
+    const rootId = existingPlan.rootPlanId || existingPlan._id!;
+
+    await this.planRepository.deactivateAllVersionsByRoot(rootId);
+
+    const newVersion = await this.planRepository.create({
+      ...planData,
+      stateMetadata: {
+        ...planData.stateMetadata,
+        version,
+        updatedBy: "system-user",
+        comments: `Created new version ${version}`
+      },
+      isActiveVersion: true,
+      previousVersionId: existingPlan._id,
+      rootPlanId: rootId
+    });
+
+    await this.moveDependents(existingPlan, [existingPlan._id!], newVersion._id!);
+    return newVersion;
+  }
+
+  /**
+   * Get all versions of a plan
+   */
+  async getAllPlanVersions(planId: string): Promise<Plan[]> {
+    const plan = await this.planRepository.findById(planId);
+    if (!plan) return [];
+
+    // Get all versions with the same root
+    return await this.planRepository.findAllVersionsByRoot(plan.rootPlanId || plan._id!);
+  }
+
+  /**
+   * Get specific version of plan
+   */
+  async getPlanVersion(planId: string, version: number): Promise<Plan | null> {
+    const plan = await this.planRepository.findById(planId);
+    if (!plan) return null;
+
+    // Find plan with the same root and the specified version
+    return await this.planRepository.findVersionByRoot(plan.rootPlanId || plan._id!, version);
+  }
+
+  /**
+   * Activate a specific version of plan. Micro plans and content move to the activated version.
+   */
+  async activatePlanVersion(planId: string, userId: string): Promise<Plan | null> {
+    const plan = await this.planRepository.findById(planId);
+    if (!plan) return null;
+
+    // If already active, just return it
+    if (plan.isActiveVersion) return plan;
+
+    const rootId = plan.rootPlanId || plan._id!;
+    const versions = await this.planRepository.findAllVersionsByRoot(rootId);
+
+    // Deactivate all versions with the same root
+    await this.planRepository.deactivateAllVersionsByRoot(rootId);
+
+    // Activate the specified version
+    const activated = await this.planRepository.activateVersion(planId, userId);
+
+    await this.moveDependents(
+      plan,
+      versions.filter(version => version._id !== planId).map(version => version._id!),
+      planId
+    );
+    return activated;
+  }
+
+  /**
+   * Point the micro plans of a master plan, or the content of a micro plan, at another version of it
+   */
+  private async moveDependents(plan: Plan, fromIds: string[], toId: string): Promise<void> {
+    if (plan.type === PlanType.Master) {
+      await this.planRepository.reassignMicroPlans(fromIds, toId);
+    } else {
+      await this.contentRepository.reassignMicroPlan(fromIds, toId);
+    }
+  }
+
   /**
    * Transition plan state
    */
@@ -337,10 +453,19 @@ export class PlanService {
   }
 
   /**
-   * Get a plan by ID
+   * Get a plan by ID. The ID of an inactive version gets the active version.
    */
   async getPlan(id: string): Promise<Plan | null> {
-    return await this.planRepository.findById(id);
+    // First try to find by direct ID
+    const plan = await this.planRepository.findById(id);
+
+    // If not found or if it's an active version, return it
+    if (!plan || plan.isActiveVersion) {
+      return plan;
+    }
+
+    // If it's not active, find the active version with the same root
+    return await this.planRepository.findActiveVersionByRoot(plan.rootPlanId || plan._id!);
   }
 
   /**
@@ -435,7 +560,10 @@ export class PlanService {
     ) as MicroPlan;
   }
 
-  async deletePlan(id: string): Promise<Boolean | null> {
-    return await this.planRepository.delete(id);
+  /**
+   * Delete a plan. By default the plan is moved to the trash with its micro plans and content.
+   */
+  async deletePlan(id: string, mode: DeleteMode = DeleteMode.Soft): Promise<DeletionResult> {
+    return await this.deletionService.delete(DeletableEntity.Plan, id, mode);
   }
 }
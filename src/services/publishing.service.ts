@@ -0,0 +1,358 @@
+import { Content, ContentState } from "../models/content.model.js";
+import { Brand } from "../models/brand.model.js";
+import { PublishAttempt, PublishAttemptStatus, PublishTrigger } from "../models/publish-attempt.model.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { BrandRepository } from "../repositories/brand.repository.js";
+import { PublishAttemptRepository } from "../repositories/publish-attempt.repository.js";
+import { ContentService } from "./content.service.js";
+import { MediaService } from "./media.service.js";
+import { SchedulingRulesService } from "./scheduling-rules.service.js";
+import { ChannelRegistry, getChannelRegistry } from "../channels/registry.js";
+import { ChannelPublisher, PartialPublishError, PublishResult } from "../channels/types.js";
+import { BadRequestError } from "../utils/errors.js";
+
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_RETRY_BACKOFF_MS = 60 * 1000;
+const DEFAULT_RETRY_MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export interface PublishOutcome {
+    content: Content;
+    result: PublishResult;
+    channel: string;
+    brand: Brand;
+}
+
+/**
+ * Result of a scheduled publish: published, waiting for a retry, or given up on
+ */
+export interface ScheduledPublishOutcome {
+    status: "published" | "retrying" | "failed";
+    content: Content;
+    outcome?: PublishOutcome;
+    error?: string;
+    failedAttempts?: number;
+    nextAttemptAt?: Date;
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || "");
+    return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+/**
+ * Number of retries after the first failed scheduled publish, configurable through PUBLISH_MAX_RETRIES
+ */
+export function getMaxPublishRetries(): number {
+    return parsePositiveInt(process.env.PUBLISH_MAX_RETRIES, DEFAULT_MAX_RETRIES);
+}
+
+/**
+ * Delay before the next scheduled publish attempt. Doubles with every failure,
+ * starting at PUBLISH_RETRY_BACKOFF_MS and capped at PUBLISH_RETRY_MAX_BACKOFF_MS.
+ */
+export function getRetryDelayMs(failedAttempts: number): number {
+    const base = parsePositiveInt(process.env.PUBLISH_RETRY_BACKOFF_MS, DEFAULT_RETRY_BACKOFF_MS);
+    const max = parsePositiveInt(process.env.PUBLISH_RETRY_MAX_BACKOFF_MS, DEFAULT_RETRY_MAX_BACKOFF_MS);
+    return Math.min(base * Math.pow(2, Math.max(failedAttempts - 1, 0)), max);
+}
+
+/**
+ * What a failed publish posted before failing, e.g. the first tweets of a thread
+ */
+export function getPartialResult(error: unknown): PublishResult | undefined {
+    return error && typeof error === "object" ? (error as Partial<PartialPublishError>).partialResult : undefined;
+}
+
+/**
+ * Whether a publish error is worth retrying. Errors flagged `retryable: false`
+ * and client errors (4xx) fail the same way on every attempt.
+ */
+export function isRetryableError(error: unknown): boolean {
+    if (!error || typeof error !== "object") return true;
+
+    const { retryable, statusCode, status } = error as { retryable?: unknown; statusCode?: unknown; status?: unknown };
+    if (typeof retryable === "boolean") return retryable;
+
+    const code = typeof statusCode === "number" ? statusCode : status;
+    return !(typeof code === "number" && code >= 400 && code < 500);
+}
+
+export class PublishingService {
+    private contentRepository: ContentRepository;
+    private brandRepository: BrandRepository;
+    private publishAttemptRepository: PublishAttemptRepository;
+    private contentService: ContentService;
+    private mediaService: MediaService;
+    private schedulingRulesService: SchedulingRulesService;
+    private channelRegistry: ChannelRegistry;
+
+    constructor(channelRegistry: ChannelRegistry = getChannelRegistry()) {
+        this.contentRepository = new ContentRepository();
+        this.brandRepository = new BrandRepository();
+        this.publishAttemptRepository = new PublishAttemptRepository();
+        this.contentService = new ContentService();
+        this.mediaService = new MediaService();
+        this.schedulingRulesService = new SchedulingRulesService();
+        this.channelRegistry = channelRegistry;
+    }
+
+    /**
+     * Get the channel adapter a content item should be published through
+     */
+    getChannelForContent(content: Content): ChannelPublisher {
+        return this.channelRegistry.resolve(content.platform);
+    }
+
+    /**
+     * List the registered channel names
+     */
+    listChannels(): string[] {
+        return this.channelRegistry.list();
+    }
+
+    /**
+     * Publish a content item through the channel matching its platform and
+     * mark it as published. Every attempt is recorded in the publish history.
+     * What a failed attempt already posted is kept in the content's published
+     * metadata, for the channel to resume after on the next attempt.
+     */
+    async publishContent(
+        content: Content,
+        userId: string,
+        trigger: PublishTrigger = PublishTrigger.Manual
+    ): Promise<PublishOutcome> {
+        if (!content._id) {
+            throw new Error("Content id missing.");
+        }
+
+        // Only content in Ready state can be published
+        if (content.state !== ContentState.Ready) {
+            throw new Error(`Content must be in '${ContentState.Ready}' state to be published`);
+        }
+
+        const attemptedAt = new Date();
+        let channelName = content.platform || "unknown";
+        let published: { result: PublishResult; brand: Brand; mediaIds: string[] };
+
+        try {
+            const channel = this.getChannelForContent(content);
+            channelName = channel.name;
+
+            // Check channel constraints before contacting the platform
+            const validation = channel.validate(content);
+            if (!validation.valid) {
+                throw new BadRequestError(`Content cannot be published to ${channel.name}: ${validation.errors.join("; ")}`);
+            }
+
+            // Resolve the brand whose account publishes the content
+            const brandId = await this.contentService.resolveBrandId(content);
+            const brand = await this.brandRepository.findById(brandId);
+            if (!brand) {
+                throw new Error(`Brand with ID ${brandId} not found`);
+            }
+
+            // Load the media to attach; fails while a required asset is missing
+            const media = await this.mediaService.getAttachmentsForPublishing(content);
+
+            const result = await channel.publish(content, brand._id!, media);
+            published = { result, brand, mediaIds: media.map(item => item.mediaId!).filter(Boolean) };
+        } catch (error) {
+            const partialResult = getPartialResult(error);
+            await this.recordAttempt(content, {
+                channel: channelName,
+                status: PublishAttemptStatus.Failure,
+                trigger,
+                userId,
+                attemptedAt,
+                error: {
+                    message: error instanceof Error ? error.message : String(error),
+                    code: this.getErrorCode(error),
+                    retryable: isRetryableError(error)
+                },
+                ...(partialResult && {
+                    response: { id: partialResult.id, url: partialResult.url, platformSpecificData: partialResult.platformSpecificData }
+                })
+            });
+
+            if (partialResult) {
+                await this.contentRepository.update(content._id, {
+                    publishedMetadata: {
+                        url: partialResult.url,
+                        postId: partialResult.id,
+                        platformSpecificData: { channel: channelName, ...partialResult.platformSpecificData }
+                    }
+                });
+            }
+            throw error;
+        }
+
+        const { result, brand, mediaIds } = published;
+
+        await this.recordAttempt(content, {
+            channel: channelName,
+            status: PublishAttemptStatus.Success,
+            trigger,
+            userId,
+            attemptedAt,
+            response: { id: result.id, url: result.url, platformSpecificData: result.platformSpecificData }
+        });
+
+        // Update content status
+        const publishedAt = new Date();
+        const updatedContent = await this.contentRepository.update(content._id, {
+            state: ContentState.Published,
+            stateMetadata: {
+                ...content.stateMetadata,
+                updatedBy: userId,
+                comments: `Published to ${channelName}: ${result.url}`,
+                publishedAt,
+                publishedUrl: result.url
+            },
+            publishedMetadata: {
+                url: result.url,
+                postId: result.id,
+                platformSpecificData: {
+                    channel: channelName,
+                    ...(mediaIds.length > 0 && { mediaIds }),
+                    ...result.platformSpecificData
+                }
+            }
+        });
+
+        if (!updatedContent) {
+            throw new Error(`Failed to update content ${content._id} after publishing`);
+        }
+
+        // Published content no longer needs its retry bookkeeping
+        const finalContent = content.stateMetadata.failedAttempts
+            ? await this.contentRepository.resetPublishFailures(content._id) ?? updatedContent
+            : updatedContent;
+
+        return { content: finalContent, result, channel: channelName, brand };
+    }
+
+    /**
+     * Publish a scheduled content item. Failures are retried with exponential
+     * backoff; once retries are exhausted, or the error cannot be fixed by
+     * retrying, the content moves to the Failed state.
+     */
+    async publishScheduledContent(content: Content): Promise<ScheduledPublishOutcome> {
+        try {
+            const outcome = await this.publishContent(content, "scheduler", PublishTrigger.Scheduler);
+            return { status: "published", content: outcome.content, outcome };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const failedAttempts = (content.stateMetadata.failedAttempts || 0) + 1;
+            const now = new Date();
+
+            if (!isRetryableError(error) || failedAttempts > getMaxPublishRetries()) {
+                const failed = await this.contentRepository.update(content._id!, {
+                    state: ContentState.Failed,
+                    stateMetadata: {
+                        ...content.stateMetadata,
+                        updatedBy: "scheduler",
+                        comments: `Publishing failed after ${failedAttempts} attempt(s): ${message}`,
+                        failedAttempts,
+                        lastPublishError: message,
+                        failedAt: now
+                    }
+                });
+                return { status: "failed", content: failed ?? content, error: message, failedAttempts };
+            }
+
+            const nextAttemptAt = new Date(now.getTime() + getRetryDelayMs(failedAttempts));
+            const retrying = await this.contentRepository.update(content._id!, {
+                stateMetadata: {
+                    ...content.stateMetadata,
+                    failedAttempts,
+                    lastPublishError: message,
+                    nextAttemptAt
+                }
+            });
+            return { status: "retrying", content: retrying ?? content, error: message, failedAttempts, nextAttemptAt };
+        }
+    }
+
+    /**
+     * Get content that exhausted its publish retries
+     */
+    async getFailedContent(): Promise<Content[]> {
+        return await this.contentRepository.findByState(ContentState.Failed);
+    }
+
+    /**
+     * Get the publish history of a content item (all versions), newest first
+     */
+    async getPublishAttempts(contentId: string, limit?: number): Promise<PublishAttempt[]> {
+        const content = await this.contentRepository.findById(contentId);
+        if (!content) {
+            throw new Error(`Content with ID ${contentId} not found`);
+        }
+
+        return await this.publishAttemptRepository.findByRootContentId(content.rootContentId || content._id!, limit);
+    }
+
+    /**
+     * Move failed content back to Ready and schedule it for publishing, immediately unless
+     * a publish time is given. A given time must meet the scheduling rules of the content's
+     * brand; without one the content goes out at the first slot meeting them. Content that
+     * was partly published, like a broken off thread, resumes after what was published.
+     */
+    async requeueContent(contentId: string, userId: string, publishAt?: Date): Promise<Content> {
+        const content = await this.contentRepository.findById(contentId);
+        if (!content) {
+            throw new Error(`Content with ID ${contentId} not found`);
+        }
+
+        if (content.state !== ContentState.Failed) {
+            throw new BadRequestError(`Only content in '${ContentState.Failed}' state can be requeued (current state: '${content.state}')`);
+        }
+
+        const scheduledFor = await this.schedulingRulesService.resolveSlot(
+            content,
+            await this.contentService.resolveBrandId(content),
+            publishAt || new Date(),
+            !publishAt
+        );
+
+        await this.contentRepository.update(contentId, {
+            state: ContentState.Ready,
+            stateMetadata: {
+                ...content.stateMetadata,
+                updatedBy: userId,
+                comments: "Requeued for publishing",
+                scheduledFor
+            }
+        });
+
+        const requeued = await this.contentRepository.resetPublishFailures(contentId);
+        if (!requeued) {
+            throw new Error(`Failed to requeue content ${contentId}`);
+        }
+
+        return requeued;
+    }
+
+    private async recordAttempt(
+        content: Content,
+        attempt: Pick<PublishAttempt, "channel" | "status" | "trigger" | "userId" | "attemptedAt" | "error" | "response">
+    ): Promise<void> {
+        try {
+            await this.publishAttemptRepository.create({
+                ...attempt,
+                contentId: content._id!,
+                rootContentId: content.rootContentId || content._id!,
+                attemptNumber: (content.stateMetadata.failedAttempts || 0) + 1,
+                durationMs: Date.now() - attempt.attemptedAt.getTime()
+            });
+        } catch (error) {
+            // The publish outcome matters more than its history entry
+            console.error(`Failed to record publish attempt for content ${content._id}:`, error);
+        }
+    }
+
+    private getErrorCode(error: unknown): string | undefined {
+        const code = (error as { code?: unknown })?.code;
+        return typeof code === "string" ? code : undefined;
+    }
+}
@@ -0,0 +1,241 @@
+import { Campaign } from "../models/campaign.model.js";
+import { Content, ContentState } from "../models/content.model.js";
+import { MasterPlan } from "../models/plan.model.js";
+import {
+    CadenceBucket,
+    CadenceInterval,
+    CampaignReport,
+    MilestoneSummary,
+    TopContent
+} from "../models/report.model.js";
+import { CampaignRepository } from "../repositories/campaign.repository.js";
+import { PlanRepository } from "../repositories/plan.repository.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { ContentMetricsRepository } from "../repositories/content-metrics.repository.js";
+import { ContentMixService } from "./content-mix.service.js";
+import { BadRequestError } from "../utils/errors.js";
+
+// Most cadence buckets a report holds (about 2.7 years of days)
+const MAX_CADENCE_BUCKETS = 1000;
+
+const PERIOD_MS: Record<CadenceInterval.Day | CadenceInterval.Week, number> = {
+    [CadenceInterval.Day]: 24 * 60 * 60 * 1000,
+    [CadenceInterval.Week]: 7 * 24 * 60 * 60 * 1000
+};
+
+export interface CampaignReportOptions {
+    interval?: CadenceInterval;
+    topCount?: number;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Start of the UTC day, ISO week (Monday) or month containing a date
+ */
+function getPeriodStart(date: Date, interval: CadenceInterval): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (interval === CadenceInterval.Week) {
+        start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    } else if (interval === CadenceInterval.Month) {
+        start.setUTCDate(1);
+    }
+    return start;
+}
+
+/**
+ * Number of periods from the one containing first to the one containing last
+ */
+function countPeriods(first: Date, last: Date, interval: CadenceInterval): number {
+    const firstStart = getPeriodStart(first, interval);
+    const lastStart = getPeriodStart(last, interval);
+    if (interval === CadenceInterval.Month) {
+        return (lastStart.getUTCFullYear() - firstStart.getUTCFullYear()) * 12 +
+            lastStart.getUTCMonth() - firstStart.getUTCMonth() + 1;
+    }
+    return Math.round((lastStart.getTime() - firstStart.getTime()) / PERIOD_MS[interval]) + 1;
+}
+
+function getNextPeriodStart(periodStart: Date, interval: CadenceInterval): Date {
+    const next = new Date(periodStart);
+    if (interval === CadenceInterval.Day) {
+        next.setUTCDate(next.getUTCDate() + 1);
+    } else if (interval === CadenceInterval.Week) {
+        next.setUTCDate(next.getUTCDate() + 7);
+    } else {
+        next.setUTCMonth(next.getUTCMonth() + 1);
+    }
+    return next;
+}
+
+/**
+ * Builds campaign dashboards from content, plans and engagement metrics
+ */
+export class ReportService {
+    private campaignRepository: CampaignRepository;
+    private planRepository: PlanRepository;
+    private contentRepository: ContentRepository;
+    private metricsRepository: ContentMetricsRepository;
+    private contentMixService: ContentMixService;
+
+    constructor() {
+        this.campaignRepository = new CampaignRepository();
+        this.planRepository = new PlanRepository();
+        this.contentRepository = new ContentRepository();
+        this.metricsRepository = new ContentMetricsRepository();
+        this.contentMixService = new ContentMixService();
+    }
+
+    /**
+     * Build the analytics report of a campaign
+     */
+    async getCampaignReport(campaignId: string, options: CampaignReportOptions = {}): Promise<CampaignReport> {
+        const campaign = await this.campaignRepository.findById(campaignId);
+        if (!campaign) {
+            throw new Error(`Campaign with ID ${campaignId} not found`);
+        }
+
+        const interval = options.interval || CadenceInterval.Week;
+        const now = new Date();
+
+        const masterPlans = await this.planRepository.findMasterPlansByCampaignId(campaign._id!);
+        const microPlans = (await Promise.all(
+            masterPlans.map(masterPlan => this.planRepository.findMicroPlansByMasterId(masterPlan._id!))
+        )).flat();
+        const content = (await Promise.all(
+            microPlans.map(microPlan => this.contentRepository.findByMicroPlanId(microPlan._id!))
+        )).flat();
+
+        const contentByState = Object.fromEntries(
+            Object.values(ContentState).map(state => [state, 0])
+        ) as Record<ContentState, number>;
+        for (const item of content) {
+            contentByState[item.state]++;
+        }
+
+        return {
+            campaignId: campaign._id!,
+            name: campaign.name,
+            start: campaign.startDate,
+            end: campaign.endDate,
+            contentCount: content.length,
+            contentByState,
+            cadence: {
+                interval,
+                buckets: this.getCadence(campaign, content, interval)
+            },
+            milestones: this.getMilestones(campaign, masterPlans, now),
+            contentMix: this.contentMixService.getContentMix(campaign, content),
+            channelDistribution: this.contentMixService.getChannelDistribution(masterPlans, content),
+            topContent: await this.getTopContent(content, options.topCount ?? 5),
+            generatedAt: now
+        };
+    }
+
+    /**
+     * Count published and still scheduled content per period, covering the
+     * campaign date range and any content outside it
+     * @throws BadRequestError if that takes more than MAX_CADENCE_BUCKETS periods
+     */
+    private getCadence(campaign: Campaign, content: Content[], interval: CadenceInterval): CadenceBucket[] {
+        const published = content
+            .filter(item => item.state === ContentState.Published && item.stateMetadata.publishedAt)
+            .map(item => item.stateMetadata.publishedAt!);
+        const scheduled = content
+            .filter(item => item.state === ContentState.Ready && item.stateMetadata.scheduledFor)
+            .map(item => item.stateMetadata.scheduledFor!);
+
+        const times = [campaign.startDate, campaign.endDate, ...published, ...scheduled].map(date => date.getTime());
+        const first = new Date(Math.min(...times));
+        const last = new Date(Math.max(...times));
+
+        const periods = countPeriods(first, last, interval);
+        if (periods > MAX_CADENCE_BUCKETS) {
+            throw new BadRequestError(
+                `The campaign and its content span ${periods} ${interval} periods (${first.toISOString()} to ${last.toISOString()}), ` +
+                `more than the ${MAX_CADENCE_BUCKETS} a report can hold; use a longer interval`
+            );
+        }
+
+        const buckets: CadenceBucket[] = [];
+        const index = new Map<number, CadenceBucket>();
+        for (let periodStart = getPeriodStart(first, interval);
+            periodStart <= last;
+            periodStart = getNextPeriodStart(periodStart, interval)) {
+            const bucket = { periodStart, published: 0, scheduled: 0 };
+            buckets.push(bucket);
+            index.set(periodStart.getTime(), bucket);
+        }
+
+        for (const date of published) {
+            index.get(getPeriodStart(date, interval).getTime())!.published++;
+        }
+        for (const date of scheduled) {
+            index.get(getPeriodStart(date, interval).getTime())!.scheduled++;
+        }
+
+        return buckets;
+    }
+
+    /**
+     * Completion of the campaign milestones and master plan timeline events
+     */
+    private getMilestones(campaign: Campaign, masterPlans: MasterPlan[], now: Date): MilestoneSummary {
+        const milestones: MilestoneSummary["milestones"] = [
+            ...campaign.majorMilestones.map(milestone => ({
+                source: "campaign" as const,
+                date: milestone.date,
+                description: milestone.description,
+                status: milestone.status,
+                overdue: milestone.status !== "completed" && !!milestone.date && milestone.date < now
+            })),
+            ...masterPlans.flatMap(masterPlan => (masterPlan.timeline || []).map(event => ({
+                source: "master_plan" as const,
+                planId: masterPlan._id,
+                date: event.date,
+                description: event.description,
+                status: event.status,
+                overdue: event.status !== "completed" && event.date < now
+            })))
+        ];
+
+        const completed = milestones.filter(milestone => milestone.status === "completed").length;
+
+        return {
+            total: milestones.length,
+            completed,
+            overdue: milestones.filter(milestone => milestone.overdue).length,
+            completionPercent: milestones.length > 0 ? round(completed / milestones.length * 100) : 0,
+            milestones
+        };
+    }
+
+    /**
+     * Published content with the most engagement, from the latest metric snapshots
+     */
+    private async getTopContent(content: Content[], count: number): Promise<TopContent[]> {
+        const published = content.filter(item => item.state === ContentState.Published);
+        if (count <= 0 || published.length === 0) return [];
+
+        const latest = await this.metricsRepository.findLatestByContentIds(
+            published.map(item => item.rootContentId || item._id!)
+        );
+
+        return published
+            .map(item => ({ item, snapshot: latest.get(item.rootContentId || item._id!) }))
+            .filter(({ snapshot }) => !!snapshot)
+            .sort((a, b) => b.snapshot!.engagement - a.snapshot!.engagement)
+            .slice(0, count)
+            .map(({ item, snapshot }) => ({
+                contentId: item._id!,
+                title: item.title,
+                platform: item.platform,
+                publishedUrl: item.stateMetadata.publishedUrl,
+                publishedAt: item.stateMetadata.publishedAt,
+                engagement: snapshot!.engagement,
+                metrics: snapshot!.metrics
+            }));
+    }
+}
@@ -1,25 +1,50 @@
+import { randomUUID } from "crypto";
+import os from "os";
 import { ContentRepository } from "../repositories/content.repository.js";
-import { BrandRepository } from "../repositories/brand.repository.js";
-import { PlanRepository } from "../repositories/plan.repository.js";
-import { CampaignRepository } from "../repositories/campaign.repository.js";
-import { TwitterService } from "./twitter.service.js";
-import { ContentState } from "../models/content.model.js";
-import { PlanType } from "../models/plan.model.js";
+import { PublishingService } from "./publishing.service.js";
+import { Content, ContentState } from "../models/content.model.js";
 
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+export interface SchedulerOptions {
+    /**
+     * Identifies this scheduler instance in content leases (defaults to host, pid and a random suffix)
+     */
+    ownerId?: string;
+    /**
+     * How long a claimed content item stays reserved for this instance before
+     * other instances may take it over (defaults to SCHEDULER_LEASE_MS or 5 minutes)
+     */
+    leaseMs?: number;
+    publishingService?: PublishingService;
+}
+
+/**
+ * Lease duration for claimed content, configurable through SCHEDULER_LEASE_MS
+ */
+export function getSchedulerLeaseMs(): number {
+    const parsed = parseInt(process.env.SCHEDULER_LEASE_MS || "");
+    return isNaN(parsed) || parsed <= 0 ? DEFAULT_LEASE_MS : parsed;
+}
+
+/**
+ * Publishes scheduled content. Several instances can run against the same
+ * database: each due content item is claimed with a lease before publishing,
+ * so only one instance publishes it.
+ */
 export class SchedulerService {
     private contentRepository: ContentRepository;
-    private brandRepository: BrandRepository;
-    private planRepository: PlanRepository;
-    private campaignRepository: CampaignRepository;
-    private twitterService: TwitterService;
+    private publishingService: PublishingService;
     private checkInterval: NodeJS.Timeout | null = null;
+    private checking: Promise<number> | null = null;
+    readonly ownerId: string;
+    readonly leaseMs: number;
 
-    constructor() {
+    constructor(options: SchedulerOptions = {}) {
         this.contentRepository = new ContentRepository();
-        this.brandRepository = new BrandRepository();
-        this.planRepository = new PlanRepository();
-        this.campaignRepository = new CampaignRepository();
-        this.twitterService = new TwitterService();
+        this.publishingService = options.publishingService || new PublishingService();
+        this.ownerId = options.ownerId || `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+        this.leaseMs = options.leaseMs || getSchedulerLeaseMs();
     }
 
     /**
@@ -36,7 +61,7 @@ export class SchedulerService {
             this.checkScheduledContent();
         }, intervalMs);
 
-        console.log(`Scheduler started, checking every ${intervalMs}ms`);
+        console.log(`Scheduler ${this.ownerId} started, checking every ${intervalMs}ms`);
     }
 
     /**
@@ -51,96 +76,73 @@ export class SchedulerService {
     }
 
     /**
-     * Check for content that needs to be published
+     * Claim and publish due content until none is left. A check that is still
+     * running when the next one is due is joined rather than started twice.
+     * @returns the number of content items this instance processed
      */
-    private async checkScheduledContent(): Promise<void> {
+    async checkScheduledContent(): Promise<number> {
+        if (!this.checking) {
+            this.checking = this.processDueContent().finally(() => {
+                this.checking = null;
+            });
+        }
+        return this.checking;
+    }
+
+    private async processDueContent(): Promise<number> {
+        let processed = 0;
+
         try {
-            const now = new Date();
-
-            // Find scheduled content
-            const scheduledContent = await this.contentRepository.findScheduledBefore(now);
-
-            for (const content of scheduledContent) {
-                try {
-                    if (!content._id) {
-                        throw new Error("Content id missing.");
-                    }
-
-                    // Skip content that's not in Ready state
-                    if (content.state !== ContentState.Ready) {
-                        console.log(`Content ${content._id} is scheduled but not in Ready state. Skipping.`);
-                        continue;
-                    }
-
-                    // Determine if this is standalone content or part of a campaign
-                    let brandId: string;
-
-                    if (content.brandId) {
-                        // This is standalone content directly associated with a brand
-                        brandId = content.brandId;
-                    } else if (content.microPlanId) {
-                        // This is campaign-driven content - follow the hierarchy
-
-                        // Get the micro plan
-                        const microPlan = await this.planRepository.findById(content.microPlanId);
-                        if (!microPlan) {
-                            continue;
-                        }
-
-                        // Verify plan type
-                        if (microPlan.type !== PlanType.Micro) {
-                            continue;
-                        }
-
-                        // Get the master plan
-                        const masterPlan = await this.planRepository.findById(microPlan.masterPlanId);
-                        if (!masterPlan) {
-                            continue;
-                        }
-
-                        // Verify plan type
-                        if (masterPlan.type !== PlanType.Master) {
-                            continue;
-                        }
-
-                        // Get the campaign
-                        const campaign = await this.campaignRepository.findById(masterPlan.campaignId);
-                        if (!campaign) {
-                            continue;
-                        }
-
-                        brandId = campaign.brandId;
-                    } else {
-                        console.warn(`Content ${content._id} is not associated with either a micro plan or a brand`);
-                        continue;
-                    }
-
-                    // Get brand for publishing
-                    const brand = await this.brandRepository.findById(brandId);
-                    if (!brand) {
-                        console.error(`Brand not found for content ${content._id}`);
-                        continue;
-                    }
-
-                    // Publish to Twitter
-                    const result = await this.twitterService.publishContent(content, brand._id!);
-
-                    // Update content status
-                    content.state = ContentState.Published;
-                    content.stateMetadata.publishedAt = now;
-                    content.stateMetadata.publishedUrl = result.url;
-                    await this.contentRepository.update(content._id, {
-                        state: ContentState.Published,
-                        stateMetadata: content.stateMetadata
-                    });
-
-                    console.log(`Published content ${content._id} to Twitter: ${result.url}`);
-                } catch (error) {
-                    console.error(`Failed to publish content ${content._id}:`, error);
-                }
+            const recovered = await this.contentRepository.releaseExpiredLeases();
+            if (recovered > 0) {
+                console.warn(`Recovered ${recovered} expired scheduler lease(s)`);
+            }
+
+            let content: Content | null;
+            while ((content = await this.contentRepository.claimDueContent(this.ownerId, this.leaseMs))) {
+                processed++;
+                await this.publishClaimedContent(content);
             }
         } catch (error) {
             console.error("Error checking scheduled content:", error);
         }
+
+        return processed;
+    }
+
+    /**
+     * Publish a claimed content item, renewing its lease while the channel works
+     */
+    private async publishClaimedContent(content: Content): Promise<void> {
+        const contentId = content._id!;
+        const renewal = setInterval(async () => {
+            try {
+                if (!await this.contentRepository.renewLease(contentId, this.ownerId, this.leaseMs)) {
+                    console.warn(`Scheduler ${this.ownerId} lost its lease on content ${contentId}`);
+                }
+            } catch (error) {
+                console.error(`Failed to renew lease on content ${contentId}:`, error);
+            }
+        }, Math.max(Math.floor(this.leaseMs / 2), 1));
+
+        try {
+            // Publish through the channel matching the content's platform
+            const scheduled = await this.publishingService.publishScheduledContent(content);
+
+            if (scheduled.status === "published") {
+                console.log(`Published content ${contentId} to ${scheduled.outcome!.channel}: ${scheduled.outcome!.result.url}`);
+            } else if (scheduled.status === "retrying") {
+                console.warn(`Failed to publish content ${contentId} (attempt ${scheduled.failedAttempts}), retrying at ${scheduled.nextAttemptAt!.toISOString()}: ${scheduled.error}`);
+            } else {
+                console.error(`Failed to publish content ${contentId} after ${scheduled.failedAttempts} attempt(s), marked as ${ContentState.Failed}: ${scheduled.error}`);
+            }
+
+            clearInterval(renewal);
+            await this.contentRepository.releaseLease(contentId, this.ownerId);
+        } catch (error) {
+            // Keep the lease until it expires, so the content is not claimed again straight away
+            clearInterval(renewal);
+            console.error(`Failed to publish content ${contentId}:`, error);
+        }
     }
 }
\ No newline at end of file
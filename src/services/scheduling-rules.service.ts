@@ -0,0 +1,286 @@
+import { Content, ContentState } from "../models/content.model.js";
+import { SchedulingRules } from "../models/brand.model.js";
+import { CalendarEntryType } from "../models/calendar.model.js";
+import {
+    ScheduleConflict,
+    ScheduleConflictReport,
+    ScheduledPost,
+    SchedulingRule,
+    SchedulingViolation
+} from "../models/scheduling.model.js";
+import { BrandRepository } from "../repositories/brand.repository.js";
+import { CalendarService } from "./calendar.service.js";
+import { ChannelRegistry, getDefaultChannelName } from "../channels/registry.js";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors.js";
+import { fromZonedTime, getNextZonedDayStart, getZonedDay, getZonedTime } from "../utils/timezone.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far content may be shifted to find a slot meeting the rules
+const MAX_SHIFT_DAYS = 30;
+// Longest range a conflict report can cover
+const MAX_REPORT_DAYS = 90;
+
+const DEFAULT_TIMEZONE = "UTC";
+
+// A broken rule and the earliest time that rule allows
+interface RuleCheck {
+    violation: SchedulingViolation;
+    nextAllowedAt: Date;
+}
+
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+}
+
+function platformOf(platform?: string): string {
+    return ChannelRegistry.normalize(platform || getDefaultChannelName());
+}
+
+/**
+ * Posts other than the content itself needed around a slot: enough to cover the
+ * minimum gap and the local day on either side
+ */
+function getMargin(rules: SchedulingRules): number {
+    return (rules.minGapMinutes || 0) * 60 * 1000 + 2 * DAY_MS;
+}
+
+/**
+ * Enforces the posting cadence rules of brands (minimum gap between posts, posts
+ * per day per platform, blackout windows and allowed hours) on scheduled content
+ */
+export class SchedulingRulesService {
+    private brandRepository: BrandRepository;
+    private calendarService: CalendarService;
+
+    constructor() {
+        this.brandRepository = new BrandRepository();
+        this.calendarService = new CalendarService();
+    }
+
+    /**
+     * Check a slot for a post on a platform against the rules, given the brand's other posts
+     */
+    checkSlot(rules: SchedulingRules, slot: Date, platform: string, others: ScheduledPost[]): SchedulingViolation[] {
+        return this.evaluate(rules, slot, platformOf(platform), others).map(check => check.violation);
+    }
+
+    /**
+     * Find the first slot at or after a time that meets the rules
+     * @returns null if there is none until latest
+     */
+    findNextSlot(rules: SchedulingRules, from: Date, platform: string, others: ScheduledPost[], latest: Date): Date | null {
+        let slot = from;
+        while (slot <= latest) {
+            const checks = this.evaluate(rules, slot, platformOf(platform), others);
+            if (checks.length === 0) return slot;
+
+            // Every broken rule allows a later time, so this always moves forward
+            slot = new Date(Math.max(...checks.map(check => check.nextAllowedAt.getTime())));
+        }
+        return null;
+    }
+
+    /**
+     * Time content of a brand may be scheduled for at a requested time. Without
+     * autoShift a slot breaking the brand's rules is rejected; with it the content
+     * moves to the next slot meeting them.
+     */
+    async resolveSlot(content: Content, brandId: string, publishAt: Date, autoShift: boolean = false): Promise<Date> {
+        const brand = await this.brandRepository.findById(brandId);
+        const rules = brand?.schedulingRules;
+        if (!rules) return publishAt;
+
+        const latest = new Date(publishAt.getTime() + MAX_SHIFT_DAYS * DAY_MS);
+        const margin = getMargin(rules);
+        const others = (await this.getPosts(brandId, new Date(publishAt.getTime() - margin), new Date(latest.getTime() + margin)))
+            .filter(post => post.contentId !== content._id);
+
+        const platform = platformOf(content.platform);
+        const violations = this.checkSlot(rules, publishAt, platform, others);
+        if (violations.length === 0) return publishAt;
+
+        const next = this.findNextSlot(rules, publishAt, platform, others, latest);
+        if (!autoShift) {
+            throw new ConflictError(
+                `The schedule breaks the brand's scheduling rules: ${violations.map(violation => violation.message).join("; ")}` +
+                    (next ? `. The next available slot is ${next.toISOString()}` : ""),
+                { violations, ...(next && { nextAvailableSlot: next }) }
+            );
+        }
+        if (!next) {
+            throw new ConflictError(
+                `No slot meeting the brand's scheduling rules within ${MAX_SHIFT_DAYS} days of ${publishAt.toISOString()}`,
+                { violations }
+            );
+        }
+        return next;
+    }
+
+    /**
+     * Report the scheduled content of a brand that breaks its scheduling rules, with
+     * the next slot meeting them. Posts break the minimum gap and the daily limit
+     * when they come after the posts they conflict with.
+     */
+    async getConflictReport(brandId: string, from: Date = new Date(), to?: Date): Promise<ScheduleConflictReport> {
+        const brand = await this.brandRepository.findById(brandId);
+        if (!brand) {
+            throw new NotFoundError(`Brand with ID ${brandId} not found`);
+        }
+
+        const end = to || new Date(from.getTime() + MAX_SHIFT_DAYS * DAY_MS);
+        if (from > end) {
+            throw new BadRequestError("The start of the report must not be after its end");
+        }
+        if (end.getTime() - from.getTime() > MAX_REPORT_DAYS * DAY_MS) {
+            throw new BadRequestError(`A conflict report can cover at most ${MAX_REPORT_DAYS} days`);
+        }
+
+        const rules = brand.schedulingRules || {};
+        const margin = getMargin(rules);
+        const posts = await this.getPosts(
+            brandId,
+            new Date(from.getTime() - margin),
+            new Date(end.getTime() + MAX_SHIFT_DAYS * DAY_MS + margin)
+        );
+        const scheduled = posts.filter(post => post.state === ContentState.Ready && post.date >= from && post.date <= end);
+
+        const conflicts: ScheduleConflict[] = [];
+        for (const post of scheduled) {
+            const others = posts.filter(other => other !== post);
+            const earlier = posts.slice(0, posts.indexOf(post));
+            const violations = this.checkSlot(rules, post.date, post.platform, earlier);
+            if (violations.length === 0) continue;
+
+            const suggestedSlot = this.findNextSlot(rules, post.date, post.platform, others,
+                new Date(post.date.getTime() + MAX_SHIFT_DAYS * DAY_MS));
+            conflicts.push({
+                contentId: post.contentId,
+                title: post.title,
+                platform: post.platform,
+                scheduledFor: post.date,
+                violations,
+                ...(suggestedSlot && { suggestedSlot })
+            });
+        }
+
+        return {
+            brandId,
+            timezone: rules.timezone || DEFAULT_TIMEZONE,
+            from,
+            to: end,
+            postCount: scheduled.length,
+            conflicts,
+            checkedAt: new Date()
+        };
+    }
+
+    /**
+     * Scheduled and published content of a brand within a date range, oldest first
+     */
+    private async getPosts(brandId: string, start: Date, end: Date): Promise<ScheduledPost[]> {
+        const entries = await this.calendarService.getEntries({
+            start,
+            end,
+            brandId,
+            types: [CalendarEntryType.Content],
+            states: [ContentState.Ready, ContentState.Published]
+        });
+
+        return entries.map(entry => ({
+            contentId: entry.contentId!,
+            title: entry.title,
+            platform: platformOf(entry.platform),
+            date: entry.date,
+            state: entry.status as ContentState
+        }));
+    }
+
+    private evaluate(rules: SchedulingRules, slot: Date, platform: string, others: ScheduledPost[]): RuleCheck[] {
+        const timezone = rules.timezone || DEFAULT_TIMEZONE;
+        const samePlatform = others.filter(post => platformOf(post.platform) === platform);
+        const checks: RuleCheck[] = [];
+
+        for (const window of rules.blackoutWindows || []) {
+            if (slot >= window.start && slot < window.end) {
+                checks.push({
+                    violation: {
+                        rule: SchedulingRule.Blackout,
+                        message: `Nothing may be posted between ${window.start.toISOString()} and ${window.end.toISOString()}` +
+                            (window.reason ? ` (${window.reason})` : "")
+                    },
+                    nextAllowedAt: window.end
+                });
+            }
+        }
+
+        const hours = rules.allowedHours;
+        if (hours) {
+            const zoned = getZonedTime(slot, timezone);
+            const minutes = zoned.hour * 60 + zoned.minute;
+            const start = toMinutes(hours.start);
+            const end = toMinutes(hours.end);
+            const allowedDay = (weekday: number) => !hours.weekdays || hours.weekdays.length === 0 || hours.weekdays.includes(weekday);
+            const inHours = start === end ||
+                (start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end);
+
+            if (!inHours || !allowedDay(zoned.weekday)) {
+                // Next opening of the allowed hours on an allowed day
+                let nextAllowedAt: Date | undefined;
+                for (let offset = 0; offset <= 7 && !nextAllowedAt; offset++) {
+                    const candidate = fromZonedTime(zoned.year, zoned.month, zoned.day + offset,
+                        Math.floor(start / 60), start % 60, timezone);
+                    if (candidate > slot && allowedDay(getZonedTime(candidate, timezone).weekday)) {
+                        nextAllowedAt = candidate;
+                    }
+                }
+
+                checks.push({
+                    violation: {
+                        rule: SchedulingRule.AllowedHours,
+                        message: `Posts may only be published between ${hours.start} and ${hours.end} (${timezone})` +
+                            (hours.weekdays && hours.weekdays.length > 0 ? ` on weekdays ${hours.weekdays.join(", ")}` : "")
+                    },
+                    // Every weekday comes round within a week
+                    nextAllowedAt: nextAllowedAt!
+                });
+            }
+        }
+
+        const gapMs = (rules.minGapMinutes || 0) * 60 * 1000;
+        if (gapMs > 0) {
+            const tooClose = samePlatform.filter(post => Math.abs(post.date.getTime() - slot.getTime()) < gapMs);
+            if (tooClose.length > 0) {
+                checks.push({
+                    violation: {
+                        rule: SchedulingRule.MinGap,
+                        message: `Posts on ${platform} must be at least ${rules.minGapMinutes} minutes apart`,
+                        conflictingContentIds: tooClose.map(post => post.contentId)
+                    },
+                    nextAllowedAt: new Date(Math.max(...tooClose.map(post => post.date.getTime())) + gapMs)
+                });
+            }
+        }
+
+        const limits = rules.maxPostsPerDay || {};
+        const limitKey = Object.keys(limits).find(key => ChannelRegistry.normalize(key) === platform) ?? "*";
+        const limit = limits[limitKey];
+        if (limit !== undefined) {
+            const day = getZonedDay(slot, timezone);
+            const sameDay = samePlatform.filter(post => getZonedDay(post.date, timezone) === day);
+            if (sameDay.length >= limit) {
+                checks.push({
+                    violation: {
+                        rule: SchedulingRule.MaxPostsPerDay,
+                        message: `At most ${limit} post(s) per day may be published on ${platform}, and ${day} has ${sameDay.length}`,
+                        conflictingContentIds: sameDay.map(post => post.contentId)
+                    },
+                    nextAllowedAt: getNextZonedDayStart(slot, timezone)
+                });
+            }
+        }
+
+        return checks;
+    }
+}
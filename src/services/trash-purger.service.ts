@@ -0,0 +1,61 @@
+import { DeletionService } from "./deletion.service.js";
+
+/**
+ * Periodically purges entities that have been in the trash for longer than the
+ * retention period
+ */
+export class TrashPurgerService {
+    private deletionService: DeletionService;
+    private purgeInterval: NodeJS.Timeout | null = null;
+    private purging = false;
+
+    constructor(deletionService: DeletionService = new DeletionService()) {
+        this.deletionService = deletionService;
+    }
+
+    /**
+     * Start the purger
+     */
+    start(intervalMs: number = 24 * 60 * 60 * 1000): void {
+        if (this.purgeInterval) return;
+
+        // Schedule first purge
+        this.purgeTrash();
+
+        // Set up recurring purges
+        this.purgeInterval = setInterval(() => {
+            this.purgeTrash();
+        }, intervalMs);
+
+        console.log(`Trash purger started, purging every ${intervalMs}ms`);
+    }
+
+    /**
+     * Stop the purger
+     */
+    stop(): void {
+        if (this.purgeInterval) {
+            clearInterval(this.purgeInterval);
+            this.purgeInterval = null;
+            console.log("Trash purger stopped");
+        }
+    }
+
+    private async purgeTrash(): Promise<void> {
+        // Skip a run while the previous one is still going
+        if (this.purging) return;
+        this.purging = true;
+
+        try {
+            const { purged } = await this.deletionService.purgeTrash();
+            const total = purged.brands + purged.campaigns + purged.plans + purged.content;
+            if (total > 0) {
+                console.log(`Purged ${total} document(s) from the trash`);
+            }
+        } catch (error) {
+            console.error("Error purging the trash:", error);
+        } finally {
+            this.purging = false;
+        }
+    }
+}
@@ -1,9 +1,16 @@
 import { TwitterClient } from "../channels/twitter/client.js";
+import { getMaxThreadTweets, getMaxTweetLength, isThreadNumberingEnabled } from "../channels/twitter/config.js";
+import { ThreadPublishError, ThreadTweet, TwitterMcpError, toThreadResult } from "../channels/twitter/types.js";
+import { hasThreadSeparators, isThreadFormat, splitIntoThread } from "../channels/twitter/thread.js";
+import { ChannelMetrics, ChannelPublisher, ChannelValidationResult, MediaAttachment, PublishResult } from "../channels/types.js";
 import { Content } from "../models/content.model.js";
 import { Brand } from "../models/brand.model.js";
 import { BrandService } from "./brand.service.js";
 
-export class TwitterService {
+export class TwitterService implements ChannelPublisher {
+    readonly name = "twitter";
+    readonly aliases = ["x", "x.com", "twitter/x"];
+
     private twitterClients: Map<string, TwitterClient> = new Map();
     private brandService: BrandService;
 
@@ -21,28 +28,29 @@ export class TwitterService {
             return this.twitterClients.get(brandId)!;
         }
 
-        const twitterClient = new TwitterClient();
-
-        // Get credentials from environment variables
-        const username = process.env.TWITTER_USERNAME;
-        const password = process.env.TWITTER_PASSWORD;
-        const email = process.env.TWITTER_EMAIL;
-
-        if (!username || !password || !email) {
-            throw new Error("Twitter credentials are not set in environment variables");
-        }
+        // The client logs in with the brand's stored account, or the
+        // env-configured account when the brand has none
+        const twitterClient = new TwitterClient(brandId);
 
         this.twitterClients.set(brandId, twitterClient);
         return twitterClient;
     }
 
     /**
-     * Publish content to Twitter
+     * Publish content to Twitter, as a thread when the content asks for one
+     * or does not fit in a single tweet. A thread an earlier attempt broke off
+     * is resumed after its published tweets.
      */
-    async publishContent(content: Content, brandId: string): Promise<{ id: string, url: string }> {
+    async publishContent(content: Content, brandId: string, media: MediaAttachment[] = []): Promise<PublishResult> {
         try {
+            const tweetMedia = this.toTweetMedia(media);
+            const tweets = this.getTweetsForContent(content);
+            if (tweets.length > 1) {
+                return await this.publishThread(tweets, brandId, tweetMedia, this.getPublishedTweets(content, tweets));
+            }
+
             const twitterClient = await this.getClientForBrand(brandId);
-            const tweet = await twitterClient.sendTweet(content.content);
+            const tweet = await twitterClient.sendTweet(tweets[0] ?? content.content, undefined, tweetMedia);
             return { id: tweet.id, url: tweet.permanentUrl };
 
         } catch (error) {
@@ -50,4 +58,162 @@ export class TwitterService {
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Publish tweets as a reply chain. The first tweet identifies the thread and carries the media.
+     * @param alreadyPublished the first tweets of the thread, published before; the chain continues after them
+     * @throws ThreadPublishError with the tweets already published if the chain breaks
+     */
+    async publishThread(
+        tweets: string[],
+        brandId: string,
+        media?: { data: string; mediaType: string }[],
+        alreadyPublished: ThreadTweet[] = []
+    ): Promise<PublishResult> {
+        const twitterClient = await this.getClientForBrand(brandId);
+        const published: ThreadTweet[] = [...alreadyPublished];
+
+        for (const text of tweets.slice(published.length)) {
+            try {
+                const previous = published[published.length - 1];
+                const tweet = await twitterClient.sendTweet(text, previous?.id, previous ? undefined : media);
+                published.push({ id: tweet.id, url: tweet.permanentUrl, text });
+            } catch (error) {
+                throw new ThreadPublishError(
+                    `Thread publishing stopped after ${published.length} of ${tweets.length} tweets: ${(error as Error).message}`,
+                    published,
+                    tweets.length
+                );
+            }
+        }
+
+        return toThreadResult(published);
+    }
+
+    /**
+     * Tweets of the content's thread that an earlier, broken off attempt published
+     * @throws TwitterMcpError when the thread no longer starts with those tweets
+     */
+    private getPublishedTweets(content: Content, tweets: string[]): ThreadTweet[] {
+        const data = content.publishedMetadata?.platformSpecificData;
+        if (!data?.thread || !Array.isArray(data.tweets) || data.tweets.length === 0) return [];
+
+        const published = data.tweets as ThreadTweet[];
+        if (published.length >= tweets.length || published.some((tweet, index) => tweet.text !== tweets[index])) {
+            throw new TwitterMcpError(
+                `The first ${published.length} tweet(s) of this thread were already published (${published[0].url}), but the content no longer starts with them`,
+                'thread_mismatch',
+                409
+            );
+        }
+        return published;
+    }
+
+    /**
+     * Get the tweets a content item is published as. Content is split into a thread
+     * when its format asks for one, it has explicit separators or it is too long.
+     */
+    getTweetsForContent(content: Content): string[] {
+        const maxLength = getMaxTweetLength();
+
+        if (!isThreadFormat(content.format) && !hasThreadSeparators(content.content) && content.content.length <= maxLength) {
+            return [content.content];
+        }
+
+        return splitIntoThread(content.content, {
+            maxLength,
+            numbering: isThreadNumberingEnabled()
+        });
+    }
+
+    /**
+     * Convert attachments to the client's media format, enforcing Twitter's limits:
+     * up to 4 images, or a single GIF, or a single video
+     */
+    private toTweetMedia(media: MediaAttachment[]): { data: string; mediaType: string }[] | undefined {
+        if (media.length === 0) return undefined;
+
+        const videos = media.filter(item => item.mediaType.startsWith("video/"));
+        const gifs = media.filter(item => item.mediaType === "image/gif");
+
+        if ((videos.length > 0 || gifs.length > 0) && media.length > 1) {
+            throw new TwitterMcpError(
+                'A tweet can carry a single video or GIF, without other media',
+                'invalid_media',
+                400
+            );
+        }
+        if (media.length > 4) {
+            throw new TwitterMcpError(
+                `A tweet can carry at most 4 images (got ${media.length})`,
+                'invalid_media',
+                400
+            );
+        }
+
+        return media.map(item => ({
+            data: item.data.toString('base64'),
+            mediaType: item.mediaType
+        }));
+    }
+
+    /**
+     * Channel adapter: publish content as a tweet or thread
+     */
+    async publish(content: Content, brandId: string, media?: MediaAttachment[]): Promise<PublishResult> {
+        return await this.publishContent(content, brandId, media);
+    }
+
+    /**
+     * Channel adapter: check the content can be published as a tweet or thread
+     */
+    validate(content: Content): ChannelValidationResult {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const maxThreadTweets = getMaxThreadTweets();
+
+        try {
+            const tweets = this.getTweetsForContent(content);
+
+            if (tweets.length === 0) {
+                errors.push("Content has no text to publish");
+            } else if (tweets.length > maxThreadTweets) {
+                errors.push(`Content splits into ${tweets.length} tweets, which exceeds the maximum thread length of ${maxThreadTweets}`);
+            } else if (tweets.length > 1 && !isThreadFormat(content.format) && hasThreadSeparators(content.content)) {
+                warnings.push(`Content contains tweet separators and will be published as a thread of ${tweets.length} tweets`);
+            } else if (tweets.length > 1 && !isThreadFormat(content.format)) {
+                warnings.push(`Content exceeds the maximum tweet length of ${getMaxTweetLength()} and will be published as a thread of ${tweets.length} tweets`);
+            }
+        } catch (error) {
+            errors.push((error as Error).message);
+        }
+
+        return { valid: errors.length === 0, errors, warnings };
+    }
+
+    /**
+     * Channel adapter: delete a tweet
+     */
+    async delete(postId: string, brandId: string): Promise<void> {
+        throw new TwitterMcpError(
+            `Deleting tweets is not supported by the Twitter client (tweet ${postId})`,
+            'not_supported',
+            501
+        );
+    }
+
+    /**
+     * Channel adapter: fetch engagement metrics for a tweet
+     */
+    async fetchMetrics(postId: string, brandId: string): Promise<ChannelMetrics> {
+        const twitterClient = await this.getClientForBrand(brandId);
+        const tweet = await twitterClient.getTweetById(postId);
+
+        return {
+            likes: tweet.metrics?.likes,
+            shares: tweet.metrics?.retweets,
+            replies: tweet.metrics?.replies,
+            views: tweet.metrics?.views
+        };
+    }
+}
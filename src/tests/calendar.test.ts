@@ -0,0 +1,113 @@
+import assert from "assert/strict";
+import { BrandService } from "../services/brand.service.js";
+import { CampaignService } from "../services/campaign.service.js";
+import { PlanService } from "../services/plan.service.js";
+import { ContentService } from "../services/content.service.js";
+import { CalendarService } from "../services/calendar.service.js";
+import { CalendarFeedService } from "../services/calendar-feed.service.js";
+import { CalendarEntryType, CalendarGrouping } from "../models/calendar.model.js";
+import { ContentState } from "../models/content.model.js";
+import { DeleteMode } from "../models/integrity.model.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const brandService = new BrandService();
+const campaignService = new CampaignService();
+const planService = new PlanService();
+const contentService = new ContentService();
+const calendarService = new CalendarService();
+const calendarFeedService = new CalendarFeedService();
+
+export async function runCalendarTests() {
+    console.log("\n--- Testing content calendar and feeds ---");
+
+    const brand = await brandService.createBrand({
+        name: `Calendar Test Brand ${Date.now()}`,
+        description: "A test brand for the content calendar"
+    });
+    const feedIds: string[] = [];
+
+    try {
+        const dateRange = { start: new Date(), end: new Date(Date.now() + 30 * DAY_MS) };
+        const campaign = await campaignService.createCampaign({
+            brandId: brand._id!,
+            name: `Calendar Test Campaign ${Date.now()}`,
+            description: "A test campaign for the content calendar",
+            startDate: dateRange.start,
+            endDate: dateRange.end,
+            objectives: [],
+            goals: [],
+            audience: [],
+            contentMix: [],
+            majorMilestones: []
+        });
+        const masterPlan = await planService.createMasterPlan({
+            campaignId: campaign._id!,
+            title: `Calendar Test Master Plan ${Date.now()}`,
+            dateRange,
+            goals: ["Establish brand voice"],
+            targetAudience: "Developers",
+            channels: ["Twitter"]
+        });
+        const microPlan = await planService.createMicroPlan({
+            masterPlanId: masterPlan._id!,
+            title: `Calendar Test Micro Plan ${Date.now()}`,
+            dateRange,
+            goals: ["Publish tips"],
+            targetAudience: "Developers",
+            channels: ["Twitter"]
+        });
+
+        const content = await contentService.createContent({
+            microPlanId: microPlan._id!,
+            title: `Calendar Test Content ${Date.now()}`,
+            content: "Content scheduled on the calendar",
+            platform: "twitter",
+            keywords: ["calendar"]
+        });
+        await contentService.transitionContentState(content._id!, ContentState.Ready, { userId: "test-user" });
+        await contentService.scheduleContent(content._id!, new Date(Date.now() + DAY_MS), "test-user");
+
+        // Scheduled content shows on the calendar of its campaign, with its micro plan
+        const findContent = async () => {
+            const calendar = await calendarService.getCalendar({
+                start: new Date(),
+                end: new Date(Date.now() + 7 * DAY_MS),
+                groupBy: CalendarGrouping.Week,
+                campaignId: campaign._id!,
+                types: [CalendarEntryType.Content]
+            });
+            return calendar.periods.flatMap(period => period.entries).find(entry => entry.contentId === content._id);
+        };
+        assert.equal((await findContent())?.planId, microPlan._id);
+        console.log("Scheduled content is on the calendar");
+
+        // A new campaign version reaches the feed subscribed to the first one,
+        // and keeps the content planned under the first version
+        const { feed, token } = await calendarFeedService.createFeed({ name: "Calendar test feed", campaignId: campaign._id! }, "test-user");
+        feedIds.push(feed._id!);
+
+        const campaignVersion = await campaignService.updateCampaign({
+            campaign_id: campaign._id!,
+            majorMilestones: [
+                { date: new Date(Date.now() + 10 * DAY_MS), description: "Feed version milestone", status: "pending" }
+            ],
+            create_new_version: true
+        });
+        assert.equal(campaignVersion?.version, 2);
+
+        const ics = await calendarFeedService.renderFeed(token);
+        assert.ok(ics.includes("Feed version milestone"), "The feed shows the milestones of the active campaign version");
+        assert.ok(ics.includes(content.title), "The feed shows content planned under earlier campaign versions");
+        assert.equal((await findContent())?.planId, microPlan._id);
+        console.log("Calendars and feeds follow the active campaign version");
+
+        console.log("Calendar tests completed successfully!");
+    } finally {
+        console.log("Cleaning up calendar test documents...");
+        for (const id of feedIds) {
+            await calendarFeedService.revokeFeed(id);
+        }
+        await brandService.deleteBrand(brand._id!, DeleteMode.Cascade);
+    }
+}
@@ -0,0 +1,44 @@
+import assert from "assert/strict";
+import { Campaign } from "../models/campaign.model.js";
+import { Content } from "../models/content.model.js";
+import { ContentMixService, UNCATEGORIZED } from "../services/content-mix.service.js";
+
+function tweet(title: string, category?: string): Content {
+    return { title, content: title, platform: "Twitter", format: "Tweet", ...(category && { category }) } as Content;
+}
+
+export async function runContentMixTests() {
+    console.log("\n--- Testing content mix classification ---");
+
+    const contentMixService = new ContentMixService();
+    const campaign = {
+        name: "Launch",
+        contentMix: [
+            { category: "Educational", ratio: 0.6, platforms: [{ name: "Twitter", format: "Tweet" }] },
+            { category: "Promotional", ratio: 0.4, platforms: [{ name: "Twitter", format: "Tweet" }] }
+        ]
+    } as Campaign;
+    const mix = campaign.contentMix!;
+
+    // Both categories share a platform and format, so only the content's category tells them apart
+    assert.equal(contentMixService.classifyContent(tweet("How it works", "Educational"), mix), "Educational");
+    assert.equal(contentMixService.classifyContent(tweet("50% off", "promotional"), mix), "Promotional");
+    assert.equal(contentMixService.classifyContent(tweet("Untagged"), mix), "Educational");
+    assert.equal(contentMixService.classifyContent(tweet("Meme", "Community"), mix), "Community");
+    assert.equal(contentMixService.classifyContent({ title: "Post", content: "Post", format: "Video" } as Content, mix), UNCATEGORIZED);
+    console.log("Content is classified by its category, then by platform and format");
+
+    const shares = contentMixService.getContentMix(campaign, [
+        tweet("One", "Educational"),
+        tweet("Two", "Promotional"),
+        tweet("Three", "Promotional"),
+        tweet("Four", "Promotional")
+    ]);
+    assert.deepEqual(shares, [
+        { name: "Educational", count: 1, actualPercent: 25, plannedPercent: 60 },
+        { name: "Promotional", count: 3, actualPercent: 75, plannedPercent: 40 }
+    ]);
+    console.log("Categories sharing a platform and format are counted separately");
+
+    console.log("Content mix tests completed successfully!");
+}
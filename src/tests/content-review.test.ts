@@ -0,0 +1,138 @@
+import assert from "assert/strict";
+import { BrandService } from "../services/brand.service.js";
+import { ContentService } from "../services/content.service.js";
+import { ContentReviewService } from "../services/content-review.service.js";
+import { ContentState } from "../models/content.model.js";
+import { DeleteMode } from "../models/integrity.model.js";
+import { BadRequestError } from "../utils/errors.js";
+
+const brandService = new BrandService();
+const contentService = new ContentService();
+const contentReviewService = new ContentReviewService(contentService);
+
+export async function runContentReviewTests() {
+    console.log("\n--- Testing content review ---");
+
+    const brand = await brandService.createBrand({
+        name: `Review Test Brand ${Date.now()}`,
+        description: "A test brand for content review",
+        reviewPolicy: {
+            requiredApprovals: 1,
+            reviewers: ["reviewer-a", "reviewer-b"]
+        }
+    });
+    const contentIds: string[] = [];
+
+    // Submit content and have it approved, leaving it ready
+    const createReviewedContent = async (title: string) => {
+        const content = await contentService.createContent({
+            brandId: brand._id!,
+            title: `${title} ${Date.now()}`,
+            content: `${title} body`,
+            platform: "twitter",
+            keywords: ["review"]
+        });
+        contentIds.push(content._id!);
+
+        await contentReviewService.submitForReview(content._id!, "author");
+        const { content: ready } = await contentReviewService.approve(content._id!, "reviewer-a");
+        assert.equal(ready.state, ContentState.Ready);
+        return ready;
+    };
+
+    try {
+        // Submissions are limited to the brand's reviewers
+        const draft = await contentService.createContent({
+            brandId: brand._id!,
+            title: `Reviewer Choice Test Content ${Date.now()}`,
+            content: "Content whose reviewers are chosen by the submitter",
+            platform: "twitter",
+            keywords: ["review"]
+        });
+        contentIds.push(draft._id!);
+
+        await assert.rejects(
+            contentReviewService.submitForReview(draft._id!, "author", { reviewers: [] }),
+            BadRequestError,
+            "An empty reviewer list must not open the review to anyone"
+        );
+        await assert.rejects(
+            contentReviewService.submitForReview(draft._id!, "author", { reviewers: ["reviewer-a", "outsider"] }),
+            /Not reviewers of the brand: outsider/
+        );
+
+        const { content: inReview } = await contentReviewService.submitForReview(draft._id!, "author", { reviewers: ["reviewer-b"] });
+        assert.deepEqual(inReview.review?.reviewers, ["reviewer-b"]);
+        await assert.rejects(contentReviewService.approve(draft._id!, "reviewer-a"), /not a reviewer of this content/);
+        console.log("Submissions are limited to the brand's reviewers");
+
+        // Editing content in review sends it back to draft
+        const edited = await contentService.updateContent({
+            content_id: draft._id!,
+            content: "Content rewritten during its review",
+            create_new_version: false
+        });
+        assert.equal(edited?.state, ContentState.Draft);
+        await assert.rejects(contentReviewService.approve(draft._id!, "reviewer-b"), /not in review/);
+        console.log("Content edited in review went back to draft");
+
+        // Rescheduling reviewed content keeps it ready
+        const ready = await createReviewedContent("Rescheduled Review Test Content");
+        const rescheduled = await contentService.updateContent({
+            content_id: ready._id!,
+            scheduledFor: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            create_new_version: false
+        });
+        assert.equal(rescheduled?.state, ContentState.Ready);
+
+        // ...and so does an update that leaves the content as it is
+        const unchanged = await contentService.updateContent({
+            content_id: ready._id!,
+            title: ready.title,
+            keywords: ready.keywords,
+            create_new_version: false
+        });
+        assert.equal(unchanged?.state, ContentState.Ready);
+        console.log("Rescheduled content stayed ready");
+
+        // Editing reviewed content sends it back to draft, for another review round
+        const rewritten = await contentService.updateContent({
+            content_id: ready._id!,
+            content: "Content rewritten after its approval",
+            create_new_version: false
+        });
+        assert.equal(rewritten?.state, ContentState.Draft);
+        await assert.rejects(
+            contentService.transitionContentState(ready._id!, ContentState.Ready, { userId: "author" }),
+            /requires content to be reviewed/
+        );
+
+        const status = await contentService.getReviewStatus(rewritten!);
+        assert.equal(status.complete, false);
+        assert.deepEqual(status.approvedBy, []);
+
+        const { content: resubmitted } = await contentReviewService.submitForReview(ready._id!, "author");
+        assert.equal(resubmitted.review?.round, 2);
+        console.log("Content edited after approval went back to draft");
+
+        // A new version of reviewed content doesn't inherit the approval
+        const versioned = await createReviewedContent("Versioned Review Test Content");
+        const newVersion = await contentService.updateContent({
+            content_id: versioned._id!,
+            platform: "linkedin",
+            create_new_version: true
+        });
+        assert.equal(newVersion?.version, 2);
+        assert.equal(newVersion?.state, ContentState.Draft);
+        console.log("A new version of reviewed content starts as a draft");
+
+        console.log("Content review tests completed successfully!");
+    } finally {
+        console.log("Cleaning up content review test documents...");
+        // Deleting content also deletes its other versions and review decisions
+        for (const id of contentIds) {
+            await contentService.deleteContent(id, DeleteMode.Cascade);
+        }
+        await brandService.deleteBrand(brand._id!, DeleteMode.Cascade);
+    }
+}
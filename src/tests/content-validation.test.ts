@@ -0,0 +1,81 @@
+import assert from "assert/strict";
+import { ContentValidationService, stem } from "../services/content-validation.service.js";
+import { ValidationRule, ValidationSeverity } from "../models/content-validation.model.js";
+import { BrandGuidelines } from "../models/brand.model.js";
+import { ChannelRegistry } from "../channels/registry.js";
+
+const guidelines: BrandGuidelines = {
+    tone: ["Professional"],
+    vocabulary: ["innovative", "solution"],
+    avoidedTerms: ["scam", "guaranteed returns"],
+    contentRules: {
+        requiredTerms: ["Acme"],
+        maxLength: { blog: 200 },
+        hashtags: { max: 2, banned: ["#crypto"] },
+        mentions: { banned: ["@competitor"] },
+        links: { allowedDomains: ["acme.com"] }
+    }
+};
+
+function rulesOf(issues: { rule: ValidationRule }[]): ValidationRule[] {
+    return issues.map(issue => issue.rule);
+}
+
+export async function runContentValidationTests() {
+    console.log("\n--- Testing content validation ---");
+
+    // Validation runs without publishing channels, so only brand rules apply
+    const validationService = new ContentValidationService(new ChannelRegistry());
+
+    assert.equal(stem("scams"), stem("scam"));
+    assert.equal(stem("scamming"), stem("scammed"));
+    assert.equal(stem("solutions"), stem("solution"));
+
+    // Content meeting the guidelines
+    const valid = validationService.validate({
+        content: "Acme ships an innovative solution for your team. Read more at https://blog.acme.com/launch #launch",
+        platform: "blog"
+    }, guidelines);
+    assert.equal(valid.valid, true, JSON.stringify(valid.issues));
+    assert.deepEqual(rulesOf(valid.issues), [ValidationRule.Channel]);
+    console.log("Content meeting the guidelines is valid");
+
+    // Avoided terms match whole words and inflected forms, not substrings
+    const avoided = validationService.validate({
+        content: "Acme is no scammer: other solutions are SCAMS promising guaranteed return on investment.",
+        platform: "blog"
+    }, guidelines);
+    const avoidedIssue = avoided.issues.find(issue => issue.rule === ValidationRule.AvoidedTerms);
+    assert.equal(avoided.valid, false);
+    assert.deepEqual(avoidedIssue?.matches, ["scam", "guaranteed returns"]);
+    assert.equal(avoidedIssue?.severity, ValidationSeverity.Error);
+    console.log("Avoided terms are matched by word stem");
+
+    // Every other rule
+    const invalid = validationService.validate({
+        content: "HUGE news!!! Thanks @competitor, see https://example.com #crypto #news #deals " + "x".repeat(200),
+        platform: "blog"
+    }, guidelines);
+    const rules = rulesOf(invalid.issues);
+    for (const rule of [ValidationRule.RequiredTerms, ValidationRule.Vocabulary, ValidationRule.Length,
+        ValidationRule.Hashtags, ValidationRule.Mentions, ValidationRule.Links, ValidationRule.Tone]) {
+        assert.ok(rules.includes(rule), `Expected a ${rule} issue`);
+    }
+    assert.equal(invalid.valid, false);
+    assert.equal(invalid.errorCount, 3, "Required terms, length and links are errors");
+    console.log(`Invalid content reported ${invalid.errorCount} error(s) and ${invalid.warningCount} warning(s)`);
+
+    // Severity overrides
+    const relaxed = validationService.validate({
+        content: "Visit https://example.com for an innovative Acme solution",
+        platform: "blog"
+    }, {
+        ...guidelines,
+        contentRules: { ...guidelines.contentRules, severities: { links: "warning", channel: "off" } }
+    });
+    assert.equal(relaxed.valid, true);
+    assert.deepEqual(relaxed.issues.map(issue => [issue.rule, issue.severity]), [[ValidationRule.Links, ValidationSeverity.Warning]]);
+    console.log("Severity overrides are applied");
+
+    console.log("Content validation tests completed successfully!");
+}
@@ -0,0 +1,57 @@
+import assert from "assert/strict";
+import { DiffService } from "../services/diff.service.js";
+import { DiffChangeType } from "../models/diff.model.js";
+
+export async function runDiffTests() {
+    console.log("\n--- Testing version diffs ---");
+
+    const diffService = new DiffService();
+
+    // Word-level text diff
+    const text = diffService.diffText("Launch our new product today", "Launch our innovative product tomorrow");
+    assert.deepEqual(text, [
+        { type: "equal", text: "Launch our " },
+        { type: "removed", text: "new" },
+        { type: "added", text: "innovative" },
+        { type: "equal", text: " product " },
+        { type: "removed", text: "today" },
+        { type: "added", text: "tomorrow" }
+    ]);
+    console.log("Text is diffed word by word");
+
+    // Field-level diff of two campaign versions
+    const changes = diffService.diffDocuments({
+        _id: "v1",
+        version: 1,
+        name: "Launch",
+        goals: [{ type: "Awareness", priority: 1 }, { type: "Conversion", priority: 2 }],
+        majorMilestones: [{ description: "Kickoff", status: "pending" }],
+        keywords: ["launch", "product"]
+    }, {
+        _id: "v2",
+        version: 2,
+        name: "Launch",
+        goals: [{ type: "Conversion", priority: 1 }, { type: "Education", priority: 3 }],
+        majorMilestones: [{ description: "Kickoff", status: "completed" }],
+        keywords: ["launch", "ai"],
+        description: "Product launch"
+    });
+    assert.deepEqual(changes.map(change => [change.path, change.type]), [
+        ["goals[Awareness]", DiffChangeType.Removed],
+        ["goals[Conversion].priority", DiffChangeType.Changed],
+        ["goals[Education]", DiffChangeType.Added],
+        ["majorMilestones[Kickoff].status", DiffChangeType.Changed],
+        ["keywords[]", DiffChangeType.Removed],
+        ["keywords[]", DiffChangeType.Added],
+        ["description", DiffChangeType.Added]
+    ]);
+    console.log("Array items are matched by key and version fields are ignored");
+
+    // The body of content gets a text diff
+    const [body] = diffService.diffDocuments({ content: "Hello world" }, { content: "Hello brave world" });
+    assert.equal(body.type, DiffChangeType.Changed);
+    assert.deepEqual(body.textDiff?.map(segment => segment.type), ["equal", "added", "equal"]);
+    console.log("Content body changes include a text diff");
+
+    console.log("Version diff tests completed successfully!");
+}
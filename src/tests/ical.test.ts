@@ -0,0 +1,63 @@
+import assert from "assert/strict";
+import { escapeText, foldLine, formatDate, formatDateTime, renderICalendar } from "../utils/ical.js";
+
+export async function runICalTests() {
+    console.log("\n--- Testing iCalendar feeds ---");
+
+    assert.equal(escapeText("Launch; phase 1, part 2\nSee C:\\docs"), "Launch\\; phase 1\\, part 2\\nSee C:\\\\docs");
+    assert.equal(formatDateTime(new Date("2025-03-01T14:30:05.123Z")), "20250301T143005Z");
+    assert.equal(formatDate(new Date("2025-03-01T23:59:00Z")), "20250301");
+    console.log("Text and dates are formatted");
+
+    // Long lines are folded at 75 octets without splitting multi-byte characters
+    const folded = foldLine("SUMMARY:" + "é".repeat(100));
+    const lines = folded.split("\r\n");
+    assert.ok(lines.length > 1);
+    assert.ok(lines.every(line => Buffer.byteLength(line) <= 75));
+    assert.ok(lines.slice(1).every(line => line.startsWith(" ")));
+    assert.equal(lines.map((line, index) => index === 0 ? line : line.slice(1)).join(""), "SUMMARY:" + "é".repeat(100));
+    console.log("Long lines are folded");
+
+    const document = renderICalendar({
+        name: "Acme launch",
+        refreshMinutes: 60,
+        events: [
+            {
+                uid: "content-abc@cms-mcp",
+                start: new Date("2025-03-01T14:30:00Z"),
+                durationMinutes: 15,
+                summary: "[Twitter] Launch day",
+                categories: ["Content", "ready"],
+                lastModified: new Date("2025-02-20T09:00:00Z")
+            },
+            {
+                uid: "milestone-def-123@cms-mcp",
+                start: new Date("2025-03-03T00:00:00Z"),
+                allDay: true,
+                summary: "Milestone: Beta"
+            }
+        ]
+    }, new Date("2025-02-28T12:00:00Z"));
+
+    assert.ok(document.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n"));
+    assert.ok(document.endsWith("END:VCALENDAR\r\n"));
+    assert.ok(!/[^\r]\n/.test(document), "Lines end with CRLF");
+    for (const line of [
+        "X-WR-CALNAME:Acme launch",
+        "REFRESH-INTERVAL;VALUE=DURATION:PT60M",
+        "UID:content-abc@cms-mcp",
+        "DTSTAMP:20250228T120000Z",
+        "DTSTART:20250301T143000Z",
+        "DURATION:PT15M",
+        "CATEGORIES:Content,ready",
+        "LAST-MODIFIED:20250220T090000Z",
+        "DTSTART;VALUE=DATE:20250303",
+        "DTEND;VALUE=DATE:20250304"
+    ]) {
+        assert.ok(document.includes(`\r\n${line}\r\n`), `Expected ${line}`);
+    }
+    assert.equal(document.match(/BEGIN:VEVENT/g)?.length, 2);
+    console.log("Calendar feeds render one event per entry");
+
+    console.log("iCalendar tests completed successfully!");
+}
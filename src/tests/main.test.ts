@@ -6,6 +6,7 @@ import { PlanState, MasterPlanUpdateParams, MicroPlanUpdateParams, MasterPlanCre
 import { ContentState, ContentCreationParams, ContentUpdateParams } from "../models/content.model.js";
 import { BrandUpdateParams } from "../models/brand.model.js";
 import { CampaignCreationParams } from "../models/campaign.model.js";
+import { DeleteMode } from "../models/integrity.model.js";
 
 // Initialize services
 const brandService = new BrandService();
@@ -49,23 +50,23 @@ export async function runTests() {
         console.error("Test failed:", error);
     } finally {
         console.log("Cleaning up test documents...");
-        // Remove all test documents
-        for (const [collection, ids] of documentIds.entries()) {
-            for (const id of ids) {
+        // Remove all test documents, dependents before the documents they belong to
+        for (const [collection, ids] of [...documentIds.entries()].reverse()) {
+            for (const id of [...ids].reverse()) {
                 try {
                     // Delete document with the appropriate service
                     switch (collection) {
                         case "brands":
-                            await brandService.deleteBrand(id);
+                            await brandService.deleteBrand(id, DeleteMode.Cascade);
                             break;
                         case "campaigns":
-                            await campaignService.deleteCampaign(id);
+                            await campaignService.deleteCampaign(id, DeleteMode.Cascade);
                             break;
                         case "plans":
-                            await planService.deletePlan(id);
+                            await planService.deletePlan(id, DeleteMode.Cascade);
                             break;
                         case "contents":
-                            await contentService.deleteContent(id);
+                            await contentService.deleteContent(id, DeleteMode.Cascade);
                             break;
                         default:
                             console.warn(`No service found for collection: ${collection}`);
@@ -0,0 +1,75 @@
+import assert from "assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createMcpServer } from "../mcp/server.js";
+import { ApiKeyRole } from "../models/api-key.model.js";
+
+const ADMIN_TOOLS = [
+    "createBrand",
+    "deleteBrand",
+    "connectTwitterAccount",
+    "disconnectTwitterAccount",
+    "verifyTwitterAccount",
+    "getAuditEvents"
+];
+
+async function connect(role?: ApiKeyRole): Promise<Client> {
+    const server = createMcpServer("permission-test-user", role);
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+
+    const client = new Client({ name: "permission-test", version: "1.0.0" });
+    await client.connect(clientTransport);
+    return client;
+}
+
+async function listToolNames(client: Client): Promise<string[]> {
+    const { tools } = await client.listTools();
+    return tools.map(tool => tool.name);
+}
+
+export async function runMcpPermissionTests() {
+    console.log("\n--- Testing MCP tool permissions ---");
+
+    const approver = await connect(ApiKeyRole.Approver);
+    const approverTools = await listToolNames(approver);
+    for (const tool of ADMIN_TOOLS) {
+        assert.ok(!approverTools.includes(tool), `Approver keys must not reach ${tool}`);
+    }
+    assert.ok(approverTools.includes("approveContent"));
+    assert.ok(approverTools.includes("restoreFromTrash"));
+
+    for (const tool of ADMIN_TOOLS) {
+        await assert.rejects(approver.callTool({ name: tool, arguments: {} }), /not found/);
+    }
+
+    // Restoring a brand needs the admin permission; other entities only approve
+    const restore = await approver.callTool({
+        name: "restoreFromTrash",
+        arguments: { entity_type: "brand", entity_id: "507f1f77bcf86cd799439011" }
+    });
+    assert.equal(restore.isError, true);
+    assert.match(JSON.stringify(restore.content), /admin permission/);
+    console.log("Approver keys can't reach admin-only tools");
+
+    // Sessions review and submit as the user of their API key, not as the user a call names
+    for (const [name, args] of [
+        ["reviewContent", { content_id: "507f1f77bcf86cd799439011", reviewer_id: "legal1", decision: "approve" }],
+        ["submitContentForReview", { content_id: "507f1f77bcf86cd799439011", user_id: "editor1" }]
+    ] as const) {
+        const result = await approver.callTool({ name, arguments: args });
+        assert.equal(result.isError, true);
+        assert.match(JSON.stringify(result.content), /acts as user permission-test-user/);
+    }
+    await approver.close();
+    console.log("Sessions can't review or submit content as another user");
+
+    for (const client of [await connect(ApiKeyRole.Admin), await connect()]) {
+        const tools = await listToolNames(client);
+        assert.ok(ADMIN_TOOLS.every(tool => tools.includes(tool)));
+        await client.close();
+    }
+    console.log("Admin keys and local sessions reach every tool");
+
+    console.log("MCP permission tests completed successfully!");
+}
@@ -0,0 +1,36 @@
+import assert from "assert/strict";
+import { assertPublicUrl, getPublicUrl, isPublicAddress } from "../utils/network.js";
+import { BadRequestError } from "../utils/errors.js";
+
+export async function runNetworkTests() {
+    console.log("\n--- Testing media download URL checks ---");
+
+    for (const address of ["8.8.8.8", "151.101.1.69", "2606:4700:4700::1111"]) {
+        assert.ok(isPublicAddress(address), `Expected ${address} to be public`);
+    }
+    for (const address of [
+        "127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+        "::1", "::", "fe80::1", "fd00::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "not-an-ip"
+    ]) {
+        assert.ok(!isPublicAddress(address), `Expected ${address} to be blocked`);
+    }
+    console.log("Loopback, link-local and private addresses are blocked");
+
+    // Rejected before any request is made; IP literals and localhost resolve without the network
+    for (const url of [
+        "file:///etc/passwd",
+        "ftp://example.com/image.png",
+        "http://127.0.0.1:27017/",
+        "http://localhost/admin",
+        "http://169.254.169.254/latest/meta-data/",
+        "http://[::1]/",
+        "https://10.0.0.5/image.png"
+    ]) {
+        await assert.rejects(assertPublicUrl(url), BadRequestError, `Expected ${url} to be rejected`);
+    }
+    assert.equal((await assertPublicUrl("https://8.8.8.8/image.png")).hostname, "8.8.8.8");
+    await assert.rejects(getPublicUrl("http://localhost/admin"), BadRequestError, "Requests must be checked like URLs");
+    console.log("Only http(s) URLs on public hosts are downloaded");
+
+    console.log("Media download URL tests completed successfully!");
+}
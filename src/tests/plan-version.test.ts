@@ -0,0 +1,85 @@
+import assert from "assert/strict";
+import { BrandService } from "../services/brand.service.js";
+import { CampaignService } from "../services/campaign.service.js";
+import { PlanService } from "../services/plan.service.js";
+import { DiffService } from "../services/diff.service.js";
+import { MasterPlanUpdateParams } from "../models/plan.model.js";
+import { VersionedEntity } from "../models/diff.model.js";
+import { DeleteMode } from "../models/integrity.model.js";
+
+const brandService = new BrandService();
+const campaignService = new CampaignService();
+const planService = new PlanService();
+const diffService = new DiffService();
+
+export async function runPlanVersionTests() {
+    console.log("\n--- Testing plan versions ---");
+
+    const brand = await brandService.createBrand({
+        name: `Plan Version Test Brand ${Date.now()}`,
+        description: "A test brand for plan versions"
+    });
+
+    try {
+        const dateRange = { start: new Date(), end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) };
+        const campaign = await campaignService.createCampaign({
+            brandId: brand._id!,
+            name: `Plan Version Test Campaign ${Date.now()}`,
+            description: "A test campaign for plan versions",
+            startDate: dateRange.start,
+            endDate: dateRange.end,
+            objectives: [],
+            goals: [],
+            audience: [],
+            contentMix: [],
+            majorMilestones: []
+        });
+        const masterPlan = await planService.createMasterPlan({
+            campaignId: campaign._id!,
+            title: `Plan Version Test Master Plan ${Date.now()}`,
+            dateRange,
+            goals: ["Establish brand voice"],
+            targetAudience: "Developers",
+            channels: ["Twitter"]
+        });
+        const microPlan = await planService.createMicroPlan({
+            masterPlanId: masterPlan._id!,
+            title: `Plan Version Test Micro Plan ${Date.now()}`,
+            dateRange,
+            goals: ["Publish tips"],
+            targetAudience: "Developers",
+            channels: ["Twitter"]
+        });
+
+        // A new version takes over the micro plans of the master plan
+        const version = await planService.updatePlan({
+            plan_id: masterPlan._id!,
+            goals: ["Drive engagement"],
+            create_new_version: true
+        } as MasterPlanUpdateParams);
+        assert.equal(version?.stateMetadata.version, 2);
+        assert.equal(version?.rootPlanId, masterPlan._id);
+        assert.deepEqual((await planService.getMicroPlansByMasterId(version!._id!)).map(plan => plan._id), [microPlan._id]);
+
+        const versions = await planService.getAllPlanVersions(masterPlan._id!);
+        assert.deepEqual(versions.map(plan => plan.stateMetadata.version).sort(), [1, 2]);
+        assert.deepEqual(versions.filter(plan => plan.isActiveVersion).map(plan => plan._id), [version?._id]);
+        console.log("A new master plan version took over its micro plans");
+
+        const diff = await diffService.compareVersions(VersionedEntity.Plan, masterPlan._id!, 1, 2);
+        assert.ok(diff.changes.some(change => change.path.startsWith("goals")), "The goals changed between the versions");
+        console.log("Plan versions are compared");
+
+        // Activating the first version brings the micro plans back
+        const activated = await planService.activatePlanVersion(masterPlan._id!, "test-user");
+        assert.equal(activated?.stateMetadata.version, 1);
+        assert.equal(activated?.isActiveVersion, true);
+        assert.deepEqual((await planService.getMicroPlansByMasterId(masterPlan._id!)).map(plan => plan._id), [microPlan._id]);
+        console.log("Activating an earlier version moved the micro plans back to it");
+
+        console.log("Plan version tests completed successfully!");
+    } finally {
+        console.log("Cleaning up plan version test documents...");
+        await brandService.deleteBrand(brand._id!, DeleteMode.Cascade);
+    }
+}
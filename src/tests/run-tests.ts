@@ -10,6 +10,48 @@ async function run() {
         const { runTests } = await import("./main.test.js");
         await runTests();
 
+        const { runSchedulerTests } = await import("./scheduler.test.js");
+        await runSchedulerTests();
+
+        const { runScheduledContentTests } = await import("./scheduled-content.test.js");
+        await runScheduledContentTests();
+
+        const { runTrashTests } = await import("./trash.test.js");
+        await runTrashTests();
+
+        const { runPlanVersionTests } = await import("./plan-version.test.js");
+        await runPlanVersionTests();
+
+        const { runCalendarTests } = await import("./calendar.test.js");
+        await runCalendarTests();
+
+        const { runContentValidationTests } = await import("./content-validation.test.js");
+        await runContentValidationTests();
+
+        const { runDiffTests } = await import("./diff.test.js");
+        await runDiffTests();
+
+        const { runICalTests } = await import("./ical.test.js");
+        await runICalTests();
+
+        const { runTwitterThreadTests } = await import("./twitter-thread.test.js");
+        await runTwitterThreadTests();
+
+        const { runNetworkTests } = await import("./network.test.js");
+        await runNetworkTests();
+
+        const { runContentMixTests } = await import("./content-mix.test.js");
+        await runContentMixTests();
+
+        const { runMcpPermissionTests } = await import("./mcp-permissions.test.js");
+        await runMcpPermissionTests();
+
+        const { runContentReviewTests } = await import("./content-review.test.js");
+        await runContentReviewTests();
+
+        const { runSchedulingRulesTests } = await import("./scheduling-rules.test.js");
+        await runSchedulingRulesTests();
+
         console.log("Tests completed, exiting...");
         process.exit(0);
     } catch (error) {
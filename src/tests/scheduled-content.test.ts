@@ -0,0 +1,76 @@
+import assert from "assert/strict";
+import { BrandService } from "../services/brand.service.js";
+import { ContentService } from "../services/content.service.js";
+import { PublishingService } from "../services/publishing.service.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { ContentState } from "../models/content.model.js";
+import { DeleteMode } from "../models/integrity.model.js";
+import { ConflictError } from "../utils/errors.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const brandService = new BrandService();
+const contentService = new ContentService();
+const publishingService = new PublishingService();
+const contentRepository = new ContentRepository();
+
+export async function runScheduledContentTests() {
+    console.log("\n--- Testing scheduling rules on content updates and requeues ---");
+
+    const brand = await brandService.createBrand({
+        name: `Scheduled Content Test Brand ${Date.now()}`,
+        description: "A test brand for rescheduling content",
+        schedulingRules: { minGapMinutes: 60 }
+    });
+
+    try {
+        const createReadyTweet = async (title: string) => {
+            const content = await contentService.createContent({
+                brandId: brand._id!,
+                title: `${title} ${Date.now()}`,
+                content: title,
+                format: "Tweet",
+                platform: "Twitter",
+                keywords: []
+            });
+            await contentService.transitionContentState(content._id!, ContentState.Ready, { userId: "test-user" });
+            return content;
+        };
+        const first = await createReadyTweet("Scheduled Tweet");
+        const second = await createReadyTweet("Rescheduled Tweet");
+
+        const slot = new Date(Date.now() + 3 * 24 * HOUR_MS);
+        await contentService.scheduleContent(first._id!, slot, "test-user");
+        await contentService.scheduleContent(second._id!, new Date(slot.getTime() + 3 * HOUR_MS), "test-user");
+
+        // Updates can't move Ready content onto the slot of another post, in place or in a new version
+        for (const create_new_version of [false, true]) {
+            await assert.rejects(
+                contentService.updateContent({ content_id: second._id!, scheduledFor: slot, create_new_version }),
+                ConflictError,
+                "Updating content onto a taken slot breaks the scheduling rules"
+            );
+        }
+        const moved = await contentService.updateContent({
+            content_id: second._id!,
+            scheduledFor: new Date(slot.getTime() + 2 * HOUR_MS),
+            create_new_version: false
+        });
+        assert.equal(moved?.stateMetadata.scheduledFor?.getTime(), slot.getTime() + 2 * HOUR_MS);
+        console.log("Updates moving scheduled content are checked against the scheduling rules");
+
+        // Requeued content must meet the rules too; without a time it takes the first free slot
+        await contentRepository.update(second._id!, { state: ContentState.Failed });
+        await assert.rejects(publishingService.requeueContent(second._id!, "test-user", slot), ConflictError);
+
+        const requeued = await publishingService.requeueContent(second._id!, "test-user");
+        assert.equal(requeued.state, ContentState.Ready);
+        assert.ok(requeued.stateMetadata.scheduledFor, "Requeued content is scheduled");
+        console.log("Requeued content is checked against the scheduling rules");
+
+        console.log("Scheduled content tests completed successfully!");
+    } finally {
+        console.log("Cleaning up scheduled content test documents...");
+        await brandService.deleteBrand(brand._id!, DeleteMode.Cascade);
+    }
+}
@@ -0,0 +1,127 @@
+import assert from "assert/strict";
+import { BrandService } from "../services/brand.service.js";
+import { ContentService } from "../services/content.service.js";
+import { PublishingService } from "../services/publishing.service.js";
+import { SchedulerService } from "../services/scheduler.service.js";
+import { ContentRepository } from "../repositories/content.repository.js";
+import { PublishAttemptRepository } from "../repositories/publish-attempt.repository.js";
+import { ChannelRegistry } from "../channels/registry.js";
+import { ChannelMetrics, ChannelPublisher, ChannelValidationResult, PublishResult } from "../channels/types.js";
+import { Content, ContentState } from "../models/content.model.js";
+import { DeleteMode } from "../models/integrity.model.js";
+
+const TEST_CHANNEL = "scheduler-test";
+
+/**
+ * Channel that records what it publishes instead of contacting a platform
+ */
+class RecordingChannel implements ChannelPublisher {
+    readonly name = TEST_CHANNEL;
+    readonly published: string[] = [];
+
+    async publish(content: Content): Promise<PublishResult> {
+        // Give the other scheduler a chance to race for the same content
+        await new Promise(resolve => setTimeout(resolve, 50));
+        this.published.push(content._id!);
+        return { id: `post-${content._id}`, url: `https://example.com/${content._id}` };
+    }
+
+    validate(): ChannelValidationResult {
+        return { valid: true, errors: [], warnings: [] };
+    }
+
+    async delete(): Promise<void> { }
+
+    async fetchMetrics(): Promise<ChannelMetrics> {
+        return {};
+    }
+}
+
+const brandService = new BrandService();
+const contentService = new ContentService();
+const contentRepository = new ContentRepository();
+const publishAttemptRepository = new PublishAttemptRepository();
+
+export async function runSchedulerTests() {
+    console.log("\n--- Testing scheduler leasing ---");
+
+    const channel = new RecordingChannel();
+    const registry = new ChannelRegistry();
+    registry.register(channel);
+
+    const brand = await brandService.createBrand({
+        name: `Scheduler Test Brand ${Date.now()}`,
+        description: "A test brand for scheduler leasing"
+    });
+    const contentIds: string[] = [];
+
+    try {
+        // Create content that is due for publishing
+        for (let i = 0; i < 5; i++) {
+            const content = await contentService.createContent({
+                brandId: brand._id!,
+                title: `Scheduled Test Content ${i} ${Date.now()}`,
+                content: `Scheduled test content ${i}`,
+                platform: TEST_CHANNEL,
+                keywords: ["scheduler"]
+            });
+            contentIds.push(content._id!);
+
+            await contentService.transitionContentState(content._id!, ContentState.Ready, { userId: "test-user" });
+            await contentService.scheduleContent(content._id!, new Date(Date.now() - 60 * 1000), "test-user");
+        }
+
+        // Two schedulers sharing the database check at the same time
+        console.log("Running two scheduler instances concurrently...");
+        const schedulers = ["scheduler-a", "scheduler-b"].map(ownerId => new SchedulerService({
+            ownerId,
+            leaseMs: 10 * 1000,
+            publishingService: new PublishingService(registry)
+        }));
+        const processed = await Promise.all(schedulers.map(scheduler => scheduler.checkScheduledContent()));
+        console.log(`Schedulers processed ${processed.join(" and ")} content item(s)`);
+
+        for (const id of contentIds) {
+            const publishCount = channel.published.filter(publishedId => publishedId === id).length;
+            assert.equal(publishCount, 1, `Content ${id} was published ${publishCount} times`);
+
+            const content = await contentService.getContent(id);
+            assert.equal(content?.state, ContentState.Published);
+        }
+        assert.equal(processed[0] + processed[1], contentIds.length);
+        console.log(`Each of the ${contentIds.length} content items was published once`);
+
+        // Content leased by a scheduler that stopped is recovered once the lease expires
+        console.log("Recovering content from an expired lease...");
+        const stale = await contentService.createContent({
+            brandId: brand._id!,
+            title: `Stale Lease Test Content ${Date.now()}`,
+            content: "Content left behind by a stopped scheduler",
+            platform: TEST_CHANNEL,
+            keywords: ["scheduler"]
+        });
+        contentIds.push(stale._id!);
+        await contentService.transitionContentState(stale._id!, ContentState.Ready, { userId: "test-user" });
+        await contentService.scheduleContent(stale._id!, new Date(Date.now() - 60 * 1000), "test-user");
+
+        const claimed = await contentRepository.claimDueContent("stopped-scheduler", 1000);
+        assert.equal(claimed?._id, stale._id);
+        assert.equal(await schedulers[0].checkScheduledContent(), 0, "Leased content must not be claimed again");
+
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        assert.equal(await schedulers[1].checkScheduledContent(), 1);
+        assert.equal(channel.published.filter(publishedId => publishedId === stale._id).length, 1);
+        console.log("Content with an expired lease was published once");
+
+        console.log("Scheduler leasing tests completed successfully!");
+    } finally {
+        console.log("Cleaning up scheduler test documents...");
+        for (const id of contentIds) {
+            for (const attempt of await publishAttemptRepository.findByRootContentId(id)) {
+                await publishAttemptRepository.delete(attempt._id!);
+            }
+            await contentService.deleteContent(id, DeleteMode.Cascade);
+        }
+        await brandService.deleteBrand(brand._id!, DeleteMode.Cascade);
+    }
+}
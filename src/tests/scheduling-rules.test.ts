@@ -0,0 +1,78 @@
+import assert from "assert/strict";
+import { ContentState } from "../models/content.model.js";
+import { SchedulingRules, SchedulingRulesSchema } from "../models/brand.model.js";
+import { ScheduledPost, SchedulingRule } from "../models/scheduling.model.js";
+import { SchedulingRulesService } from "../services/scheduling-rules.service.js";
+import { fromZonedTime, getNextZonedDayStart, getZonedDay, getZonedTime } from "../utils/timezone.js";
+
+function post(contentId: string, date: string, platform: string = "twitter"): ScheduledPost {
+    return { contentId, title: contentId, platform, state: ContentState.Ready, date: new Date(date) };
+}
+
+export async function runSchedulingRulesTests() {
+    console.log("\n--- Testing scheduling rules ---");
+
+    // Wall-clock times follow daylight saving changes
+    assert.equal(fromZonedTime(2025, 1, 15, 9, 0, "Europe/Lisbon").toISOString(), "2025-01-15T09:00:00.000Z");
+    assert.equal(fromZonedTime(2025, 7, 15, 9, 0, "Europe/Lisbon").toISOString(), "2025-07-15T08:00:00.000Z");
+    assert.equal(fromZonedTime(2025, 3, 9, 12, 0, "America/New_York").toISOString(), "2025-03-09T16:00:00.000Z");
+    assert.equal(getZonedTime(new Date("2025-03-01T02:00:00Z"), "America/New_York").weekday, 5);
+    assert.equal(getZonedDay(new Date("2025-03-01T02:00:00Z"), "America/New_York"), "2025-02-28");
+    assert.equal(getNextZonedDayStart(new Date("2025-03-01T02:00:00Z"), "America/New_York").toISOString(), "2025-03-01T05:00:00.000Z");
+    console.log("Times are converted between time zones");
+
+    const service = new SchedulingRulesService();
+    const rules: SchedulingRules = {
+        timezone: "Europe/Lisbon",
+        minGapMinutes: 60,
+        maxPostsPerDay: { twitter: 2, "*": 1 },
+        blackoutWindows: [{ start: new Date("2025-03-05T00:00:00Z"), end: new Date("2025-03-06T00:00:00Z"), reason: "Product freeze" }],
+        allowedHours: { start: "09:00", end: "18:00", weekdays: [1, 2, 3, 4, 5] }
+    };
+    const others = [post("a", "2025-03-03T10:00:00Z"), post("b", "2025-03-03T14:00:00Z"), post("c", "2025-03-03T10:00:00Z", "linkedin")];
+
+    const rulesOf = (slot: string, platform: string = "twitter") =>
+        service.checkSlot(rules, new Date(slot), platform, others).map(violation => violation.rule);
+
+    assert.deepEqual(rulesOf("2025-03-04T10:00:00Z"), []);
+    assert.deepEqual(rulesOf("2025-03-04T10:00:00Z", "Twitter"), []);
+    assert.deepEqual(rulesOf("2025-03-04T20:00:00Z"), [SchedulingRule.AllowedHours]);
+    assert.deepEqual(rulesOf("2025-03-08T10:00:00Z"), [SchedulingRule.AllowedHours]);
+    assert.deepEqual(rulesOf("2025-03-05T10:00:00Z"), [SchedulingRule.Blackout]);
+    assert.deepEqual(rulesOf("2025-03-03T15:30:00Z", "linkedin"), [SchedulingRule.MaxPostsPerDay]);
+    assert.deepEqual(rulesOf("2025-03-03T10:30:00Z"), [SchedulingRule.MinGap, SchedulingRule.MaxPostsPerDay]);
+
+    const [gap] = service.checkSlot(rules, new Date("2025-03-04T10:30:00Z"), "twitter", [post("d", "2025-03-04T10:00:00Z")]);
+    assert.equal(gap.rule, SchedulingRule.MinGap);
+    assert.deepEqual(gap.conflictingContentIds, ["d"]);
+    console.log("Slots are checked against every rule");
+
+    const latest = new Date("2025-04-01T00:00:00Z");
+    const next = (from: string, platform: string = "twitter") =>
+        service.findNextSlot(rules, new Date(from), platform, others, latest)?.toISOString();
+
+    // The daily limit moves to Tuesday, then the blackout to Thursday's opening hour
+    assert.equal(next("2025-03-03T16:00:00Z"), "2025-03-04T09:00:00.000Z");
+    assert.equal(next("2025-03-05T12:00:00Z"), "2025-03-06T09:00:00.000Z");
+    // Friday evening moves past the weekend
+    assert.equal(next("2025-03-07T19:00:00Z"), "2025-03-10T09:00:00.000Z");
+    assert.equal(service.findNextSlot(rules, new Date("2025-03-05T12:00:00Z"), "twitter", others, new Date("2025-03-05T23:00:00Z")), null);
+
+    // Past midnight windows and a gap to an earlier post
+    const night: SchedulingRules = { minGapMinutes: 30, allowedHours: { start: "22:00", end: "02:00" } };
+    assert.deepEqual(service.checkSlot(night, new Date("2025-03-04T01:00:00Z"), "twitter", []), []);
+    assert.equal(
+        service.findNextSlot(night, new Date("2025-03-04T01:45:00Z"), "twitter", [post("e", "2025-03-04T01:30:00Z")], latest)?.toISOString(),
+        "2025-03-04T22:00:00.000Z"
+    );
+    console.log("The next slot meeting the rules is found");
+
+    const blackout = (start: string, end: string) =>
+        SchedulingRulesSchema.safeParse({ blackoutWindows: [{ start: new Date(start), end: new Date(end) }] }).success;
+    assert.ok(blackout("2025-03-05T00:00:00Z", "2025-03-06T00:00:00Z"));
+    assert.ok(!blackout("2025-03-06T00:00:00Z", "2025-03-05T00:00:00Z"));
+    assert.ok(!blackout("2025-03-05T00:00:00Z", "2025-03-05T00:00:00Z"));
+    console.log("Blackout windows must end after they start");
+
+    console.log("Scheduling rules tests completed successfully!");
+}
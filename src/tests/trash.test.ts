@@ -0,0 +1,65 @@
+import assert from "assert/strict";
+import { BrandService } from "../services/brand.service.js";
+import { ContentService } from "../services/content.service.js";
+import { DeletionService } from "../services/deletion.service.js";
+import { DeletableEntity, DeleteMode } from "../models/integrity.model.js";
+import { ConflictError } from "../utils/errors.js";
+
+const brandService = new BrandService();
+const contentService = new ContentService();
+const deletionService = new DeletionService();
+
+export async function runTrashTests() {
+    console.log("\n--- Testing trash and restore ---");
+
+    const brand = await brandService.createBrand({
+        name: `Trash Test Brand ${Date.now()}`,
+        description: "A test brand for the trash"
+    });
+
+    try {
+        const content = await contentService.createContent({
+            brandId: brand._id!,
+            title: `Trash Test Content ${Date.now()}`,
+            content: "Content moved to the trash and restored",
+            platform: "twitter",
+            keywords: ["trash"]
+        });
+
+        // Deleting moves content to the trash by default
+        await contentService.deleteContent(content._id!);
+        assert.equal(await contentService.getContent(content._id!), null, "Content in the trash must not be found");
+
+        const trash = await deletionService.listTrash(DeletableEntity.Content);
+        const item = trash.find(entry => entry.entityId === content._id);
+        assert.ok(item, "Deleted content must be listed in the trash");
+        assert.ok(item.purgeAt > item.deletedAt);
+        console.log("Deleted content moved to the trash");
+
+        const restored = await deletionService.restore(DeletableEntity.Content, content._id!);
+        assert.equal(restored.restored.content, 1);
+        assert.equal((await contentService.getContent(content._id!))?._id, content._id);
+        assert.ok(!(await deletionService.listTrash(DeletableEntity.Content)).some(entry => entry.entityId === content._id));
+        console.log("Restored content left the trash");
+
+        // Content goes to the trash with its brand, and comes back with it
+        await brandService.deleteBrand(brand._id!);
+        assert.equal(await contentService.getContent(content._id!), null, "Content must go to the trash with its brand");
+        await assert.rejects(
+            deletionService.restore(DeletableEntity.Content, content._id!),
+            ConflictError,
+            "Content can't be restored while its brand is in the trash"
+        );
+
+        const restoredBrand = await deletionService.restore(DeletableEntity.Brand, brand._id!);
+        assert.equal(restoredBrand.restored.brands, 1);
+        assert.equal(restoredBrand.restored.content, 1);
+        assert.equal((await contentService.getContent(content._id!))?._id, content._id);
+        console.log("Content went to the trash with its brand and was restored with it");
+
+        console.log("Trash tests completed successfully!");
+    } finally {
+        console.log("Cleaning up trash test documents...");
+        await brandService.deleteBrand(brand._id!, DeleteMode.Cascade);
+    }
+}
@@ -0,0 +1,80 @@
+import assert from "assert/strict";
+import { Content } from "../models/content.model.js";
+import { TwitterService } from "../services/twitter.service.js";
+import { TwitterClient } from "../channels/twitter/client.js";
+import { ThreadPublishError } from "../channels/twitter/types.js";
+import { getPartialResult } from "../services/publishing.service.js";
+
+function content(text: string, format: string = "Tweet"): Content {
+    return { title: "Thread test", content: text, format } as Content;
+}
+
+/**
+ * Twitter service posting to a fake client that breaks after a number of tweets
+ */
+class BreakingTwitterService extends TwitterService {
+    readonly sent: { text: string; replyTo?: string }[] = [];
+    failAfter = Infinity;
+
+    async getClientForBrand(): Promise<TwitterClient> {
+        return {
+            sendTweet: async (text: string, replyTo?: string) => {
+                if (this.sent.length >= this.failAfter) {
+                    throw new Error("Rate limited");
+                }
+                this.sent.push({ text, replyTo });
+                const id = `tweet-${this.sent.length}`;
+                return { id, permanentUrl: `https://x.com/brand/status/${id}` };
+            }
+        } as unknown as TwitterClient;
+    }
+}
+
+export async function runTwitterThreadTests() {
+    console.log("\n--- Testing Twitter threads ---");
+
+    const twitterService = new TwitterService();
+
+    assert.deepEqual(twitterService.getTweetsForContent(content("Launch day is here!")), ["Launch day is here!"]);
+    console.log("Short content is published as a single tweet");
+
+    // Separators split short content too, without a literal "---" in any tweet
+    const tweets = twitterService.getTweetsForContent(content("Launch day is here!\n---\nHere is what's new."));
+    assert.equal(tweets.length, 2);
+    assert.ok(tweets.every(tweet => !tweet.includes("---")));
+    assert.ok(tweets[0].startsWith("Launch day is here!"));
+    assert.ok(tweets[1].startsWith("Here is what's new."));
+    console.log("Content with separators is published as a thread");
+
+    assert.equal(twitterService.getTweetsForContent(content("One\n\nTwo", "Thread")).length, 1);
+    assert.ok(twitterService.getTweetsForContent(content("word ".repeat(100))).length > 1);
+    console.log("Long content is split into a thread");
+
+    // A broken off thread reports its published tweets and resumes after them
+    const breaking = new BreakingTwitterService();
+    const thread = content("First tweet.\n---\nSecond tweet.\n---\nThird tweet.", "Thread");
+    breaking.failAfter = 2;
+
+    const error = await breaking.publish(thread, "brand-id").catch(error => error);
+    assert.ok(error instanceof ThreadPublishError);
+    assert.equal(error.retryable, false);
+    const partial = getPartialResult(error);
+    assert.deepEqual(partial?.platformSpecificData?.tweetIds, ["tweet-1", "tweet-2"]);
+    console.log("A broken off thread reports the tweets it published");
+
+    breaking.failAfter = Infinity;
+    const publishedMetadata = { postId: partial!.id, url: partial!.url, platformSpecificData: partial!.platformSpecificData };
+    const resumed = await breaking.publish({ ...thread, publishedMetadata }, "brand-id");
+    assert.equal(breaking.sent.length, 3, "Published tweets must not be posted again");
+    assert.equal(breaking.sent[2].replyTo, "tweet-2");
+    assert.equal(resumed.id, "tweet-1");
+    assert.deepEqual(resumed.platformSpecificData?.tweetIds, ["tweet-1", "tweet-2", "tweet-3"]);
+
+    await assert.rejects(
+        breaking.publish({ ...thread, content: "Rewritten tweet.\n---\nSecond tweet.\n---\nThird tweet.", publishedMetadata }, "brand-id"),
+        /already published/
+    );
+    console.log("A broken off thread resumes after its published tweets");
+
+    console.log("Twitter thread tests completed successfully!");
+}
@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { AuditSource } from "../models/audit-event.model.js";
+
+/**
+ * Who is making changes, attached to the audit events of the current request or tool call
+ */
+export interface AuditContext {
+    actor: string;
+    source: AuditSource;
+    tool?: string;
+    request?: string;
+}
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run a function with an audit context; repository mutations made while it runs,
+ * including in awaited calls, are attributed to the context
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
+
+/**
+ * Get the audit context of the running code. Code outside any context (the
+ * scheduler, background jobs) is attributed to the system.
+ */
+export function getAuditContext(): AuditContext {
+    return storage.getStore() || { actor: "system", source: AuditSource.System };
+}
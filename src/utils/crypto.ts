@@ -0,0 +1,73 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const PAYLOAD_VERSION = "v1";
+
+/**
+ * Derive the 256-bit encryption key from CREDENTIALS_ENCRYPTION_KEY
+ */
+function getEncryptionKey(): Buffer {
+    const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+    if (!secret) {
+        throw new Error("CREDENTIALS_ENCRYPTION_KEY must be set to store channel credentials");
+    }
+    return createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Encrypt a string with AES-256-GCM.
+ * The result has the form `v1:<iv>:<authTag>:<ciphertext>` (base64 parts).
+ */
+export function encryptSecret(plainText: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [
+        PAYLOAD_VERSION,
+        iv.toString("base64"),
+        authTag.toString("base64"),
+        encrypted.toString("base64")
+    ].join(":");
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ */
+export function decryptSecret(payload: string): string {
+    const [version, iv, authTag, encrypted] = payload.split(":");
+    if (version !== PAYLOAD_VERSION || !iv || !authTag || encrypted === undefined) {
+        throw new Error("Invalid encrypted payload");
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+    return Buffer.concat([
+        decipher.update(Buffer.from(encrypted, "base64")),
+        decipher.final()
+    ]).toString("utf8");
+}
+
+/**
+ * Encrypt a JSON-serializable object
+ */
+export function encryptJson(value: unknown): string {
+    return encryptSecret(JSON.stringify(value));
+}
+
+/**
+ * Decrypt an object encrypted with encryptJson
+ */
+export function decryptJson<T>(payload: string): T {
+    return JSON.parse(decryptSecret(payload)) as T;
+}
+
+/**
+ * Hash a high-entropy secret, such as an API key, for lookup without storing it
+ */
+export function hashSecret(secret: string): string {
+    return createHash("sha256").update(secret).digest("hex");
+}
@@ -0,0 +1,197 @@
+import { DiffChangeType, FieldDiff, TextDiffSegment } from "../models/diff.model.js";
+
+// Texts whose differing parts would need a larger comparison table are reported as replaced as a whole
+const MAX_TEXT_DIFF_CELLS = 4_000_000;
+
+export interface DiffOptions {
+    // Dot-separated paths to leave out, without array item keys
+    ignore?: string[];
+    // Key field of the items of arrays of objects, matched by key rather than by position
+    arrayKeys?: Record<string, string>;
+    // Text fields that get a word-level diff
+    textFields?: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== "object" || value === null) return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function isAbsent(value: unknown): boolean {
+    return value === undefined || value === null;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Path without array item keys, e.g. goals[Awareness].target -> goals.target
+function normalizePath(path: string): string {
+    return path.replace(/\[[^\]]*\]/g, "");
+}
+
+function keyOf(value: unknown): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function appendSegment(segments: TextDiffSegment[], type: TextDiffSegment["type"], text: string): void {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        segments.push({ type, text });
+    }
+}
+
+/**
+ * List the fields added, removed and changed between two documents. Nested objects are
+ * compared field by field, arrays of objects item by item, and text fields word by word.
+ */
+export function diffDocuments(before: unknown, after: unknown, options: DiffOptions = {}): FieldDiff[] {
+    const changes: FieldDiff[] = [];
+    diffValues(before, after, "", changes, {
+        ignore: options.ignore ?? [],
+        arrayKeys: options.arrayKeys ?? {},
+        textFields: options.textFields ?? []
+    });
+    return changes;
+}
+
+/**
+ * Word-level diff of two texts, as runs of equal, removed and added text
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+    const from = before.match(/\s+|\S+/g) || [];
+    const to = after.match(/\s+|\S+/g) || [];
+    const segments: TextDiffSegment[] = [];
+
+    // Only the part between the common start and end needs comparing
+    let start = 0;
+    while (start < from.length && start < to.length && from[start] === to[start]) start++;
+    let end = 0;
+    while (end < from.length - start && end < to.length - start && from[from.length - 1 - end] === to[to.length - 1 - end]) end++;
+
+    const removed = from.slice(start, from.length - end);
+    const added = to.slice(start, to.length - end);
+
+    appendSegment(segments, "equal", from.slice(0, start).join(""));
+    if ((removed.length + 1) * (added.length + 1) > MAX_TEXT_DIFF_CELLS) {
+        appendSegment(segments, "removed", removed.join(""));
+        appendSegment(segments, "added", added.join(""));
+    } else {
+        diffTokens(removed, added, segments);
+    }
+    appendSegment(segments, "equal", from.slice(from.length - end).join(""));
+
+    return segments;
+}
+
+function diffValues(before: unknown, after: unknown, path: string, changes: FieldDiff[], options: Required<DiffOptions>): void {
+    if (path && options.ignore.includes(normalizePath(path))) return;
+    if (isAbsent(before) && isAbsent(after)) return;
+    if (isEqual(before, after)) return;
+
+    if (isAbsent(before)) {
+        changes.push({ path, type: DiffChangeType.Added, to: after });
+    } else if (isAbsent(after)) {
+        changes.push({ path, type: DiffChangeType.Removed, from: before });
+    } else if (isPlainObject(before) && isPlainObject(after)) {
+        for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+            diffValues(before[key], after[key], path ? `${path}.${key}` : key, changes, options);
+        }
+    } else if (Array.isArray(before) && Array.isArray(after)) {
+        diffArrays(before, after, path, changes, options);
+    } else {
+        changes.push({
+            path,
+            type: DiffChangeType.Changed,
+            from: before,
+            to: after,
+            ...(typeof before === "string" && typeof after === "string" && options.textFields.includes(normalizePath(path)) && {
+                textDiff: diffText(before, after)
+            })
+        });
+    }
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: string, changes: FieldDiff[], options: Required<DiffOptions>): void {
+    // Arrays of values, like keywords: report the values added and removed
+    if ([...before, ...after].every(item => !isPlainObject(item) && !Array.isArray(item))) {
+        const removed = before.filter(item => !after.some(other => isEqual(item, other)));
+        const added = after.filter(item => !before.some(other => isEqual(item, other)));
+        if (removed.length === 0 && added.length === 0) {
+            changes.push({ path, type: DiffChangeType.Changed, from: before, to: after }); // Reordered
+            return;
+        }
+        removed.forEach(item => changes.push({ path: `${path}[]`, type: DiffChangeType.Removed, from: item }));
+        added.forEach(item => changes.push({ path: `${path}[]`, type: DiffChangeType.Added, to: item }));
+        return;
+    }
+
+    // Arrays of objects with a key field: match items by key
+    const key = options.arrayKeys[normalizePath(path)];
+    const beforeByKey = key ? indexByKey(before, key) : null;
+    const afterByKey = key ? indexByKey(after, key) : null;
+    if (beforeByKey && afterByKey) {
+        for (const itemKey of new Set([...beforeByKey.keys(), ...afterByKey.keys()])) {
+            diffValues(beforeByKey.get(itemKey), afterByKey.get(itemKey), `${path}[${itemKey}]`, changes, options);
+        }
+        return;
+    }
+
+    // Otherwise match items by position
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+        diffValues(before[index], after[index], `${path}[${index}]`, changes, options);
+    }
+}
+
+/**
+ * Index array items by a key field
+ * @returns null unless every item is an object with a unique key
+ */
+function indexByKey(items: unknown[], key: string): Map<string, unknown> | null {
+    const index = new Map<string, unknown>();
+    for (const item of items) {
+        if (!isPlainObject(item) || isAbsent(item[key])) return null;
+        const itemKey = keyOf(item[key]);
+        if (index.has(itemKey)) return null;
+        index.set(itemKey, item);
+    }
+    return index;
+}
+
+/**
+ * Diff two lists of words and whitespace through their longest common subsequence
+ */
+function diffTokens(from: string[], to: string[], segments: TextDiffSegment[]): void {
+    const width = to.length + 1;
+    // common[i * width + j]: length of the longest common subsequence of from[i..] and to[j..]
+    const common = new Uint32Array((from.length + 1) * width);
+    for (let i = from.length - 1; i >= 0; i--) {
+        for (let j = to.length - 1; j >= 0; j--) {
+            common[i * width + j] = from[i] === to[j]
+                ? common[(i + 1) * width + j + 1] + 1
+                : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < from.length && j < to.length) {
+        if (from[i] === to[j]) {
+            appendSegment(segments, "equal", from[i++]);
+            j++;
+        } else if (common[(i + 1) * width + j] >= common[i * width + j + 1]) {
+            appendSegment(segments, "removed", from[i++]);
+        } else {
+            appendSegment(segments, "added", to[j++]);
+        }
+    }
+    appendSegment(segments, "removed", from.slice(i).join(""));
+    appendSegment(segments, "added", to.slice(j).join(""));
+}
@@ -0,0 +1,31 @@
+import { EventEmitter } from "events";
+import { AuditAction } from "../models/audit-event.model.js";
+
+/**
+ * A mutation of a document, published by the repositories
+ */
+export interface EntityChange {
+    action: AuditAction;
+    entityType: string;
+    entityId: string;
+}
+
+const CHANGE_EVENT = "change";
+const emitter = new EventEmitter();
+// Every MCP session listens for changes
+emitter.setMaxListeners(0);
+
+export function emitEntityChange(change: EntityChange): void {
+    emitter.emit(CHANGE_EVENT, change);
+}
+
+/**
+ * Listen for document changes made by this process
+ * @returns a function that stops listening
+ */
+export function onEntityChange(listener: (change: EntityChange) => void): () => void {
+    emitter.on(CHANGE_EVENT, listener);
+    return () => {
+        emitter.off(CHANGE_EVENT, listener);
+    };
+}
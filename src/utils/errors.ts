@@ -39,6 +39,13 @@ export class BadRequestError extends AppError {
     }
 }
 
+// 401 - Unauthorized
+export class UnauthorizedError extends AppError {
+    constructor(message: string = 'Authentication required', details?: Record<string, any>) {
+        super(message, 401, true, 'UNAUTHORIZED', details);
+    }
+}
+
 // 403 - Forbidden
 export class ForbiddenError extends AppError {
     constructor(message: string = 'Access forbidden', details?: Record<string, any>) {
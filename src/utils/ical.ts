@@ -0,0 +1,129 @@
+// iCalendar (RFC 5545) rendering for calendar feeds
+
+const PRODUCT_ID = "-//cms-mcp//Content Calendar//EN";
+// Content lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalEvent {
+    // Globally unique and stable across updates, so clients update events instead of duplicating them
+    uid: string;
+    start: Date;
+    // All-day events last the UTC day of their start; others last durationMinutes
+    allDay?: boolean;
+    durationMinutes?: number;
+    summary: string;
+    description?: string;
+    categories?: string[];
+    lastModified?: Date;
+}
+
+export interface ICalCalendar {
+    name: string;
+    // How often clients should refresh the feed
+    refreshMinutes?: number;
+    events: ICalEvent[];
+}
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines
+ */
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, continuation lines
+ * starting with a space. Multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+    const lines: string[] = [];
+    let current = "";
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        // Continuation lines lose one octet to the leading space
+        if (octets + size > MAX_LINE_OCTETS - (lines.length > 0 ? 1 : 0)) {
+            lines.push(current);
+            current = "";
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    lines.push(current);
+    return lines.join("\r\n ");
+}
+
+/**
+ * Format a UTC DATE-TIME value, e.g. 20250301T143000Z
+ */
+export function formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format the UTC day of a date as a DATE value, e.g. 20250301
+ */
+export function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function renderEvent(event: ICalEvent, stamp: Date): string[] {
+    const lines = [
+        "BEGIN:VEVENT",
+        `UID:${event.uid}`,
+        `DTSTAMP:${formatDateTime(stamp)}`
+    ];
+
+    if (event.allDay) {
+        const end = new Date(event.start);
+        end.setUTCDate(end.getUTCDate() + 1);
+        lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`);
+    } else {
+        lines.push(`DTSTART:${formatDateTime(event.start)}`, `DURATION:PT${event.durationMinutes ?? 0}M`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+        lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.categories && event.categories.length > 0) {
+        lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+    }
+    if (event.lastModified) {
+        lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+    }
+    lines.push("END:VEVENT");
+
+    return lines;
+}
+
+/**
+ * Render a calendar as an iCalendar document with CRLF line endings
+ */
+export function renderICalendar(calendar: ICalCalendar, stamp: Date = new Date()): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODUCT_ID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(calendar.name)}`
+    ];
+    if (calendar.refreshMinutes) {
+        lines.push(
+            `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`,
+            `X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`
+        );
+    }
+    for (const event of calendar.events) {
+        lines.push(...renderEvent(event, stamp));
+    }
+    lines.push("END:VCALENDAR");
+
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
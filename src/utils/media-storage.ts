@@ -0,0 +1,36 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Local filesystem store for media files, rooted at MEDIA_STORAGE_DIR
+ */
+
+export function getMediaStorageDir(): string {
+    return path.resolve(process.env.MEDIA_STORAGE_DIR || "data/media");
+}
+
+/**
+ * Resolve a storage key to an absolute path, refusing keys that escape the store
+ */
+function resolveKey(storageKey: string): string {
+    const root = getMediaStorageDir();
+    const filePath = path.resolve(root, storageKey);
+    if (!filePath.startsWith(root + path.sep)) {
+        throw new Error(`Invalid media storage key: ${storageKey}`);
+    }
+    return filePath;
+}
+
+export async function saveMediaFile(storageKey: string, data: Buffer): Promise<void> {
+    const filePath = resolveKey(storageKey);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+}
+
+export async function readMediaFile(storageKey: string): Promise<Buffer> {
+    return await readFile(resolveKey(storageKey));
+}
+
+export async function deleteMediaFile(storageKey: string): Promise<void> {
+    await rm(resolveKey(storageKey), { force: true });
+}
@@ -0,0 +1,110 @@
+import { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import http, { IncomingMessage } from "http";
+import https from "https";
+import { BlockList, LookupFunction, isIP } from "net";
+import { BadRequestError } from "./errors.js";
+
+const ALLOWED_PROTOCOLS = ["http:", "https:"];
+
+// Addresses a server-side download must never reach: loopback, link-local
+// (including cloud metadata endpoints), private, shared and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4]
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+    ["::", 128],
+    ["::1", 128],
+    // NAT64 addresses could reach any of the IPv4 ranges above
+    ["64:ff9b::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8]
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 0) return false;
+    return !blockedAddresses.check(address, version === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Check that a URL may be fetched by the server: http or https, on a host that
+ * only resolves to public addresses
+ * @throws BadRequestError otherwise
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+    return (await resolvePublicUrl(url)).url;
+}
+
+/**
+ * GET a URL that passes assertPublicUrl. The connection goes to the addresses that were
+ * checked, so the host can't resolve to another address for the request itself (DNS rebinding).
+ * Redirects are not followed.
+ */
+export async function getPublicUrl(url: string, signal?: AbortSignal): Promise<IncomingMessage> {
+    const { url: parsed, addresses } = await resolvePublicUrl(url);
+    const get = parsed.protocol === "https:" ? https.get : http.get;
+
+    return await new Promise((resolve, reject) => {
+        get(parsed, { lookup: pinnedLookup(addresses), signal }, resolve).on("error", reject);
+    });
+}
+
+/**
+ * DNS lookup answering with already resolved addresses
+ */
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+    return (_hostname, options, callback) => {
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    };
+}
+
+async function resolvePublicUrl(url: string): Promise<{ url: URL; addresses: LookupAddress[] }> {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new BadRequestError(`Invalid URL: ${url}`);
+    }
+
+    if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+        throw new BadRequestError(`Only http and https URLs can be downloaded, not ${parsed.protocol}`);
+    }
+
+    const host = parsed.hostname.replace(/^\[|\]$/g, "");
+    let addresses: LookupAddress[];
+    try {
+        addresses = await lookup(host, { all: true, verbatim: true });
+    } catch {
+        throw new BadRequestError(`Could not resolve ${host}`);
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+        throw new BadRequestError(`${host} is not a public address`);
+    }
+    return { url: parsed, addresses };
+}
@@ -0,0 +1,104 @@
+// Wall-clock times in IANA time zones, using the Intl API
+
+// Local date and time of an instant in a time zone
+export interface ZonedTime {
+    year: number;
+    month: number;      // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: number;    // 0 (Sunday) - 6 (Saturday)
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+            weekday: "short"
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Whether a time zone name (e.g. Europe/Lisbon) is known
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Local date and time of an instant in a time zone
+ */
+export function getZonedTime(date: Date, timeZone: string): ZonedTime {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAYS.indexOf(parts.weekday)
+    };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getOffset(date: Date, timeZone: string): number {
+    const zoned = getZonedTime(date, timeZone);
+    const local = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+    return local - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant of a local date and time in a time zone. Days and minutes out of range
+ * roll over (e.g. day 32), and times skipped by a daylight saving change resolve
+ * to the same wall-clock time after it.
+ */
+export function fromZonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+    const local = Date.UTC(year, month - 1, day, hour, minute);
+    const offset = getOffset(new Date(local), timeZone);
+    const adjusted = getOffset(new Date(local - offset), timeZone);
+    return new Date(local - adjusted);
+}
+
+/**
+ * Local calendar day of an instant in a time zone, as YYYY-MM-DD
+ */
+export function getZonedDay(date: Date, timeZone: string): string {
+    const zoned = getZonedTime(date, timeZone);
+    return `${zoned.year}-${String(zoned.month).padStart(2, "0")}-${String(zoned.day).padStart(2, "0")}`;
+}
+
+/**
+ * Start of the local day following the one containing an instant
+ */
+export function getNextZonedDayStart(date: Date, timeZone: string): Date {
+    const zoned = getZonedTime(date, timeZone);
+    return fromZonedTime(zoned.year, zoned.month, zoned.day + 1, 0, 0, timeZone);
+}